@@ -1,9 +1,25 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
 
+// A dedicated worker follows the policy sent with its own script, so this is
+// what confines code run by public/sandbox-worker.js: scripts, fetches and
+// dynamic imports may only reach the runtimes it loads from the CDN (keep the
+// paths in step with PYODIDE_URL and TYPESCRIPT_URL there).
+const SANDBOX_WORKER_PATH = '/sandbox-worker.js';
+const SANDBOX_WORKER_CSP = [
+  "default-src 'none'",
+  "script-src https://cdn.jsdelivr.net/npm/typescript@5.9.3/lib/typescript.js https://cdn.jsdelivr.net/pyodide/v0.27.2/full/ 'unsafe-eval' 'wasm-unsafe-eval'",
+  "connect-src https://cdn.jsdelivr.net/pyodide/v0.27.2/full/",
+].join('; ');
+
 export function middleware(request: NextRequest) {
   const response = NextResponse.next();
 
+  if (request.nextUrl.pathname === SANDBOX_WORKER_PATH) {
+    response.headers.set('Content-Security-Policy', SANDBOX_WORKER_CSP);
+    return response;
+  }
+
   // Allow iframe embedding
   response.headers.delete('x-frame-options');
   response.headers.set('Content-Security-Policy', "frame-ancestors *;");
@@ -2,6 +2,9 @@ import type { NextConfig } from 'next';
 import withPWAInit from '@ducanh2912/next-pwa';
 
 const nextConfig: NextConfig = {
+  // Tokenizer vocabularies are large JSON blobs; load them from node_modules at runtime
+  serverExternalPackages: ['@lenml/tokenizer-gemini', '@lenml/tokenizer-llama3'],
+
   // Removed Cross-Origin headers that block Firebase popup authentication
   // Firebase requires popup windows to communicate via window.closed and postMessage
   // Setting COOP or COEP headers prevents this communication
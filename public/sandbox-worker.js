@@ -0,0 +1,228 @@
+// public/sandbox-worker.js - Runs one code snippet for the Run button on code blocks
+//
+// Started as a classic worker, one per run, by src/lib/sandbox/runner.ts.
+// The page terminates it when the run exits, is stopped or hits its time
+// limit, so nothing carries over between runs.
+//
+// Network access is enforced by the Content-Security-Policy middleware.ts
+// sends with this script: the only requests it allows (scripts, fetches and
+// dynamic imports alike) are to the Pyodide and TypeScript paths below, so
+// user code cannot reach other hosts or this app's API. lockDown() adds the
+// storage and messaging APIs a policy doesn't cover.
+//
+// page -> worker: { language: 'javascript' | 'typescript' | 'python', code }
+// worker -> page: { type: 'ready' } once the runtime is loaded,
+//                 { type: 'stdout' | 'stderr', text } while running,
+//                 { type: 'exit', code } when done.
+
+const PYODIDE_URL = 'https://cdn.jsdelivr.net/pyodide/v0.27.2/full/';
+const TYPESCRIPT_URL = 'https://cdn.jsdelivr.net/npm/typescript@5.9.3/lib/typescript.js';
+
+const post = message => self.postMessage(message);
+const write = (stream, text) => post({ type: stream, text });
+
+let exited = false;
+function exit(code) {
+  if (exited) return;
+  exited = true;
+  post({ type: 'exit', code });
+}
+
+/** Roughly what Node's console prints for a value */
+function format(value) {
+  if (typeof value === 'string') return value;
+  if (value instanceof Error) return value.stack || `${value.name}: ${value.message}`;
+  if (typeof value === 'function') return `[Function: ${value.name || 'anonymous'}]`;
+  if (typeof value === 'bigint') return `${value}n`;
+  if (typeof value !== 'object' || value === null) return String(value);
+
+  const seen = new WeakSet();
+  try {
+    return JSON.stringify(value, (key, item) => {
+      if (typeof item === 'bigint') return `${item}n`;
+      if (item instanceof Map) return Object.fromEntries(item);
+      if (item instanceof Set) return Array.from(item);
+      if (typeof item === 'object' && item !== null) {
+        if (seen.has(item)) return '[Circular]';
+        seen.add(item);
+      }
+      return item;
+    }, 2);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Remove what user code could use to reach this origin's storage (the worker
+ * shares the app's origin, and with it the signed-in session) or other
+ * contexts. The request APIs go too, though the worker's CSP already limits
+ * them to the runtime CDN. Called once the runtime is loaded.
+ */
+function lockDown() {
+  const names = [
+    'fetch', 'XMLHttpRequest', 'WebSocket', 'WebTransport', 'EventSource', 'importScripts',
+    'indexedDB', 'caches', 'Worker', 'SharedWorker', 'BroadcastChannel',
+  ];
+  for (let scope = self; scope; scope = Object.getPrototypeOf(scope)) {
+    for (const name of names) {
+      if (!Object.prototype.hasOwnProperty.call(scope, name)) continue;
+      try {
+        Object.defineProperty(scope, name, { value: undefined, writable: false, configurable: false });
+      } catch { /* not configurable; nothing better to do */ }
+    }
+  }
+}
+
+// --- JavaScript / TypeScript ---
+
+/** Timers still pending; like Node, the run ends once none are left */
+const pendingTimers = new Set();
+let mainDone = false;
+
+function exitWhenIdle() {
+  if (mainDone && pendingTimers.size === 0) exit(0);
+}
+
+function trackTimers() {
+  const { setTimeout: nativeSetTimeout, setInterval: nativeSetInterval, clearTimeout: nativeClearTimeout, clearInterval: nativeClearInterval } = self;
+
+  self.setTimeout = (callback, delay, ...args) => {
+    const id = nativeSetTimeout(() => {
+      pendingTimers.delete(id);
+      try {
+        if (typeof callback === 'function') callback(...args);
+      } finally {
+        exitWhenIdle();
+      }
+    }, delay);
+    pendingTimers.add(id);
+    return id;
+  };
+  self.setInterval = (callback, delay, ...args) => {
+    const id = nativeSetInterval(callback, delay, ...args);
+    pendingTimers.add(id);
+    return id;
+  };
+  self.clearTimeout = id => {
+    pendingTimers.delete(id);
+    nativeClearTimeout(id);
+    exitWhenIdle();
+  };
+  self.clearInterval = id => {
+    pendingTimers.delete(id);
+    nativeClearInterval(id);
+    exitWhenIdle();
+  };
+}
+
+function captureConsole() {
+  const toStdout = (...args) => write('stdout', args.map(format).join(' ') + '\n');
+  const toStderr = (...args) => write('stderr', args.map(format).join(' ') + '\n');
+  Object.assign(self.console, {
+    log: toStdout,
+    info: toStdout,
+    debug: toStdout,
+    table: toStdout,
+    dir: toStdout,
+    warn: toStderr,
+    error: toStderr,
+    trace: toStderr,
+  });
+}
+
+async function runJavaScript(code, typescript) {
+  let source = code;
+  if (typescript) {
+    importScripts(TYPESCRIPT_URL);
+    source = self.ts.transpileModule(code, {
+      compilerOptions: { target: self.ts.ScriptTarget.ES2022, module: self.ts.ModuleKind.CommonJS },
+    }).outputText;
+  }
+
+  lockDown();
+  captureConsole();
+  trackTimers();
+
+  const fail = error => {
+    write('stderr', format(error) + '\n');
+    exit(1);
+  };
+  self.addEventListener('error', event => {
+    event.preventDefault();
+    fail(event.error || event.message);
+  });
+  self.addEventListener('unhandledrejection', event => {
+    event.preventDefault();
+    fail(event.reason);
+  });
+
+  const exports = {};
+  const module = { exports };
+  const require = name => {
+    throw new Error(`Cannot import "${name}": modules are not available in the sandbox`);
+  };
+  const process = {
+    env: {},
+    argv: [],
+    exit: (code = 0) => exit(code),
+  };
+
+  post({ type: 'ready' });
+
+  // An async function body allows top-level await
+  const AsyncFunction = Object.getPrototypeOf(async function () {}).constructor;
+  try {
+    const main = new AsyncFunction('exports', 'module', 'require', 'process', source);
+    await main(exports, module, require, process);
+    mainDone = true;
+    exitWhenIdle();
+  } catch (error) {
+    fail(error);
+  }
+}
+
+// --- Python (Pyodide) ---
+
+async function runPython(code) {
+  importScripts(`${PYODIDE_URL}pyodide.js`);
+  const pyodide = await self.loadPyodide({ indexURL: PYODIDE_URL });
+  pyodide.setStdout({ batched: text => write('stdout', text + '\n') });
+  pyodide.setStderr({ batched: text => write('stderr', text + '\n') });
+  // There is no terminal to read from: input() raises EOFError
+  pyodide.setStdin({ stdin: () => null });
+
+  // Packages the code imports (numpy, pandas, ...) are fetched before lockDown() removes fetch
+  await pyodide.loadPackagesFromImports(code, {
+    messageCallback: () => {},
+    errorCallback: message => write('stderr', message + '\n'),
+  });
+
+  lockDown();
+  post({ type: 'ready' });
+
+  try {
+    await pyodide.runPythonAsync(code);
+    exit(0);
+  } catch (error) {
+    if (error && error.type === 'SystemExit') {
+      const status = /SystemExit: (\d+)\s*$/.exec(error.message || '');
+      exit(status ? Number(status[1]) : 0);
+      return;
+    }
+    write('stderr', (error && error.message) || String(error));
+    exit(1);
+  }
+}
+
+self.onmessage = async event => {
+  const { language, code } = event.data || {};
+  try {
+    if (language === 'python') await runPython(code);
+    else await runJavaScript(code, language === 'typescript');
+  } catch (error) {
+    // The runtime failed to load
+    write('stderr', `Sandbox error: ${format(error)}\n`);
+    exit(1);
+  }
+};
@@ -1,60 +1,25 @@
-import { NextRequest, NextResponse } from "next/server";
+import { NextRequest, NextResponse, after } from "next/server";
 import { put } from '@vercel/blob';
 import { randomUUID } from "crypto";
-import { extractText, getDocumentProxy } from 'unpdf';
-import mammoth from 'mammoth';
-import * as XLSX from 'xlsx';
-import AdmZip from 'adm-zip';
 import { adminAuth } from '@/lib/firebase-admin';
-import { Ratelimit } from '@upstash/ratelimit';
-import { Redis } from '@upstash/redis';
-import { createGoogleGenerativeAI } from '@ai-sdk/google';
-import { streamText } from 'ai';
+import { extractWithCache } from '@/lib/documents/cache';
+import { loadContextFiles, retrieveContext, formatContextChunks } from '@/lib/rag';
+import type { ScoredChunk } from '@/lib/rag/vectorStore';
+import { getLaneChain, getProvider, streamWithFailover, supportsTools, usableHops, toClientSSEStream } from '@/lib/providers';
+import { loadHistoryPath, assembleHistory, loadPersona, formatCustomInstructions, loadChatProject, formatProjectInstructions } from '@/lib/conversation';
+import { ContextFile, estimateTokens, fitFiles, getTokenCounter, modelTokenSpec, planPromptBudget, takeWithinBudget } from '@/lib/tokens';
+import { Citation, Message } from '@/lib/types';
+import { createStreamingReply, localJobSource, startStreamJob, toResumableSSEStream } from '@/lib/streaming';
+import { runToolLoop, toolSpecsFor, ToolContext, ToolFile } from '@/lib/tools';
+import { findAvailableModel } from '@/lib/models';
+import { routeRequest, routingInfo } from '@/lib/routing';
+import { checkQuota, meterEvents, quotaExceededMessage, quotaHeaders, tierFromClaims } from '@/lib/usage';
+import { rateLimit, rateLimitHeaders, rateLimitedResponse } from '@/lib/rateLimit';
+import { addOwnedBlobRefs, chatBlobRef, getStorageStatus, registerBlob, storageExceededMessage, userBlobPrefix } from '@/lib/blobs';
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
 
-// --- PRODUCTION RATE LIMITING WITH REDIS ---
-let ratelimit: Ratelimit | null = null;
-
-if (process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN) {
-  const redis = new Redis({
-    url: process.env.UPSTASH_REDIS_REST_URL,
-    token: process.env.UPSTASH_REDIS_REST_TOKEN,
-  });
-
-  ratelimit = new Ratelimit({
-    redis,
-    limiter: Ratelimit.slidingWindow(20, '60 s'),
-    analytics: true,
-    prefix: 'auraiq:ratelimit',
-  });
-
-  console.log('✅ Redis rate limiting initialized');
-} else {
-  console.warn('⚠️ Redis not configured, rate limiting disabled');
-}
-
-async function checkRateLimit(userId: string): Promise<{ allowed: boolean; remaining: number; limit: number }> {
-  if (!ratelimit) {
-    return { allowed: true, remaining: 20, limit: 20 };
-  }
-
-  try {
-    const { success, limit, remaining } = await ratelimit.limit(userId);
-
-    return {
-      allowed: success,
-      remaining,
-      limit,
-    };
-  } catch (error) {
-    // If Redis fails, log the error and allow the request (graceful degradation)
-    console.error('⚠️ Redis rate limit check failed, allowing request:', error);
-    return { allowed: true, remaining: 20, limit: 20 };
-  }
-}
-
 // --- FILE PROCESSING HELPERS ---
 const MAX_FILE_SIZE = 25 * 1024 * 1024;
 const MAX_TOTAL_FILES_SIZE = 50 * 1024 * 1024;
@@ -77,27 +42,6 @@ const isTextBased = (file: File): boolean => {
   return textMimeTypes.some(type => file.type.startsWith(type) || file.type === 'application/octet-stream');
 };
 
-const escapeRegExp = (string: string) => {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-};
-
-const estimateTokens = (text: string): number => {
-  return Math.ceil(text.length / 4);
-};
-
-const truncateContent = (content: string, maxTokens: number = 20000): { content: string, wasTruncated: boolean } => {
-  const estimatedTokens = estimateTokens(content);
-  if (estimatedTokens <= maxTokens) {
-    return { content, wasTruncated: false };
-  }
-  const maxChars = maxTokens * 4;
-  const truncated = content.substring(0, maxChars);
-  return {
-    content: truncated + '\n\n[... Content truncated due to size. Total size: ~' + estimatedTokens + ' tokens]',
-    wasTruncated: true
-  };
-};
-
 const validateFileContent = async (file: File): Promise<boolean> => {
   if (file.type === 'application/pdf') {
     const buffer = await file.arrayBuffer();
@@ -133,159 +77,6 @@ const validateFileContent = async (file: File): Promise<boolean> => {
   return true;
 };
 
-async function extractPPTXImages(buffer: Buffer): Promise<{ imageUrls: string[], text: string }> {
-  const imageUrls: string[] = [];
-  let text = '';
-  try {
-    const zip = new AdmZip(buffer);
-    const zipEntries = zip.getEntries();
-    for (const entry of zipEntries) {
-      if (entry.entryName.match(/ppt\/slides\/slide\d+\.xml$/i)) {
-        try {
-          const slideContent = entry.getData().toString('utf8');
-          const textMatches = slideContent.match(/<a:t>([^<]+)<\/a:t>/g);
-          if (textMatches) {
-            textMatches.forEach(match => {
-              const textContent = match.replace(/<\/?a:t>/g, '');
-              text += textContent + ' ';
-            });
-            text += '\n\n';
-          }
-        } catch (e) { console.error('Error extracting text from slide:', e); }
-      }
-      if (entry.entryName.match(/ppt\/media\/.+\.(jpg|jpeg|png|gif|bmp|svg|webp)/i)) {
-        try {
-          const imageBuffer = entry.getData();
-          const extension = entry.entryName.split('.').pop()?.toLowerCase() || 'png';
-          const mimeType = extension === 'jpg' || extension === 'jpeg' ? 'image/jpeg' : `image/${extension}`;
-          const uniqueFilename = `${randomUUID()}.${extension}`;
-          const imageFile = new File([new Uint8Array(imageBuffer)], uniqueFilename, { type: mimeType });
-          const blob = await put(uniqueFilename, imageFile, { access: 'public', addRandomSuffix: true });
-          imageUrls.push(blob.url);
-        } catch (e) { console.error('Error processing PPTX image:', e); }
-      }
-    }
-    text = text.trim();
-  } catch (e) { console.error('Failed to extract PPTX content:', e); }
-  return { imageUrls, text };
-}
-
-async function extractDOCXImages(buffer: Buffer): Promise<{ imageUrls: string[], text: string }> {
-  const imageUrls: string[] = [];
-  let text = '';
-  try {
-    const result = await mammoth.extractRawText({ buffer });
-    text = result.value;
-    const zip = new AdmZip(buffer);
-    const zipEntries = zip.getEntries();
-    for (const entry of zipEntries) {
-      if (entry.entryName.match(/word\/media\/.+\.(jpg|jpeg|png|gif|bmp|svg)/i)) {
-        const imageBuffer = entry.getData();
-        const extension = entry.entryName.split('.').pop()?.toLowerCase() || 'png';
-        const mimeType = extension === 'jpg' || extension === 'jpeg' ? 'image/jpeg' : `image/${extension}`;
-        const uniqueFilename = `${randomUUID()}.${extension}`;
-        const imageFile = new File([new Uint8Array(imageBuffer)], uniqueFilename, { type: mimeType });
-        const blob = await put(uniqueFilename, imageFile, { access: 'public', addRandomSuffix: true });
-        imageUrls.push(blob.url);
-      }
-    }
-  } catch (e) { console.error('Failed to extract DOCX images:', e); }
-  return { imageUrls, text };
-}
-
-async function extractPDFContent(buffer: Uint8Array): Promise<{ imageUrls: string[], text: string }> {
-  const imageUrls: string[] = [];
-  let text = '';
-  try {
-    console.log(`📄 Extracting PDF content - Buffer size: ${buffer.byteLength} bytes`);
-
-    // First, create a PDF document proxy from the buffer
-    const pdf = await getDocumentProxy(buffer);
-    console.log(`✅ PDF proxy created successfully - Pages: ${pdf.numPages}`);
-
-    // Then extract text with mergePages option to get a single string
-    const { text: pdfText, totalPages } = await extractText(pdf, { mergePages: true });
-    text = pdfText;
-
-    console.log(`✅ PDF text extracted - Total pages: ${totalPages}, Text length: ${text.length} characters`);
-    console.log(`📝 First 200 chars: ${text.substring(0, 200)}`);
-
-  } catch (e) {
-    console.error('❌ Failed to extract PDF content:', e);
-    console.error('Error details:', {
-      message: (e as Error).message,
-      stack: (e as Error).stack
-    });
-  }
-  return { imageUrls, text };
-}
-
-// --- GROQ API HELPER (for Daily & Coding lanes) ---
-async function callGroq(messages: any[], model: string, signal: AbortSignal) {
-  const apiKey = process.env.GROQ_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("GROQ_API_KEY is not configured on the server.");
-  }
-
-  const response = await fetch('https://api.groq.com/openai/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature: 0.7,
-      max_tokens: 4096,
-      stream: true,
-    }),
-    signal,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Groq API Error: ${response.status} - ${errorText}`);
-  }
-
-  return response;
-}
-
-// --- OPENROUTER API HELPER (for Analysis lane with vision) ---
-async function callOpenRouter(messages: any[], model: string, signal: AbortSignal) {
-  const apiKey = process.env.OPENROUTER_API_KEY;
-
-  if (!apiKey) {
-    throw new Error("OPENROUTER_API_KEY is not configured on the server.");
-  }
-
-  const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${apiKey}`,
-      'Content-Type': 'application/json',
-      'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
-      'X-Title': 'AuraIQ',
-    },
-    body: JSON.stringify({
-      model,
-      messages,
-      temperature: 0.7,
-      max_tokens: 4096,
-      stream: true,
-    }),
-    signal,
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`OpenRouter API Error: ${response.status} - ${errorText}`);
-  }
-
-  return response;
-}
-
 function validateOrigin(request: NextRequest): boolean {
   const origin = request.headers.get('origin');
   const host = request.headers.get('host');
@@ -303,6 +94,7 @@ function validateOrigin(request: NextRequest): boolean {
 // --- MAIN HANDLER ---
 
 export async function POST(req: NextRequest) {
+  const requestStartedAt = Date.now();
   try {
     if (!validateOrigin(req)) {
       return NextResponse.json({ error: 'Invalid origin' }, { status: 403 });
@@ -323,20 +115,20 @@ export async function POST(req: NextRequest) {
     }
 
     const userId = decodedToken.uid;
+    const tier = tierFromClaims(decodedToken);
 
     // 2. RATE LIMITING
-    const rateCheck = await checkRateLimit(userId);
+    const rateCheck = await rateLimit('chat', { userId, tier });
     if (!rateCheck.allowed) {
+      return rateLimitedResponse(rateCheck);
+    }
+
+    // TOKEN QUOTA
+    const quota = await checkQuota(userId, tier);
+    if (!quota.allowed) {
       return NextResponse.json(
-        { error: 'Rate limit exceeded. Please try again later.' },
-        {
-          status: 429,
-          headers: {
-            'X-RateLimit-Limit': rateCheck.limit.toString(),
-            'X-RateLimit-Remaining': '0',
-            'Retry-After': '60',
-          }
-        }
+        { error: quotaExceededMessage(quota) },
+        { status: 429, headers: quotaHeaders(quota) }
       );
     }
 
@@ -345,13 +137,20 @@ export async function POST(req: NextRequest) {
     const input = formData.get('input') as string;
     const taskType = formData.get('taskType') as string;
     // Get requested model
-    const requestedModel = formData.get('model') as string; // 'auto', 'gemini-flash', 'gemini-pro', 'iq1-base'
+    const requestedModel = formData.get('model') as string; // A model catalog id, e.g. 'auto' or 'gemini-pro'
     const context = formData.get('context') as string;
+    // The server loads history itself when it knows the chat and the prompt's message id
+    const chatId = formData.get('chatId') as string | null;
+    const messageId = formData.get('messageId') as string | null;
     const historyString = formData.get('history') as string;
-    const history = JSON.parse(historyString || '[]');
     const files = formData.getAll('files') as File[]; // Legacy support
     const uploadedFileUrlsString = formData.get('uploadedFileUrls') as string; // New: pre-uploaded files
     const contextFileUrlsString = formData.get('contextFileUrls') as string;
+    const personaId = formData.get('personaId') as string | null;
+    const [persona, project] = await Promise.all([
+      personaId ? loadPersona(userId, personaId) : null,
+      chatId ? loadChatProject(userId, chatId) : null,
+    ]);
 
     // 4. FILE VALIDATION
     let totalFileSize = 0;
@@ -387,219 +186,119 @@ export async function POST(req: NextRequest) {
     }
 
     // 5. PROCESS CONTENT
-    let textContent = input;
+    // Context is collected here and fitted to the model's budget once the lane is known
     const imageUrls: string[] = [];
     let hasImage = false;
+    let contextChunks: ScoredChunk[] = [];
+    const attachedFiles: ContextFile[] = [];
+    // Files the tools may open (e.g. spreadsheets to query)
+    const toolFiles: ToolFile[] = [];
+
+    // Process context files: inject only the chunks relevant to this message.
+    // The persona's default files are included whatever the client selected.
+    const contextFileUrls = contextFileUrlsString ? JSON.parse(contextFileUrlsString) as string[] : [];
+    const personaFileIds = persona?.contextFileIds ?? [];
+    if (contextFileUrls.length > 0 || personaFileIds.length > 0) {
+      try {
+        const contextFiles = await loadContextFiles(userId, contextFileUrls, personaFileIds);
 
-    // Process context files
-    if (contextFileUrlsString) {
-      const contextFileUrls = JSON.parse(contextFileUrlsString) as string[];
-      if (contextFileUrls.length > 0) {
-        const fileContentPromises = contextFileUrls.map(async (url) => {
-          try {
-            const fileName = decodeURIComponent(url.split('/').pop() || 'context file');
-            const response = await fetch(url);
-            if (response.ok) {
-              const contentType = response.headers.get('content-type');
-              const buffer = await response.arrayBuffer();
-              let fileText = '';
-
-              if (contentType && contentType === 'application/pdf') {
-                const { imageUrls: pdfImages, text } = await extractPDFContent(new Uint8Array(buffer));
-                fileText = text;
-                if (pdfImages.length > 0) {
-                  hasImage = true;
-                  imageUrls.push(...pdfImages);
-                }
-              } else if (contentType?.includes('wordprocessingml')) {
-                const { imageUrls: docImages, text } = await extractDOCXImages(Buffer.from(buffer));
-                fileText = text;
-                if (docImages.length > 0) {
-                  hasImage = true;
-                  imageUrls.push(...docImages);
-                }
-              } else if (contentType?.includes('presentationml')) {
-                const { imageUrls: pptImages, text } = await extractPPTXImages(Buffer.from(buffer));
-                fileText = text;
-                if (pptImages.length > 0) {
-                  hasImage = true;
-                  imageUrls.push(...pptImages);
-                }
-              } else if (contentType?.includes('spreadsheetml')) {
-                const workbook = XLSX.read(buffer, { type: 'buffer' });
-                let content = '';
-                const maxRowsPerSheet = 1000;
-                workbook.SheetNames.forEach(sheetName => {
-                  const worksheet = workbook.Sheets[sheetName];
-                  const jsonData = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
-                  content += `Sheet: ${sheetName}\n`;
-                  if (jsonData.length > maxRowsPerSheet) {
-                    content += XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(jsonData.slice(0, maxRowsPerSheet))) + `\n[Truncated]\n\n`;
-                  } else {
-                    content += XLSX.utils.sheet_to_csv(worksheet) + '\n\n';
-                  }
-                });
-                fileText = content;
-              } else if (contentType && contentType.startsWith('image/')) {
-                hasImage = true;
-                imageUrls.push(url);
-              } else {
-                fileText = new TextDecoder('utf-8').decode(buffer);
-              }
-
-              if (fileText) {
-                const { content: truncatedText } = truncateContent(fileText, 15000);
-                textContent += `\n\n--- Context: ${fileName} ---\n${truncatedText}\n--- End ${fileName} ---`;
-              }
-            }
-          } catch (e) {
-            console.error(`Failed to fetch context file ${url}`, e);
+        contextFiles.forEach(file => {
+          toolFiles.push({ name: file.name, url: file.url, contentType: file.contentType, source: 'context' });
+          if (file.imageUrls && file.imageUrls.length > 0) {
+            hasImage = true;
+            imageUrls.push(...file.imageUrls);
           }
         });
-        await Promise.all(fileContentPromises);
+
+        contextChunks = await retrieveContext(userId, contextFiles, input || '');
+        console.log(`📚 Retrieved ${contextChunks.length} context chunks from ${contextFiles.length} files`);
+      } catch (e) {
+        console.error('Failed to retrieve context files', e);
       }
     }
 
-
     // Process pre-uploaded files (client-side direct upload)
-    if (uploadedFileUrlsString) {
-      const uploadedFileUrls = JSON.parse(uploadedFileUrlsString) as string[];
-      if (uploadedFileUrls.length > 0) {
-        const uploadedFilePromises = uploadedFileUrls.map(async (url) => {
-          try {
-            const fileName = decodeURIComponent(url.split('/').pop() || 'uploaded file');
-            const response = await fetch(url);
-            if (response.ok) {
-              const contentType = response.headers.get('content-type');
-              const buffer = await response.arrayBuffer();
-
-              if (contentType && contentType.startsWith('image/')) {
-                hasImage = true;
-                imageUrls.push(url);
-              } else if (contentType === 'application/pdf') {
-                const { imageUrls: pdfImages, text } = await extractPDFContent(new Uint8Array(buffer));
-                if (text) textContent += `\n\n--- File: ${fileName} ---\n${text}\n--- End ---\n`;
-                if (pdfImages.length > 0) { hasImage = true; imageUrls.push(...pdfImages); }
-              } else if (contentType?.includes('wordprocessingml')) {
-                const { imageUrls: docImages, text } = await extractDOCXImages(Buffer.from(buffer));
-                if (text) textContent += `\n\n--- File: ${fileName} ---\n${text}\n--- End ---\n`;
-                if (docImages.length > 0) { hasImage = true; imageUrls.push(...docImages); }
-              } else if (contentType?.includes('presentationml')) {
-                const { imageUrls: pptImages, text } = await extractPPTXImages(Buffer.from(buffer));
-                if (text) textContent += `\n\n--- File: ${fileName} ---\n${text}\n--- End ---\n`;
-                if (pptImages.length > 0) { hasImage = true; imageUrls.push(...pptImages); }
-              } else if (contentType?.includes('spreadsheetml')) {
-                const workbook = XLSX.read(buffer, { type: 'buffer' });
-                let content = '';
-                workbook.SheetNames.forEach(sheetName => {
-                  const worksheet = workbook.Sheets[sheetName];
-                  content += `Sheet: ${sheetName}\n` + XLSX.utils.sheet_to_csv(worksheet) + '\n\n';
-                });
-                if (content) textContent += `\n\n--- File: ${fileName} ---\n${content}\n--- End ---\n`;
-              } else {
-                // Text-based file
-                const text = new TextDecoder('utf-8').decode(buffer);
-                if (text) textContent += `\n\n--- File: ${fileName} ---\n${text}\n--- End ---\n`;
-              }
-            }
-          } catch (e) {
-            console.error(`Failed to fetch uploaded file ${url}`, e);
-          }
-        });
-        await Promise.all(uploadedFilePromises);
-      }
+    const uploadedFileUrls = uploadedFileUrlsString ? JSON.parse(uploadedFileUrlsString) as string[] : [];
+    if (uploadedFileUrls.length > 0 && chatId) {
+      // The chat's messages now use these blobs; also covers uploads whose
+      // completion callback has not arrived (or never does, locally)
+      after(addOwnedBlobRefs(userId, uploadedFileUrls, chatBlobRef(userId, chatId)).catch(error => {
+        console.error('Failed to add blob refs for chat attachments:', error);
+      }));
+    }
+    if (uploadedFileUrls.length > 0) {
+      const uploadedFilePromises = uploadedFileUrls.map(async (url) => {
+        try {
+          const fileName = decodeURIComponent(url.split('/').pop() || 'uploaded file');
+          toolFiles.push({ name: fileName, url, source: 'upload' });
+          const { text, imageUrls: fileImages } = await extractWithCache({ url });
+
+          if (text) attachedFiles.push({ name: fileName, text });
+          if (fileImages.length > 0) { hasImage = true; imageUrls.push(...fileImages); }
+        } catch (e) {
+          console.error(`Failed to fetch uploaded file ${url}`, e);
+        }
+      });
+      await Promise.all(uploadedFilePromises);
     }
 
-    // Process uploaded files (legacy support for old clients)
+    // Process uploaded files (legacy support for old clients). Images are
+    // stored, so they count towards the storage limit like direct uploads
+    const storedBytes = files.filter(file => file.type.startsWith('image/')).reduce((sum, file) => sum + file.size, 0);
+    if (storedBytes > 0) {
+      const storage = await getStorageStatus(userId, tier);
+      if (storage.remainingBytes === 0 || storedBytes > storage.remainingBytes) {
+        return NextResponse.json({ error: storageExceededMessage(storage), storage }, { status: 413 });
+      }
+    }
     if (files.length > 0) {
       const filePromises = files.map(async (file) => {
         if (file.type.startsWith('image/')) {
           hasImage = true;
-          const uniqueFilename = `${randomUUID()}-${file.name}`;
+          const uniqueFilename = `${userBlobPrefix(userId)}${randomUUID()}-${file.name}`;
           const blob = await put(uniqueFilename, file, { access: 'public', addRandomSuffix: true });
+          await registerBlob(userId, { ...blob, size: file.size }, { source: 'attachment', ...(chatId && { chatId }) });
           imageUrls.push(blob.url);
         } else if (file.type === 'application/pdf') {
           const buffer = await file.arrayBuffer();
-          const { imageUrls: pdfImages, text } = await extractPDFContent(new Uint8Array(buffer));
-          if (text) textContent += `\n\n--- File: ${file.name} ---\n${text}\n--- End ---\n`;
+          const { imageUrls: pdfImages, text } = await extractWithCache({ buffer, contentType: file.type });
+          if (text) attachedFiles.push({ name: file.name, text });
           if (pdfImages.length > 0) { hasImage = true; imageUrls.push(...pdfImages); }
         } else if (isTextBased(file)) {
-          const text = await file.text();
-          textContent += `\n\n--- File: ${file.name} ---\n${text}\n--- End ---\n`;
+          attachedFiles.push({ name: file.name, text: await file.text() });
         }
       });
       await Promise.all(filePromises);
     }
 
-    if (!textContent.trim() && imageUrls.length === 0) {
+    const hasText = !!input?.trim() || attachedFiles.length > 0 || contextChunks.length > 0;
+    if (!hasText && imageUrls.length === 0) {
       return NextResponse.json({ error: "Input is empty." }, { status: 400 });
     }
 
-    // THREE-LANE MODEL ROUTING (Groq + OpenRouter)
+    // MODEL ROUTING
     const abortController = new AbortController();
 
-    // Determine which lane/model to use
-    let selectedModel: string;
-    let selectedProvider: 'groq' | 'openrouter' | 'gemini';
-    let modelName: string;
-
-    const codingKeywords = ['code', 'python', 'javascript', 'react', 'error', 'debug', 'typescript', 'java', 'c++', 'function', 'class', 'algorithm'];
-    const isCodingRequest = codingKeywords.some(keyword => new RegExp(`\\b${escapeRegExp(keyword)}\\b`, 'i').test(textContent));
-
-    // LANE SELECTION LOGIC
-    if (requestedModel === 'gemini-flash' || requestedModel === 'iq1-base') {
-      // DAILY LANE: Fast general chat
-      selectedModel = process.env.AI_MODEL_DAILY || 'llama-3.1-8b-instant';
-      selectedProvider = (process.env.AI_PROVIDER_DAILY as 'groq' | 'openrouter') || 'groq';
-      modelName = 'Llama 3.1 8B (Daily)';
-    } else if (requestedModel === 'gemini-pro') {
-      // CODING LANE: Complex reasoning
-      selectedModel = process.env.AI_MODEL_CODING || 'llama-3.3-70b-versatile';
-      selectedProvider = (process.env.AI_PROVIDER_CODING as 'groq' | 'openrouter') || 'groq';
-      modelName = 'Llama 3.3 70B (Coding)';
-    } else {
-      // AUTO-SELECTION LOGIC
-      if (hasImage || files.length > 0) {
-        // Detect file types to determine routing
-        const hasMediaFiles = imageUrls.length > 0 || files.some(f => f.type.startsWith('image/') || f.type.startsWith('video/'));
-        const hasDocuments = files.some(f =>
-          f.type === 'application/pdf' ||
-          f.type.includes('document') ||
-          f.type.includes('presentation') ||
-          f.type.includes('spreadsheet') ||
-          f.type.includes('text/')
-        );
-
-        if (hasMediaFiles) {
-          // MEDIA ANALYSIS (images, videos) → Gemini with vision
-          selectedModel = process.env.AI_MODEL_ANALYSIS || 'gemini-2.5-flash';
-          selectedProvider = (process.env.AI_PROVIDER_ANALYSIS as 'groq' | 'openrouter' | 'gemini') || 'gemini';
-          modelName = 'Gemini 2.5 Flash (Media Analysis)';
-        } else if (hasDocuments) {
-          // DOCUMENT ANALYSIS (PDF, PPT, DOC) → Groq Llama 3.3 70B
-          selectedModel = 'llama-3.3-70b-versatile';
-          selectedProvider = 'groq';
-          modelName = 'Llama 3.3 70B (Document Analysis)';
-        } else {
-          // Other files → Use analysis model
-          selectedModel = process.env.AI_MODEL_ANALYSIS || 'gemini-2.5-flash';
-          selectedProvider = (process.env.AI_PROVIDER_ANALYSIS as 'groq' | 'openrouter' | 'gemini') || 'gemini';
-          modelName = 'Gemini 2.5 Flash (Analysis)';
-        }
-      } else if (taskType === 'coding' || isCodingRequest) {
-        // CODING LANE
-        selectedModel = process.env.AI_MODEL_CODING || 'llama-3.3-70b-versatile';
-        selectedProvider = (process.env.AI_PROVIDER_CODING as 'groq' | 'openrouter') || 'groq';
-        modelName = 'Llama 3.3 70B (Coding)';
-      } else {
-        // DAILY LANE (default)
-        selectedModel = process.env.AI_MODEL_DAILY || 'llama-3.1-8b-instant';
-        selectedProvider = (process.env.AI_PROVIDER_DAILY as 'groq' | 'openrouter') || 'groq';
-        modelName = 'Llama 3.1 8B (Daily)';
-      }
-    }
+    const contextText = [...attachedFiles.map(f => f.text), ...contextChunks.map(c => c.text)].join('\n');
+    // Only used to pick lanes and filter hops; the exact count comes once the tokenizer is known
+    const inputTokens = estimateTokens(input || '') + estimateTokens(contextText);
+
+    // An explicitly selected model is served by the lane its catalog entry names
+    const selected = await findAvailableModel(requestedModel);
+    const routing = await routeRequest({
+      input: input || '',
+      contextText,
+      taskType,
+      imageCount: imageUrls.length,
+      hasVideo: files.some(f => f.type.startsWith('video/')),
+      documents: attachedFiles.map(f => f.name),
+      requiredTokens: inputTokens,
+      selected,
+    });
+    const { lane, purpose } = routing;
+    const chain = getLaneChain(lane);
 
-    console.log(`🤖 Using ${selectedProvider.toUpperCase()}: ${modelName} (requested: ${requestedModel || 'auto'})`);
+    console.log(`🤖 Routing to ${lane.toUpperCase()} lane for ${purpose} (requested: ${requestedModel || 'auto'}; ${routing.source}, ${routing.confidence}): ${routing.reasons.join('; ')}`);
 
     // Prepare system prompt
     const basePrompt = `You are AuraIQ, a helpful and intelligent AI assistant.
@@ -615,198 +314,170 @@ ALWAYS format your responses using GitHub-flavored Markdown.
 - **IMPORTANT**: For tabular data, ALWAYS use Markdown tables.
 - Ensure proper spacing and line breaks.`;
 
-    const systemMessage = context ? `${context}\\n\\n${basePrompt}` : basePrompt;
-
-    // Prepare conversation history
-    const conversationHistory = history.slice(-10).map((msg: any) => ({
-      role: msg.sender === 'user' ? 'user' : 'assistant',
-      content: msg.text
-    }));
-
-    // Build messages array with system prompt and current message
-    let messages: any[] = [
-      { role: 'system', content: systemMessage },
-      ...conversationHistory,
-    ];
-
-    // Call appropriate API based on provider
-    let apiResponse: Response;
+    let systemMessage = basePrompt;
 
-    if (selectedProvider === 'gemini') {
-      // GEMINI DIRECT (for analysis with vision) with automatic failover
-      let geminiResult;
-      let usedKey = 'daily';
+    const projectInstructions = formatProjectInstructions(project);
+    if (projectInstructions) {
+      systemMessage += `\n\n${projectInstructions}`;
+    }
 
-      // Try daily key first, fall back to complex key if quota exceeded
-      try {
-        const googleAI = createGoogleGenerativeAI({
-          apiKey: process.env.GEMINI_API_KEY_DAILY,
-        });
+    // The persona's instructions, and free-form context from older clients
+    const customInstructions = formatCustomInstructions(persona, context || '');
+    if (customInstructions) {
+      systemMessage += `\n\n${customInstructions}`;
+    }
 
-        const geminiModel = googleAI(selectedModel);
+    // Tools are offered to hops whose model supports function calling
+    const toolContext: ToolContext = { userId, projectId: project?.id ?? null, files: toolFiles, signal: abortController.signal };
+    const tools = toolSpecsFor(toolContext);
+
+    // TOKEN BUDGET: counted in the primary model's own tokenizer. Output is
+    // reserved first, then system prompt and message; context files and
+    // history share what is left.
+    const primary = usableHops(chain, { vision: imageUrls.length > 0, inputTokens })[0];
+    const primaryModel = primary?.hop.model ?? '';
+    const tokenSpec = modelTokenSpec(primaryModel, primary?.provider);
+    const counter = await getTokenCounter(tokenSpec.tokenizer);
+
+    const primaryUsesTools = !!primary && tools.length > 0 && supportsTools(primary.provider, primaryModel);
+    if (primaryUsesTools) {
+      systemMessage += `\n\nYou can call tools (${tools.map(t => t.name).join(', ')}). Use them for exact arithmetic, dates and times, spreadsheet figures and searching the user's files instead of estimating.`;
+    }
 
-        // Prepare user content with images
-        const userContent: any[] = [{ type: 'text', text: textContent }];
-        if (imageUrls.length > 0) {
-          imageUrls.forEach(url => {
-            userContent.push({ type: 'image', image: url });
-          });
-        }
+    const budget = planPromptBudget(primaryModel, tokenSpec, {
+      // The summary is appended later; it is counted under history. Tool
+      // definitions are sent alongside the system prompt.
+      system: counter.count(systemMessage) + (primaryUsesTools ? counter.count(JSON.stringify(tools)) : 0),
+      input: counter.count(input || ''),
+    });
 
-        geminiResult = await streamText({
-          model: geminiModel,
-          system: systemMessage,
-          messages: [
-            ...conversationHistory,
-            { role: 'user', content: userContent }
-          ],
-        });
-      } catch (dailyError: any) {
-        // Check if it's a quota error
-        const isQuotaError = dailyError?.message?.includes('quota') ||
-          dailyError?.message?.includes('429') ||
-          dailyError?.message?.includes('RESOURCE_EXHAUSTED');
-
-        if (isQuotaError && process.env.GEMINI_API_KEY_COMPLEX) {
-          console.log('⚠️ Daily Gemini key quota exceeded, switching to complex key...');
-
-          // Retry with complex key
-          const googleAI = createGoogleGenerativeAI({
-            apiKey: process.env.GEMINI_API_KEY_COMPLEX,
-          });
-
-          const geminiModel = googleAI(selectedModel);
-
-          const userContent: any[] = [{ type: 'text', text: textContent }];
-          if (imageUrls.length > 0) {
-            imageUrls.forEach(url => {
-              userContent.push({ type: 'image', image: url });
-            });
-          }
+    // Retrieved chunks are kept whole, best first; files share the rest and are truncated
+    const fittedChunks = takeWithinBudget(
+      contextChunks,
+      chunk => counter.count(formatContextChunks([chunk])),
+      budget.context
+    );
+    const fittedFiles = fitFiles(attachedFiles, budget.context - fittedChunks.tokens, counter);
+    const contextTokens = fittedChunks.tokens + fittedFiles.tokens;
+
+    if (fittedChunks.kept.length < contextChunks.length || fittedFiles.truncated > 0) {
+      console.warn(`✂️ Context over budget: kept ${fittedChunks.kept.length}/${contextChunks.length} chunks, truncated ${fittedFiles.truncated} file(s)`);
+    }
 
-          geminiResult = await streamText({
-            model: geminiModel,
-            system: systemMessage,
-            messages: [
-              ...conversationHistory,
-              { role: 'user', content: userContent }
-            ],
-          });
-
-          usedKey = 'complex';
-        } else {
-          throw dailyError;
-        }
-      }
+    const textContent = [
+      input || '',
+      ...(fittedChunks.kept.length > 0 ? [formatContextChunks(fittedChunks.kept)] : []),
+      ...fittedFiles.blocks,
+    ].filter(Boolean).join('\n\n');
 
-      // Transform to standard SSE format
-      const stream = new ReadableStream({
-        async start(controller) {
-          const encoder = new TextEncoder();
-          try {
-            for await (const chunk of geminiResult.textStream) {
-              const payload = { choices: [{ delta: { content: chunk } }] };
-              controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
-            }
-            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-            controller.close();
-          } catch (error) {
-            console.error("Gemini Stream Error:", error);
-            controller.error(error);
-          }
-        }
-      });
+    // Prepare conversation history: recent turns that fit the primary model's
+    // budget, with a rolling summary standing in for anything older
+    const historyPath: Message[] = chatId && messageId
+      ? await loadHistoryPath(userId, chatId, messageId)
+      : JSON.parse(historyString || '[]');
 
-      return new Response(stream, {
-        headers: {
-          'Content-Type': 'text/event-stream; charset=utf-8',
-          'X-RateLimit-Limit': rateCheck.limit.toString(),
-          'X-RateLimit-Remaining': rateCheck.remaining.toString(),
-          'X-Model-Used': `${modelName} (${usedKey} key)`,
-          'X-Provider': selectedProvider,
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        }
-      });
+    const historyBudget = primary ? Math.min(budget.history, budget.available - contextTokens) : 0;
+    const history = await assembleHistory(userId, chatId, historyPath, historyBudget, counter.count);
 
-    } else {
-      // GROQ or OPENROUTER
-      // Add current user message (with images if using OpenRouter for analysis)
-      if (selectedProvider === 'openrouter' && imageUrls.length > 0) {
-        // OpenRouter vision model supports images
-        const userContent: any[] = [{ type: 'text', text: textContent }];
-        imageUrls.forEach(url => {
-          userContent.push({ type: 'image_url', image_url: { url } });
-        });
-        messages.push({ role: 'user', content: userContent });
-      } else {
-        // Standard text-only message
-        messages.push({ role: 'user', content: textContent });
-      }
+    if (history.summary) {
+      systemMessage += `\n\n**Summary of the earlier conversation** (older messages are not shown):\n${history.summary}`;
+    }
 
-      apiResponse = selectedProvider === 'groq'
-        ? await callGroq(messages, selectedModel, abortController.signal)
-        : await callOpenRouter(messages, selectedModel, abortController.signal);
+    console.log(`🧵 History: ${history.turns.length} turns, ${history.tokens} tokens (budget ${historyBudget}), ${history.summarizedCount} summarized`);
+    console.log(`🔤 Tokens (${counter.tokenizer}${counter.exact ? '' : ', estimated'}): system ${budget.system}, input ${budget.input}, context ${contextTokens}, history ${history.tokens}, output ${budget.output} of ${budget.contextWindow}`);
 
-      // Transform streaming response to frontend format
-      const stream = new ReadableStream({
-        async start(controller) {
-          const reader = apiResponse.body?.getReader();
-          const decoder = new TextDecoder();
-          const encoder = new TextEncoder();
+    const promptTokens = budget.system + budget.input + contextTokens + history.tokens;
 
-          if (!reader) {
-            controller.close();
-            return;
-          }
+    const chatRequest = {
+      system: systemMessage,
+      history: history.turns,
+      input: textContent,
+      imageUrls,
+      maxTokens: budget.output,
+      temperature: persona?.temperature,
+      tools,
+      signal: abortController.signal,
+    };
+    const { hop, events, failures } = await streamWithFailover(lane, chain, chatRequest, { inputTokens: promptTokens });
+
+    const modelName = `${hop.label} (${purpose})`;
+    console.log(`🤖 Served by ${modelName}${failures.length > 0 ? ` after ${failures.length} failed hop(s)` : ''}`);
+
+    // Tool calls are run here and the results fed back until the model answers
+    const servedBy = getProvider(hop.provider)!;
+    const toolEvents = tools.length > 0 && supportsTools(servedBy, hop.model)
+      ? runToolLoop({ provider: servedBy, request: { ...chatRequest, model: hop.model }, events, context: toolContext })
+      : events;
+    // Usage is recorded when the reply ends, tool rounds included
+    const replyEvents = meterEvents(toolEvents, {
+      userId,
+      route: '/api/chat',
+      model: hop.model,
+      provider: hop.provider,
+      promptTokens,
+      files: files.length + uploadedFileUrls.length,
+    });
 
-          try {
-            while (true) {
-              const { done, value } = await reader.read();
-              if (done) break;
-
-              const chunk = decoder.decode(value);
-              const lines = chunk.split('\n');
-
-              for (const line of lines) {
-                if (line.startsWith('data:') && line.length > 5) {
-                  const data = line.substring(5).trim();
-                  if (data === '[DONE]') break;
-
-                  try {
-                    const json = JSON.parse(data);
-                    const content = json.choices?.[0]?.delta?.content || '';
-
-                    if (content) {
-                      const payload = { choices: [{ delta: { content } }] };
-                      controller.enqueue(encoder.encode(`data: ${JSON.stringify(payload)}\n\n`));
-                    }
-                  } catch (e) { /* ignore incomplete JSON */ }
-                }
-              }
-            }
-            controller.enqueue(encoder.encode('data: [DONE]\n\n'));
-            controller.close();
-          } catch (err) {
-            console.error(`${selectedProvider.toUpperCase()} Stream Error:`, err);
-            controller.error(err);
-          }
-        }
-      });
+    const meta = { model: modelName, provider: hop.provider, lane, routing: routingInfo(routing) };
+    // The retrieved chunks that made it into the prompt
+    const citations: Citation[] = fittedChunks.kept.map(chunk => ({
+      id: `${chunk.fileId}#${chunk.index}`,
+      title: chunk.fileName,
+      location: chunk.location,
+      snippet: chunk.text.slice(0, 200),
+    }));
 
-      return new Response(stream, {
-        headers: {
-          'Content-Type': 'text/event-stream; charset=utf-8',
-          'X-RateLimit-Limit': rateCheck.limit.toString(),
-          'X-RateLimit-Remaining': rateCheck.remaining.toString(),
-          'X-Model-Used': modelName,
-          'X-Provider': selectedProvider,
-          'Cache-Control': 'no-cache',
-          'Connection': 'keep-alive',
-        }
+    // Replies to a stored prompt are generated server-side and persisted as
+    // they stream, so closing the tab doesn't lose them. Clients reattach
+    // through /api/chat/stream with the X-Message-Id.
+    let replyId: string | null = null;
+    let body: ReadableStream<Uint8Array>;
+
+    if (chatId && messageId) {
+      replyId = await createStreamingReply(userId, chatId, {
+        parentId: messageId,
+        model: modelName,
+        provider: hop.provider,
+        lane,
+        routing: meta.routing,
+        ...(citations.length > 0 && { citations }),
       });
+      after(startStreamJob({
+        userId,
+        chatId,
+        messageId: replyId,
+        events: replyEvents,
+        abortController,
+        startedAt: requestStartedAt,
+        citations,
+      }));
+      body = toResumableSSEStream(localJobSource(userId, chatId, replyId)!, { ...meta, messageId: replyId });
+    } else {
+      body = toClientSSEStream(replyEvents, meta, requestStartedAt, citations, abortController);
     }
 
+    return new Response(body, {
+      headers: {
+        ...(replyId && { 'X-Message-Id': replyId }),
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        ...rateLimitHeaders(rateCheck),
+        ...quotaHeaders(quota),
+        'X-Model-Used': modelName,
+        'X-Provider': hop.provider,
+        'X-Model-Lane': lane,
+        'X-Failover-Hop': hop.index.toString(),
+        'X-Token-Tokenizer': counter.exact ? counter.tokenizer : `${counter.tokenizer};estimated`,
+        'X-Token-Window': budget.contextWindow.toString(),
+        'X-Token-Output': budget.output.toString(),
+        'X-Token-System': budget.system.toString(),
+        'X-Token-Input': budget.input.toString(),
+        'X-Token-Context': contextTokens.toString(),
+        'X-Token-History': history.tokens.toString(),
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      }
+    });
+
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
     console.error("Error in /api/chat:", errorMessage, error);
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import {
+  abortLocalJob,
+  localJobSource,
+  requestStreamCursor,
+  requestStreamAbort,
+  storedReplySource,
+  toResumableSSEStream,
+} from '@/lib/streaming';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+async function authenticate(request: NextRequest): Promise<string | null> {
+  const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
+  if (!authToken) return null;
+  try {
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
+    return decodedToken.uid;
+  } catch (error) {
+    console.error('Token verification failed:', error);
+    return null;
+  }
+}
+
+/**
+ * Reattach to a reply by message id. Replays what follows ?cursor= (or
+ * Last-Event-ID) and follows the reply until it is complete or aborted.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rate = await rateLimit('chat-stream', { userId });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    const params = request.nextUrl.searchParams;
+    const chatId = params.get('chatId');
+    const messageId = params.get('messageId');
+    if (!chatId || !messageId) {
+      return NextResponse.json({ error: 'chatId and messageId are required.' }, { status: 400 });
+    }
+
+    const replyDoc = await adminDb
+      .collection('users').doc(userId)
+      .collection('chats').doc(chatId)
+      .collection('messages').doc(messageId)
+      .get();
+    const reply = replyDoc.data();
+    if (!replyDoc.exists || reply.sender !== 'ai') {
+      return NextResponse.json({ error: 'Reply not found.' }, { status: 404 });
+    }
+
+    const cursor = requestStreamCursor(params.get('cursor'), request.headers.get('Last-Event-ID'));
+    const source = localJobSource(userId, chatId, messageId) ?? storedReplySource(userId, chatId, messageId);
+    const meta = { model: reply.model || '', provider: reply.provider || '', lane: reply.lane, routing: reply.routing, messageId };
+
+    return withRateLimitHeaders(new Response(toResumableSSEStream(source, meta, cursor), {
+      headers: {
+        'Content-Type': 'text/event-stream; charset=utf-8',
+        'X-Message-Id': messageId,
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    }), rate);
+  } catch (error) {
+    console.error('Stream reattach error:', error);
+    return NextResponse.json({ error: 'Failed to resume the reply.' }, { status: 500 });
+  }
+}
+
+/**
+ * Stop generating a reply. The text streamed so far is kept and the reply
+ * is stored with status "aborted".
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const userId = await authenticate(request);
+    if (!userId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const rate = await rateLimit('chat-stream', { userId });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    const params = request.nextUrl.searchParams;
+    const chatId = params.get('chatId');
+    const messageId = params.get('messageId');
+    if (!chatId || !messageId) {
+      return NextResponse.json({ error: 'chatId and messageId are required.' }, { status: 400 });
+    }
+
+    // Fast path when the stream runs here; the flag reaches any other instance
+    const abortedHere = abortLocalJob(userId, chatId, messageId);
+    const flagged = await requestStreamAbort(userId, chatId, messageId);
+
+    return withRateLimitHeaders(NextResponse.json({ aborted: abortedHere || flagged }), rate);
+  } catch (error) {
+    console.error('Stream abort error:', error);
+    return NextResponse.json({ error: 'Failed to stop the reply.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { tierFromClaims } from '@/lib/usage';
+import { isExportFormat, renderExport } from '@/lib/export';
+import { loadChatsForExport } from '@/lib/export/store';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate and rate limit the user
+    const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
+    const userId = decodedToken.uid;
+
+    const rate = await rateLimit('chat-transfer', { userId, tier: tierFromClaims(decodedToken) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    // 2. Validate format; no chatId means every chat
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format') || 'json';
+    if (!isExportFormat(format)) {
+      return NextResponse.json({ error: 'Format must be markdown, html or json.' }, { status: 400 });
+    }
+    const chatId = params.get('chatId') || undefined;
+
+    // 3. Load and render
+    const chats = await loadChatsForExport(userId, chatId);
+    if (chatId && chats.length === 0) {
+      return NextResponse.json({ error: 'Chat not found.' }, { status: 404 });
+    }
+
+    const { body, contentType, fileName } = await renderExport(chats, format);
+
+    return withRateLimitHeaders(new Response(body, {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+        'Cache-Control': 'no-store',
+      },
+    }), rate);
+
+  } catch (error) {
+    console.error('Chat export error:', error);
+    if ((error as Error).message.includes('token')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Export failed.' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { tierFromClaims } from '@/lib/usage';
+import { ImportFormatError, parseImportFile } from '@/lib/export';
+import { importChats } from '@/lib/export/store';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+// Serverless request bodies are capped at 4.5MB
+const MAX_IMPORT_SIZE = 4 * 1024 * 1024;
+
+export async function POST(request: NextRequest) {
+  try {
+    // 1. Authenticate and rate limit the user
+    const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
+    const userId = decodedToken.uid;
+
+    const rate = await rateLimit('chat-transfer', { userId, tier: tierFromClaims(decodedToken) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    // 2. Read the uploaded export file
+    const formData = await request.formData();
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'An export file is required.' }, { status: 400 });
+    }
+    if (file.size > MAX_IMPORT_SIZE) {
+      return NextResponse.json({ error: 'Export file is too large (max 4MB).' }, { status: 413 });
+    }
+
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      return NextResponse.json({ error: 'Export file is not valid JSON.' }, { status: 400 });
+    }
+
+    // 3. Convert and write
+    const { source, chats } = parseImportFile(json);
+    const chatIds = await importChats(userId, chats);
+
+    return withRateLimitHeaders(NextResponse.json({ success: true, source, imported: chatIds.length, chatIds }), rate);
+
+  } catch (error) {
+    if (error instanceof ImportFormatError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Chat import error:', error);
+    if ((error as Error).message.includes('token')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Import failed.' }, { status: 500 });
+  }
+}
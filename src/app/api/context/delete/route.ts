@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { del } from '@vercel/blob';
 import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { tierFromClaims } from '@/lib/usage';
+import { deleteContextFileIndex } from '@/lib/rag';
+import { deleteOwnedBlobs } from '@/lib/blobs';
+import { forgetExtractions } from '@/lib/documents/cache';
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Authenticate the user
+    // 1. Authenticate and rate limit the user
     const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
     if (!authToken) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -12,6 +16,11 @@ export async function POST(request: NextRequest) {
     const decodedToken = await adminAuth.verifyIdToken(authToken);
     const userId = decodedToken.uid;
 
+    const rate = await rateLimit('file-delete', { userId, tier: tierFromClaims(decodedToken) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
     // 2. Get the file ID from the request body
     const { fileId } = await request.json();
     if (!fileId) {
@@ -31,13 +40,19 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Permission denied.' }, { status: 403 });
     }
 
-    // 4. Delete the file from Vercel Blob
-    await del(fileData.url);
+    // 4. Delete the file from Vercel Blob if this user uploaded it; a URL they
+    // do not own only loses its record here
+    const { deleted, denied } = await deleteOwnedBlobs(userId, [fileData.url]);
+    if (denied.length > 0) {
+      console.warn(`[Context Delete] Kept blob not owned by ${userId}: ${fileData.url}`);
+    }
+    await forgetExtractions(deleted);
 
-    // 5. Delete the file record from Firestore
+    // 5. Delete the file's chunks and its record from Firestore
+    await deleteContextFileIndex(userId, fileId);
     await fileRef.delete();
 
-    return NextResponse.json({ success: true });
+    return withRateLimitHeaders(NextResponse.json({ success: true }), rate);
 
   } catch (error) {
     console.error('Context file delete error:', error);
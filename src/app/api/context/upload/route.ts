@@ -1,9 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { tierFromClaims } from '@/lib/usage';
+import { indexContextFile } from '@/lib/rag';
+import { addBlobRefs, contextFileBlobRef, ownsBlob } from '@/lib/blobs';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Authenticate the user
+    // 1. Authenticate and rate limit the user
     const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
     if (!authToken) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
@@ -11,24 +18,53 @@ export async function POST(request: NextRequest) {
     const decodedToken = await adminAuth.verifyIdToken(authToken);
     const userId = decodedToken.uid;
 
+    const rate = await rateLimit('upload', { userId, tier: tierFromClaims(decodedToken) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
     // 2. Parse the request (now JSON with pre-uploaded file URL)
     const body = await request.json();
     const { fileName, fileUrl } = body;
+    // Project the file belongs to; omitted or null for files outside any project
+    const projectId: string | null = typeof body.projectId === 'string' && body.projectId ? body.projectId : null;
 
     if (!fileName || !fileUrl) {
       return NextResponse.json({ error: 'Missing fileName or fileUrl' }, { status: 400 });
     }
 
+    // Only files this user uploaded can become their context files
+    if (!(await ownsBlob(userId, fileUrl))) {
+      return NextResponse.json({ error: 'Permission denied.' }, { status: 403 });
+    }
+
+    if (projectId) {
+      const project = await adminDb.collection('users').doc(userId).collection('projects').doc(projectId).get();
+      if (!project.exists) {
+        return NextResponse.json({ error: 'Project not found' }, { status: 404 });
+      }
+    }
+
     // 3. Save the file metadata to Firestore
     const fileRef = adminDb.collection('users').doc(userId).collection('contextFiles').doc();
     await fileRef.set({
       name: fileName,
       url: fileUrl,
       userId: userId,
+      projectId,
       uploadedAt: new Date().toISOString(),
     });
+    await addBlobRefs([fileUrl], contextFileBlobRef(userId, fileRef.id));
+
+    // 4. Chunk and embed once so chat requests only retrieve relevant chunks
+    const indexed = await indexContextFile(userId, { id: fileRef.id, name: fileName, url: fileUrl });
 
-    return NextResponse.json({ success: true, fileId: fileRef.id });
+    return withRateLimitHeaders(NextResponse.json({
+      success: true,
+      fileId: fileRef.id,
+      indexed: indexed.indexStatus === 'ready',
+      chunkCount: indexed.chunkCount ?? 0,
+    }), rate);
 
   } catch (error) {
     console.error('Context file metadata save error:', error);
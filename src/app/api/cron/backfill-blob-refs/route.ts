@@ -0,0 +1,51 @@
+// src/app/api/cron/backfill-blob-refs/route.ts - One-off refs for blobs stored before the registry kept them
+//
+// Each call works for up to ~45s and carries on from where the last one
+// stopped; call it until `details.completedAt` is set. Until then, the blob
+// garbage collector never deletes registry entries that have no refs yet.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { backfillBlobRefs, LeaseHeldError } from '@/lib/blobs';
+import { clientIp, rateLimit, rateLimitedResponse } from '@/lib/rateLimit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+// Leaves time to save progress before maxDuration
+const TIME_BUDGET_MS = 45_000;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Counted before the secret check, which also slows down guessing it
+    const rate = await rateLimit('admin', { ip: clientIp(request) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const details = await backfillBlobRefs({ budgetMs: TIME_BUDGET_MS });
+    console.log(`[Blob Ref Backfill] ${details.refsAdded} refs added so far, ${details.completedAt ? 'complete' : `in ${details.phase}`}`);
+
+    return NextResponse.json({ success: true, complete: !!details.completedAt, details });
+  } catch (error) {
+    if (error instanceof LeaseHeldError) {
+      const retryAfter = Math.max(1, Math.ceil((error.expiresAt - Date.now()) / 1000));
+      return NextResponse.json(
+        { error: 'Backfill is already running' },
+        { status: 409, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
+    console.error('[Blob Ref Backfill] Error:', error);
+    return NextResponse.json(
+      { error: 'Backfill failed', details: (error as Error).message },
+      { status: 500 }
+    );
+  }
+}
@@ -1,20 +1,39 @@
-// src/app/api/cron/cleanup-blobs/route.ts - FIXED VERSION
+// src/app/api/cron/cleanup-blobs/route.ts - Incremental blob garbage collection
+//
+//   curl -H "Authorization: Bearer $CRON_SECRET" "http://localhost:3000/api/cron/cleanup-blobs?dryRun=1"
+//
+// Each call carries the current run on from where the last one stopped; see
+// src/lib/blobs/gc.ts. Optional parameters: dryRun=1, pages, pageSize and
+// graceHours. Reports are kept in blobGcRuns/{runId}. A call made while
+// another is still running gets a 409.
+//
+// vercel.json runs this daily, the most Vercel's Hobby plan allows. A large
+// store may need several calls per pass; on Pro the schedule can be hourly.
 
 import { NextRequest, NextResponse } from 'next/server';
-import { list, del } from '@vercel/blob';
-import { adminDb } from '@/lib/firebase-admin';
+import { LeaseHeldError, purgeExpiredReservations, purgeExpiredUploadTokens, runBlobGc } from '@/lib/blobs';
+import { clientIp, rateLimit, rateLimitedResponse } from '@/lib/rateLimit';
 
 export const runtime = 'nodejs';
 export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
 
-interface MessageData {
-  text?: string;
-  sender?: string;
-  timestamp?: number;
-}
+// Leaves time to save the cursor and report before maxDuration
+const TIME_BUDGET_MS = 45_000;
+
+const positiveInt = (value: string | null) => {
+  const n = Number(value);
+  return value && Number.isInteger(n) && n > 0 ? n : undefined;
+};
 
 export async function GET(request: NextRequest) {
   try {
+    // Counted before the secret check, which also slows down guessing it
+    const rate = await rateLimit('admin', { ip: clientIp(request) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
     const authHeader = request.headers.get('authorization');
     const cronSecret = process.env.CRON_SECRET;
     
@@ -22,114 +41,40 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
 
-    console.log('[Blob Cleanup] Starting cleanup job...');
+    const params = request.nextUrl.searchParams;
+    const dryRun = params.get('dryRun') === '1';
+    const graceHours = positiveInt(params.get('graceHours'));
 
-    const { blobs } = await list();
-    console.log(`[Blob Cleanup] Found ${blobs.length} blobs in storage`);
-
-    const referencedUrls = new Set<string>();
-
-    const usersSnapshot = await adminDb.collection('users').get();
-    
-    for (const userDoc of usersSnapshot.docs) {
-      const userId = userDoc.id;
-
-      const contextFilesSnapshot = await adminDb
-        .collection('users')
-        .doc(userId)
-        .collection('contextFiles')
-        .get();
-
-      contextFilesSnapshot.forEach((doc: any) => {
-        const url = doc.data().url;
-        if (url) referencedUrls.add(url);
-      });
-
-      const chatsSnapshot = await adminDb
-        .collection('users')
-        .doc(userId)
-        .collection('chats')
-        .get();
-
-      for (const chatDoc of chatsSnapshot.docs) {
-        const messagesSnapshot = await adminDb
-          .collection('users')
-          .doc(userId)
-          .collection('chats')
-          .doc(chatDoc.id)
-          .collection('messages')
-          .get();
-        
-        messagesSnapshot.forEach((msgDoc: any) => {
-          const msg = msgDoc.data() as MessageData;
-          const urlRegex = /https:\/\/[\w.-]+\.public\.blob\.vercel-storage\.com\/[^\s\])]+/g;
-          const matches = msg.text?.match(urlRegex);
-          if (matches) {
-            matches.forEach(url => referencedUrls.add(url));
-          }
-        });
+    if (!dryRun) {
+      const expiredTokens = await purgeExpiredUploadTokens();
+      const expiredReservations = await purgeExpiredReservations();
+      if (expiredTokens > 0 || expiredReservations > 0) {
+        console.log(`[Blob Cleanup] Removed ${expiredTokens} expired upload tokens and ${expiredReservations} lapsed storage reservations`);
       }
     }
 
-    console.log(`[Blob Cleanup] Found ${referencedUrls.size} referenced URLs`);
-
-    const sevenDaysAgo = new Date();
-    sevenDaysAgo.setDate(sevenDaysAgo.getDate() - 7);
-
-    const orphanedBlobs = blobs.filter(blob => {
-      const isOrphaned = !referencedUrls.has(blob.url);
-      const isOld = new Date(blob.uploadedAt) < sevenDaysAgo;
-      return isOrphaned && isOld;
+    const report = await runBlobGc({
+      dryRun,
+      maxPages: positiveInt(params.get('pages')),
+      pageSize: Math.min(positiveInt(params.get('pageSize')) ?? 200, 1000),
+      ...(graceHours && { graceMs: graceHours * 60 * 60 * 1000 }),
+      budgetMs: TIME_BUDGET_MS,
     });
 
-    console.log(`[Blob Cleanup] Found ${orphanedBlobs.length} orphaned blobs to delete`);
-
-    if (orphanedBlobs.length > 0) {
-      const batchSize = 50;
-      let deletedCount = 0;
-
-      for (let i = 0; i < orphanedBlobs.length; i += batchSize) {
-        const batch = orphanedBlobs.slice(i, i + batchSize);
-        const urlsToDelete = batch.map(blob => blob.url);
-
-        try {
-          await del(urlsToDelete);
-          deletedCount += urlsToDelete.length;
-          console.log(`[Blob Cleanup] Deleted batch ${Math.floor(i / batchSize) + 1}`);
-        } catch (error) {
-          console.error('[Blob Cleanup] Error deleting batch:', error);
-        }
-      }
-
-      console.log(`[Blob Cleanup] Successfully deleted ${deletedCount} orphaned blobs`);
-
-      return NextResponse.json({
-        success: true,
-        message: `Deleted ${deletedCount} orphaned files`,
-        details: {
-          totalBlobs: blobs.length,
-          referencedBlobs: referencedUrls.size,
-          orphanedBlobs: orphanedBlobs.length,
-          deletedBlobs: deletedCount,
-        }
-      });
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: 'No orphaned files found',
-      details: {
-        totalBlobs: blobs.length,
-        referencedBlobs: referencedUrls.size,
-        orphanedBlobs: 0,
-      }
-    });
+    return NextResponse.json({ success: true, report });
 
   } catch (error) {
+    if (error instanceof LeaseHeldError) {
+      const retryAfter = Math.max(1, Math.ceil((error.expiresAt - Date.now()) / 1000));
+      return NextResponse.json(
+        { error: 'Cleanup is already running' },
+        { status: 409, headers: { 'Retry-After': String(retryAfter) } }
+      );
+    }
     console.error('[Blob Cleanup] Error:', error);
     return NextResponse.json(
       { error: 'Cleanup job failed', details: (error as Error).message },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,26 +1,45 @@
-import { del } from '@vercel/blob';
 import { NextRequest, NextResponse } from 'next/server';
 import { adminAuth } from '@/lib/firebase-admin';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { tierFromClaims } from '@/lib/usage';
+import { chatBlobRef, deleteOwnedBlobs, partitionOwnedBlobs, releaseBlobRefs } from '@/lib/blobs';
 
 export async function POST(request: NextRequest) {
   try {
-    // 1. Authenticate the user
+    // 1. Authenticate and rate limit the user
     const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
     if (!authToken) {
       return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
     }
-    // This verifies the user is logged in.
-    // For true security, you'd also check if these URLs belong to this user.
-    await adminAuth.verifyIdToken(authToken);
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
 
-    // 2. Proceed with deletion
-    const { urls } = await request.json();
+    const rate = await rateLimit('file-delete', { userId: decodedToken.uid, tier: tierFromClaims(decodedToken) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    // 2. Delete only the URLs this user owns; the rest are reported back
+    const { urls, chatId } = await request.json();
     if (!urls || !Array.isArray(urls)) {
       return NextResponse.json({ error: 'URLs must be an array.' }, { status: 400 });
     }
-    await adminAuth.verifyIdToken(authToken);
-    await del(urls);
-    return NextResponse.json({ success: true });
+
+    // For a deleted chat, release its refs and keep blobs that are still used
+    // elsewhere (e.g. by an imported copy of the chat)
+    let toDelete: string[] = urls;
+    let kept: string[] = [];
+    if (typeof chatId === 'string' && chatId) {
+      const { owned } = await partitionOwnedBlobs(decodedToken.uid, urls);
+      const released = await releaseBlobRefs(owned, chatBlobRef(decodedToken.uid, chatId));
+      toDelete = [...released.unreferenced, ...urls.filter((url: string) => !owned.includes(url))];
+      kept = released.referenced;
+    }
+
+    const { deleted, denied } = await deleteOwnedBlobs(decodedToken.uid, toDelete);
+    if (denied.length > 0) {
+      console.warn(`[Delete Files] Skipped ${denied.length} URL(s) not owned by ${decodedToken.uid}`);
+    }
+    return withRateLimitHeaders(NextResponse.json({ success: true, deleted, denied, kept }), rate);
 
   } catch (error) {
     console.error("Error deleting files:", error);
@@ -2,6 +2,7 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { clientIp, rateLimit, rateLimitedResponse } from '@/lib/rateLimit';
 
 export const runtime = 'nodejs';
 
@@ -41,6 +42,12 @@ export async function POST(request: NextRequest) {
       }
     }
 
+    // Anonymous reports are counted per IP
+    const rate = await rateLimit('log-error', userId ? { userId } : { ip: clientIp(request) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
     // Log to Firestore
     await adminDb.collection('errorLogs').add({
       ...errorData,
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { getAvailableModels } from '@/lib/models';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { tierFromClaims } from '@/lib/usage';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate and rate limit the user
+    const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
+
+    const rate = await rateLimit('read', { userId: decodedToken.uid, tier: tierFromClaims(decodedToken) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    // 2. Catalog entries that something configured can serve
+    const models = await getAvailableModels();
+    return withRateLimitHeaders(NextResponse.json({ models }, {
+      headers: { 'Cache-Control': 'private, max-age=60' },
+    }), rate);
+
+  } catch (error) {
+    console.error('Model catalog error:', error);
+    if ((error as Error).message.includes('token')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed to load models.' }, { status: 500 });
+  }
+}
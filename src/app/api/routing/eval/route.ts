@@ -0,0 +1,42 @@
+// src/app/api/routing/eval/route.ts - Run the routing eval against the labelled prompts
+//
+//   curl -H "Authorization: Bearer $CRON_SECRET" "http://localhost:3000/api/routing/eval?llm=1"
+//
+// Without `llm=1` only the local rules are measured; with it, messages the
+// rules are unsure about are classified by the routing model, as in
+// production with AI_ROUTER_LLM=true.
+
+import { NextRequest, NextResponse } from 'next/server';
+import { evaluateRouting, ROUTING_CASES } from '@/lib/routing';
+import { clientIp, rateLimit, rateLimitedResponse } from '@/lib/rateLimit';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+export const maxDuration = 60;
+
+export async function GET(request: NextRequest) {
+  try {
+    // Counted before the secret check, which also slows down guessing it
+    const rate = await rateLimit('admin', { ip: clientIp(request) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    const authHeader = request.headers.get('authorization');
+    const cronSecret = process.env.CRON_SECRET;
+
+    if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const llm = request.nextUrl.searchParams.get('llm') === '1';
+    const report = await evaluateRouting(ROUTING_CASES, { llm });
+
+    console.log(`[Routing Eval] ${report.correct}/${report.total} correct (${llm ? 'rules + model' : 'rules only'})`);
+    return NextResponse.json({ llm, ...report });
+
+  } catch (error) {
+    console.error('[Routing Eval] Error:', error);
+    return NextResponse.json({ error: (error as Error).message }, { status: 500 });
+  }
+}
@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { tierFromClaims } from '@/lib/usage';
+import { SearchFilters } from '@/lib/search';
+import { ensureSearchIndex, searchMessages } from '@/lib/search/store';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const parseDate = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const time = Number.isNaN(Number(value)) ? Date.parse(value) : Number(value);
+  return Number.isNaN(time) ? undefined : time;
+};
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate and rate limit the user
+    const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
+    const userId = decodedToken.uid;
+
+    const rate = await rateLimit('search', { userId, tier: tierFromClaims(decodedToken) });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    // 2. Parse query and filters
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim() || '';
+    if (!query) {
+      return NextResponse.json({ error: 'Search query is required.' }, { status: 400 });
+    }
+
+    const attachments = params.get('attachments');
+    const filters: SearchFilters = {
+      from: parseDate(params.get('from')),
+      to: parseDate(params.get('to')),
+      model: params.get('model') || undefined,
+      hasAttachments: attachments === 'yes' ? true : attachments === 'no' ? false : undefined,
+    };
+    const limit = Math.min(50, Math.max(1, parseInt(params.get('limit') || '20') || 20));
+
+    // 3. Search; older messages are indexed a page at a time after responding
+    const result = await searchMessages(userId, query, filters, limit);
+    if (result.indexing) {
+      after(ensureSearchIndex(userId).catch(error => {
+        console.error('Search index backfill error:', error);
+      }));
+    }
+    return withRateLimitHeaders(NextResponse.json(result), rate);
+
+  } catch (error) {
+    console.error('Search error:', error);
+    if ((error as Error).message.includes('token')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Search failed.' }, { status: 500 });
+  }
+}
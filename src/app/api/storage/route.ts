@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth, adminDb } from '@/lib/firebase-admin';
+import { tierFromClaims } from '@/lib/usage';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { deleteOwnedBlobs, getStorageStatus, listStoredBlobs } from '@/lib/blobs';
+import { deleteContextFileIndex } from '@/lib/rag';
+import { forgetExtractions } from '@/lib/documents/cache';
+
+export const runtime = 'nodejs';
+export const maxDuration = 60;
+
+const MAX_DELETE_URLS = 500;
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate and rate limit the user
+    const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
+    const tier = tierFromClaims(decodedToken);
+
+    const rate = await rateLimit('read', { userId: decodedToken.uid, tier });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    // 2. Every stored file; listing also recounts the totals the status reads
+    const blobs = await listStoredBlobs(decodedToken.uid);
+    const status = await getStorageStatus(decodedToken.uid, tier);
+    return withRateLimitHeaders(NextResponse.json({ status, blobs }, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    }), rate);
+
+  } catch (error) {
+    console.error('Storage list error:', error);
+    if ((error as Error).message.includes('token')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed to load storage.' }, { status: 500 });
+  }
+}
+
+export async function DELETE(request: NextRequest) {
+  try {
+    // 1. Authenticate and rate limit the user
+    const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
+    const userId = decodedToken.uid;
+    const tier = tierFromClaims(decodedToken);
+
+    const rate = await rateLimit('file-delete', { userId, tier });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    // 2. Delete the blobs this user owns
+    const { urls } = await request.json();
+    if (!Array.isArray(urls) || urls.length === 0) {
+      return NextResponse.json({ error: 'URLs must be a non-empty array.' }, { status: 400 });
+    }
+    if (urls.length > MAX_DELETE_URLS) {
+      return NextResponse.json({ error: `At most ${MAX_DELETE_URLS} files can be deleted at once.` }, { status: 400 });
+    }
+    const { deleted, denied } = await deleteOwnedBlobs(userId, urls);
+    // Their extracted text and page images go with them
+    await forgetExtractions(deleted);
+
+    // 3. Context files pointing at deleted blobs go too, with their chunks.
+    // Attachments in chat messages are kept and show as unavailable.
+    const contextFilesRef = adminDb.collection('users').doc(userId).collection('contextFiles');
+    let contextFilesDeleted = 0;
+    for (let i = 0; i < deleted.length; i += 30) {
+      const snapshot = await contextFilesRef.where('url', 'in', deleted.slice(i, i + 30)).get();
+      for (const fileDoc of snapshot.docs) {
+        await deleteContextFileIndex(userId, fileDoc.id);
+        await fileDoc.ref.delete();
+        contextFilesDeleted++;
+      }
+    }
+
+    const status = await getStorageStatus(userId, tier);
+    return withRateLimitHeaders(NextResponse.json({ success: true, deleted, denied, contextFilesDeleted, status }), rate);
+
+  } catch (error) {
+    console.error('Storage delete error:', error);
+    if ((error as Error).message.includes('token')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed to delete files.' }, { status: 500 });
+  }
+}
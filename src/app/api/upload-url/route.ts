@@ -1,9 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { handleUpload } from '@vercel/blob/client';
 import { adminAuth } from '@/lib/firebase-admin';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+import { tierFromClaims } from '@/lib/usage';
+import { head } from '@vercel/blob';
+import {
+    BlobDetails,
+    consumeUploadToken,
+    issueUploadToken,
+    registerBlob,
+    releaseStorage,
+    StorageLimitError,
+    userBlobPrefix,
+} from '@/lib/blobs';
 
-// Store valid upload tokens temporarily (in production, use Redis or similar)
-const uploadTokens = new Map<string, { userId: string; expiresAt: number }>();
+// The client's declared size; the token reserves it and the upload is capped at it
+const declaredSize = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.ceil(value) : 0);
 
 export async function POST(request: NextRequest) {
     try {
@@ -22,21 +34,29 @@ export async function POST(request: NextRequest) {
             const decodedToken = await adminAuth.verifyIdToken(authToken);
             const userId = decodedToken.uid;
 
-            // Generate a temporary upload token
-            const uploadToken = `upload_${Date.now()}_${Math.random().toString(36).substring(7)}`;
-            uploadTokens.set(uploadToken, {
-                userId,
-                expiresAt: Date.now() + 5 * 60 * 1000, // 5 minutes
-            });
+            // Every upload needs one of these one-time tokens, so limiting
+            // them limits uploads
+            const tier = tierFromClaims(decodedToken);
+            const rate = await rateLimit('upload', { userId, tier });
+            if (!rate.allowed) {
+                return rateLimitedResponse(rate);
+            }
 
-            // Clean up expired tokens
-            for (const [token, data] of uploadTokens.entries()) {
-                if (data.expiresAt < Date.now()) {
-                    uploadTokens.delete(token);
-                }
+            const size = declaredSize(body.size);
+            if (!size) {
+                return withRateLimitHeaders(NextResponse.json({ error: 'File size is required.' }, { status: 400 }), rate);
             }
 
-            return NextResponse.json({ uploadToken });
+            // One-time token, stored so whichever instance handles the upload
+            // can check it. It reserves the file's size from the user's
+            // storage, so parallel uploads cannot share the same free space.
+            try {
+                const issued = await issueUploadToken({ userId, tier }, size);
+                return withRateLimitHeaders(NextResponse.json(issued), rate);
+            } catch (error) {
+                if (!(error instanceof StorageLimitError)) throw error;
+                return withRateLimitHeaders(NextResponse.json({ error: error.message, storage: error.status }, { status: 413 }), rate);
+            }
         } else {
             // Step 2: Actual file upload request from Vercel Blob client
             const jsonResponse = await handleUpload({
@@ -45,30 +65,31 @@ export async function POST(request: NextRequest) {
                 onBeforeGenerateToken: async (pathname, clientPayload) => {
                     // Validate the upload token from clientPayload
                     let uploadToken: string | undefined;
+                    const details: BlobDetails = {};
                     if (clientPayload) {
                         try {
                             const payload = JSON.parse(clientPayload);
                             uploadToken = payload.uploadToken;
+                            if (payload.source === 'attachment' || payload.source === 'context') details.source = payload.source;
+                            if (typeof payload.chatId === 'string') details.chatId = payload.chatId;
                         } catch (e) {
                             console.error('Failed to parse clientPayload:', e);
                         }
                     }
 
-                    if (!uploadToken || !uploadTokens.has(uploadToken)) {
+                    if (!uploadToken) {
                         throw new Error('Invalid or expired upload token');
                     }
 
-                    const tokenData = uploadTokens.get(uploadToken)!;
+                    // Checks expiry and deletes the token (one-time use)
+                    const { userId, reservedBytes, reservedUntil } = await consumeUploadToken(uploadToken);
 
-                    // Check expiration
-                    if (tokenData.expiresAt < Date.now()) {
-                        uploadTokens.delete(uploadToken);
-                        throw new Error('Upload token expired');
+                    // Uploads may only go under the uploader's own prefix
+                    if (!pathname.startsWith(userBlobPrefix(userId))) {
+                        await releaseStorage(userId, uploadToken);
+                        throw new Error('Upload path not allowed');
                     }
 
-                    // Delete token after use (one-time use)
-                    uploadTokens.delete(uploadToken);
-
                     return {
                         allowedContentTypes: [
                             'image/jpeg', 'image/png', 'image/gif', 'image/webp',
@@ -78,10 +99,25 @@ export async function POST(request: NextRequest) {
                             'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
                             'text/plain', 'text/csv', 'application/json',
                         ],
-                        tokenPayload: JSON.stringify({ userId: tokenData.userId }),
+                        // Vercel Blob refuses anything larger than the reservation,
+                        // or uploads started after it lapses
+                        maximumSizeInBytes: reservedBytes,
+                        validUntil: reservedUntil,
+                        tokenPayload: JSON.stringify({ userId, reservation: uploadToken, ...details }),
                     };
                 },
-                onUploadCompleted: async ({ blob }) => {
+                // Called by Vercel Blob, so it never arrives in local development;
+                // ownership checks fall back to the users/{uid}/ prefix there
+                onUploadCompleted: async ({ blob, tokenPayload }) => {
+                    const { userId, reservation, source, chatId } = JSON.parse(tokenPayload ?? '{}');
+                    if (typeof userId !== 'string') {
+                        throw new Error('Upload completed without an owner');
+                    }
+                    // The completion event carries no size, so ask for it
+                    const { size } = await head(blob.url);
+                    await registerBlob(userId, { ...blob, size }, { source, chatId });
+                    // Now counted in the totals, so the reservation can go
+                    if (typeof reservation === 'string') await releaseStorage(userId, reservation);
                     console.log('✅ Upload completed:', blob.url);
                 },
             });
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { adminAuth } from '@/lib/firebase-admin';
+import { getUsageSummary, tierFromClaims } from '@/lib/usage';
+import { rateLimit, rateLimitedResponse, withRateLimitHeaders } from '@/lib/rateLimit';
+
+export const runtime = 'nodejs';
+
+export async function GET(request: NextRequest) {
+  try {
+    // 1. Authenticate and rate limit the user
+    const authToken = request.headers.get('Authorization')?.split('Bearer ')[1];
+    if (!authToken) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    const decodedToken = await adminAuth.verifyIdToken(authToken);
+    const tier = tierFromClaims(decodedToken);
+
+    const rate = await rateLimit('read', { userId: decodedToken.uid, tier });
+    if (!rate.allowed) {
+      return rateLimitedResponse(rate);
+    }
+
+    // 2. Today's and this month's usage, with the quota they count against
+    const summary = await getUsageSummary(decodedToken.uid, tier);
+    return withRateLimitHeaders(NextResponse.json(summary, {
+      headers: { 'Cache-Control': 'private, no-store' },
+    }), rate);
+
+  } catch (error) {
+    console.error('Usage summary error:', error);
+    if ((error as Error).message.includes('token')) {
+        return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+    return NextResponse.json({ error: 'Failed to load usage.' }, { status: 500 });
+  }
+}
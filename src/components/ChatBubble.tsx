@@ -1,21 +1,168 @@
 'use client';
 
-import { FC, useState, useCallback, memo } from "react";
-import { Message } from "../lib/types";
-import { BotIcon, UserIcon, CopyIcon, CheckIcon, ThumbsUp, ThumbsDown, RefreshCw } from "lucide-react";
-import { FileText } from "lucide-react";
+import { FC, useState, useCallback, useContext, useEffect, useMemo, useRef, memo, createContext } from "react";
+import { Citation, CodeRun, Message, ToolCall } from "../lib/types";
+import { runCode, sandboxLanguage } from "../lib/sandbox";
+import { BotIcon, UserIcon, CopyIcon, CheckIcon, ThumbsUp, ThumbsDown, RefreshCw, Pencil, ChevronLeft, ChevronRight } from "lucide-react";
+import { FileText, Brain, ChevronDown, Link2, Wrench, Loader2, AlertCircle, Play, Square } from "lucide-react";
 import ReactMarkdown from "react-markdown";
 import rehypeRaw from 'rehype-raw';
 import remarkGfm from 'remark-gfm';
 import { Prism as SyntaxHighlighter } from "react-syntax-highlighter";
 import { oneDark } from "@/styles/oneDark";
 
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return bytes + ' B';
+  if (bytes < 1024 * 1024) return (bytes / 1024).toFixed(1) + ' KB';
+  return (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+};
+
 interface ChatBubbleProps {
   message: Message;
-  onRegenerate?: () => void;
+  /** Position among sibling branches; navigation shows when count > 1 */
+  branch?: { index: number; count: number };
+  onSwitchBranch?: (messageId: string, direction: -1 | 1) => void;
+  onEdit?: (messageId: string, text: string) => void;
+  onRegenerate?: (messageId: string) => void;
   onFeedback?: (messageId: string, feedback: 'positive' | 'negative') => void;
+  /** Store a sandbox run of one of this reply's code blocks */
+  onCodeRun?: (messageId: string, run: CodeRun) => void;
 }
 
+/**
+ * Lets code blocks in a reply run in the sandbox. Provided only for replies
+ * from the coding lane; blocks read their last stored run from it.
+ */
+const CodeRunContext = createContext<{ runs?: CodeRun[]; onRun?: (run: CodeRun) => void } | null>(null);
+
+type RunOutput = { stream: 'stdout' | 'stderr'; text: string }[];
+
+// "< 2/3 >" navigation between sibling branches
+const BranchNav: FC<{
+  branch: { index: number; count: number };
+  onSwitch: (direction: -1 | 1) => void;
+}> = ({ branch, onSwitch }) => (
+  <div className="flex items-center gap-0.5 text-xs text-gray-400">
+    <button
+      onClick={() => onSwitch(-1)}
+      disabled={branch.index === 0}
+      className="p-1 rounded-md hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+      title="Previous version"
+    >
+      <ChevronLeft className="w-3.5 h-3.5" />
+    </button>
+    <span className="tabular-nums">{branch.index + 1}/{branch.count}</span>
+    <button
+      onClick={() => onSwitch(1)}
+      disabled={branch.index >= branch.count - 1}
+      className="p-1 rounded-md hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-transparent transition-colors"
+      title="Next version"
+    >
+      <ChevronRight className="w-3.5 h-3.5" />
+    </button>
+  </div>
+);
+
+// Collapsible model reasoning, shown above the answer
+const ReasoningBlock: FC<{ text: string; streaming: boolean }> = ({ text, streaming }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="mb-3 rounded-lg border border-gray-700/60 bg-gray-800/40 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        <Brain className={`w-4 h-4 ${streaming ? 'animate-pulse text-purple-400' : ''}`} />
+        <span>{streaming ? 'Thinking…' : 'Reasoning'}</span>
+        <ChevronDown className={`w-4 h-4 ml-auto transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 text-gray-400 whitespace-pre-wrap border-t border-gray-700/60 pt-2">
+          {text}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const formatToolData = (value: unknown) =>
+  typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+
+// Collapsible card for one tool invocation: arguments, then result or error
+const ToolCallCard: FC<{ toolCall: ToolCall }> = ({ toolCall }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const hasArguments = Object.keys(toolCall.arguments).length > 0;
+
+  return (
+    <div className="rounded-lg border border-gray-700/60 bg-gray-800/40 text-sm">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="w-full flex items-center gap-2 px-3 py-2 text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        <Wrench className="w-4 h-4 flex-shrink-0" />
+        <span className="font-mono text-xs truncate">{toolCall.name}</span>
+        {toolCall.status === 'running' && <Loader2 className="w-3.5 h-3.5 animate-spin text-blue-400" />}
+        {toolCall.status === 'complete' && <CheckIcon className="w-3.5 h-3.5 text-green-400" />}
+        {toolCall.status === 'error' && <AlertCircle className="w-3.5 h-3.5 text-red-400" />}
+        <ChevronDown className={`w-4 h-4 ml-auto transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+      {isOpen && (
+        <div className="px-3 pb-3 border-t border-gray-700/60 pt-2 space-y-2">
+          {hasArguments && (
+            <div>
+              <div className="text-xs text-gray-500 mb-1 font-medium">Arguments</div>
+              <pre className="text-xs text-gray-300 bg-gray-900/60 rounded-md p-2 overflow-x-auto max-h-48">{formatToolData(toolCall.arguments)}</pre>
+            </div>
+          )}
+          {toolCall.status === 'error' ? (
+            <div className="text-xs text-red-300">{toolCall.error}</div>
+          ) : toolCall.status === 'complete' ? (
+            <div>
+              <div className="text-xs text-gray-500 mb-1 font-medium">Result</div>
+              <pre className="text-xs text-gray-300 bg-gray-900/60 rounded-md p-2 overflow-x-auto max-h-64">{formatToolData(toolCall.result)}</pre>
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500">Running…</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Context file chunks and web pages the reply drew on
+const SourceList: FC<{ citations: Citation[] }> = ({ citations }) => (
+  <div className="mt-3 pt-3 border-t border-gray-700/60">
+    <div className="text-xs text-gray-500 mb-2 font-medium">Sources</div>
+    <ol className="flex flex-wrap gap-2">
+      {citations.map((citation, index) => {
+        const label = `${index + 1}. ${citation.title}${citation.location ? ` (${citation.location})` : ''}`;
+        return (
+          <li key={citation.id} title={citation.snippet || label}>
+            {citation.url ? (
+              <a
+                href={citation.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="flex items-center gap-1.5 max-w-[16rem] rounded-md bg-gray-800/60 px-2 py-1 text-xs text-blue-300 hover:bg-gray-700"
+              >
+                <Link2 className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{label}</span>
+              </a>
+            ) : (
+              <span className="flex items-center gap-1.5 max-w-[16rem] rounded-md bg-gray-800/60 px-2 py-1 text-xs text-gray-400">
+                <FileText className="w-3 h-3 flex-shrink-0" />
+                <span className="truncate">{label}</span>
+              </span>
+            )}
+          </li>
+        );
+      })}
+    </ol>
+  </div>
+);
+
 // OPTIMIZATION: Memoize code block component
 const CodeBlock = memo(({ 
   language, 
@@ -28,6 +175,53 @@ const CodeBlock = memo(({
 }) => {
   const [isCopied, setIsCopied] = useState(false);
   const blockId = `${messageId}-${language}-${code.substring(0, 20)}`;
+  const runContext = useContext(CodeRunContext);
+  const runLanguage = runContext ? sandboxLanguage(language) : null;
+  const [liveRun, setLiveRun] = useState<{ output: RunOutput; result?: CodeRun } | null>(null);
+  const runAbortRef = useRef<AbortController | null>(null);
+  const isRunning = !!liveRun && !liveRun.result;
+
+  // Stop a run when its bubble goes away
+  useEffect(() => () => runAbortRef.current?.abort(), []);
+
+  // This session's run, otherwise the last stored run of this exact code
+  const storedRun = runContext?.runs?.filter(run => run.code === code).at(-1);
+  const shownRun = liveRun ?? (storedRun && {
+    output: [
+      { stream: 'stdout' as const, text: storedRun.stdout },
+      { stream: 'stderr' as const, text: storedRun.stderr },
+    ].filter(chunk => chunk.text),
+    result: storedRun,
+  });
+
+  const handleRun = useCallback(async () => {
+    if (!runLanguage) return;
+    if (runAbortRef.current) {
+      runAbortRef.current.abort();
+      return;
+    }
+
+    const controller = new AbortController();
+    runAbortRef.current = controller;
+    setLiveRun({ output: [] });
+
+    const result = await runCode(runLanguage, code, {
+      signal: controller.signal,
+      onOutput: (stream, text) => setLiveRun(prev => {
+        if (!prev) return prev;
+        const last = prev.output[prev.output.length - 1];
+        // Merge consecutive chunks of the same stream
+        const output = last?.stream === stream
+          ? [...prev.output.slice(0, -1), { stream, text: last.text + text }]
+          : [...prev.output, { stream, text }];
+        return { ...prev, output };
+      }),
+    });
+
+    runAbortRef.current = null;
+    setLiveRun(prev => prev && { ...prev, result });
+    runContext?.onRun?.(result);
+  }, [runLanguage, code, runContext]);
 
   const handleCopy = useCallback(() => {
     navigator.clipboard.writeText(code).then(() => {
@@ -40,22 +234,43 @@ const CodeBlock = memo(({
     <div className="relative group my-4">
       <div className="flex items-center justify-between bg-gray-900 px-4 py-2 rounded-t-lg border-b border-gray-700">
         <span className="text-xs font-mono text-gray-400 uppercase">{language}</span>
-        <button
-          onClick={handleCopy}
-          className="flex items-center gap-2 px-2 py-1 text-xs text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 rounded transition-colors"
-        >
-          {isCopied ? (
-            <>
-              <CheckIcon className="w-3.5 h-3.5 text-green-500" />
-              <span>Copied!</span>
-            </>
-          ) : (
-            <>
-              <CopyIcon className="w-3.5 h-3.5" />
-              <span>Copy code</span>
-            </>
+        <div className="flex items-center gap-2">
+          {runLanguage && (
+            <button
+              onClick={handleRun}
+              className="flex items-center gap-2 px-2 py-1 text-xs text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 rounded transition-colors"
+              title={isRunning ? 'Stop the run' : 'Run in a sandbox in your browser'}
+            >
+              {isRunning ? (
+                <>
+                  <Square className="w-3.5 h-3.5 text-red-400" />
+                  <span>Stop</span>
+                </>
+              ) : (
+                <>
+                  <Play className="w-3.5 h-3.5 text-green-400" />
+                  <span>Run</span>
+                </>
+              )}
+            </button>
           )}
-        </button>
+          <button
+            onClick={handleCopy}
+            className="flex items-center gap-2 px-2 py-1 text-xs text-gray-400 hover:text-white bg-gray-800 hover:bg-gray-700 rounded transition-colors"
+          >
+            {isCopied ? (
+              <>
+                <CheckIcon className="w-3.5 h-3.5 text-green-500" />
+                <span>Copied!</span>
+              </>
+            ) : (
+              <>
+                <CopyIcon className="w-3.5 h-3.5" />
+                <span>Copy code</span>
+              </>
+            )}
+          </button>
+        </div>
       </div>
       
       <div className="overflow-x-auto bg-[#0d1117] rounded-b-lg">
@@ -69,6 +284,34 @@ const CodeBlock = memo(({
           {code}
         </SyntaxHighlighter>
       </div>
+
+      {shownRun && (
+        <div className="mt-1 rounded-lg border border-gray-700 bg-black/60 text-xs font-mono">
+          <pre className="max-h-72 overflow-auto p-3 whitespace-pre-wrap break-words">
+            {shownRun.output.map((chunk, index) => (
+              <span key={index} className={chunk.stream === 'stderr' ? 'text-red-300' : 'text-gray-200'}>
+                {chunk.text}
+              </span>
+            ))}
+            {isRunning && shownRun.output.length === 0 && (
+              <span className="text-gray-500">Starting {runLanguage} sandbox…</span>
+            )}
+          </pre>
+          <div className="flex items-center gap-2 px-3 py-1.5 border-t border-gray-700 text-gray-500">
+            {isRunning ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin" />
+                <span>Running…</span>
+              </>
+            ) : shownRun.result && (
+              <span className={shownRun.result.exitCode === 0 ? 'text-green-400' : 'text-red-400'}>
+                {shownRun.result.timedOut ? 'Timed out' : `Exit code ${shownRun.result.exitCode}`}
+                {` · ${shownRun.result.durationMs} ms`}
+              </span>
+            )}
+          </div>
+        </div>
+      )}
     </div>
   );
 }, (prev, next) => prev.code === next.code && prev.language === next.language);
@@ -208,21 +451,37 @@ const MarkdownContent = memo(({ content, messageId }: { content: string; message
 
 MarkdownContent.displayName = 'MarkdownContent';
 
-const ChatBubble: FC<ChatBubbleProps> = ({ message, onRegenerate, onFeedback }) => {
+const ChatBubble: FC<ChatBubbleProps> = ({ message, branch, onSwitchBranch, onEdit, onRegenerate, onFeedback, onCodeRun }) => {
   const isUser = message.sender === "user";
   const [isCopied, setIsCopied] = useState(false);
   const [feedback, setFeedback] = useState<'positive' | 'negative' | null>(null);
-
-  // Extract attachments
-  let promptText = message.text;
-  let attachedFiles: string[] = [];
-  const attachmentRegex = /\[ATTACHMENTS:(.*?)\]/;
-  const match = message.text.match(attachmentRegex);
-
-  if (match && match[1]) {
-    promptText = message.text.replace(attachmentRegex, "").trim();
-    attachedFiles = match[1].split("|||");
-  }
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+  const showBranchNav = !!branch && branch.count > 1 && !!onSwitchBranch;
+
+  const promptText = message.text;
+  const attachedFiles = message.attachments || [];
+
+  // Code in finished Pro Coder (coding lane) replies can be run
+  const runnable = !isUser && message.lane === 'coding' && message.status !== 'streaming';
+  const codeRunContext = useMemo(() => runnable ? {
+    runs: message.codeRuns,
+    onRun: onCodeRun && ((run: CodeRun) => onCodeRun(message.id, run)),
+  } : null, [runnable, message.codeRuns, message.id, onCodeRun]);
+
+  // Model, token usage and latency for AI replies
+  const metaLine = [
+    message.model,
+    message.usage?.totalTokens ? `${message.usage.totalTokens} tokens` : null,
+    message.latencyMs ? `${(message.latencyMs / 1000).toFixed(1)}s` : null,
+    message.finishReason === 'length' ? 'truncated' : null,
+    message.finishReason === 'tool_limit' ? 'tool limit reached' : null,
+    message.status === 'aborted' && message.finishReason !== 'error' ? 'stopped' : null,
+  ].filter(Boolean).join(' · ');
+  // Hovering the meta line explains why the reply went to its lane
+  const routingTitle = message.routing
+    ? `${metaLine}\nRouted to the ${message.routing.lane} lane: ${message.routing.reasons.join('; ')}`
+    : metaLine;
 
   // Copy entire message
   const handleCopy = useCallback(() => {
@@ -233,6 +492,25 @@ const ChatBubble: FC<ChatBubbleProps> = ({ message, onRegenerate, onFeedback })
     });
   }, [promptText, message.text]);
 
+  const handleStartEdit = useCallback(() => {
+    setDraft(message.text);
+    setIsEditing(true);
+  }, [message.text]);
+
+  // Editing sends the new prompt as a sibling branch
+  const handleSubmitEdit = useCallback(() => {
+    const text = draft.trim();
+    if (!text || !onEdit) return;
+    setIsEditing(false);
+    if (text !== message.text.trim()) {
+      onEdit(message.id, text);
+    }
+  }, [draft, message.id, message.text, onEdit]);
+
+  const handleSwitchBranch = useCallback((direction: -1 | 1) => {
+    onSwitchBranch?.(message.id, direction);
+  }, [message.id, onSwitchBranch]);
+
   // Feedback handler
   const handleFeedback = useCallback((type: 'positive' | 'negative') => {
     setFeedback(type);
@@ -243,7 +521,7 @@ const ChatBubble: FC<ChatBubbleProps> = ({ message, onRegenerate, onFeedback })
     <div
       className={`relative flex items-start gap-3 my-4 ${
         isUser ? "justify-end" : ""
-      }`}
+      } ${isUser && (showBranchNav || onEdit) ? "mb-10" : ""}`}
     >
       {!isUser && (
         <div className="flex-shrink-0 w-9 h-9 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center shadow-lg">
@@ -259,24 +537,82 @@ const ChatBubble: FC<ChatBubbleProps> = ({ message, onRegenerate, onFeedback })
         }`}
       >
         <div className={`${isUser ? 'py-0.5 px-4' : 'py-3 px-4'}`}>
-          <div className="prose prose-invert max-w-none">
-            {promptText && (
-              <MarkdownContent content={promptText} messageId={message.id} />
-            )}
-          </div>
+          {isEditing ? (
+            <div className="py-2 min-w-[16rem] md:min-w-[28rem]">
+              <textarea
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter' && !e.shiftKey) {
+                    e.preventDefault();
+                    handleSubmitEdit();
+                  } else if (e.key === 'Escape') {
+                    setIsEditing(false);
+                  }
+                }}
+                rows={Math.min(10, Math.max(2, draft.split('\n').length))}
+                className="w-full bg-blue-800/50 text-white rounded-lg p-2 text-sm resize-y focus:outline-none focus:ring-1 focus:ring-white/40"
+                autoFocus
+              />
+              <div className="flex justify-end gap-2 mt-2">
+                <button
+                  onClick={() => setIsEditing(false)}
+                  className="px-3 py-1 text-xs rounded-md text-white/80 hover:bg-white/10 transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  onClick={handleSubmitEdit}
+                  disabled={!draft.trim()}
+                  className="px-3 py-1 text-xs rounded-md bg-white text-blue-700 font-medium hover:bg-white/90 disabled:opacity-50 transition-colors"
+                >
+                  Send
+                </button>
+              </div>
+            </div>
+          ) : (
+            <>
+              {!isUser && message.reasoning && (
+                <ReasoningBlock text={message.reasoning} streaming={message.status === 'streaming' && !promptText} />
+              )}
+              {!isUser && message.toolCalls && message.toolCalls.length > 0 && (
+                <div className="mb-3 space-y-2">
+                  {message.toolCalls.map(toolCall => (
+                    <ToolCallCard key={toolCall.id} toolCall={toolCall} />
+                  ))}
+                </div>
+              )}
+              <div className="prose prose-invert max-w-none">
+                {promptText && (
+                  <CodeRunContext.Provider value={codeRunContext}>
+                    <MarkdownContent content={promptText} messageId={message.id} />
+                  </CodeRunContext.Provider>
+                )}
+              </div>
+              {!isUser && message.citations && message.citations.length > 0 && (
+                <SourceList citations={message.citations} />
+              )}
+            </>
+          )}
 
           {isUser && attachedFiles.length > 0 && (
             <div className="mt-4 pt-3 border-t border-white/20">
               <div className="text-xs text-white/70 mb-2 font-medium">Attached files:</div>
               <div className="flex flex-col gap-2">
-                {attachedFiles.map((fileName, index) => (
-                  <div
+                {attachedFiles.map((file, index) => (
+                  <a
                     key={index}
+                    href={file.url || undefined}
+                    target="_blank"
+                    rel="noopener noreferrer"
                     className="flex items-center gap-2 bg-white/10 backdrop-blur rounded-lg px-3 py-2 text-sm"
                   >
                     <FileText className="w-4 h-4 text-white/60 flex-shrink-0" />
-                    <span className="truncate text-white/90">{fileName}</span>
-                  </div>
+                    <span className="truncate text-white/90">{file.name}</span>
+                    {file.size > 0 && (
+                      <span className="ml-auto text-xs text-white/50 flex-shrink-0">{formatFileSize(file.size)}</span>
+                    )}
+                  </a>
                 ))}
               </div>
             </div>
@@ -299,7 +635,7 @@ const ChatBubble: FC<ChatBubbleProps> = ({ message, onRegenerate, onFeedback })
 
             {onRegenerate && (
               <button
-                onClick={onRegenerate}
+                onClick={() => onRegenerate(message.id)}
                 className="p-1.5 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
                 title="Regenerate response"
               >
@@ -307,8 +643,16 @@ const ChatBubble: FC<ChatBubbleProps> = ({ message, onRegenerate, onFeedback })
               </button>
             )}
 
+            {showBranchNav && <BranchNav branch={branch!} onSwitch={handleSwitchBranch} />}
+
             <div className="flex-1" />
 
+            {metaLine && (
+              <span className="text-xs text-gray-500 truncate mr-2" title={routingTitle}>
+                {metaLine}
+              </span>
+            )}
+
             <button
               onClick={() => handleFeedback('positive')}
               className={`p-1.5 rounded-md transition-colors ${
@@ -336,6 +680,21 @@ const ChatBubble: FC<ChatBubbleProps> = ({ message, onRegenerate, onFeedback })
         )}
       </div>
 
+      {isUser && !isEditing && (showBranchNav || onEdit) && (
+        <div className="absolute -bottom-7 right-12 flex items-center gap-1">
+          {showBranchNav && <BranchNav branch={branch!} onSwitch={handleSwitchBranch} />}
+          {onEdit && (
+            <button
+              onClick={handleStartEdit}
+              className="p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700 transition-colors"
+              title="Edit message"
+            >
+              <Pencil className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      )}
+
       {isUser && (
         <div className="flex-shrink-0 w-9 h-9 rounded-full bg-gradient-to-br from-gray-600 to-gray-700 flex items-center justify-center shadow-lg">
           <UserIcon className="w-5 h-5 text-white" />
@@ -348,5 +707,21 @@ const ChatBubble: FC<ChatBubbleProps> = ({ message, onRegenerate, onFeedback })
 // OPTIMIZATION: Memoize entire ChatBubble component
 export default memo(ChatBubble, (prev, next) => {
   return prev.message.id === next.message.id && 
-         prev.message.text === next.message.text;
+         prev.message.text === next.message.text &&
+         prev.message.attachments === next.message.attachments &&
+         prev.message.model === next.message.model &&
+         prev.message.usage === next.message.usage &&
+         prev.message.status === next.message.status &&
+         prev.message.reasoning === next.message.reasoning &&
+         prev.message.citations === next.message.citations &&
+         prev.message.toolCalls === next.message.toolCalls &&
+         prev.message.codeRuns === next.message.codeRuns &&
+         prev.message.lane === next.message.lane &&
+         prev.message.routing === next.message.routing &&
+         prev.branch?.index === next.branch?.index &&
+         prev.branch?.count === next.branch?.count &&
+         prev.onEdit === next.onEdit &&
+         prev.onRegenerate === next.onRegenerate &&
+         prev.onCodeRun === next.onCodeRun &&
+         prev.onSwitchBranch === next.onSwitchBranch;
 });
\ No newline at end of file
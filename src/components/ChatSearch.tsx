@@ -0,0 +1,164 @@
+// src/components/ChatSearch.tsx - Sidebar search box with filters and highlighted results
+
+import { FC, useState, ReactNode } from "react";
+import { User } from "firebase/auth";
+import { Search, SlidersHorizontal, X, Loader2 } from "lucide-react";
+import { useMessageSearch, EMPTY_SEARCH_FILTERS } from "../hooks/useMessageSearch";
+import type { SearchHit } from "../lib/search";
+
+interface ChatSearchProps {
+  user: User;
+  onSelectResult: (chatId: string, messageId: string) => void;
+  /** Called with true while a query is active so the sidebar can hide its chat list */
+  onActiveChange?: (active: boolean) => void;
+}
+
+const renderHighlighted = (hit: SearchHit): ReactNode[] => {
+  const parts: ReactNode[] = [];
+  let cursor = 0;
+  hit.highlights.forEach(([start, end], i) => {
+    if (start > cursor) parts.push(hit.snippet.slice(cursor, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-500/30 text-yellow-100 rounded-sm px-0.5">
+        {hit.snippet.slice(start, end)}
+      </mark>
+    );
+    cursor = end;
+  });
+  if (cursor < hit.snippet.length) parts.push(hit.snippet.slice(cursor));
+  return parts;
+};
+
+const ChatSearch: FC<ChatSearchProps> = ({ user, onSelectResult, onActiveChange }) => {
+  const { query, setQuery, filters, setFilters, results, models, indexing, loading, error } = useMessageSearch(user);
+  const [showFilters, setShowFilters] = useState(false);
+
+  const hasFilters = filters.from || filters.to || filters.model || filters.attachments !== 'any';
+
+  const updateQuery = (value: string) => {
+    setQuery(value);
+    onActiveChange?.(!!value.trim());
+  };
+
+  return (
+    <div className="mb-2">
+      <div className="flex items-center gap-1 bg-gray-800/60 border border-gray-700 rounded-lg px-2 focus-within:border-blue-500">
+        <Search className="w-4 h-4 text-gray-400 flex-shrink-0" />
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => updateQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && updateQuery('')}
+          placeholder="Search messages"
+          className="flex-1 min-w-0 bg-transparent text-sm py-2 focus:outline-none"
+        />
+        {query && (
+          <button onClick={() => updateQuery('')} className="p-1 rounded-md text-gray-400 hover:text-white" title="Clear search">
+            <X className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`p-1 rounded-md hover:text-white ${hasFilters ? 'text-blue-400' : 'text-gray-400'}`}
+          title="Filters"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="mt-2 p-2 space-y-2 bg-gray-800/40 rounded-lg text-xs text-gray-300">
+          <div className="flex items-center gap-2">
+            <label className="w-10 text-gray-400">From</label>
+            <input
+              type="date"
+              value={filters.from}
+              onChange={(e) => setFilters({ ...filters, from: e.target.value })}
+              className="flex-1 bg-gray-900 border border-gray-700 rounded px-1 py-1"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="w-10 text-gray-400">To</label>
+            <input
+              type="date"
+              value={filters.to}
+              onChange={(e) => setFilters({ ...filters, to: e.target.value })}
+              className="flex-1 bg-gray-900 border border-gray-700 rounded px-1 py-1"
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="w-10 text-gray-400">Model</label>
+            <select
+              value={filters.model}
+              onChange={(e) => setFilters({ ...filters, model: e.target.value })}
+              className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-1 py-1"
+            >
+              <option value="">Any model</option>
+              {models.map(model => (
+                <option key={model} value={model}>{model}</option>
+              ))}
+            </select>
+          </div>
+          <div className="flex items-center gap-2">
+            <label className="w-10 text-gray-400">Files</label>
+            <select
+              value={filters.attachments}
+              onChange={(e) => setFilters({ ...filters, attachments: e.target.value as typeof filters.attachments })}
+              className="flex-1 bg-gray-900 border border-gray-700 rounded px-1 py-1"
+            >
+              <option value="any">With or without attachments</option>
+              <option value="yes">With attachments</option>
+              <option value="no">Without attachments</option>
+            </select>
+          </div>
+          {hasFilters && (
+            <button onClick={() => setFilters(EMPTY_SEARCH_FILTERS)} className="text-blue-400 hover:text-blue-300">
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+
+      {query.trim() && (
+        <div className="mt-2">
+          {loading && (
+            <div className="flex items-center gap-2 p-3 text-sm text-gray-400">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Searching...
+            </div>
+          )}
+          {!loading && error && <p className="p-3 text-sm text-red-400">{error}</p>}
+          {!loading && !error && results.length === 0 && (
+            <p className="p-3 text-sm text-gray-400">No matching messages</p>
+          )}
+          {!loading && !error && indexing && (
+            <p className="px-3 pb-2 text-xs text-gray-500">Older messages are still being indexed</p>
+          )}
+          {!loading && results.map(hit => (
+            <button
+              key={`${hit.chatId}_${hit.messageId}`}
+              onClick={() => onSelectResult(hit.chatId, hit.messageId)}
+              className="w-full text-left p-3 rounded-lg hover:bg-gray-700/50 transition-colors"
+            >
+              <div className="flex items-center gap-2 text-xs text-gray-400 mb-1">
+                <span className="truncate font-medium text-gray-300">{hit.chatTitle}</span>
+                <span className="flex-shrink-0">· {new Date(hit.timestamp).toLocaleDateString()}</span>
+              </div>
+              <p className="text-sm text-gray-300 line-clamp-3 break-words">
+                <span className="text-gray-500">{hit.sender === 'user' ? 'You: ' : 'AI: '}</span>
+                {renderHighlighted(hit)}
+              </p>
+              {hit.model && (
+                <div className="flex items-center gap-1 mt-1 text-xs text-gray-500 truncate">
+                  {hit.model}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatSearch;
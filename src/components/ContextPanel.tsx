@@ -3,6 +3,12 @@
 import { FC, useRef } from "react";
 import { XIcon } from "./Icons";
 import { UploadCloud, Trash2, FileText } from "lucide-react";
+import PersonaPanel from "./PersonaPanel";
+import ProjectPanel from "./ProjectPanel";
+import type { Persona, Project } from "../lib/types";
+import type { AvailableModel } from "@/lib/models";
+import type { PersonaDraft } from "../lib/personaStorage";
+import type { ProjectDraft } from "../lib/projectStorage";
 
 // We'll define a type for the context files
 export interface ContextFile {
@@ -12,8 +18,16 @@ export interface ContextFile {
 }
 
 interface ContextPanelProps {
-  context: string;
-  setContext: (context: string) => void;
+  /** Active project; files and instructions shown are the project's */
+  project: Project | null;
+  onSaveProject: (draft: ProjectDraft, existing: Project) => Promise<void>;
+  onDeleteProject: (project: Project) => Promise<void>;
+  personas: Persona[];
+  activePersonaId: string | null;
+  onSelectPersona: (personaId: string | null) => void;
+  onSavePersona: (draft: PersonaDraft, existing?: Persona) => Promise<void>;
+  onDeletePersona: (persona: Persona) => Promise<void>;
+  models: AvailableModel[];
   contextFiles: ContextFile[];
   onFileUpload: (file: File) => void;
   onFileDelete: (fileId: string) => void;
@@ -22,8 +36,15 @@ interface ContextPanelProps {
 }
 
 const ContextPanel: FC<ContextPanelProps> = ({ 
-  context, 
-  setContext, 
+  project,
+  onSaveProject,
+  onDeleteProject,
+  personas,
+  activePersonaId,
+  onSelectPersona,
+  onSavePersona,
+  onDeletePersona,
+  models,
   contextFiles,
   onFileUpload,
   onFileDelete,
@@ -46,7 +67,7 @@ const ContextPanel: FC<ContextPanelProps> = ({
   return (
     <>
       <div
-        className={`fixed top-0 right-0 h-full w-full max-w-xs bg-gray-800 flex flex-col border-l border-gray-700
+        className={`fixed top-0 right-0 h-full w-full max-w-xs bg-gray-800 flex flex-col border-l border-gray-700 overflow-y-auto
                     transition-transform transform z-40
                     ${isOpen ? "translate-x-0" : "translate-x-full"} 
                     lg:static lg:translate-x-0 lg:flex-shrink-0`}
@@ -54,13 +75,29 @@ const ContextPanel: FC<ContextPanelProps> = ({
         <div className="p-4 border-b border-gray-700 flex justify-between items-center">
           <div>
               <h2 className="text-lg font-semibold text-gray-300">Context & Memory</h2>
-              <p className="text-sm text-gray-500">Provide persistent context for the AI.</p>
+              <p className="text-sm text-gray-500">
+                {project ? `Context for the "${project.name}" project.` : 'Provide persistent context for the AI.'}
+              </p>
           </div>
           <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-700 lg:hidden">
               <XIcon className="w-6 h-6" />
           </button>
         </div>
 
+        {project && (
+          <ProjectPanel project={project} onSave={onSaveProject} onDelete={onDeleteProject} />
+        )}
+
+        <PersonaPanel
+          personas={personas}
+          activePersonaId={activePersonaId}
+          onSelect={onSelectPersona}
+          onSave={onSavePersona}
+          onDelete={onDeletePersona}
+          models={models}
+          contextFiles={contextFiles}
+        />
+
         {/* --- MODIFICATION: New Section for File Context --- */}
         <div className="p-4 border-b border-gray-700">
             <h3 className="text-base font-medium text-gray-400 mb-2">Context Files</h3>
@@ -93,16 +130,9 @@ const ContextPanel: FC<ContextPanelProps> = ({
         </div>
         {/* --- End of New Section --- */}
         
-        <div className="flex-grow p-4">
-          <textarea
-            value={context}
-            onChange={(e) => setContext(e.target.value)}
-            placeholder="Enter long-term context here..."
-            className="w-full h-full bg-gray-700 border border-gray-600 text-gray-200 rounded-lg p-4 resize-none focus:outline-none focus:ring-2 focus:ring-blue-500"
-          />
-        </div>
+        <div className="flex-grow" />
         <div className="p-4 border-t border-gray-700 text-xs text-gray-500">
-          <p>This text will be sent with every message to maintain context.</p>
+          <p>The persona's instructions and default files are sent with every message in chats that use it.</p>
         </div>
       </div>
 
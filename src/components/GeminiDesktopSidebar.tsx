@@ -3,11 +3,14 @@
 import { FC, useState } from "react";
 import { PlusIcon, SettingsIcon, MenuIcon, LogoutIcon } from "./Icons";
 import { Auth, signOut } from "firebase/auth"; // Import Auth and signOut
+import { BarChart3, HardDrive } from "lucide-react";
 
 // MODIFICATION: Add the 'auth' prop
 interface GeminiDesktopSidebarProps {
   onNewChat: () => void;
   toggleMobileSidebar: () => void;
+  onOpenUsage: () => void;
+  onOpenStorage: () => void;
   auth: Auth; 
 }
 
@@ -20,7 +23,7 @@ const SidebarIcon: FC<{ children: React.ReactNode; text: string; onClick?: () =>
     </div>
 );
 
-const GeminiDesktopSidebar: FC<GeminiDesktopSidebarProps> = ({ onNewChat, toggleMobileSidebar, auth }) => {
+const GeminiDesktopSidebar: FC<GeminiDesktopSidebarProps> = ({ onNewChat, toggleMobileSidebar, onOpenUsage, onOpenStorage, auth }) => {
   // MODIFICATION: Add state to manage the settings menu
   const [isSettingsMenuOpen, setIsSettingsMenuOpen] = useState(false);
 
@@ -48,6 +51,20 @@ const GeminiDesktopSidebar: FC<GeminiDesktopSidebarProps> = ({ onNewChat, toggle
             {/* MODIFICATION: The logout dropdown menu */}
             {isSettingsMenuOpen && (
                 <div className="absolute bottom-0 left-20 mb-2 w-48 bg-gray-800 rounded-md shadow-lg z-20">
+                    <button
+                        onClick={() => { onOpenUsage(); setIsSettingsMenuOpen(false); }}
+                        className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-300 hover:bg-gray-700 rounded-md"
+                    >
+                        <BarChart3 className="w-5 h-5"/>
+                        <span>Usage</span>
+                    </button>
+                    <button
+                        onClick={() => { onOpenStorage(); setIsSettingsMenuOpen(false); }}
+                        className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-300 hover:bg-gray-700 rounded-md"
+                    >
+                        <HardDrive className="w-5 h-5"/>
+                        <span>Storage</span>
+                    </button>
                     <button
                         onClick={() => signOut(auth)}
                         className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-300 hover:bg-gray-700 rounded-md"
@@ -6,19 +6,29 @@ import { useState, FC, FormEvent, useEffect, useRef, useCallback, useMemo } from
 import { useSearchParams } from 'next/navigation';
 import { User, Auth, signOut } from 'firebase/auth';
 import { Firestore, collection, addDoc, doc, deleteDoc, updateDoc, getDocs } from 'firebase/firestore';
-import { Message } from '../lib/types';
-import { addMessage, deleteAllMessages } from '../lib/messageStorage';
+import { Attachment, CodeRun, Message, Persona, Project } from '../lib/types';
+import { addMessage, deleteAllMessages, saveCodeRuns } from '../lib/messageStorage';
+import { appendCodeRun } from '../lib/sandbox';
+import { savePersona, deletePersona, setChatPersona, PersonaDraft } from '../lib/personaStorage';
+import { saveProject, deleteProject, moveChatToProject, ProjectDraft } from '../lib/projectStorage';
+import { getMessageBlobUrls } from '../lib/messageSchema';
+import { applyChatEvent, formatStreamCursor, readChatStream } from '../lib/chatStream';
 import { useChats } from '../hooks/useChats';
 import { useContextFiles } from '../hooks/useContextFiles';
 import { useMessages } from '../hooks/useMessages';
+import { useModelCatalog } from '../hooks/useModelCatalog';
+import { usePersonas } from '../hooks/usePersonas';
+import { useProjects } from '../hooks/useProjects';
 import GeminiDesktopSidebar from './GeminiDesktopSidebar';
 import GeminiSidebar from './GeminiSidebar';
 import ChatInput from './ChatInput';
 import ContextPanel from './ContextPanel';
 import ChatBubble from './ChatBubble';
-import { BrainCircuit, Loader2 } from 'lucide-react';
+import { BarChart3, BrainCircuit, HardDrive, Loader2 } from 'lucide-react';
 import { MenuIcon, UserIcon, LogoutIcon, BotIcon } from './Icons';
 import ErrorBoundary from './ErrorBoundary';
+import UsagePanel from './UsagePanel';
+import StoragePanel from './StoragePanel';
 import ModelSelector, { useModelSelection } from './ModelSelector';
 import { upload } from '@vercel/blob/client'; // Added for client-side file upload
 
@@ -109,6 +119,11 @@ export const EmptyState: FC<{ userName: string | null; handlePromptClick: (promp
   </div>
 );
 
+// --- REPLY STREAMS ---
+
+/** Reconnects to a persisted reply before giving up on a dropped stream */
+const MAX_STREAM_RESUMES = 3;
+
 // --- MAIN COMPONENT ---
 
 interface GeminiLayoutProps {
@@ -118,35 +133,75 @@ interface GeminiLayoutProps {
 }
 
 const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
-  const { chats, currentChatId, setCurrentChatId, createNewChat } = useChats(user?.uid, db);
-  const { contextFiles } = useContextFiles(user?.uid, db);
-  const { messages, setMessages } = useMessages(user?.uid, currentChatId, db);
-  const { selectedModel, setSelectedModel } = useModelSelection(); // Model selection hook
+  // Project whose chats and context files are shown; null for those outside any project
+  const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
+  const { projects } = useProjects(user?.uid, db);
+  const { chats, allChats, currentChatId, setCurrentChatId, createNewChat } = useChats(user?.uid, db, activeProjectId);
+  const { contextFiles } = useContextFiles(user?.uid, db, activeProjectId);
+  const { messages, addLocalMessage, showBranch, switchBranch, revealMessage, branchInfo } = useMessages(user?.uid, currentChatId, db);
+  const { models } = useModelCatalog(user);
+  const { selectedModel, setSelectedModel } = useModelSelection(models); // Model selection hook
+  const { personas } = usePersonas(user?.uid, db);
 
   const [streamingMessage, setStreamingMessage] = useState<Message | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [input, setInput] = useState("");
-  const [context, setContext] = useState("");
+  // Persona for the next new chat; existing chats remember their own
+  const [draftPersonaId, setDraftPersonaId] = useState<string | null>(null);
   const [attachments, setAttachments] = useState<File[]>([]);
   const [isContextActive, setIsContextActive] = useState(false);
   const [isContextPanelOpen, setIsContextPanelOpen] = useState(false);
   const [isProfileMenuOpen, setIsProfileMenuOpen] = useState(false);
   const [isSlideoutOpen, setIsSlideoutOpen] = useState(false);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
+  const [isStorageOpen, setIsStorageOpen] = useState(false);
   const [rateLimitInfo, setRateLimitInfo] = useState({ remaining: 20, limit: 20 });
+  // Search result waiting to be scrolled into view, and the one being highlighted
+  const [pendingScrollId, setPendingScrollId] = useState<string | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
 
   const abortControllerRef = useRef<AbortController | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
 
-  // Store chat ID with streaming message to prevent race conditions
+  // Reply the client still has to save itself (errors raised before the server stored anything)
   const streamingMessageRef = useRef<{ message: Message; chatId: string } | null>(null);
+  // Server-persisted reply being streamed, so Stop can reach the server
+  const activeReplyRef = useRef<{ chatId: string; messageId: string } | null>(null);
+  // Persisted replies already followed by this tab
+  const followedRepliesRef = useRef(new Set<string>());
 
   const { scrollToBottom } = useSmoothScroll();
+
+  const currentChat = chats.find(c => c.id === currentChatId);
+  const activePersonaId = currentChat ? currentChat.personaId ?? null : draftPersonaId;
+  const activePersonaModel = personas.find(p => p.id === activePersonaId)?.model;
+
+  // Switching to a chat or persona with a preferred model selects that model
+  useEffect(() => {
+    if (activePersonaModel) setSelectedModel(activePersonaModel);
+  }, [activePersonaId, activePersonaModel, setSelectedModel]);
   useMobileKeyboard();
 
   useEffect(() => {
     scrollToBottom();
   }, [messages, streamingMessage, scrollToBottom]);
 
+  // Scroll to a search result once its chat (and branch) has loaded
+  useEffect(() => {
+    if (!pendingScrollId) return;
+    if (!messages.some(m => m.id === pendingScrollId)) {
+      revealMessage(pendingScrollId);
+      return;
+    }
+
+    document.getElementById(`message-${pendingScrollId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setHighlightedMessageId(pendingScrollId);
+    setPendingScrollId(null);
+
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [messages, pendingScrollId, revealMessage]);
+
   const searchParams = useSearchParams();
   const initialPrompt = searchParams.get('prompt');
 
@@ -156,11 +211,16 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
     }
   }, [initialPrompt]);
 
-  // Save final streaming message with correct chat ID
+  // Once a reply settles, drop the streaming bubble. Persisted replies are
+  // already stored by the server; anything else is saved here.
   useEffect(() => {
     const saveFinalMessage = async () => {
-      if (!isLoading && streamingMessageRef.current) {
+      if (isLoading) return;
+      setStreamingMessage(null);
+
+      if (streamingMessageRef.current) {
         const { message: finalMessage, chatId: targetChatId } = streamingMessageRef.current;
+        streamingMessageRef.current = null;
 
         if (finalMessage.text.trim() && targetChatId) {
           try {
@@ -170,9 +230,6 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
             console.error('Error saving final message:', error);
           }
         }
-
-        setStreamingMessage(null);
-        streamingMessageRef.current = null;
       }
     };
 
@@ -189,19 +246,26 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
     setIsSlideoutOpen(false);
   }, [setCurrentChatId]);
 
+  const handleSelectProject = useCallback((projectId: string | null) => {
+    setActiveProjectId(projectId);
+    setCurrentChatId(allChats.find(chat => chat.projectId === projectId)?.id ?? null);
+  }, [allChats, setCurrentChatId]);
+
+  const handleSelectSearchResult = useCallback((chatId: string, messageId: string) => {
+    // A result may be in another project; open that project with it
+    const chat = allChats.find(c => c.id === chatId);
+    if (chat) setActiveProjectId(chat.projectId ?? null);
+    setCurrentChatId(chatId);
+    setPendingScrollId(messageId);
+    setIsSlideoutOpen(false);
+  }, [allChats, setCurrentChatId]);
+
   const handleDeleteChat = useCallback(async (chatId: string) => {
     if (!chatId) return;
     try {
       const messagesRef = collection(db, 'users', user.uid, 'chats', chatId, 'messages');
       const messagesSnapshot = await getDocs(messagesRef);
-      const urlsToDelete: string[] = [];
-      const urlRegex = /https:\/\/[\w.-]+\.public\.blob\.vercel-storage\.com\/[^\s\])]+/g;
-
-      messagesSnapshot.docs.forEach(doc => {
-        const message = doc.data();
-        const matches = message.text?.match(urlRegex);
-        if (matches) urlsToDelete.push(...matches);
-      });
+      const urlsToDelete = messagesSnapshot.docs.flatMap(doc => getMessageBlobUrls(doc.data()));
 
       if (urlsToDelete.length > 0) {
         const token = await user.getIdToken();
@@ -211,7 +275,7 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
             'Content-Type': 'application/json',
             'Authorization': `Bearer ${token}`
           },
-          body: JSON.stringify({ urls: urlsToDelete }),
+          body: JSON.stringify({ urls: urlsToDelete, chatId }),
         });
       }
 
@@ -233,11 +297,22 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
   }, [db, user.uid]);
 
   const handleStopGenerating = useCallback(() => {
+    // The server keeps generating after the client disconnects, so tell it to stop
+    const activeReply = activeReplyRef.current;
+    if (activeReply) {
+      user.getIdToken()
+        .then(token => fetch(`/api/chat/stream?${new URLSearchParams(activeReply)}`, {
+          method: 'DELETE',
+          headers: { 'Authorization': `Bearer ${token}` },
+        }))
+        .catch(error => console.error('Failed to stop reply:', error));
+    }
+
     if (abortControllerRef.current) {
       abortControllerRef.current.abort();
       setIsLoading(false);
     }
-  }, []);
+  }, [user]);
 
   const handleFileUpload = useCallback(async (file: File) => {
     try {
@@ -247,22 +322,23 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
       const tokenResponse = await fetch('/api/upload-url', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ type: 'request-upload-token', token }),
+        body: JSON.stringify({ type: 'request-upload-token', token, size: file.size }),
       });
 
       if (!tokenResponse.ok) {
-        throw new Error('Failed to get upload token');
+        const errorData = await tokenResponse.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Failed to get upload token');
       }
 
-      const { uploadToken } = await tokenResponse.json();
+      const { uploadToken, pathPrefix } = await tokenResponse.json();
 
-      // 2. Upload file directly to Vercel Blob with upload token
-      // Add unique suffix to prevent blob conflicts
+      // 2. Upload file directly to Vercel Blob with upload token, under the
+      // user's own path prefix. Add unique suffix to prevent blob conflicts
       const uniqueFilename = `${Date.now()}-${Math.random().toString(36).substring(7)}-${file.name}`;
-      const blob = await upload(uniqueFilename, file, {
+      const blob = await upload(`${pathPrefix}${uniqueFilename}`, file, {
         access: 'public',
         handleUploadUrl: '/api/upload-url',
-        clientPayload: JSON.stringify({ uploadToken }),
+        clientPayload: JSON.stringify({ uploadToken, size: file.size, source: 'context' }),
       });
 
       console.log(`✅ Uploaded ${file.name} to Blob:`, blob.url);
@@ -276,7 +352,8 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
         },
         body: JSON.stringify({
           fileName: file.name,
-          fileUrl: blob.url
+          fileUrl: blob.url,
+          projectId: activeProjectId,
         }),
       });
 
@@ -288,7 +365,7 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
       console.error('Upload error:', error);
       alert((error as Error).message);
     }
-  }, [user]);
+  }, [user, activeProjectId]);
 
   const handleFileDelete = useCallback(async (fileId: string) => {
     try {
@@ -311,40 +388,324 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
     }
   }, [user]);
 
+  const handleSelectPersona = useCallback(async (personaId: string | null) => {
+    if (!currentChatId) {
+      setDraftPersonaId(personaId);
+      return;
+    }
+    try {
+      await setChatPersona(db, user.uid, currentChatId, personaId);
+    } catch (error) {
+      console.error('Persona switch error:', error);
+      alert((error as Error).message);
+    }
+  }, [db, user.uid, currentChatId]);
+
+  const handleSavePersona = useCallback(async (draft: PersonaDraft, existing?: Persona) => {
+    const personaId = await savePersona(db, user.uid, draft, existing);
+    if (!existing) await handleSelectPersona(personaId);
+  }, [db, user.uid, handleSelectPersona]);
+
+  const handleDeletePersona = useCallback(async (persona: Persona) => {
+    await deletePersona(db, user.uid, persona.id);
+    if (draftPersonaId === persona.id) setDraftPersonaId(null);
+  }, [db, user.uid, draftPersonaId]);
+
+  const handleCreateProject = useCallback(async (name: string) => {
+    try {
+      const projectId = await saveProject(db, user.uid, { name, instructions: '' });
+      handleSelectProject(projectId);
+    } catch (error) {
+      console.error('Project create error:', error);
+      alert((error as Error).message);
+    }
+  }, [db, user.uid, handleSelectProject]);
+
+  const handleSaveProject = useCallback(async (draft: ProjectDraft, existing: Project) => {
+    await saveProject(db, user.uid, draft, existing);
+  }, [db, user.uid]);
+
+  const handleDeleteProject = useCallback(async (project: Project) => {
+    await deleteProject(db, user.uid, project.id);
+    if (activeProjectId === project.id) handleSelectProject(null);
+  }, [db, user.uid, activeProjectId, handleSelectProject]);
+
+  const handleMoveChat = useCallback(async (chatId: string, projectId: string | null) => {
+    try {
+      await moveChatToProject(db, user.uid, chatId, projectId);
+      // The open chat stays open, so follow it into its new project
+      if (chatId === currentChatId) setActiveProjectId(projectId);
+    } catch (error) {
+      console.error('Chat move error:', error);
+      alert((error as Error).message);
+    }
+  }, [db, user.uid, currentChatId]);
+
   const handlePromptClick = useCallback((prompt: { title: string }) => {
     setInput(prompt.title);
     const textarea = document.querySelector('textarea');
     if (textarea) textarea.focus();
   }, []);
 
-  // Corrected function signature: 2 args, uses selectedModel from state
-  const handleSendMessage = useCallback(async (e: FormEvent, taskType: 'auto' | 'daily' | 'coding') => {
-    e.preventDefault();
-    if ((!input.trim() && attachments.length === 0) || isLoading) return;
+  // Start a reply: show the typing indicator under parentId and arm the stop button
+  const beginReply = useCallback((parentId: string) => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    activeReplyRef.current = null;
+    setIsLoading(true);
+    setStreamingMessage({ id: (Date.now() + 1000).toString(), text: "", sender: "ai", parentId });
+    return abortController;
+  }, []);
+
+  const handleReplyError = useCallback((error: unknown, parentId: string, chatId: string | null) => {
+    const err = error as Error;
+
+    if (err.name === "AbortError") {
+      console.log("Fetch aborted by user.");
+      return;
+    }
+
+    console.error("API call failed:", err);
+    const errorMessageText = err.message || "An unknown error occurred";
+    const errorMessage: Message = {
+      id: (Date.now() + 2).toString(),
+      text: `Error: ${errorMessageText}`,
+      sender: "ai",
+      parentId,
+      finishReason: 'error',
+    };
+    setStreamingMessage(errorMessage);
+
+    // Also store error message for saving
+    if (chatId) {
+      streamingMessageRef.current = {
+        message: errorMessage,
+        chatId
+      };
+    }
+  }, []);
+
+  // Open the resumable stream of a persisted reply, after `cursor`
+  const fetchReplyStream = useCallback(async (
+    chatId: string,
+    messageId: string,
+    cursor: string,
+    signal: AbortSignal
+  ): Promise<Response> => {
+    const token = await user.getIdToken();
+    const params = new URLSearchParams({ chatId, messageId, cursor });
+    const response = await fetch(`/api/chat/stream?${params}`, {
+      headers: { 'Authorization': `Bearer ${token}` },
+      signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || "Failed to resume the reply");
+    }
+    return response;
+  }, [user]);
 
+  // Read a reply stream into the streaming bubble, on top of what `reply`
+  // already holds. A persisted reply whose connection drops is resumed from
+  // the last cursor received.
+  const readReply = useCallback(async (
+    chatId: string,
+    response: Response,
+    reply: Message,
+    abortController: AbortController
+  ): Promise<Message> => {
+    let current = reply;
+    let cursor = formatStreamCursor({ text: reply.text.length, reasoning: reply.reasoning?.length ?? 0 });
+
+    // OPTIMIZATION: Debounced updates
+    let updateTimer: NodeJS.Timeout | null = null;
+    const DEBOUNCE_MS = 50;
+
+    let body = response.body;
+    let resumes = 0;
+    while (body) {
+      try {
+        for await (const { event, id } of readChatStream(body)) {
+          current = applyChatEvent(current, event);
+          if (id) cursor = id;
+
+          // Debounce state updates
+          if (updateTimer) clearTimeout(updateTimer);
+          const snapshot = current;
+          updateTimer = setTimeout(() => setStreamingMessage(snapshot), DEBOUNCE_MS);
+        }
+        break;
+      } catch (error) {
+        const canResume = reply.status === 'streaming' &&
+          (error as Error).name !== 'AbortError' &&
+          resumes < MAX_STREAM_RESUMES;
+        if (!canResume) throw error;
+
+        resumes++;
+        console.warn(`Reply stream dropped, resuming at ${cursor} (attempt ${resumes})`);
+        body = (await fetchReplyStream(chatId, reply.id, cursor, abortController.signal)).body;
+      }
+    }
+
+    // Clear any pending timer; the caller does the final update
+    if (updateTimer) clearTimeout(updateTimer);
+
+    return current;
+  }, [fetchReplyStream]);
+
+  // Follow a reply that is still generating server-side (after a reload, or started in another tab)
+  const resumeReply = useCallback(async (chatId: string, message: Message) => {
     const abortController = new AbortController();
     abortControllerRef.current = abortController;
+    activeReplyRef.current = { chatId, messageId: message.id };
+    setIsLoading(true);
+    setStreamingMessage(message);
+
+    try {
+      const cursor = formatStreamCursor({ text: message.text.length, reasoning: message.reasoning?.length ?? 0 });
+      const response = await fetchReplyStream(chatId, message.id, cursor, abortController.signal);
+      setStreamingMessage(await readReply(chatId, response, message, abortController));
+    } catch (error) {
+      if ((error as Error).name !== 'AbortError') {
+        console.error('Failed to resume reply:', error);
+      }
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  }, [fetchReplyStream, readReply]);
+
+  useEffect(() => {
+    if (isLoading || !currentChatId) return;
+    const inFlight = messages.find(m => m.status === 'streaming' && !followedRepliesRef.current.has(m.id));
+    if (!inFlight) return;
+
+    followedRepliesRef.current.add(inFlight.id);
+    resumeReply(currentChatId, inFlight);
+  }, [messages, isLoading, currentChatId, resumeReply]);
+
+  // Stream the AI reply to `prompt`; the server stores it as a child of parentId as it streams
+  const streamReply = useCallback(async (
+    chatId: string,
+    reply: {
+      prompt: string;
+      attachments: Attachment[];
+      parentId: string;
+      taskType: 'auto' | 'daily' | 'coding';
+    },
+    abortController: AbortController
+  ) => {
+    const formData = new FormData();
+    formData.append("input", reply.prompt);
+    formData.append("taskType", reply.taskType);
+    // The chat's persona; a chat created for this message isn't in the list yet
+    const chat = chats.find(c => c.id === chatId);
+    const personaId = chat ? chat.personaId : draftPersonaId;
+    if (personaId) formData.append("personaId", personaId);
+    // The server loads (and summarizes) the history leading up to the prompt
+    formData.append("chatId", chatId);
+    formData.append("messageId", reply.parentId);
+    // Using the selectedModel from state here
+    formData.append("model", selectedModel);
+
+    if (isContextActive && contextFiles.length > 0) {
+      const contextFileUrls = contextFiles.map(f => f.url);
+      formData.append("contextFileUrls", JSON.stringify(contextFileUrls));
+    }
+
+    const uploadedUrls = reply.attachments.map(a => a.url).filter(Boolean);
+    if (uploadedUrls.length > 0) {
+      // Send uploaded file URLs instead of files
+      formData.append("uploadedFileUrls", JSON.stringify(uploadedUrls));
+    }
+
+    const token = await user.getIdToken();
+
+    const response = await fetch("/api/chat", {
+      method: "POST",
+      body: formData,
+      headers: {
+        'Authorization': `Bearer ${token}`
+      },
+      signal: abortController.signal,
+    });
+
+    const remaining = response.headers.get('RateLimit-Remaining');
+    const limit = response.headers.get('RateLimit-Limit');
+    if (remaining && limit) {
+      setRateLimitInfo({ remaining: parseInt(remaining), limit: parseInt(limit) });
+    }
+
+    if (!response.ok) {
+      const errorData = await response.json();
+      // Quota responses explain which quota ran out and when it resets
+      if (response.status === 429 && !response.headers.has('X-Quota-Limit')) {
+        throw new Error("Rate limit exceeded. Please wait a minute before trying again.");
+      }
+      throw new Error(errorData.error || "API error");
+    }
+
+    if (!response.body) {
+      throw new Error("No response body");
+    }
+
+    // Which failover hop actually served the reply
+    const modelUsed = response.headers.get('X-Model-Used') || undefined;
+    const providerUsed = response.headers.get('X-Provider') || undefined;
+    // Set when the server persists the reply as it streams
+    const replyId = response.headers.get('X-Message-Id');
+
+    const aiMessage: Message = {
+      id: replyId || (Date.now() + 1000).toString(),
+      text: '',
+      sender: "ai",
+      parentId: reply.parentId,
+      ...(replyId && { status: 'streaming' as const }),
+      ...(modelUsed && { model: modelUsed }),
+      ...(providerUsed && { provider: providerUsed }),
+    };
+
+    if (replyId) {
+      activeReplyRef.current = { chatId, messageId: replyId };
+      followedRepliesRef.current.add(replyId);
+    }
+
+    const finalMessage = await readReply(chatId, response, aiMessage, abortController);
+    setStreamingMessage(finalMessage);
 
-    const userMessageText = attachments.length > 0
-      ? `${input}\n[ATTACHMENTS:${attachments.map(f => f.name).join('|||')}]`
-      : input;
+    // Servers that don't persist replies leave saving to the client
+    if (!replyId) {
+      streamingMessageRef.current = {
+        message: finalMessage,
+        chatId
+      };
+    }
+  }, [user, chats, draftPersonaId, isContextActive, contextFiles, selectedModel, readReply]);
 
+  // Corrected function signature: 2 args, uses selectedModel from state
+  const handleSendMessage = useCallback(async (e: FormEvent, taskType: 'auto' | 'daily' | 'coding') => {
+    e.preventDefault();
+    if ((!input.trim() && attachments.length === 0) || isLoading) return;
+
+    const parentId = messages.length > 0 ? messages[messages.length - 1].id : null;
     const userMessage: Message = {
       id: Date.now().toString(),
-      text: userMessageText,
-      sender: "user"
+      text: input,
+      sender: "user",
+      parentId,
+      ...(attachments.length > 0 && {
+        attachments: attachments.map(f => ({ name: f.name, url: '', mimeType: f.type, size: f.size })),
+      }),
     };
 
     const tempInput = input;
     const tempAttachments = attachments;
 
-    setMessages(prev => [...prev, userMessage]);
+    addLocalMessage(userMessage);
     setInput("");
     setAttachments([]);
-    setIsLoading(true);
-
-    const aiMessageId = (Date.now() + 1000).toString();
-    setStreamingMessage({ id: aiMessageId, text: "", sender: "ai" });
+    const abortController = beginReply(userMessage.id);
 
     let tempChatId = currentChatId;
 
@@ -355,28 +716,15 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
           timestamp: Date.now(),
           lastMessageAt: Date.now(),
           messageCount: 0,
+          personaId: draftPersonaId,
+          projectId: activeProjectId,
         });
         tempChatId = newChatRef.id;
         setCurrentChatId(newChatRef.id);
       }
 
-      await addMessage(db, user.uid, tempChatId, userMessage);
-
-      const formData = new FormData();
-      formData.append("input", tempInput);
-      formData.append("taskType", taskType);
-      formData.append("context", isContextActive ? context : "");
-      formData.append("history", JSON.stringify(messages));
-      // Using the selectedModel from state here
-      formData.append("model", selectedModel);
-
-      if (isContextActive && contextFiles.length > 0) {
-        const contextFileUrls = contextFiles.map(f => f.url);
-        formData.append("contextFileUrls", JSON.stringify(contextFileUrls));
-      }
-
       // Client-side file upload to Vercel Blob to bypass 4.5MB serverless limit
-      const uploadedFileUrls: string[] = [];
+      const uploadedAttachments: Attachment[] = [];
       if (tempAttachments.length > 0) {
         const token = await user.getIdToken();
 
@@ -386,158 +734,163 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
             const tokenResponse = await fetch('/api/upload-url', {
               method: 'POST',
               headers: { 'Content-Type': 'application/json' },
-              body: JSON.stringify({ type: 'request-upload-token', token }),
+              body: JSON.stringify({ type: 'request-upload-token', token, size: file.size }),
             });
 
             if (!tokenResponse.ok) {
-              throw new Error('Failed to get upload token');
+              const errorData = await tokenResponse.json().catch(() => ({}));
+              throw new Error(errorData.error || 'Failed to get upload token');
             }
 
-            const { uploadToken } = await tokenResponse.json();
+            const { uploadToken, pathPrefix } = await tokenResponse.json();
 
-            // Step 2: Upload file with token
+            // Step 2: Upload file with token, under the user's own path prefix
             // Add unique suffix to prevent blob conflicts
             const uniqueFilename = `${Date.now()}-${Math.random().toString(36).substring(7)}-${file.name}`;
-            const blob = await upload(uniqueFilename, file, {
+            const blob = await upload(`${pathPrefix}${uniqueFilename}`, file, {
               access: 'public',
               handleUploadUrl: '/api/upload-url',
-              clientPayload: JSON.stringify({ uploadToken }),
+              clientPayload: JSON.stringify({ uploadToken, size: file.size, source: 'attachment', chatId: tempChatId }),
             });
 
-            uploadedFileUrls.push(blob.url);
+            uploadedAttachments.push({ name: file.name, url: blob.url, mimeType: file.type, size: file.size });
             console.log(`✅ Uploaded ${file.name} to ${blob.url}`);
           } catch (uploadError) {
             console.error(`Failed to upload ${file.name}:`, uploadError);
-            throw new Error(`File upload failed for ${file.name}`);
+            throw new Error(`File upload failed for ${file.name}: ${(uploadError as Error).message}`);
           }
         }
-        // Send uploaded file URLs instead of files
-        formData.append("uploadedFileUrls", JSON.stringify(uploadedFileUrls));
       }
 
-      const token = await user.getIdToken();
-
-      const response = await fetch("/api/chat", {
-        method: "POST",
-        body: formData,
-        headers: {
-          'Authorization': `Bearer ${token}`
-        },
-        signal: abortController.signal,
+      await addMessage(db, user.uid, tempChatId, {
+        ...userMessage,
+        ...(uploadedAttachments.length > 0 && { attachments: uploadedAttachments }),
       });
 
-      const remaining = response.headers.get('X-RateLimit-Remaining');
-      const limit = response.headers.get('X-RateLimit-Limit');
-      if (remaining && limit) {
-        setRateLimitInfo({ remaining: parseInt(remaining), limit: parseInt(limit) });
-      }
+      await streamReply(tempChatId, {
+        prompt: tempInput,
+        attachments: uploadedAttachments,
+        parentId: userMessage.id,
+        taskType,
+      }, abortController);
+    } catch (error) {
+      handleReplyError(error, userMessage.id, tempChatId);
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  }, [input, attachments, isLoading, currentChatId, db, user, messages, addLocalMessage, beginReply, streamReply, handleReplyError, setCurrentChatId, draftPersonaId, activeProjectId]);
 
-      if (!response.ok) {
-        const errorData = await response.json();
-        if (response.status === 429) {
-          throw new Error("Rate limit exceeded. Please wait a minute before trying again.");
-        }
-        throw new Error(errorData.error || "API error");
-      }
+  // Editing a prompt adds a sibling user message and answers it on a new branch
+  const handleEditMessage = useCallback(async (messageId: string, text: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1 || isLoading || !currentChatId) return;
 
-      if (!response.body) {
-        throw new Error("No response body");
-      }
+    const original = messages[index];
+    const editedMessage: Message = {
+      id: Date.now().toString(),
+      text,
+      sender: "user",
+      parentId: original.parentId ?? null,
+      ...(original.attachments && { attachments: original.attachments }),
+    };
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      let fullText = '';
-
-      // OPTIMIZATION: Debounced updates
-      let updateTimer: NodeJS.Timeout | null = null;
-      const DEBOUNCE_MS = 50;
-
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split("\n");
-
-        for (const line of lines) {
-          if (line.startsWith("data: ")) {
-            const data = line.substring(6);
-            if (data.trim() === "[DONE]") break;
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta?.content;
-              if (delta) {
-                fullText += delta;
-
-                // Debounce state updates
-                if (updateTimer) clearTimeout(updateTimer);
-                updateTimer = setTimeout(() => {
-                  setStreamingMessage({ id: aiMessageId, text: fullText, sender: "ai" });
-                }, DEBOUNCE_MS);
-              }
-            } catch {
-              // Ignore parse errors
-            }
-          }
-        }
-      }
+    addLocalMessage(editedMessage);
+    const abortController = beginReply(editedMessage.id);
 
-      // Clear any pending timer and do final update
-      if (updateTimer) clearTimeout(updateTimer);
+    try {
+      await addMessage(db, user.uid, currentChatId, editedMessage);
+      await streamReply(currentChatId, {
+        prompt: text,
+        attachments: original.attachments || [],
+        parentId: editedMessage.id,
+        taskType: 'auto',
+      }, abortController);
+    } catch (error) {
+      handleReplyError(error, editedMessage.id, currentChatId);
+    } finally {
+      setIsLoading(false);
+      abortControllerRef.current = null;
+    }
+  }, [messages, isLoading, currentChatId, db, user.uid, addLocalMessage, beginReply, streamReply, handleReplyError]);
 
-      const finalMessage = { id: aiMessageId, text: fullText, sender: "ai" as const };
-      setStreamingMessage(finalMessage);
+  // Regenerating adds a sibling AI reply to the same prompt
+  const handleRegenerate = useCallback(async (messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    const prompt = index > 0 ? messages[index - 1] : null;
+    if (!prompt || prompt.sender !== 'user' || isLoading || !currentChatId) return;
 
-      // FIXED: Store with chat ID to prevent race condition
-      streamingMessageRef.current = {
-        message: finalMessage,
-        chatId: tempChatId
-      };
+    // Show the branch up to the prompt while the new reply streams
+    showBranch(prompt.id, false);
+    const abortController = beginReply(prompt.id);
 
+    try {
+      await streamReply(currentChatId, {
+        prompt: prompt.text,
+        attachments: prompt.attachments || [],
+        parentId: prompt.id,
+        taskType: 'auto',
+      }, abortController);
     } catch (error) {
-      const err = error as Error;
-
-      if (err.name === "AbortError") {
-        console.log("Fetch aborted by user.");
-      } else {
-        console.error("API call failed:", err);
-        const errorMessageText = err.message || "An unknown error occurred";
-        const errorMessage = {
-          id: (Date.now() + 2).toString(),
-          text: `Error: ${errorMessageText}`,
-          sender: "ai" as const
-        };
-        setStreamingMessage(errorMessage);
-
-        // Also store error message for saving
-        if (tempChatId) {
-          streamingMessageRef.current = {
-            message: errorMessage,
-            chatId: tempChatId
-          };
-        }
-      }
+      // Unless the server already stored a partial reply, go back to the one being regenerated
+      if ((error as Error).name === 'AbortError' && !activeReplyRef.current) showBranch(messageId, false);
+      handleReplyError(error, prompt.id, currentChatId);
     } finally {
       setIsLoading(false);
       abortControllerRef.current = null;
     }
-  }, [input, attachments, isLoading, currentChatId, db, user, context, isContextActive, contextFiles, messages, setMessages, setCurrentChatId, selectedModel]); // Added selectedModel dependency
+  }, [messages, isLoading, currentChatId, showBranch, beginReply, streamReply, handleReplyError]);
+
+  // Sandbox runs are stored on the reply; the next request shows the model their output
+  const handleCodeRun = useCallback(async (messageId: string, run: CodeRun) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message || !currentChatId) return;
+    try {
+      await saveCodeRuns(db, user.uid, currentChatId, messageId, appendCodeRun(message.codeRuns, run));
+    } catch (error) {
+      console.error('Failed to save code run:', error);
+    }
+  }, [messages, currentChatId, db, user.uid]);
 
   // Memoize message list to prevent unnecessary re-renders
+  // The reply being streamed is shown from the live stream rather than its
+  // (less frequently updated) stored document
   const messageList = useMemo(() => (
-    messages.map(msg => (
-      <ErrorBoundary key={msg.id}>
-        <ChatBubble message={msg} />
-      </ErrorBoundary>
-    ))
-  ), [messages]);
+    messages.map(stored => {
+      const msg = streamingMessage?.id === stored.id ? streamingMessage : stored;
+      if (msg.status === 'streaming' && !msg.text && !msg.reasoning && !msg.toolCalls?.length) {
+        return <TypingIndicator key={msg.id} />;
+      }
+      return (
+        <div
+          key={msg.id}
+          id={`message-${msg.id}`}
+          className={`rounded-2xl transition-colors duration-700 ${highlightedMessageId === msg.id ? 'bg-yellow-500/10' : ''}`}
+        >
+          <ErrorBoundary>
+          <ChatBubble
+            message={msg}
+            branch={branchInfo(msg.id)}
+            onSwitchBranch={isLoading ? undefined : switchBranch}
+            onEdit={isLoading || msg.sender !== 'user' ? undefined : handleEditMessage}
+            onRegenerate={isLoading || msg.sender !== 'ai' ? undefined : handleRegenerate}
+            onCodeRun={msg.sender === 'ai' ? handleCodeRun : undefined}
+          />
+          </ErrorBoundary>
+        </div>
+      );
+    })
+  ), [messages, streamingMessage, branchInfo, isLoading, switchBranch, handleEditMessage, handleRegenerate, handleCodeRun, highlightedMessageId]);
+
+  const isStreamingMessageStored = !!streamingMessage && messages.some(m => m.id === streamingMessage.id);
 
   return (
     <div className="chat-container flex h-screen w-full bg-[#131314] text-white overflow-hidden">
       <GeminiDesktopSidebar
         onNewChat={handleNewChat}
         toggleMobileSidebar={() => setIsSlideoutOpen(true)}
+        onOpenUsage={() => setIsUsageOpen(true)}
+        onOpenStorage={() => setIsStorageOpen(true)}
         auth={auth}
       />
 
@@ -550,6 +903,13 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
         onSelectChat={handleSelectChat}
         onDeleteChat={handleDeleteChat}
         onRenameChat={handleRenameChat}
+        user={user}
+        onSelectSearchResult={handleSelectSearchResult}
+        projects={projects}
+        activeProjectId={activeProjectId}
+        onSelectProject={handleSelectProject}
+        onCreateProject={handleCreateProject}
+        onMoveChat={handleMoveChat}
       />
 
       <main className="flex-1 flex flex-col min-w-0 relative">
@@ -586,6 +946,26 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
                     onClick={() => setIsProfileMenuOpen(false)}
                   />
                   <div className="absolute right-0 mt-2 w-48 bg-[#1e1f20] rounded-lg shadow-xl z-20 overflow-hidden">
+                    <button
+                      onClick={() => {
+                        setIsUsageOpen(true);
+                        setIsProfileMenuOpen(false);
+                      }}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-300 hover:bg-gray-700 active:bg-gray-600 transition-colors"
+                    >
+                      <BarChart3 className="w-5 h-5" />
+                      <span>Usage</span>
+                    </button>
+                    <button
+                      onClick={() => {
+                        setIsStorageOpen(true);
+                        setIsProfileMenuOpen(false);
+                      }}
+                      className="w-full flex items-center gap-3 px-4 py-3 text-sm text-gray-300 hover:bg-gray-700 active:bg-gray-600 transition-colors"
+                    >
+                      <HardDrive className="w-5 h-5" />
+                      <span>Storage</span>
+                    </button>
                     <button
                       onClick={() => {
                         signOut(auth);
@@ -603,7 +983,14 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
           </div>
         </header>
 
-
+        <div className="flex-shrink-0 px-4 pt-3">
+          <ModelSelector
+            models={models}
+            selectedModel={selectedModel}
+            onModelChange={setSelectedModel}
+            className="w-fit"
+          />
+        </div>
 
         {rateLimitInfo.remaining < 5 && (
           <div className="flex-shrink-0 bg-yellow-900/50 text-yellow-200 px-4 py-2 text-sm text-center">
@@ -626,8 +1013,8 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
               <>
                 {messageList}
 
-                {streamingMessage && (
-                  streamingMessage.text ? (
+                {streamingMessage && !isStreamingMessageStored && (
+                  streamingMessage.text || streamingMessage.reasoning || streamingMessage.toolCalls?.length ? (
                     <ErrorBoundary>
                       <ChatBubble message={streamingMessage} />
                     </ErrorBoundary>
@@ -660,14 +1047,24 @@ const GeminiLayout: FC<GeminiLayoutProps> = ({ user, auth, db }) => {
       </main>
 
       <ContextPanel
-        context={context}
-        setContext={setContext}
+        project={projects.find(p => p.id === activeProjectId) ?? null}
+        onSaveProject={handleSaveProject}
+        onDeleteProject={handleDeleteProject}
+        personas={personas}
+        activePersonaId={activePersonaId}
+        onSelectPersona={handleSelectPersona}
+        onSavePersona={handleSavePersona}
+        onDeletePersona={handleDeletePersona}
+        models={models}
         isOpen={isContextPanelOpen}
         onClose={() => setIsContextPanelOpen(false)}
         contextFiles={contextFiles}
         onFileUpload={handleFileUpload}
         onFileDelete={handleFileDelete}
       />
+
+      <UsagePanel user={user} isOpen={isUsageOpen} onClose={() => setIsUsageOpen(false)} />
+      <StoragePanel user={user} isOpen={isStorageOpen} onClose={() => setIsStorageOpen(false)} chats={allChats} />
     </div>
   );
 };
@@ -1,9 +1,34 @@
 // src/components/GeminiSidebar.tsx
 
-import { FC, useState, KeyboardEvent } from "react";
+import { FC, useState, useRef, KeyboardEvent, ChangeEvent } from "react";
 // MODIFICATION: Import Pencil icon
-import { PlusIcon, MenuIcon, TrashIcon, Pencil } from "lucide-react";
-import { Chat } from "../lib/types";
+import { PlusIcon, MenuIcon, TrashIcon, Pencil, Download, Upload, Loader2, Folder, FolderInput } from "lucide-react";
+import { User } from "firebase/auth";
+import { Chat, Project } from "../lib/types";
+import ChatSearch from "./ChatSearch";
+import { useChatTransfer } from "../hooks/useChatTransfer";
+import type { ExportFormat } from "../lib/export/types";
+
+const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown' },
+  { format: 'html', label: 'HTML' },
+  { format: 'json', label: 'JSON' },
+];
+
+// Row of format buttons for an export
+const ExportFormatButtons: FC<{ onExport: (format: ExportFormat) => void }> = ({ onExport }) => (
+  <div className="flex gap-1">
+    {EXPORT_FORMATS.map(({ format, label }) => (
+      <button
+        key={format}
+        onClick={(e) => { e.stopPropagation(); onExport(format); }}
+        className="px-2 py-1 text-xs rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white"
+      >
+        {label}
+      </button>
+    ))}
+  </div>
+);
 
 interface GeminiSidebarProps {
   isOpen: boolean;
@@ -15,12 +40,57 @@ interface GeminiSidebarProps {
   onDeleteChat: (id: string) => void;
   // MODIFICATION: Add onRenameChat to props
   onRenameChat: (id: string, newTitle: string) => void;
+  user: User;
+  onSelectSearchResult: (chatId: string, messageId: string) => void;
+  projects: Project[];
+  /** Project whose chats are listed; null for chats outside any project */
+  activeProjectId: string | null;
+  onSelectProject: (projectId: string | null) => void;
+  onCreateProject: (name: string) => void;
+  onMoveChat: (chatId: string, projectId: string | null) => void;
 }
 
-const GeminiSidebar: FC<GeminiSidebarProps> = ({ isOpen, onClose, onNewChat, chats, currentChatId, onSelectChat, onDeleteChat, onRenameChat }) => {
+const GeminiSidebar: FC<GeminiSidebarProps> = ({
+  isOpen, onClose, onNewChat, chats, currentChatId, onSelectChat, onDeleteChat, onRenameChat, user, onSelectSearchResult,
+  projects, activeProjectId, onSelectProject, onCreateProject, onMoveChat,
+}) => {
   // MODIFICATION: Add state to manage which chat is being edited
   const [editingChatId, setEditingChatId] = useState<string | null>(null);
   const [editText, setEditText] = useState("");
+  const [isSearching, setIsSearching] = useState(false);
+  // Chat whose export formats are showing ('all' for the whole history)
+  const [exportTarget, setExportTarget] = useState<string | null>(null);
+  // Chats outside any project are listed under "General"
+  const projectOptions: { id: string | null; name: string }[] = [{ id: null, name: 'General' }, ...projects];
+  // Chat whose "move to project" choices are showing
+  const [moveTarget, setMoveTarget] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const { exportChats, importFile, busy } = useChatTransfer(user);
+
+  const handleExport = (format: ExportFormat) => {
+    exportChats(format, exportTarget === 'all' ? undefined : exportTarget || undefined);
+    setExportTarget(null);
+  };
+
+  const handleImport = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const imported = await importFile(file);
+    if (imported > 0) {
+      alert(`Imported ${imported} chat${imported === 1 ? '' : 's'}.`);
+    }
+  };
+
+  const handleNewProject = () => {
+    const name = prompt('Project name');
+    if (name?.trim()) onCreateProject(name.trim());
+  };
+
+  const handleMove = (chatId: string, projectId: string | null) => {
+    onMoveChat(chatId, projectId);
+    setMoveTarget(null);
+  };
 
   const handleEditClick = (chat: Chat) => {
     setEditingChatId(chat.id);
@@ -58,6 +128,27 @@ const GeminiSidebar: FC<GeminiSidebarProps> = ({ isOpen, onClose, onNewChat, cha
         </div>
         
         <div className="flex-grow p-2 overflow-y-auto">
+            <ChatSearch user={user} onSelectResult={onSelectSearchResult} onActiveChange={setIsSearching} />
+            {!isSearching && (<>
+            <div className="mb-2">
+                <div className="flex items-center justify-between px-3 py-1">
+                    <span className="text-xs font-semibold uppercase tracking-wide text-gray-500">Projects</span>
+                    <button onClick={handleNewProject} className="p-1 rounded-md text-gray-400 hover:text-white" title="New project">
+                        <PlusIcon className="w-4 h-4" />
+                    </button>
+                </div>
+                {projectOptions.map(project => (
+                    <div
+                        key={project.id ?? 'general'}
+                        onClick={() => onSelectProject(project.id)}
+                        className={`flex items-center gap-3 px-3 py-2 rounded-lg cursor-pointer text-sm transition-colors ${activeProjectId === project.id ? "bg-gray-700 text-white" : "text-gray-300 hover:bg-gray-700/50"}`}
+                    >
+                        <Folder className="w-4 h-4 flex-shrink-0" />
+                        <span className="truncate">{project.name}</span>
+                    </div>
+                ))}
+            </div>
+            <hr className="border-gray-700 w-full my-2" />
             <div 
                 onClick={onNewChat}
                 className="flex items-center p-3 rounded-lg cursor-pointer hover:bg-gray-700/50"
@@ -68,8 +159,9 @@ const GeminiSidebar: FC<GeminiSidebarProps> = ({ isOpen, onClose, onNewChat, cha
             <hr className="border-gray-700 w-full my-2" />
             <div>
                 {chats.map((chat) => (
+                    <div key={chat.id}>
                     <div 
-                        key={chat.id} 
+
                         onClick={() => editingChatId !== chat.id && onSelectChat(chat.id)} 
                         className={`group flex justify-between items-center p-3 rounded-lg transition-colors ${currentChatId === chat.id ? "bg-blue-600/30" : "hover:bg-gray-700/50"} ${editingChatId !== chat.id ? 'cursor-pointer' : ''}`}
                     >
@@ -87,6 +179,12 @@ const GeminiSidebar: FC<GeminiSidebarProps> = ({ isOpen, onClose, onNewChat, cha
                             <>
                                 <p className="truncate text-sm font-medium">{chat.title}</p>
                                 <div className="flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button onClick={(e) => { e.stopPropagation(); setExportTarget(exportTarget === chat.id ? null : chat.id); }} className="p-1 rounded-md text-gray-400 hover:text-white" title="Export chat">
+                                        <Download className="w-4 h-4" />
+                                    </button>
+                                    <button onClick={(e) => { e.stopPropagation(); setMoveTarget(moveTarget === chat.id ? null : chat.id); }} className="p-1 rounded-md text-gray-400 hover:text-white" title="Move to project">
+                                        <FolderInput className="w-4 h-4" />
+                                    </button>
                                     <button onClick={(e) => { e.stopPropagation(); handleEditClick(chat); }} className="p-1 rounded-md text-gray-400 hover:text-white">
                                         <Pencil className="w-4 h-4" />
                                     </button>
@@ -97,8 +195,60 @@ const GeminiSidebar: FC<GeminiSidebarProps> = ({ isOpen, onClose, onNewChat, cha
                             </>
                         )}
                     </div>
+                    {moveTarget === chat.id && (
+                        <div className="px-3 pb-2 flex flex-wrap gap-1">
+                            {projectOptions
+                                .filter(project => project.id !== activeProjectId)
+                                .map(project => (
+                                    <button
+                                        key={project.id ?? 'general'}
+                                        onClick={(e) => { e.stopPropagation(); handleMove(chat.id, project.id); }}
+                                        className="px-2 py-1 text-xs rounded-md bg-gray-800 text-gray-300 hover:bg-gray-700 hover:text-white truncate max-w-full"
+                                    >
+                                        {project.name}
+                                    </button>
+                                ))}
+                        </div>
+                    )}
+                    {exportTarget === chat.id && (
+                        <div className="px-3 pb-2">
+                            <ExportFormatButtons onExport={handleExport} />
+                        </div>
+                    )}
+                    </div>
                 ))}
             </div>
+            </>)}
+        </div>
+
+        <div className="p-2 border-t border-gray-700 space-y-2">
+            <div className="flex gap-2">
+                <button
+                    onClick={() => setExportTarget(exportTarget === 'all' ? null : 'all')}
+                    disabled={busy !== null || chats.length === 0}
+                    className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg text-sm text-gray-300 hover:bg-gray-700/50 disabled:opacity-50"
+                >
+                    {busy === 'export' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                    Export all
+                </button>
+                <button
+                    onClick={() => importInputRef.current?.click()}
+                    disabled={busy !== null}
+                    className="flex-1 flex items-center justify-center gap-2 p-2 rounded-lg text-sm text-gray-300 hover:bg-gray-700/50 disabled:opacity-50"
+                    title="Import an AuraIQ, ChatGPT or Claude JSON export"
+                >
+                    {busy === 'import' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+                    Import
+                </button>
+                <input
+                    ref={importInputRef}
+                    type="file"
+                    accept=".json,application/json"
+                    onChange={handleImport}
+                    className="hidden"
+                />
+            </div>
+            {exportTarget === 'all' && <ExportFormatButtons onExport={handleExport} />}
         </div>
       </div>
       {isOpen && <div onClick={onClose} className="fixed inset-0 bg-black/50 z-30"></div>}
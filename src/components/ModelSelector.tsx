@@ -1,78 +1,66 @@
 // src/components/ModelSelector.tsx
 "use client";
 
-import { FC, useState } from 'react';
-import { Brain, Zap, Sparkles, Settings, ChevronDown, Check } from 'lucide-react';
-
-export type AIModel =
-  | 'gemini-flash'    // Fast, daily tasks
-  | 'gemini-pro'      // Complex, coding tasks
-  | 'iq1-base'        // Your custom model
-  | 'auto';           // Auto-select based on task
-
-interface ModelInfo {
-  id: AIModel;
-  name: string;
-  description: string;
-  icon: React.ReactNode;
-  speed: 'fast' | 'medium' | 'slow';
-  capabilities: string[];
-  color: string;
-}
+import { FC, ReactNode, useEffect, useState } from 'react';
+import { Brain, Zap, Sparkles, Settings, ChevronDown, Check, Eye } from 'lucide-react';
+import type { AvailableModel, ModelCost, ModelIcon } from '@/lib/models';
+
+/** A model catalog id, e.g. 'auto' or 'gemini-pro' */
+export type AIModel = string;
+
+const ICONS: Record<ModelIcon, ReactNode> = {
+  sparkles: <Sparkles className="w-5 h-5" />,
+  brain: <Brain className="w-5 h-5" />,
+  zap: <Zap className="w-5 h-5" />,
+  settings: <Settings className="w-5 h-5" />,
+  eye: <Eye className="w-5 h-5" />,
+};
+
+const COST_LABELS: Record<ModelCost, string> = {
+  free: 'Free',
+  low: '$',
+  medium: '$$',
+  high: '$$$',
+};
+
+/** Shown until the catalog has loaded */
+const AUTO_PLACEHOLDER: AvailableModel = {
+  id: 'auto',
+  name: 'Auto Select',
+  description: '',
+  speed: 'fast',
+  cost: 'free',
+  tags: [],
+  icon: 'sparkles',
+  color: 'bg-gradient-to-r from-purple-500 to-pink-500',
+  provider: 'auto',
+  providerLabel: '',
+  model: '',
+  contextWindow: 0,
+  vision: false,
+};
 
-const MODELS: ModelInfo[] = [
-  {
-    id: 'auto',
-    name: 'Auto Select',
-    description: 'Automatically choose the best model for your task',
-    icon: <Sparkles className="w-5 h-5" />,
-    speed: 'fast',
-    capabilities: ['Smart routing', 'Cost optimized', 'Best performance'],
-    color: 'bg-gradient-to-r from-purple-500 to-pink-500',
-  },
-  {
-    id: 'iq1-base',
-    name: 'Daily Chat',
-    description: 'Llama 3.1 8B - Fast & free via Groq',
-    icon: <Brain className="w-5 h-5" />,
-    speed: 'fast',
-    capabilities: ['Lightning fast', 'General knowledge', 'Free unlimited'],
-    color: 'bg-gradient-to-r from-blue-500 to-cyan-500',
-  },
-  {
-    id: 'gemini-flash',
-    name: 'Daily Model',
-    description: 'Llama 3.1 8B Instant - Groq powered',
-    icon: <Zap className="w-5 h-5" />,
-    speed: 'fast',
-    capabilities: ['Instant responses', '131K context', 'Free'],
-    color: 'bg-gradient-to-r from-yellow-500 to-orange-500',
-  },
-  {
-    id: 'gemini-pro',
-    name: 'Pro Coder',
-    description: 'Llama 3.3 70B - Advanced coding & reasoning',
-    icon: <Settings className="w-5 h-5" />,
-    speed: 'medium',
-    capabilities: ['Best for coding', 'Deep reasoning', '131K context'],
-    color: 'bg-gradient-to-r from-green-500 to-emerald-500',
-  },
-];
+function formatContextWindow(tokens: number): string {
+  if (tokens >= 1_000_000) return `${Math.round(tokens / 100_000) / 10}M context`;
+  return `${Math.round(tokens / 1000)}K context`;
+}
 
 interface ModelSelectorProps {
+  models: AvailableModel[];
   selectedModel: AIModel;
   onModelChange: (model: AIModel) => void;
   className?: string;
 }
 
 const ModelSelector: FC<ModelSelectorProps> = ({
+  models,
   selectedModel,
   onModelChange,
   className = ''
 }) => {
   const [isOpen, setIsOpen] = useState(false);
 
-  const currentModel = MODELS.find(m => m.id === selectedModel) || MODELS[0];
+  const currentModel = models.find(m => m.id === selectedModel) || models[0] || AUTO_PLACEHOLDER;
 
   return (
     <div className={`relative ${className}`}>
@@ -82,7 +70,7 @@ const ModelSelector: FC<ModelSelectorProps> = ({
         className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 border border-gray-700 rounded-lg transition-all group"
       >
         <div className={`p-1.5 rounded-md ${currentModel.color} text-white`}>
-          {currentModel.icon}
+          {ICONS[currentModel.icon] ?? ICONS.sparkles}
         </div>
         <div className="flex flex-col items-start">
           <span className="text-sm font-medium text-white">
@@ -121,7 +109,7 @@ const ModelSelector: FC<ModelSelectorProps> = ({
             </div>
 
             <div className="max-h-[400px] overflow-y-auto">
-              {MODELS.map((model) => (
+              {models.map((model) => (
                 <button
                   key={model.id}
                   onClick={() => {
@@ -133,7 +121,7 @@ const ModelSelector: FC<ModelSelectorProps> = ({
                 >
                   <div className="flex items-start gap-3">
                     <div className={`p-2 rounded-lg ${model.color} text-white flex-shrink-0`}>
-                      {model.icon}
+                      {ICONS[model.icon] ?? ICONS.sparkles}
                     </div>
 
                     <div className="flex-1 min-w-0">
@@ -150,8 +138,23 @@ const ModelSelector: FC<ModelSelectorProps> = ({
                         {model.description}
                       </p>
 
+                      <p className="text-xs text-gray-500 mb-2 truncate">
+                        {model.provider === 'auto' ? model.providerLabel : `${model.model} · ${model.providerLabel}`}
+                      </p>
+
                       <div className="flex flex-wrap gap-1">
-                        {model.capabilities.map((cap, idx) => (
+                        <span className="text-xs px-2 py-0.5 bg-gray-900/50 text-gray-300 rounded-full">
+                          {formatContextWindow(model.contextWindow)}
+                        </span>
+                        {model.vision && (
+                          <span className="text-xs px-2 py-0.5 bg-gray-900/50 text-gray-300 rounded-full">
+                            Vision
+                          </span>
+                        )}
+                        <span className="text-xs px-2 py-0.5 bg-gray-900/50 text-gray-300 rounded-full">
+                          {COST_LABELS[model.cost] ?? model.cost}
+                        </span>
+                        {model.tags.map((cap, idx) => (
                           <span
                             key={idx}
                             className="text-xs px-2 py-0.5 bg-gray-900/50 text-gray-300 rounded-full"
@@ -200,37 +203,19 @@ const ModelSelector: FC<ModelSelectorProps> = ({
 
 export default ModelSelector;
 
-// Hook for model selection logic
-export function useModelSelection() {
+// Hook for model selection; auto mode is routed on the server (src/lib/routing)
+export function useModelSelection(models: AvailableModel[] = []) {
   const [selectedModel, setSelectedModel] = useState<AIModel>('auto');
 
-  const determineModel = (input: string, taskType?: 'daily' | 'coding'): AIModel => {
-    if (selectedModel !== 'auto') {
-      return selectedModel;
-    }
-
-    // Auto-selection logic
-    const codingKeywords = ['code', 'function', 'debug', 'error', 'implement', 'algorithm'];
-    const hasCodingKeyword = codingKeywords.some(kw =>
-      input.toLowerCase().includes(kw)
-    );
-
-    if (taskType === 'coding' || hasCodingKeyword) {
-      return 'gemini-pro';
-    }
-
-    // Check input length
-    if (input.length > 500) {
-      return 'gemini-pro';
+  // A model that was disabled or lost its provider falls back to auto
+  useEffect(() => {
+    if (models.length > 0 && !models.some(m => m.id === selectedModel)) {
+      setSelectedModel('auto');
     }
-
-    // Default to fast model
-    return 'gemini-flash';
-  };
+  }, [models, selectedModel]);
 
   return {
     selectedModel,
     setSelectedModel,
-    determineModel,
   };
 }
\ No newline at end of file
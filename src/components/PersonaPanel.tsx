@@ -0,0 +1,250 @@
+// src/components/PersonaPanel.tsx
+"use client";
+
+import { FC, useState } from 'react';
+import { Pencil, Plus, Trash2, UserCircle } from 'lucide-react';
+import type { Persona } from '../lib/types';
+import type { AvailableModel } from '@/lib/models';
+import type { PersonaDraft } from '../lib/personaStorage';
+import {
+  MAX_PERSONA_INSTRUCTIONS_CHARS,
+  MAX_PERSONA_NAME_CHARS,
+  MAX_PERSONA_TEMPERATURE,
+  MIN_PERSONA_TEMPERATURE,
+} from '../lib/personaSchema';
+import type { ContextFile } from './ContextPanel';
+
+/** Temperature offered when a persona first overrides the model's default */
+const DEFAULT_TEMPERATURE = 0.7;
+
+const EMPTY_DRAFT: PersonaDraft = { name: '', instructions: '', contextFileIds: [] };
+
+interface PersonaPanelProps {
+  personas: Persona[];
+  /** Persona used by the current chat (or the next new chat) */
+  activePersonaId: string | null;
+  onSelect: (personaId: string | null) => void;
+  onSave: (draft: PersonaDraft, existing?: Persona) => Promise<void>;
+  onDelete: (persona: Persona) => Promise<void>;
+  models: AvailableModel[];
+  contextFiles: ContextFile[];
+}
+
+const PersonaPanel: FC<PersonaPanelProps> = ({
+  personas,
+  activePersonaId,
+  onSelect,
+  onSave,
+  onDelete,
+  models,
+  contextFiles,
+}) => {
+  // The persona being edited: undefined when not editing, null for a new one
+  const [editing, setEditing] = useState<Persona | null | undefined>(undefined);
+  const [draft, setDraft] = useState<PersonaDraft>(EMPTY_DRAFT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const activePersona = personas.find(p => p.id === activePersonaId) ?? null;
+
+  const startEditing = (persona: Persona | null) => {
+    setEditing(persona);
+    setDraft(persona
+      ? {
+          name: persona.name,
+          instructions: persona.instructions,
+          model: persona.model,
+          temperature: persona.temperature,
+          contextFileIds: persona.contextFileIds,
+        }
+      : EMPTY_DRAFT);
+  };
+
+  const toggleFile = (fileId: string) => {
+    setDraft(d => ({
+      ...d,
+      contextFileIds: d.contextFileIds.includes(fileId)
+        ? d.contextFileIds.filter(id => id !== fileId)
+        : [...d.contextFileIds, fileId],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft, editing ?? undefined);
+      setEditing(undefined);
+    } catch (error) {
+      console.error('Persona save error:', error);
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!editing || !confirm(`Delete the persona "${editing.name}"? Chats using it will go back to no persona.`)) return;
+    setIsSaving(true);
+    try {
+      await onDelete(editing);
+      setEditing(undefined);
+    } catch (error) {
+      console.error('Persona delete error:', error);
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (editing === undefined) {
+    return (
+      <div className="p-4 border-b border-gray-700">
+        <h3 className="text-base font-medium text-gray-400 mb-2">Persona</h3>
+        <div className="flex items-center gap-2">
+          <UserCircle className="w-5 h-5 text-gray-400 flex-shrink-0" />
+          <select
+            value={activePersonaId ?? ''}
+            onChange={(e) => onSelect(e.target.value || null)}
+            className="flex-1 min-w-0 bg-gray-700 border border-gray-600 text-gray-200 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <option value="">None</option>
+            {personas.map(persona => (
+              <option key={persona.id} value={persona.id}>{persona.name}</option>
+            ))}
+          </select>
+          {activePersona && (
+            <button
+              onClick={() => startEditing(activePersona)}
+              className="p-1.5 text-gray-400 hover:text-white hover:bg-gray-700 rounded-md transition-colors"
+              title="Edit persona"
+            >
+              <Pencil className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        {activePersona?.instructions && (
+          <p className="mt-2 text-xs text-gray-500 line-clamp-3 whitespace-pre-wrap">{activePersona.instructions}</p>
+        )}
+        <button
+          onClick={() => startEditing(null)}
+          className="mt-3 w-full flex items-center justify-center gap-2 bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          New persona
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 border-b border-gray-700 space-y-3 overflow-y-auto">
+      <h3 className="text-base font-medium text-gray-400">{editing ? 'Edit persona' : 'New persona'}</h3>
+
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+        maxLength={MAX_PERSONA_NAME_CHARS}
+        placeholder="Name"
+        className="w-full bg-gray-700 border border-gray-600 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <textarea
+        value={draft.instructions}
+        onChange={(e) => setDraft(d => ({ ...d, instructions: e.target.value }))}
+        maxLength={MAX_PERSONA_INSTRUCTIONS_CHARS}
+        placeholder="Instructions sent with every message, e.g. who you are and how replies should read"
+        rows={6}
+        className="w-full bg-gray-700 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm resize-y focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <label className="block text-xs text-gray-400">
+        Preferred model
+        <select
+          value={draft.model ?? ''}
+          onChange={(e) => setDraft(d => ({ ...d, model: e.target.value || undefined }))}
+          className="mt-1 w-full bg-gray-700 border border-gray-600 text-gray-200 rounded-lg px-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+        >
+          <option value="">Keep the current selection</option>
+          {models.map(model => (
+            <option key={model.id} value={model.id}>{model.name}</option>
+          ))}
+        </select>
+      </label>
+
+      <div className="text-xs text-gray-400">
+        <label className="flex items-center justify-between">
+          <span>Temperature</span>
+          <span className="flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={draft.temperature === undefined}
+              onChange={(e) => setDraft(d => ({ ...d, temperature: e.target.checked ? undefined : DEFAULT_TEMPERATURE }))}
+            />
+            Model default
+          </span>
+        </label>
+        {draft.temperature !== undefined && (
+          <div className="flex items-center gap-2 mt-1">
+            <input
+              type="range"
+              min={MIN_PERSONA_TEMPERATURE}
+              max={MAX_PERSONA_TEMPERATURE}
+              step={0.1}
+              value={draft.temperature}
+              onChange={(e) => setDraft(d => ({ ...d, temperature: Number(e.target.value) }))}
+              className="flex-1"
+            />
+            <span className="w-8 text-right text-gray-300">{draft.temperature.toFixed(1)}</span>
+          </div>
+        )}
+      </div>
+
+      {contextFiles.length > 0 && (
+        <div className="text-xs text-gray-400">
+          <p>Default context files</p>
+          <div className="mt-1 space-y-1 max-h-32 overflow-y-auto pr-1">
+            {contextFiles.map(file => (
+              <label key={file.id} className="flex items-center gap-2 text-sm text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={draft.contextFileIds.includes(file.id)}
+                  onChange={() => toggleFile(file.id)}
+                />
+                <span className="truncate" title={file.name}>{file.name}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !draft.name.trim()}
+          className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          Save
+        </button>
+        <button
+          onClick={() => setEditing(undefined)}
+          disabled={isSaving}
+          className="flex-1 bg-gray-700 hover:bg-gray-600 text-gray-200 px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          Cancel
+        </button>
+        {editing && (
+          <button
+            onClick={handleDelete}
+            disabled={isSaving}
+            className="p-2 text-gray-400 hover:text-red-400 transition-colors"
+            title="Delete persona"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaPanel;
@@ -0,0 +1,99 @@
+// src/components/ProjectPanel.tsx
+"use client";
+
+import { FC, useEffect, useState } from 'react';
+import { FolderOpen, Trash2 } from 'lucide-react';
+import type { Project } from '../lib/types';
+import type { ProjectDraft } from '../lib/projectStorage';
+import { MAX_PROJECT_INSTRUCTIONS_CHARS, MAX_PROJECT_NAME_CHARS } from '../lib/projectSchema';
+
+interface ProjectPanelProps {
+  project: Project;
+  onSave: (draft: ProjectDraft, existing: Project) => Promise<void>;
+  onDelete: (project: Project) => Promise<void>;
+}
+
+const ProjectPanel: FC<ProjectPanelProps> = ({ project, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<ProjectDraft>({ name: project.name, instructions: project.instructions });
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Follow switches between projects and edits saved elsewhere
+  useEffect(() => {
+    setDraft({ name: project.name, instructions: project.instructions });
+  }, [project.id, project.name, project.instructions]);
+
+  const isDirty = draft.name !== project.name || draft.instructions !== project.instructions;
+
+  const handleSave = async () => {
+    if (!draft.name.trim()) return;
+    setIsSaving(true);
+    try {
+      await onSave(draft, project);
+    } catch (error) {
+      console.error('Project save error:', error);
+      alert((error as Error).message);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!confirm(`Delete the project "${project.name}"? Its chats and files are kept and moved out of the project.`)) return;
+    setIsSaving(true);
+    try {
+      await onDelete(project);
+    } catch (error) {
+      console.error('Project delete error:', error);
+      alert((error as Error).message);
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-gray-700 space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-base font-medium text-gray-400 flex items-center gap-2">
+          <FolderOpen className="w-4 h-4" />
+          Project
+        </h3>
+        <button
+          onClick={handleDelete}
+          disabled={isSaving}
+          className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+          title="Delete project"
+        >
+          <Trash2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <input
+        value={draft.name}
+        onChange={(e) => setDraft(d => ({ ...d, name: e.target.value }))}
+        maxLength={MAX_PROJECT_NAME_CHARS}
+        placeholder="Project name"
+        className="w-full bg-gray-700 border border-gray-600 text-gray-200 rounded-lg px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      <textarea
+        value={draft.instructions}
+        onChange={(e) => setDraft(d => ({ ...d, instructions: e.target.value }))}
+        maxLength={MAX_PROJECT_INSTRUCTIONS_CHARS}
+        placeholder="Standing instructions for every chat in this project"
+        rows={5}
+        className="w-full bg-gray-700 border border-gray-600 text-gray-200 rounded-lg p-3 text-sm resize-y focus:outline-none focus:ring-2 focus:ring-blue-500"
+      />
+
+      {isDirty && (
+        <button
+          onClick={handleSave}
+          disabled={isSaving || !draft.name.trim()}
+          className="w-full bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+        >
+          Save project
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPanel;
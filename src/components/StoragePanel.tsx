@@ -0,0 +1,178 @@
+// src/components/StoragePanel.tsx
+"use client";
+
+import { FC, useEffect, useMemo, useState } from 'react';
+import { User } from 'firebase/auth';
+import { HardDrive, Loader2, RefreshCw, Trash2 } from 'lucide-react';
+import { XIcon } from './Icons';
+import { useStorage } from '../hooks/useStorage';
+import type { Chat } from '../lib/types';
+import type { StoredBlob } from '@/lib/blobs';
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB`
+    : bytes >= 1024 ** 2 ? `${(bytes / 1024 ** 2).toFixed(1)} MB`
+      : bytes >= 1024 ? `${(bytes / 1024).toFixed(0)} KB`
+        : `${bytes} B`;
+
+const formatAge = (iso: string) => {
+  const minutes = Math.floor((Date.now() - new Date(iso).getTime()) / 60_000);
+  if (minutes < 60) return `${Math.max(1, minutes)}m ago`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}h ago`;
+  const days = Math.floor(hours / 24);
+  return days < 60 ? `${days}d ago` : new Date(iso).toLocaleDateString();
+};
+
+interface StoragePanelProps {
+  user: User;
+  isOpen: boolean;
+  onClose: () => void;
+  /** Every chat, to name the chat each attachment came from */
+  chats: Chat[];
+}
+
+const StoragePanel: FC<StoragePanelProps> = ({ user, isOpen, onClose, chats }) => {
+  const { status, blobs, loading, error, refresh, deleteBlobs } = useStorage(user, isOpen);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  // Drop selections for files that are gone after a refresh or delete
+  useEffect(() => {
+    setSelected(current => new Set(blobs.filter(blob => current.has(blob.url)).map(blob => blob.url)));
+  }, [blobs]);
+
+  const chatTitles = useMemo(() => new Map(chats.map(chat => [chat.id, chat.title])), [chats]);
+
+  const sourceLabel = (blob: StoredBlob) => {
+    if (blob.source === 'context') return 'Context file';
+    if (blob.chatId) return chatTitles.get(blob.chatId) ?? 'Deleted chat';
+    return blob.source === 'attachment' ? 'Attachment' : 'Unknown';
+  };
+
+  const selectedBytes = blobs.filter(blob => selected.has(blob.url)).reduce((sum, blob) => sum + blob.size, 0);
+  const allSelected = blobs.length > 0 && selected.size === blobs.length;
+
+  const toggle = (url: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(url)) next.delete(url); else next.add(url);
+      return next;
+    });
+  };
+
+  const handleDelete = async () => {
+    if (selected.size === 0) return;
+    if (!confirm(`Delete ${selected.size} file(s) (${formatBytes(selectedBytes)})? Context files are removed too, and chats that attached them will no longer show them.`)) return;
+    setIsDeleting(true);
+    try {
+      await deleteBlobs([...selected]);
+    } catch (err) {
+      console.error('Storage delete error:', err);
+      alert((err as Error).message);
+    } finally {
+      setIsDeleting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  const share = status && status.limitBytes > 0 ? Math.min(1, status.usedBytes / status.limitBytes) : 0;
+  const color = share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-yellow-500' : 'bg-blue-500';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-2xl max-h-[85vh] flex flex-col bg-gray-800 border border-gray-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <HardDrive className="w-5 h-5 text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-300">Storage</h2>
+            {status && (
+              <span className="px-2 py-0.5 rounded-full bg-gray-700 text-xs text-gray-300 capitalize">{status.tier} plan</span>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={refresh} disabled={loading} className="p-2 rounded-md hover:bg-gray-700 disabled:opacity-50" title="Refresh">
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </button>
+            <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-700">
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {status && (
+          <div className="p-4 border-b border-gray-700">
+            <div className="flex justify-between text-sm text-gray-300 mb-1">
+              <span>{status.files} file(s)</span>
+              <span>{formatBytes(status.usedBytes)} / {formatBytes(status.limitBytes)}</span>
+            </div>
+            <div className="h-2 rounded-full bg-gray-700 overflow-hidden">
+              <div className={`h-full ${color}`} style={{ width: `${share * 100}%` }} />
+            </div>
+          </div>
+        )}
+
+        <div className="flex-1 overflow-y-auto p-4">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {blobs.length === 0 && loading && <p className="text-sm text-gray-500">Loading files…</p>}
+          {blobs.length === 0 && !loading && !error && <p className="text-sm text-gray-500">No stored files.</p>}
+          {blobs.length > 0 && (
+            <table className="w-full text-xs text-gray-300">
+              <thead>
+                <tr className="text-gray-500 text-left">
+                  <th className="font-normal py-1 w-6">
+                    <input
+                      type="checkbox"
+                      checked={allSelected}
+                      onChange={() => setSelected(allSelected ? new Set() : new Set(blobs.map(blob => blob.url)))}
+                      aria-label="Select all"
+                    />
+                  </th>
+                  <th className="font-normal py-1">File</th>
+                  <th className="font-normal py-1 text-right">Size</th>
+                  <th className="font-normal py-1 pl-3">From</th>
+                  <th className="font-normal py-1 text-right">Age</th>
+                </tr>
+              </thead>
+              <tbody>
+                {blobs.map(blob => (
+                  <tr key={blob.url} className="border-t border-gray-700">
+                    <td className="py-1.5">
+                      <input type="checkbox" checked={selected.has(blob.url)} onChange={() => toggle(blob.url)} aria-label={`Select ${blob.name}`} />
+                    </td>
+                    <td className="py-1.5 truncate max-w-[14rem]">
+                      <a href={blob.url} target="_blank" rel="noopener noreferrer" className="hover:underline" title={blob.pathname}>{blob.name}</a>
+                    </td>
+                    <td className="py-1.5 text-right whitespace-nowrap">{formatBytes(blob.size)}</td>
+                    <td className="py-1.5 pl-3 truncate max-w-[10rem] text-gray-400" title={sourceLabel(blob)}>{sourceLabel(blob)}</td>
+                    <td className="py-1.5 text-right whitespace-nowrap text-gray-400" title={new Date(blob.uploadedAt).toLocaleString()}>{formatAge(blob.uploadedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-700 flex items-center justify-between">
+          <span className="text-xs text-gray-500">
+            {selected.size > 0 ? `${selected.size} selected (${formatBytes(selectedBytes)})` : 'Select files to delete'}
+          </span>
+          <button
+            onClick={handleDelete}
+            disabled={selected.size === 0 || isDeleting}
+            className="flex items-center gap-2 bg-red-600 hover:bg-red-500 disabled:opacity-50 text-white px-3 py-2 rounded-lg text-sm transition-colors"
+          >
+            {isDeleting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Trash2 className="w-4 h-4" />}
+            Delete selected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StoragePanel;
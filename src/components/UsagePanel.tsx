@@ -0,0 +1,134 @@
+// src/components/UsagePanel.tsx
+"use client";
+
+import { FC } from 'react';
+import { User } from 'firebase/auth';
+import { BarChart3, Loader2, RefreshCw } from 'lucide-react';
+import { XIcon } from './Icons';
+import { useUsage } from '../hooks/useUsage';
+import type { QuotaWindow, UsagePeriod } from '@/lib/usage';
+
+const formatTokens = (tokens: number) =>
+  tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M`
+    : tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K`
+      : tokens.toString();
+
+const formatCost = (usd: number) => (usd > 0 && usd < 0.01 ? '<$0.01' : `$${usd.toFixed(2)}`);
+
+const formatReset = (at: number) =>
+  new Date(at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const QuotaBar: FC<{ label: string; window: QuotaWindow }> = ({ label, window }) => {
+  const share = window.limit > 0 ? Math.min(1, window.used / window.limit) : 1;
+  const color = share >= 1 ? 'bg-red-500' : share >= 0.8 ? 'bg-yellow-500' : 'bg-blue-500';
+  return (
+    <div>
+      <div className="flex justify-between text-sm text-gray-300 mb-1">
+        <span>{label}</span>
+        <span>{formatTokens(window.used)} / {formatTokens(window.limit)} tokens</span>
+      </div>
+      <div className="h-2 rounded-full bg-gray-700 overflow-hidden">
+        <div className={`h-full ${color}`} style={{ width: `${share * 100}%` }} />
+      </div>
+      <p className="mt-1 text-xs text-gray-500">Resets {formatReset(window.resetAt)}</p>
+    </div>
+  );
+};
+
+const PeriodTable: FC<{ title: string; period: UsagePeriod }> = ({ title, period }) => (
+  <div>
+    <h3 className="text-sm font-medium text-gray-400 mb-2">{title}</h3>
+    <div className="grid grid-cols-4 gap-2 text-center mb-2">
+      {[
+        ['Requests', period.requests.toString()],
+        ['Tokens', formatTokens(period.inputTokens + period.outputTokens)],
+        ['Files', period.files.toString()],
+        ['Est. cost', formatCost(period.costUsd)],
+      ].map(([label, value]) => (
+        <div key={label} className="bg-gray-700/50 rounded-lg p-2">
+          <p className="text-base font-semibold text-gray-200">{value}</p>
+          <p className="text-xs text-gray-500">{label}</p>
+        </div>
+      ))}
+    </div>
+    {period.byModel.length > 0 && (
+      <table className="w-full text-xs text-gray-300">
+        <thead>
+          <tr className="text-gray-500 text-left">
+            <th className="font-normal py-1">Model</th>
+            <th className="font-normal py-1 text-right">In</th>
+            <th className="font-normal py-1 text-right">Out</th>
+            <th className="font-normal py-1 text-right">Cost</th>
+          </tr>
+        </thead>
+        <tbody>
+          {period.byModel.map(entry => (
+            <tr key={`${entry.provider}:${entry.model}`} className="border-t border-gray-700">
+              <td className="py-1 truncate max-w-[10rem]" title={`${entry.model} via ${entry.provider}`}>{entry.model}</td>
+              <td className="py-1 text-right">{formatTokens(entry.inputTokens)}</td>
+              <td className="py-1 text-right">{formatTokens(entry.outputTokens)}</td>
+              <td className="py-1 text-right">{formatCost(entry.costUsd)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    )}
+  </div>
+);
+
+interface UsagePanelProps {
+  user: User;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const UsagePanel: FC<UsagePanelProps> = ({ user, isOpen, onClose }) => {
+  const { usage, loading, error, refresh } = useUsage(user, isOpen);
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md max-h-[85vh] overflow-y-auto bg-gray-800 border border-gray-700 rounded-xl shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-700 flex justify-between items-center">
+          <div className="flex items-center gap-2">
+            <BarChart3 className="w-5 h-5 text-gray-400" />
+            <h2 className="text-lg font-semibold text-gray-300">Usage</h2>
+            {usage && (
+              <span className="px-2 py-0.5 rounded-full bg-gray-700 text-xs text-gray-300 capitalize">{usage.quota.tier} plan</span>
+            )}
+          </div>
+          <div className="flex items-center gap-1">
+            <button onClick={refresh} disabled={loading} className="p-2 rounded-md hover:bg-gray-700 disabled:opacity-50" title="Refresh">
+              {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            </button>
+            <button onClick={onClose} className="p-2 rounded-md hover:bg-gray-700">
+              <XIcon className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="p-4 space-y-5">
+          {error && <p className="text-sm text-red-400">{error}</p>}
+          {!usage && loading && <p className="text-sm text-gray-500">Loading usage…</p>}
+          {usage && (
+            <>
+              <div className="space-y-3">
+                <QuotaBar label="Today" window={usage.quota.daily} />
+                <QuotaBar label="This month" window={usage.quota.monthly} />
+              </div>
+              <PeriodTable title="Today" period={usage.today} />
+              <PeriodTable title="This month" period={usage.month} />
+              <p className="text-xs text-gray-500">Costs are estimates from list prices, not a bill.</p>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsagePanel;
@@ -0,0 +1,75 @@
+// src/hooks/useChatTransfer.ts - Download chat exports and upload import files
+
+import { useState, useCallback } from 'react';
+import { User } from 'firebase/auth';
+import type { ExportFormat } from '@/lib/export/types';
+
+export function useChatTransfer(user: User | null | undefined) {
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+
+  /** Download one chat, or all chats when chatId is omitted */
+  const exportChats = useCallback(async (format: ExportFormat, chatId?: string) => {
+    if (!user) return;
+    setBusy('export');
+    try {
+      const params = new URLSearchParams({ format });
+      if (chatId) params.set('chatId', chatId);
+
+      const token = await user.getIdToken();
+      const response = await fetch(`/api/chats/export?${params}`, {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || 'Export failed');
+      }
+
+      const disposition = response.headers.get('Content-Disposition') || '';
+      const fileName = /filename="([^"]+)"/.exec(disposition)?.[1] || `auraiq-export.${format}`;
+
+      const url = URL.createObjectURL(await response.blob());
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (error) {
+      console.error('Export error:', error);
+      alert((error as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  }, [user]);
+
+  /** Import an AuraIQ JSON export or a ChatGPT/Claude conversations.json */
+  const importFile = useCallback(async (file: File): Promise<number> => {
+    if (!user) return 0;
+    setBusy('import');
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const token = await user.getIdToken();
+      const response = await fetch('/api/chats/import', {
+        method: 'POST',
+        headers: { 'Authorization': `Bearer ${token}` },
+        body: formData,
+      });
+
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || 'Import failed');
+      }
+      return data.imported || 0;
+    } catch (error) {
+      console.error('Import error:', error);
+      alert((error as Error).message);
+      return 0;
+    } finally {
+      setBusy(null);
+    }
+  }, [user]);
+
+  return { exportChats, importFile, busy };
+}
@@ -1,18 +1,22 @@
 // src/hooks/useChats.ts - Custom hook for chat management
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useRef, useMemo } from 'react';
 import { Firestore, collection, query, orderBy, onSnapshot } from 'firebase/firestore';
 import { Chat } from '@/lib/types';
 
-export function useChats(userId: string | undefined, db: Firestore) {
-  const [chats, setChats] = useState<Chat[]>([]);
+/**
+ * The user's chats in one project (null for chats outside any project).
+ * `allChats` spans every project, for finding a chat opened from elsewhere.
+ */
+export function useChats(userId: string | undefined, db: Firestore, projectId: string | null = null) {
+  const [allChats, setAllChats] = useState<Chat[]>([]);
   const [currentChatId, setCurrentChatId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const isInitialLoad = useRef(true);
 
   useEffect(() => {
     if (!userId) {
-      setChats([]);
+      setAllChats([]);
       setLoading(false);
       return;
     }
@@ -28,15 +32,18 @@ export function useChats(userId: string | undefined, db: Firestore) {
         id: docSnap.id,
         title: docSnap.data().title,
         timestamp: docSnap.data().timestamp,
+        personaId: docSnap.data().personaId ?? null,
+        projectId: docSnap.data().projectId ?? null,
         messages: [],
       }));
 
-      setChats(userChats);
+      setAllChats(userChats);
       setLoading(false);
 
       // Auto-select first chat on initial load
-      if (isInitialLoad.current && userChats.length > 0 && !currentChatId) {
-        setCurrentChatId(userChats[0].id);
+      const projectChats = userChats.filter(chat => chat.projectId === projectId);
+      if (isInitialLoad.current && projectChats.length > 0 && !currentChatId) {
+        setCurrentChatId(projectChats[0].id);
         isInitialLoad.current = false;
       }
     }, (error) => {
@@ -45,7 +52,14 @@ export function useChats(userId: string | undefined, db: Firestore) {
     });
 
     return () => unsubscribe();
-  }, [userId, db, currentChatId]);
+  }, [userId, db, currentChatId, projectId]);
+
+  // Filtered here rather than in the query: chats created before projects
+  // existed have no projectId field, which a Firestore filter can't match
+  const chats = useMemo(
+    () => allChats.filter(chat => chat.projectId === projectId),
+    [allChats, projectId]
+  );
 
   const createNewChat = () => {
     setCurrentChatId(null);
@@ -54,6 +68,7 @@ export function useChats(userId: string | undefined, db: Firestore) {
 
   return {
     chats,
+    allChats,
     currentChatId,
     setCurrentChatId,
     createNewChat,
@@ -7,9 +7,13 @@ export interface ContextFile {
   id: string;
   name: string;
   url: string;
+  projectId: string | null;
 }
 
-export function useContextFiles(userId: string | undefined, db: Firestore) {
+/**
+ * The user's context files in one project (null for files outside any project)
+ */
+export function useContextFiles(userId: string | undefined, db: Firestore, projectId: string | null = null) {
   const [contextFiles, setContextFiles] = useState<ContextFile[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -26,11 +30,15 @@ export function useContextFiles(userId: string | undefined, db: Firestore) {
     );
 
     const unsubscribe = onSnapshot(q, (querySnapshot) => {
-      const files: ContextFile[] = querySnapshot.docs.map(doc => ({
-        id: doc.id,
-        name: doc.data().name,
-        url: doc.data().url,
-      }));
+      // Filtered here because files uploaded before projects have no projectId field
+      const files: ContextFile[] = querySnapshot.docs
+        .map(doc => ({
+          id: doc.id,
+          name: doc.data().name,
+          url: doc.data().url,
+          projectId: doc.data().projectId ?? null,
+        }))
+        .filter(file => file.projectId === projectId);
       setContextFiles(files);
       setLoading(false);
     }, (error) => {
@@ -39,7 +47,7 @@ export function useContextFiles(userId: string | undefined, db: Firestore) {
     });
 
     return () => unsubscribe();
-  }, [userId, db]);
+  }, [userId, db, projectId]);
 
   return { contextFiles, loading };
 }
\ No newline at end of file
@@ -0,0 +1,97 @@
+// src/hooks/useMessageSearch.ts - Debounced full-text search across the user's chats
+
+import { useState, useEffect } from 'react';
+import { User } from 'firebase/auth';
+import type { SearchHit } from '@/lib/search';
+
+export interface MessageSearchFilters {
+  /** yyyy-mm-dd, inclusive */
+  from: string;
+  to: string;
+  model: string;
+  attachments: 'any' | 'yes' | 'no';
+}
+
+export const EMPTY_SEARCH_FILTERS: MessageSearchFilters = {
+  from: '',
+  to: '',
+  model: '',
+  attachments: 'any',
+};
+
+const DEBOUNCE_MS = 300;
+
+export function useMessageSearch(user: User | null | undefined) {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<MessageSearchFilters>(EMPTY_SEARCH_FILTERS);
+  const [results, setResults] = useState<SearchHit[]>([]);
+  const [models, setModels] = useState<string[]>([]);
+  const [indexing, setIndexing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user || !query.trim()) {
+      setResults([]);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+    setLoading(true);
+
+    const timer = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query.trim() });
+        if (filters.from) params.set('from', String(new Date(`${filters.from}T00:00:00`).getTime()));
+        if (filters.to) params.set('to', String(new Date(`${filters.to}T23:59:59.999`).getTime()));
+        if (filters.model) params.set('model', filters.model);
+        if (filters.attachments !== 'any') params.set('attachments', filters.attachments);
+
+        const token = await user.getIdToken();
+        const response = await fetch(`/api/search?${params}`, {
+          headers: { 'Authorization': `Bearer ${token}` },
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Search failed');
+        }
+
+        const data = await response.json();
+        setResults(data.hits || []);
+        // Matches are already narrowed to the selected model; keep the others to switch to
+        setModels(current => filters.model
+          ? Array.from(new Set([...current, ...(data.models || [])])).sort()
+          : data.models || []);
+        setIndexing(!!data.indexing);
+        setError(null);
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+        console.error('Search error:', err);
+        setError((err as Error).message);
+        setResults([]);
+      }
+      setLoading(false);
+    }, DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      abortController.abort();
+    };
+  }, [user, query, filters]);
+
+  return {
+    query,
+    setQuery,
+    filters,
+    setFilters,
+    results,
+    models,
+    indexing,
+    loading,
+    error,
+  };
+}
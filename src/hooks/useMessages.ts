@@ -1,69 +1,63 @@
-// src/hooks/useMessages.ts - With pagination and virtual scrolling
+// src/hooks/useMessages.ts - Loads a chat's message tree and exposes the active branch
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { 
   Firestore, 
   collection, 
+  doc,
   query, 
   orderBy, 
   onSnapshot, 
-  limit,
-  startAfter,
-  getDocs,
-  QueryDocumentSnapshot,
-  Unsubscribe 
 } from 'firebase/firestore';
 import { Message } from '@/lib/types';
-
-const MESSAGES_PER_PAGE = 50;
+import { messageFromFirestore } from '@/lib/messageSchema';
+import { setActiveLeaf } from '@/lib/messageStorage';
+import {
+  buildMessageTree,
+  getActivePath,
+  getBranchInfo,
+  getLatestLeafId,
+} from '@/lib/messageTree';
 
 export function useMessages(
   userId: string | undefined,
   chatId: string | null,
   db: Firestore
 ) {
-  const [messages, setMessages] = useState<Message[]>([]);
+  // Every message in the chat; branches need the whole tree, not a page
+  const [storedMessages, setStoredMessages] = useState<Message[]>([]);
+  // Optimistic messages not yet confirmed by a snapshot
+  const [localMessages, setLocalMessages] = useState<Message[]>([]);
+  const [storedLeafId, setStoredLeafId] = useState<string | null>(null);
+  // Leaf shown before Firestore catches up (cleared when the stored leaf changes)
+  const [localLeafId, setLocalLeafId] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
-  const [hasMore, setHasMore] = useState(true);
-  const [oldestDoc, setOldestDoc] = useState<QueryDocumentSnapshot | null>(null);
-  const unsubscribeRef = useRef<Unsubscribe | null>(null);
+  const lastStoredLeafRef = useRef<string | null>(null);
 
-  // Load initial messages
   useEffect(() => {
+    setLocalMessages([]);
+    setLocalLeafId(null);
+    setStoredLeafId(null);
+    lastStoredLeafRef.current = null;
+
     if (!userId || !chatId) {
-      setMessages([]);
+      setStoredMessages([]);
       setLoading(false);
-      setHasMore(false);
       return;
     }
 
     setLoading(true);
 
     const messagesRef = collection(db, 'users', userId, 'chats', chatId, 'messages');
-    const q = query(messagesRef, orderBy('timestamp', 'desc'), limit(MESSAGES_PER_PAGE));
+    const q = query(messagesRef, orderBy('timestamp', 'asc'));
 
-    const unsubscribe = onSnapshot(
+    const unsubscribeMessages = onSnapshot(
       q,
       (snapshot) => {
-        const loadedMessages: Message[] = [];
-        let oldestSnapshot: QueryDocumentSnapshot | null = null;
-
-        snapshot.docs.forEach((doc, index) => {
-          loadedMessages.push({
-            id: doc.id,
-            text: doc.data().text || '',
-            sender: doc.data().sender || 'ai',
-          });
-
-          if (index === snapshot.docs.length - 1) {
-            oldestSnapshot = doc;
-          }
-        });
-
-        // Reverse to show oldest first
-        setMessages(loadedMessages.reverse());
-        setOldestDoc(oldestSnapshot);
-        setHasMore(snapshot.docs.length === MESSAGES_PER_PAGE);
+        const loaded = snapshot.docs.map(d => messageFromFirestore(d.id, d.data()));
+        const loadedIds = new Set(loaded.map(m => m.id));
+        setStoredMessages(loaded);
+        setLocalMessages(prev => prev.filter(m => !loadedIds.has(m.id)));
         setLoading(false);
       },
       (error) => {
@@ -72,72 +66,84 @@ export function useMessages(
       }
     );
 
-    unsubscribeRef.current = unsubscribe;
+    const unsubscribeChat = onSnapshot(
+      doc(db, 'users', userId, 'chats', chatId),
+      (snapshot) => {
+        const leafId: string | null = snapshot.data()?.activeLeafId || null;
+        if (leafId !== lastStoredLeafRef.current) {
+          lastStoredLeafRef.current = leafId;
+          setStoredLeafId(leafId);
+          setLocalLeafId(null);
+        }
+      },
+      (error) => {
+        console.error('Error fetching chat:', error);
+      }
+    );
 
     return () => {
-      if (unsubscribeRef.current) {
-        unsubscribeRef.current();
-      }
+      unsubscribeMessages();
+      unsubscribeChat();
     };
   }, [userId, chatId, db]);
 
-  // Load older messages (pagination)
-  const loadMoreMessages = useCallback(async () => {
-    if (!userId || !chatId || !oldestDoc || !hasMore || loading) {
-      return;
-    }
-
-    setLoading(true);
-
-    try {
-      const messagesRef = collection(db, 'users', userId, 'chats', chatId, 'messages');
-      const q = query(
-        messagesRef,
-        orderBy('timestamp', 'desc'),
-        startAfter(oldestDoc),
-        limit(MESSAGES_PER_PAGE)
-      );
-
-      const snapshot = await getDocs(q);
-
-      if (snapshot.empty) {
-        setHasMore(false);
-        setLoading(false);
-        return;
-      }
-
-      const olderMessages: Message[] = [];
-      let newOldestDoc: QueryDocumentSnapshot | null = null;
-
-      snapshot.docs.forEach((doc, index) => {
-        olderMessages.push({
-          id: doc.id,
-          text: doc.data().text || '',
-          sender: doc.data().sender || 'ai',
-        });
-
-        if (index === snapshot.docs.length - 1) {
-          newOldestDoc = doc;
-        }
+  const tree = useMemo(
+    () => buildMessageTree([...storedMessages, ...localMessages]),
+    [storedMessages, localMessages]
+  );
+
+  const activeLeafId = localLeafId || storedLeafId;
+  const messages = useMemo(() => getActivePath(tree, activeLeafId), [tree, activeLeafId]);
+
+  /** Show a message immediately, as the new end of the active branch */
+  const addLocalMessage = useCallback((message: Message) => {
+    setLocalMessages(prev => [...prev, message]);
+    setLocalLeafId(message.id);
+  }, []);
+
+  /** Show the branch ending at leafId; persist=false only changes this view */
+  const showBranch = useCallback((leafId: string, persist = true) => {
+    setLocalLeafId(leafId);
+    if (persist && userId && chatId) {
+      setActiveLeaf(db, userId, chatId, leafId).catch(error => {
+        console.error('Error saving active branch:', error);
       });
-
-      // Prepend older messages (reversed)
-      setMessages(prev => [...olderMessages.reverse(), ...prev]);
-      setOldestDoc(newOldestDoc);
-      setHasMore(snapshot.docs.length === MESSAGES_PER_PAGE);
-      setLoading(false);
-    } catch (error) {
-      console.error('Error loading more messages:', error);
-      setLoading(false);
     }
-  }, [userId, chatId, db, oldestDoc, hasMore, loading]);
+  }, [db, userId, chatId]);
+
+  /** Step to the previous/next sibling of a message and show its newest leaf */
+  const switchBranch = useCallback((messageId: string, direction: -1 | 1) => {
+    const { index, siblingIds } = getBranchInfo(tree, messageId);
+    const targetId = siblingIds[index + direction];
+    if (!targetId) return;
+    showBranch(getLatestLeafId(tree, targetId));
+  }, [tree, showBranch]);
+
+  /**
+   * Make sure a message is on screen, switching to its branch if needed.
+   * Returns false when the message hasn't loaded (yet).
+   */
+  const revealMessage = useCallback((messageId: string): boolean => {
+    if (!tree.byId.has(messageId)) return false;
+    if (!messages.some(m => m.id === messageId)) {
+      showBranch(getLatestLeafId(tree, messageId), false);
+    }
+    return true;
+  }, [tree, messages, showBranch]);
+
+  const branchInfo = useCallback(
+    (messageId: string) => getBranchInfo(tree, messageId),
+    [tree]
+  );
 
   return { 
     messages, 
-    setMessages, 
     loading, 
-    hasMore, 
-    loadMoreMessages 
+    addLocalMessage,
+    showBranch,
+    switchBranch,
+    revealMessage,
+    branchInfo,
   };
 }
 
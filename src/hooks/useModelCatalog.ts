@@ -0,0 +1,50 @@
+// src/hooks/useModelCatalog.ts - Selectable models from /api/models
+
+import { useState, useEffect } from 'react';
+import { User } from 'firebase/auth';
+import type { AvailableModel } from '@/lib/models';
+
+export function useModelCatalog(user: User | null | undefined) {
+  const [models, setModels] = useState<AvailableModel[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) {
+      setModels([]);
+      setLoading(false);
+      return;
+    }
+
+    const abortController = new AbortController();
+    setLoading(true);
+
+    (async () => {
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch('/api/models', {
+          headers: { 'Authorization': `Bearer ${token}` },
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to load models');
+        }
+
+        const data = await response.json();
+        setModels(data.models || []);
+        setError(null);
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+        console.error('Model catalog error:', err);
+        setError((err as Error).message);
+      }
+      setLoading(false);
+    })();
+
+    return () => abortController.abort();
+  }, [user]);
+
+  return { models, loading, error };
+}
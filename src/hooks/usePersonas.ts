@@ -0,0 +1,36 @@
+// src/hooks/usePersonas.ts - The user's saved persona profiles
+
+import { useState, useEffect } from 'react';
+import { Firestore, collection, query, orderBy, onSnapshot } from 'firebase/firestore';
+import { Persona } from '@/lib/types';
+import { personaFromFirestore } from '@/lib/personaSchema';
+
+export function usePersonas(userId: string | undefined, db: Firestore) {
+  const [personas, setPersonas] = useState<Persona[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setPersonas([]);
+      setLoading(false);
+      return;
+    }
+
+    const q = query(
+      collection(db, 'users', userId, 'personas'),
+      orderBy('name', 'asc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+      setPersonas(querySnapshot.docs.map(doc => personaFromFirestore(doc.id, doc.data())));
+      setLoading(false);
+    }, (error) => {
+      console.error('Error fetching personas:', error);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [userId, db]);
+
+  return { personas, loading };
+}
@@ -0,0 +1,36 @@
+// src/hooks/useProjects.ts - The user's projects
+
+import { useState, useEffect } from 'react';
+import { Firestore, collection, query, orderBy, onSnapshot } from 'firebase/firestore';
+import { Project } from '@/lib/types';
+import { projectFromFirestore } from '@/lib/projectSchema';
+
+export function useProjects(userId: string | undefined, db: Firestore) {
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (!userId) {
+      setProjects([]);
+      setLoading(false);
+      return;
+    }
+
+    const q = query(
+      collection(db, 'users', userId, 'projects'),
+      orderBy('name', 'asc')
+    );
+
+    const unsubscribe = onSnapshot(q, (querySnapshot) => {
+      setProjects(querySnapshot.docs.map(doc => projectFromFirestore(doc.id, doc.data())));
+      setLoading(false);
+    }, (error) => {
+      console.error('Error fetching projects:', error);
+      setLoading(false);
+    });
+
+    return () => unsubscribe();
+  }, [userId, db]);
+
+  return { projects, loading };
+}
@@ -0,0 +1,78 @@
+// src/hooks/useStorage.ts - The user's stored files and storage limit from /api/storage
+
+import { useState, useEffect, useCallback } from 'react';
+import { User } from 'firebase/auth';
+import type { StorageStatus, StoredBlob } from '@/lib/blobs';
+
+/**
+ * Loads when `enabled` turns true (e.g. the storage panel opens) and on
+ * `refresh`; `deleteBlobs` removes files and updates the list in place
+ */
+export function useStorage(user: User | null | undefined, enabled: boolean) {
+  const [status, setStatus] = useState<StorageStatus | null>(null);
+  const [blobs, setBlobs] = useState<StoredBlob[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!user || !enabled) return;
+
+    const abortController = new AbortController();
+    setLoading(true);
+
+    (async () => {
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch('/api/storage', {
+          headers: { 'Authorization': `Bearer ${token}` },
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to load storage');
+        }
+
+        const data = await response.json();
+        setStatus(data.status);
+        setBlobs(data.blobs);
+        setError(null);
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+        console.error('Storage error:', err);
+        setError((err as Error).message);
+      }
+      setLoading(false);
+    })();
+
+    return () => abortController.abort();
+  }, [user, enabled, version]);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  const deleteBlobs = useCallback(async (urls: string[]) => {
+    if (!user || urls.length === 0) return;
+    const token = await user.getIdToken();
+    const response = await fetch('/api/storage', {
+      method: 'DELETE',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${token}`
+      },
+      body: JSON.stringify({ urls }),
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new Error(errorData.error || 'Failed to delete files');
+    }
+
+    const data = await response.json();
+    const deleted = new Set<string>(data.deleted);
+    setBlobs(current => current.filter(blob => !deleted.has(blob.url)));
+    setStatus(data.status);
+  }, [user]);
+
+  return { status, blobs, loading, error, refresh, deleteBlobs };
+}
@@ -3,6 +3,7 @@
 import { useState, useRef, useCallback } from 'react';
 import { User } from 'firebase/auth';
 import { Message } from '@/lib/types';
+import { applyChatEvent, readChatStream } from '@/lib/chatStream';
 
 interface StreamingChatOptions {
   onError?: (error: Error) => void;
@@ -63,8 +64,8 @@ export function useStreamingChat(user: User | null, options?: StreamingChatOptio
       });
 
       // Extract rate limit info
-      const remaining = response.headers.get('X-RateLimit-Remaining');
-      const limit = response.headers.get('X-RateLimit-Limit');
+      const remaining = response.headers.get('RateLimit-Remaining');
+      const limit = response.headers.get('RateLimit-Limit');
       if (remaining && limit) {
         setRateLimitInfo({ remaining: parseInt(remaining), limit: parseInt(limit) });
       }
@@ -81,40 +82,14 @@ export function useStreamingChat(user: User | null, options?: StreamingChatOptio
         throw new Error('No response body');
       }
 
-      const reader = response.body.getReader();
-      const decoder = new TextDecoder();
-      const aiMessageId = (Date.now() + 1).toString();
-      let fullText = '';
-
-      setStreamingMessage({ id: aiMessageId, text: '', sender: 'ai' });
-
-      while (true) {
-        const { value, done } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.substring(6);
-            if (data.trim() === '[DONE]') break;
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices?.[0]?.delta?.content;
-              if (delta) {
-                fullText += delta;
-                setStreamingMessage({ id: aiMessageId, text: fullText, sender: 'ai' });
-              }
-            } catch {
-              // Ignore JSON parse errors
-            }
-          }
-        }
+      let finalMessage: Message = { id: (Date.now() + 1).toString(), text: '', sender: 'ai' };
+      setStreamingMessage(finalMessage);
+
+      for await (const { event } of readChatStream(response.body)) {
+        finalMessage = applyChatEvent(finalMessage, event);
+        setStreamingMessage(finalMessage);
       }
 
-      const finalMessage: Message = { id: aiMessageId, text: fullText, sender: 'ai' };
       setStreamingMessage(null);
       setIsLoading(false);
       options?.onSuccess?.();
@@ -0,0 +1,51 @@
+// src/hooks/useUsage.ts - The user's token usage and quota from /api/usage
+
+import { useState, useEffect, useCallback } from 'react';
+import { User } from 'firebase/auth';
+import type { UsageSummary } from '@/lib/usage';
+
+/**
+ * Loads when `enabled` turns true (e.g. the usage panel opens) and on `refresh`
+ */
+export function useUsage(user: User | null | undefined, enabled: boolean) {
+  const [usage, setUsage] = useState<UsageSummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+
+  useEffect(() => {
+    if (!user || !enabled) return;
+
+    const abortController = new AbortController();
+    setLoading(true);
+
+    (async () => {
+      try {
+        const token = await user.getIdToken();
+        const response = await fetch('/api/usage', {
+          headers: { 'Authorization': `Bearer ${token}` },
+          signal: abortController.signal,
+        });
+
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => ({}));
+          throw new Error(errorData.error || 'Failed to load usage');
+        }
+
+        setUsage(await response.json());
+        setError(null);
+      } catch (err) {
+        if ((err as Error).name === 'AbortError') return;
+        console.error('Usage error:', err);
+        setError((err as Error).message);
+      }
+      setLoading(false);
+    })();
+
+    return () => abortController.abort();
+  }, [user, enabled, version]);
+
+  const refresh = useCallback(() => setVersion(v => v + 1), []);
+
+  return { usage, loading, error, refresh };
+}
@@ -0,0 +1,152 @@
+// src/lib/blobs/backfill.ts - One-off refs for blobs stored before the registry kept them
+//
+// Pages through every context file, chat message and extraction cache entry
+// (collection group queries in path order) and adds refs for the blobs they
+// use. Progress is kept in blobGc/backfill under a lease, like the garbage
+// collector's, so each call carries on where the last stopped. completedAt
+// is set after the last page; from then on the collector may delete
+// registry entries that were never given refs.
+//
+// Uploads from before the registry have no record and sit outside
+// users/{uid}/, so the user's own chat or context file naming the URL is
+// the proof of ownership here; only blobs registered to someone else are
+// skipped.
+
+import { randomUUID } from 'crypto';
+import { admin, adminDb } from '../firebase-admin';
+import { getMessageBlobUrls } from '../messageSchema';
+import { backfillStateRef } from './gc';
+import { acquireLease, saveUnderLease } from './lease';
+import { blobPathname, getBlobRecords } from './ownership';
+import { addBlobRefs, chatBlobRef, contextFileBlobRef, extractionBlobRef } from './refs';
+
+type BackfillPhase = 'contextFiles' | 'messages' | 'extractionCache';
+
+const PHASES: BackfillPhase[] = ['contextFiles', 'messages', 'extractionCache'];
+
+export interface BlobRefBackfillResult {
+  phase: BackfillPhase;
+  /** Full path of the last document handled in this phase */
+  cursor: string | null;
+  contextFiles: number;
+  messages: number;
+  extractions: number;
+  refsAdded: number;
+  completedAt: string | null;
+}
+
+export interface BlobRefBackfillOptions {
+  pageSize?: number;
+  /** Stop starting new pages after this long */
+  budgetMs?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 300;
+const DEFAULT_BUDGET_MS = 45_000;
+
+/**
+ * Ref the blobs named in one of the user's documents, unless another user
+ * registered them. Returns how many were referenced.
+ */
+async function addUserDocumentRefs(userId: string, urls: string[], ref: string): Promise<number> {
+  const blobUrls = urls.filter(url => blobPathname(url) !== null);
+  const records = await getBlobRecords(blobUrls);
+  const usable = blobUrls.filter(url => {
+    const owner = records.get(url)?.userId;
+    return !owner || owner === userId;
+  });
+  await addBlobRefs(usable, ref);
+  return usable.length;
+}
+
+/**
+ * Handle one page of a phase. Returns the cursor for the next page, or null
+ * when the phase is done.
+ */
+async function backfillPage(state: BlobRefBackfillResult, pageSize: number): Promise<string | null> {
+  let query = adminDb.collectionGroup(state.phase)
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(pageSize);
+  if (state.cursor) query = query.startAfter(state.cursor);
+  const page = await query.get();
+
+  // Group by the referencing document so each gets one call. Extraction
+  // images are shared, so they have no user.
+  const refs = new Map<string, { userId: string | null; urls: Set<string> }>();
+  const use = (userId: string | null, ref: string, urls: string[]) => {
+    if (urls.length === 0) return;
+    const entry = refs.get(ref) ?? { userId, urls: new Set<string>() };
+    urls.forEach(url => entry.urls.add(url));
+    refs.set(ref, entry);
+  };
+
+  for (const doc of page.docs) {
+    const data = doc.data();
+    if (state.phase === 'contextFiles') {
+      // users/{uid}/contextFiles/{fileId}
+      state.contextFiles++;
+      const userId = doc.ref.parent.parent?.id;
+      if (userId && typeof data.url === 'string') use(userId, contextFileBlobRef(userId, doc.id), [data.url]);
+    } else if (state.phase === 'messages') {
+      // users/{uid}/chats/{chatId}/messages/{messageId}
+      state.messages++;
+      const chatRef = doc.ref.parent.parent;
+      const userId = chatRef?.parent.parent?.id;
+      if (chatRef && userId) use(userId, chatBlobRef(userId, chatRef.id), getMessageBlobUrls(data));
+    } else {
+      state.extractions++;
+      use(null, extractionBlobRef(doc.id), Array.isArray(data.imageUrls) ? data.imageUrls : []);
+    }
+  }
+
+  for (const [ref, { userId, urls }] of refs) {
+    if (userId) {
+      state.refsAdded += await addUserDocumentRefs(userId, [...urls], ref);
+    } else {
+      await addBlobRefs([...urls], ref);
+      state.refsAdded += urls.size;
+    }
+  }
+
+  return page.size < pageSize ? null : page.docs[page.docs.length - 1].ref.path;
+}
+
+/**
+ * Carry the backfill on from its saved cursor and return its progress.
+ * Throws LeaseHeldError while another call is running.
+ */
+export async function backfillBlobRefs(options: BlobRefBackfillOptions = {}): Promise<BlobRefBackfillResult> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const budgetMs = options.budgetMs ?? DEFAULT_BUDGET_MS;
+  const holder = randomUUID();
+  const ref = backfillStateRef();
+
+  let state = await acquireLease<BlobRefBackfillResult>(ref, holder, stored => stored ?? {
+    phase: PHASES[0],
+    cursor: null,
+    contextFiles: 0,
+    messages: 0,
+    extractions: 0,
+    refsAdded: 0,
+    completedAt: null,
+  });
+
+  const startedAt = Date.now();
+  while (!state.completedAt && Date.now() - startedAt < budgetMs) {
+    const next = await backfillPage(state, pageSize);
+    const nextPhase = PHASES[PHASES.indexOf(state.phase) + 1];
+    state = next
+      ? { ...state, cursor: next }
+      : nextPhase
+        ? { ...state, phase: nextPhase, cursor: null }
+        : { ...state, cursor: null, completedAt: new Date().toISOString() };
+
+    if (!(await saveUnderLease(ref, holder, state))) {
+      console.warn('[Blob Ref Backfill] Lost the lease; stopping');
+      return state;
+    }
+  }
+
+  await saveUnderLease(ref, holder, state, { release: true });
+  return state;
+}
@@ -0,0 +1,359 @@
+// src/lib/blobs/gc.ts - Incremental blob garbage collection (firebase-admin)
+//
+// A run makes one pass in three phases, a page at a time:
+//
+//   extractions - extractionCache/* in id order. Entries unused for longer
+//              than their TTL are deleted, releasing their page images.
+//   registry - blobs/* in id order. Refs to documents that no longer exist
+//              are dropped; entries left with no refs for longer than the
+//              grace period are deleted with their blob.
+//   storage  - Vercel Blob's listing. Blobs without a registry entry are
+//              extraction images whose cache entry is gone (deleted), or
+//              blobs from before the registry, which are never deleted here:
+//              the ref backfill registers the ones still in use, and the
+//              rest are reported as untracked.
+//
+// Each invocation leases blobGc/{state|dryRun} (see lease.ts), saves its
+// cursor there after every page and stops when its page or time budget runs
+// out, so the next one carries on. The run's report is kept in
+// blobGcRuns/{runId}. Dry runs keep their own cursor and change nothing.
+
+import { randomUUID } from 'crypto';
+import { del, list } from '@vercel/blob';
+import { admin, adminDb } from '../firebase-admin';
+import { BlobRecord, blobsRef, forgetBlobs, getBlobRecords } from './ownership';
+import { addBlobRefs, extractionBlobRef } from './refs';
+import { acquireLease, saveUnderLease } from './lease';
+import { EXTRACTION_TTL_MS, expireExtractionPage } from '../documents/cache';
+
+export type BlobGcPhase = 'extractions' | 'registry' | 'storage';
+
+const PHASES: BlobGcPhase[] = ['extractions', 'registry', 'storage'];
+
+export interface BlobGcOptions {
+  /** Report what would be deleted without changing anything */
+  dryRun?: boolean;
+  pageSize?: number;
+  /** Pages to process in this invocation */
+  maxPages?: number;
+  /** How long a blob must go unreferenced before it is deleted */
+  graceMs?: number;
+  /** How long an extraction cache entry may go unused before it expires */
+  extractionTtlMs?: number;
+  /** Stop starting new pages after this long */
+  budgetMs?: number;
+  now?: number;
+}
+
+export interface BlobGcReport {
+  runId: string;
+  dryRun: boolean;
+  phase: BlobGcPhase;
+  startedAt: string;
+  updatedAt: string;
+  /** Set when the pass has covered the registry and the whole store */
+  completedAt: string | null;
+  invocations: number;
+  pages: number;
+  /** Registry entries and listed blobs looked at */
+  scanned: number;
+  danglingRefsDropped: number;
+  /** Extraction cache entries expired, or that would be in a dry run */
+  extractionsExpired: number;
+  /** Blobs deleted, or that would be in a dry run */
+  deleted: number;
+  bytesFreed: number;
+  /** Blobs kept because nothing says whether they are used */
+  untracked: number;
+  errors: number;
+  /** First deleted URLs, for spot checks */
+  sample: string[];
+}
+
+interface BlobGcState {
+  runId: string;
+  phase: BlobGcPhase;
+  cursor: string | null;
+}
+
+const DEFAULT_PAGE_SIZE = 200;
+const DEFAULT_MAX_PAGES = 25;
+const DEFAULT_GRACE_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_BUDGET_MS = 45_000;
+const MAX_SAMPLE = 50;
+
+const gcRef = () => adminDb.collection('blobGc');
+const reportsRef = () => adminDb.collection('blobGcRuns');
+
+/** Set by the ref backfill; until then registry entries without refs are never deleted */
+export const backfillStateRef = () => gcRef().doc('backfill');
+
+interface PageContext {
+  options: Required<Omit<BlobGcOptions, 'now'>>;
+  now: number;
+  report: BlobGcReport;
+}
+
+const isOlderThan = (iso: string | null | undefined, cutoff: number) =>
+  !!iso && new Date(iso).getTime() < cutoff;
+
+function noteDeleted(report: BlobGcReport, urls: string[], bytes: number) {
+  report.deleted += urls.length;
+  report.bytesFreed += bytes;
+  report.sample.push(...urls.slice(0, MAX_SAMPLE - report.sample.length));
+}
+
+async function deleteBlobs(urls: string[], dryRun: boolean): Promise<void> {
+  if (dryRun || urls.length === 0) return;
+  await del(urls);
+  await forgetBlobs(urls);
+}
+
+/**
+ * One page of the extraction cache. Returns the cursor for the next page, or
+ * null when the cache is done.
+ */
+async function expireExtractions(cursor: string | null, ctx: PageContext): Promise<string | null> {
+  const { options, now, report } = ctx;
+  const { next, expired } = await expireExtractionPage(cursor, {
+    pageSize: options.pageSize,
+    cutoff: now - options.extractionTtlMs,
+    dryRun: options.dryRun,
+  });
+  // Reports saved before this phase existed have no count
+  report.extractionsExpired = (report.extractionsExpired ?? 0) + expired;
+  return next;
+}
+
+/**
+ * One page of the registry. Returns the cursor for the next page, or null
+ * when the registry is done.
+ */
+async function collectRegistryPage(cursor: string | null, backfilled: boolean, ctx: PageContext): Promise<string | null> {
+  const { options, now, report } = ctx;
+  let query = blobsRef().orderBy(admin.firestore.FieldPath.documentId()).limit(options.pageSize);
+  if (cursor) query = query.startAfter(cursor);
+  const page = await query.get();
+  report.scanned += page.size;
+
+  // Which of the referencing documents still exist
+  const refPaths = [...new Set(page.docs.flatMap((doc: any) => (doc.data() as BlobRecord).refs ?? []))] as string[];
+  const existing = new Set<string>();
+  for (let i = 0; i < refPaths.length; i += 300) {
+    const snaps = await adminDb.getAll(...refPaths.slice(i, i + 300).map(path => adminDb.doc(path)));
+    snaps.forEach((snap: any) => { if (snap.exists) existing.add(snap.ref.path); });
+  }
+
+  const cutoff = now - options.graceMs;
+  const candidates: { url: string; size: number }[] = [];
+
+  for (const doc of page.docs) {
+    const record = doc.data() as BlobRecord;
+    if (!Array.isArray(record.refs)) {
+      // Registered before refs were kept; the backfill adds them
+      if (!backfilled) {
+        report.untracked++;
+        continue;
+      }
+    }
+
+    const refs = record.refs ?? [];
+    const dangling = refs.filter(path => !existing.has(path));
+    if (dangling.length > 0) {
+      report.danglingRefsDropped += dangling.length;
+      if (!options.dryRun) {
+        await adminDb.runTransaction(async (tx: any) => {
+          const snap = await tx.get(doc.ref);
+          if (!snap.exists) return;
+          const current = snap.data() as BlobRecord;
+          const next = (current.refs ?? []).filter(path => !dangling.includes(path));
+          tx.update(doc.ref, {
+            refs: next,
+            refCount: next.length,
+            unreferencedSince: next.length > 0 ? null : current.unreferencedSince ?? new Date(now).toISOString(),
+          });
+        });
+      }
+      // Unreferenced from now on, so it waits out the grace period first
+      continue;
+    }
+
+    const unreferencedSince = record.unreferencedSince ?? record.uploadedAt;
+    if (refs.length === 0 && isOlderThan(unreferencedSince, cutoff)) {
+      candidates.push({ url: record.url, size: record.size ?? 0 });
+    }
+  }
+
+  if (candidates.length > 0) {
+    // Re-read, in case a ref was added while this page was being checked
+    const fresh = await getBlobRecords(candidates.map(c => c.url));
+    const doomed = candidates.filter(c => (fresh.get(c.url)?.refs ?? []).length === 0);
+    try {
+      await deleteBlobs(doomed.map(c => c.url), options.dryRun);
+      noteDeleted(report, doomed.map(c => c.url), doomed.reduce((sum, c) => sum + c.size, 0));
+    } catch (error) {
+      console.error('[Blob GC] Failed to delete registry page:', error);
+      report.errors++;
+    }
+  }
+
+  return page.size < options.pageSize ? null : page.docs[page.docs.length - 1].id;
+}
+
+/**
+ * One page of the store listing. Returns the cursor for the next page, or
+ * null when the listing is done.
+ */
+async function collectStoragePage(cursor: string | null, ctx: PageContext): Promise<string | null> {
+  const { options, now, report } = ctx;
+  const page = await list({ cursor: cursor ?? undefined, limit: options.pageSize });
+  report.scanned += page.blobs.length;
+
+  const records = await getBlobRecords(page.blobs.map(blob => blob.url));
+  const unregistered = page.blobs.filter(blob => !records.has(blob.url));
+
+  // Extraction images live under extracted/{cacheKey}/
+  const cacheKeyOf = (pathname: string) => pathname.match(/^extracted\/([^/]+)\//)?.[1] ?? null;
+  const cacheKeys = [...new Set(unregistered.map(blob => cacheKeyOf(blob.pathname)).filter((k): k is string => !!k))];
+  const liveKeys = new Set<string>();
+  if (cacheKeys.length > 0) {
+    const snaps = await adminDb.getAll(...cacheKeys.map(key => adminDb.doc(extractionBlobRef(key))));
+    snaps.forEach((snap: any) => { if (snap.exists) liveKeys.add(snap.id); });
+  }
+
+  const cutoff = now - options.graceMs;
+  const doomed: typeof unregistered = [];
+
+  for (const blob of unregistered) {
+    const key = cacheKeyOf(blob.pathname);
+    if (key && liveKeys.has(key)) {
+      // Still used by its cache entry; track it from now on
+      if (!options.dryRun) await addBlobRefs([blob.url], extractionBlobRef(key));
+      continue;
+    }
+    if (new Date(blob.uploadedAt).getTime() >= cutoff) continue;
+    // Anything else unregistered may still be named by a document the
+    // backfill could not attribute, so it is only reported
+    if (key) {
+      doomed.push(blob);
+    } else {
+      report.untracked++;
+    }
+  }
+
+  if (doomed.length > 0) {
+    try {
+      // Nothing in the registry to forget, so delete directly
+      if (!options.dryRun) await del(doomed.map(blob => blob.url));
+      noteDeleted(report, doomed.map(blob => blob.url), doomed.reduce((sum, blob) => sum + blob.size, 0));
+    } catch (error) {
+      console.error('[Blob GC] Failed to delete storage page:', error);
+      report.errors++;
+    }
+  }
+
+  return page.hasMore && page.cursor ? page.cursor : null;
+}
+
+function newReport(runId: string, dryRun: boolean, at: string): BlobGcReport {
+  return {
+    runId,
+    dryRun,
+    phase: PHASES[0],
+    startedAt: at,
+    updatedAt: at,
+    completedAt: null,
+    invocations: 0,
+    pages: 0,
+    scanned: 0,
+    danglingRefsDropped: 0,
+    extractionsExpired: 0,
+    deleted: 0,
+    bytesFreed: 0,
+    untracked: 0,
+    errors: 0,
+    sample: [],
+  };
+}
+
+/**
+ * Carry the current run on from its saved cursor, or start a new one, and
+ * return its report so far. Throws LeaseHeldError while another invocation
+ * is running.
+ */
+export async function runBlobGc(options: BlobGcOptions = {}): Promise<BlobGcReport> {
+  const now = options.now ?? Date.now();
+  const ctx: PageContext = {
+    options: {
+      dryRun: options.dryRun ?? false,
+      pageSize: options.pageSize ?? DEFAULT_PAGE_SIZE,
+      maxPages: options.maxPages ?? DEFAULT_MAX_PAGES,
+      graceMs: options.graceMs ?? DEFAULT_GRACE_MS,
+      extractionTtlMs: options.extractionTtlMs ?? EXTRACTION_TTL_MS,
+      budgetMs: options.budgetMs ?? DEFAULT_BUDGET_MS,
+    },
+    now,
+    report: newReport('', false, ''),
+  };
+  const { dryRun } = ctx.options;
+
+  const holder = randomUUID();
+  const stateRef = gcRef().doc(dryRun ? 'dryRun' : 'state');
+  let state = await acquireLease<BlobGcState>(stateRef, holder, stored => stored ?? {
+    runId: `${new Date(now).toISOString().replace(/[:.]/g, '-')}-${randomUUID().substring(0, 8)}`,
+    phase: PHASES[0],
+    cursor: null,
+  }, now);
+
+  const [savedReport, backfillSnap] = await Promise.all([
+    reportsRef().doc(state.runId).get(),
+    backfillStateRef().get(),
+  ]);
+  const backfilled = !!backfillSnap.data()?.completedAt;
+  ctx.report = savedReport.exists
+    ? savedReport.data() as BlobGcReport
+    : newReport(state.runId, dryRun, new Date(now).toISOString());
+
+  const { report } = ctx;
+  report.invocations++;
+  const startedAt = Date.now();
+  const reportRef = reportsRef().doc(report.runId);
+
+  for (let pages = 0; pages < ctx.options.maxPages && Date.now() - startedAt < ctx.options.budgetMs; pages++) {
+    const next: string | null = state.phase === 'extractions'
+      ? await expireExtractions(state.cursor, ctx)
+      : state.phase === 'registry'
+        ? await collectRegistryPage(state.cursor, backfilled, ctx)
+        : await collectStoragePage(state.cursor, ctx);
+    report.pages++;
+
+    const nextPhase = PHASES[PHASES.indexOf(state.phase) + 1];
+    const done = !next && !nextPhase;
+    if (next) {
+      state = { ...state, cursor: next };
+    } else if (!done) {
+      state = { ...state, phase: nextPhase, cursor: null };
+    }
+
+    report.phase = state.phase;
+    report.updatedAt = new Date().toISOString();
+    if (done) report.completedAt = report.updatedAt;
+
+    // Progress and report are saved together, and only while the lease is ours
+    const saved = await saveUnderLease(stateRef, holder, done ? null : state, {
+      alsoWrite: tx => tx.set(reportRef, report),
+    });
+    if (!saved) {
+      console.warn(`[Blob GC] Lost the lease on run ${report.runId}; stopping`);
+      return report;
+    }
+    if (done) {
+      console.log(`[Blob GC] ${dryRun ? 'Dry run' : 'Run'} ${report.runId} complete: ${report.deleted} deleted, ${report.untracked} untracked`);
+      return report;
+    }
+  }
+
+  await saveUnderLease(stateRef, holder, state, { release: true });
+  console.log(`[Blob GC] ${dryRun ? 'Dry run' : 'Run'} ${report.runId}: ${report.deleted} deleted, ${report.untracked} untracked, ${report.phase} phase`);
+  return report;
+}
@@ -0,0 +1,31 @@
+// src/lib/blobs/index.ts - Upload tokens, blob ownership, refs and garbage collection
+//
+// Uploads go under users/{uid}/ with a one-time token from issueUploadToken
+// and count towards the user's storage limit; deletes go through
+// deleteOwnedBlobs so users can only remove their own files. Documents that
+// store a blob URL add a ref with addBlobRefs, and runBlobGc deletes blobs
+// nothing refers to.
+
+export { issueUploadToken, consumeUploadToken, purgeExpiredUploadTokens, userBlobPrefix } from './uploadTokens';
+export type { IssuedUploadToken, UploadTokenOwner, ConsumedUploadToken } from './uploadTokens';
+export { registerBlob, getBlobRecords, forgetBlobs, partitionOwnedBlobs, ownsBlob, deleteOwnedBlobs, blobPathname } from './ownership';
+export type { BlobRecord, BlobDetails, BlobDeleteResult } from './ownership';
+export {
+  getStorageQuota,
+  getStorageStatus,
+  adjustStorage,
+  reserveStorage,
+  releaseStorage,
+  purgeExpiredReservations,
+  listStoredBlobs,
+  storageExceededMessage,
+  StorageLimitError,
+} from './storage';
+export type { StorageStatus, StoredBlob } from './storage';
+export { addBlobRefs, addOwnedBlobRefs, releaseBlobRefs, chatBlobRef, contextFileBlobRef, extractionBlobRef } from './refs';
+export type { BlobReleaseResult } from './refs';
+export { runBlobGc } from './gc';
+export { LeaseHeldError } from './lease';
+export type { BlobGcOptions, BlobGcReport, BlobGcPhase } from './gc';
+export { backfillBlobRefs } from './backfill';
+export type { BlobRefBackfillResult, BlobRefBackfillOptions } from './backfill';
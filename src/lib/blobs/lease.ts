@@ -0,0 +1,74 @@
+// src/lib/blobs/lease.ts - Leases on resumable job state (firebase-admin)
+//
+// A paginated job keeps its cursor in one document, with a `lease` field
+// naming the invocation working on it and when that claim runs out. Taking
+// the lease and saving each page's progress are transactions that check
+// the holder, so an overlapping run (a cron firing during a manual one)
+// cannot repeat pages or move the cursor under the other. A run that dies
+// simply lets its lease expire.
+
+import { adminDb } from '../firebase-admin';
+
+export const LEASE_TTL_MS = 2 * 60 * 1000;
+
+export class LeaseHeldError extends Error {
+  constructor(public readonly expiresAt: number) {
+    super('Another run holds the lease');
+    this.name = 'LeaseHeldError';
+  }
+}
+
+interface Lease {
+  holder: string;
+  expiresAt: number;
+}
+
+/**
+ * Claim the job's document for `holder` and return its state, built by
+ * `init` from what is stored (undefined when nothing is). Throws
+ * LeaseHeldError while another holder's lease is live.
+ */
+export async function acquireLease<T extends object>(
+  ref: any,
+  holder: string,
+  init: (stored: T | undefined) => T,
+  now: number = Date.now(),
+): Promise<T> {
+  return adminDb.runTransaction(async (tx: any) => {
+    const snap = await tx.get(ref);
+    const { lease, ...stored } = (snap.exists ? snap.data() : {}) as T & { lease?: Lease };
+    if (lease && lease.holder !== holder && lease.expiresAt > now) {
+      throw new LeaseHeldError(lease.expiresAt);
+    }
+    const state = init(snap.exists ? stored as T : undefined);
+    tx.set(ref, { ...state, lease: { holder, expiresAt: now + LEASE_TTL_MS } });
+    return state;
+  });
+}
+
+/**
+ * Save progress if `holder` still has the lease, extending it for the next
+ * page. `state` null deletes the document; `release` saves without a lease.
+ * `alsoWrite` adds writes (e.g. a report) to the same transaction. Returns
+ * false when the lease was lost, in which case nothing is written.
+ */
+export async function saveUnderLease<T extends object>(
+  ref: any,
+  holder: string,
+  state: T | null,
+  { release = false, alsoWrite }: { release?: boolean; alsoWrite?: (tx: any) => void } = {},
+): Promise<boolean> {
+  return adminDb.runTransaction(async (tx: any) => {
+    const snap = await tx.get(ref);
+    const lease = snap.data()?.lease as Lease | undefined;
+    if (!lease || lease.holder !== holder) return false;
+
+    if (state === null) {
+      tx.delete(ref);
+    } else {
+      tx.set(ref, release ? state : { ...state, lease: { holder, expiresAt: Date.now() + LEASE_TTL_MS } });
+    }
+    alsoWrite?.(tx);
+    return true;
+  });
+}
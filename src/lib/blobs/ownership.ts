@@ -0,0 +1,185 @@
+// src/lib/blobs/ownership.ts - Which user owns which blob (firebase-admin)
+//
+// Every upload is recorded in blobs/{sha256(url)} with the uploader's uid.
+// Delete requests only reach Vercel Blob for URLs the caller owns: either
+// registered to them, or (when the upload-completed callback never arrived,
+// e.g. in local development) stored under their users/{uid}/ prefix, which
+// upload tokens enforce. Anything else - other users' files, shared
+// extraction output, legacy blobs from before the registry - is refused and
+// left to the garbage collector. Entries also carry the refs kept by refs.ts.
+
+import { createHash } from 'crypto';
+import { del } from '@vercel/blob';
+import { adminDb } from '../firebase-admin';
+import { userBlobPrefix } from './uploadTokens';
+import { storageDelta, storageTotalsRef } from './storage';
+import { chatBlobRef } from './refs';
+
+export interface BlobRecord {
+  url: string;
+  pathname: string;
+  /** Uploader; missing on entries created by a ref before the upload registered */
+  userId?: string;
+  size?: number;
+  contentType?: string;
+  /** What the upload was for, as told by the client */
+  source?: 'attachment' | 'context';
+  /** Chat an attachment was sent in */
+  chatId?: string;
+  uploadedAt?: string;
+  /** Paths of the documents using this blob; missing on entries from before refs were kept */
+  refs?: string[];
+  refCount?: number;
+  /** When the last ref went away, or when an upload registered with none */
+  unreferencedSince?: string | null;
+}
+
+export type BlobDetails = Pick<BlobRecord, 'source' | 'chatId'>;
+
+export interface BlobDeleteResult {
+  deleted: string[];
+  /** URLs that were not deleted because the user does not own them */
+  denied: string[];
+}
+
+export const blobsRef = () => adminDb.collection('blobs');
+
+// URLs contain slashes, which doc ids cannot
+export const blobDocId = (url: string) => createHash('sha256').update(url).digest('hex');
+
+/** Pathname of a Vercel Blob URL, or null for anything that is not one */
+export function blobPathname(url: string): string | null {
+  try {
+    const parsed = new URL(url);
+    if (parsed.protocol !== 'https:' || !parsed.hostname.endsWith('.blob.vercel-storage.com')) return null;
+    return decodeURIComponent(parsed.pathname.replace(/^\//, ''));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Record who uploaded a blob and count it towards their storage, in one
+ * transaction. An attachment is referenced by its chat from the start.
+ */
+export async function registerBlob(
+  userId: string,
+  blob: { url: string; pathname: string; size: number; contentType?: string },
+  details: BlobDetails = {},
+): Promise<void> {
+  const now = new Date().toISOString();
+  const record: BlobRecord = {
+    url: blob.url,
+    pathname: blob.pathname,
+    userId,
+    size: blob.size,
+    ...(blob.contentType && { contentType: blob.contentType }),
+    uploadedAt: now,
+  };
+
+  // Registering the same URL twice (an overwrite, a retried callback, or a
+  // storage listing that found it first) only counts the change in size.
+  // Refs and details from an earlier registration are kept.
+  const ref = blobsRef().doc(blobDocId(blob.url));
+  await adminDb.runTransaction(async (tx: any) => {
+    const snap = await tx.get(ref);
+    const existing = snap.exists ? snap.data() as BlobRecord : null;
+    const refs = new Set(existing?.refs ?? []);
+    const source = details.source ?? existing?.source;
+    const chatId = details.chatId ?? existing?.chatId;
+    if (details.chatId) refs.add(chatBlobRef(userId, details.chatId));
+    tx.set(ref, {
+      ...record,
+      ...(source && { source }),
+      ...(chatId && { chatId }),
+      refs: [...refs],
+      refCount: refs.size,
+      unreferencedSince: refs.size > 0 ? null : existing?.unreferencedSince ?? now,
+    });
+
+    const previous = existing?.userId ? existing : null;
+    if (previous && previous.userId !== userId) {
+      tx.set(storageTotalsRef(previous.userId!), storageDelta(-(previous.size ?? 0), -1), { merge: true });
+    }
+    const isNew = !previous || previous.userId !== userId;
+    tx.set(storageTotalsRef(userId), storageDelta(blob.size - (isNew ? 0 : previous.size ?? 0), isNew ? 1 : 0), { merge: true });
+  });
+}
+
+/** Registry records for these URLs; unregistered URLs are left out */
+export async function getBlobRecords(urls: string[]): Promise<Map<string, BlobRecord>> {
+  const records = new Map<string, BlobRecord>();
+  for (let i = 0; i < urls.length; i += 500) {
+    const chunk = urls.slice(i, i + 500);
+    if (chunk.length === 0) break;
+    const snaps = await adminDb.getAll(...chunk.map(url => blobsRef().doc(blobDocId(url))));
+    snaps.forEach((snap: any, j: number) => {
+      if (snap.exists) records.set(chunk[j], snap.data() as BlobRecord);
+    });
+  }
+  return records;
+}
+
+/**
+ * Drop registry entries for blobs that have been deleted and take them off
+ * their owners' storage totals, in the same batch
+ */
+export async function forgetBlobs(urls: string[]): Promise<void> {
+  const records = await getBlobRecords(urls);
+  // Up to 200 deletes plus one totals write per owner fits a 500-write batch
+  for (let i = 0; i < urls.length; i += 200) {
+    const batch = adminDb.batch();
+    const freed = new Map<string, { bytes: number; files: number }>();
+    urls.slice(i, i + 200).forEach(url => {
+      batch.delete(blobsRef().doc(blobDocId(url)));
+      const record = records.get(url);
+      if (!record?.userId) return;
+      const owner = freed.get(record.userId) ?? { bytes: 0, files: 0 };
+      freed.set(record.userId, { bytes: owner.bytes + (record.size ?? 0), files: owner.files + 1 });
+    });
+    freed.forEach(({ bytes, files }, userId) => {
+      batch.set(storageTotalsRef(userId), storageDelta(-bytes, -files), { merge: true });
+    });
+    await batch.commit();
+  }
+}
+
+/**
+ * Split URLs into those the user owns and those they do not
+ */
+export async function partitionOwnedBlobs(userId: string, urls: string[]): Promise<{ owned: string[]; denied: string[] }> {
+  const unique = [...new Set(urls.filter(url => typeof url === 'string'))];
+  const owned: string[] = [];
+  const denied: string[] = [];
+  if (unique.length === 0) return { owned, denied };
+
+  const records = await getBlobRecords(unique);
+  unique.forEach(url => {
+    const pathname = blobPathname(url);
+    const record = records.get(url);
+    const isOwner = record?.userId
+      ? record.userId === userId
+      : pathname !== null && pathname.startsWith(userBlobPrefix(userId));
+    (isOwner && pathname !== null ? owned : denied).push(url);
+  });
+  return { owned, denied };
+}
+
+/** Whether the user owns this blob */
+export async function ownsBlob(userId: string, url: string): Promise<boolean> {
+  const { owned } = await partitionOwnedBlobs(userId, [url]);
+  return owned.length === 1;
+}
+
+/**
+ * Delete the blobs the user owns and drop their registry entries. URLs the
+ * user does not own are returned in `denied` and left untouched.
+ */
+export async function deleteOwnedBlobs(userId: string, urls: string[]): Promise<BlobDeleteResult> {
+  const { owned, denied } = await partitionOwnedBlobs(userId, urls);
+  if (owned.length > 0) {
+    await del(owned);
+    await forgetBlobs(owned);
+  }
+  return { deleted: owned, denied };
+}
@@ -0,0 +1,86 @@
+// src/lib/blobs/refs.ts - Reference counts on the blob registry (firebase-admin)
+//
+// A registry entry lists the Firestore documents that use its blob by path:
+// the chat an attachment was sent in, the context file it backs, or the
+// extraction cache entry an embedded image came from. Writers add refs as
+// they store URLs and release them as they delete; the garbage collector
+// removes blobs left with no refs, and drops refs to documents that no
+// longer exist in case a release was missed.
+
+import { adminDb } from '../firebase-admin';
+import { blobDocId, blobPathname, blobsRef, BlobRecord, partitionOwnedBlobs } from './ownership';
+
+export interface BlobReleaseResult {
+  /** URLs with no refs left (including URLs the registry does not know) */
+  unreferenced: string[];
+  /** URLs still used elsewhere */
+  referenced: string[];
+}
+
+export const chatBlobRef = (userId: string, chatId: string) => `users/${userId}/chats/${chatId}`;
+export const contextFileBlobRef = (userId: string, fileId: string) => `users/${userId}/contextFiles/${fileId}`;
+export const extractionBlobRef = (key: string) => `extractionCache/${key}`;
+
+const uniqueBlobUrls = (urls: string[]) =>
+  [...new Set(urls)].filter(url => typeof url === 'string' && blobPathname(url) !== null);
+
+/**
+ * Record that `ref` uses these blobs. Creates a bare entry for blobs that are
+ * not registered yet; registering them later keeps the refs.
+ */
+export async function addBlobRefs(urls: string[], ref: string): Promise<void> {
+  await Promise.all(uniqueBlobUrls(urls).map(url => {
+    const docRef = blobsRef().doc(blobDocId(url));
+    return adminDb.runTransaction(async (tx: any) => {
+      const snap = await tx.get(docRef);
+      const refs: string[] = snap.exists ? (snap.data() as BlobRecord).refs ?? [] : [];
+      if (refs.includes(ref)) return;
+      const next = [...refs, ref];
+      tx.set(docRef, {
+        url,
+        pathname: blobPathname(url),
+        refs: next,
+        refCount: next.length,
+        unreferencedSince: null,
+      }, { merge: true });
+    });
+  }));
+}
+
+/**
+ * addBlobRefs for URLs that came from a user (a chat request, an imported
+ * file): only blobs they own get the ref, so nobody can pin another user's
+ * blob past its owner deleting it. Returns the URLs that were referenced.
+ */
+export async function addOwnedBlobRefs(userId: string, urls: string[], ref: string): Promise<string[]> {
+  const { owned } = await partitionOwnedBlobs(userId, urls);
+  await addBlobRefs(owned, ref);
+  return owned;
+}
+
+/**
+ * Record that `ref` no longer uses these blobs
+ */
+export async function releaseBlobRefs(urls: string[], ref: string, now: number = Date.now()): Promise<BlobReleaseResult> {
+  const unreferenced: string[] = [];
+  const referenced: string[] = [];
+
+  await Promise.all(uniqueBlobUrls(urls).map(async url => {
+    const docRef = blobsRef().doc(blobDocId(url));
+    const remaining = await adminDb.runTransaction(async (tx: any) => {
+      const snap = await tx.get(docRef);
+      if (!snap.exists) return 0;
+      const data = snap.data() as BlobRecord;
+      const next = (data.refs ?? []).filter(r => r !== ref);
+      tx.set(docRef, {
+        refs: next,
+        refCount: next.length,
+        unreferencedSince: next.length > 0 ? null : data.unreferencedSince ?? new Date(now).toISOString(),
+      }, { merge: true });
+      return next.length;
+    });
+    (remaining > 0 ? referenced : unreferenced).push(url);
+  }));
+
+  return { unreferenced, referenced };
+}
@@ -0,0 +1,242 @@
+// src/lib/blobs/storage.ts - Per-user storage accounting and quotas (firebase-admin)
+//
+// storageTotals/{uid} holds the bytes and file count of everything the user
+// has stored. The blob registry adjusts it in the same transaction or batch
+// as it registers and forgets blobs. Listing a user's blobs registers
+// uploads whose completion callback never arrived, then recounts the totals
+// from the registry in a transaction. Like the registry, the totals live
+// outside users/{uid}, which the client writes directly, so only the server
+// can change what limits are checked against.
+//
+// Each upload token reserves the file's declared size in
+// storageTotals/{uid}/reservations/{token} until the upload registers or the
+// reservation lapses, so parallel uploads cannot each use the whole
+// remaining space.
+//
+// Limits are per tier and can be replaced with STORAGE_QUOTAS, e.g.
+// {"free": 52428800} for 50MB on the free tier.
+
+import { list } from '@vercel/blob';
+import { admin, adminDb } from '../firebase-admin';
+import type { UsageTier } from '../usage';
+import { userBlobPrefix } from './uploadTokens';
+import { blobsRef, getBlobRecords, registerBlob } from './ownership';
+
+const MB = 1024 * 1024;
+
+const DEFAULT_STORAGE_QUOTAS: Record<UsageTier, number> = {
+  free: 100 * MB,
+  basic: 1024 * MB,
+  pro: 10 * 1024 * MB,
+  enterprise: 100 * 1024 * MB,
+};
+
+export interface StorageStatus {
+  tier: UsageTier;
+  usedBytes: number;
+  /** Held for uploads in progress */
+  reservedBytes: number;
+  limitBytes: number;
+  /** Bytes left before uploads are refused; 0 when over the limit */
+  remainingBytes: number;
+  files: number;
+}
+
+export interface StoredBlob {
+  url: string;
+  pathname: string;
+  /** File name without the users/{uid}/ prefix and upload suffixes */
+  name: string;
+  size: number;
+  uploadedAt: string;
+  contentType?: string;
+  /** What the file was uploaded for; "unknown" for unregistered blobs */
+  source: 'attachment' | 'context' | 'unknown';
+  /** Chat the file was attached in */
+  chatId?: string;
+}
+
+/** How long an upload token's reservation holds: the token's life plus the upload */
+export const STORAGE_RESERVATION_TTL_MS = 60 * 60 * 1000;
+
+export const storageTotalsRef = (userId: string) => adminDb.collection('storageTotals').doc(userId);
+const reservationsRef = (userId: string) => storageTotalsRef(userId).collection('reservations');
+
+const num = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+export class StorageLimitError extends Error {
+  constructor(public readonly status: StorageStatus) {
+    super(storageExceededMessage(status));
+    this.name = 'StorageLimitError';
+  }
+}
+
+export function getStorageQuota(tier: UsageTier): number {
+  const json = process.env.STORAGE_QUOTAS;
+  if (json) {
+    try {
+      const override = (JSON.parse(json) as Partial<Record<UsageTier, number>>)[tier];
+      if (typeof override === 'number' && override >= 0) return override;
+    } catch (error) {
+      console.error('⚠️ Ignoring STORAGE_QUOTAS:', (error as Error).message);
+    }
+  }
+  return DEFAULT_STORAGE_QUOTAS[tier];
+}
+
+/**
+ * Fields that add to (or, with negative amounts, take from) a user's totals,
+ * for a merge set in a transaction or batch
+ */
+export function storageDelta(bytes: number, files: number): Record<string, unknown> {
+  const { increment } = admin.firestore.FieldValue;
+  return { bytes: increment(bytes), files: increment(files), updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Add to (or, with negative amounts, take from) a user's stored totals
+ */
+export async function adjustStorage(userId: string, bytes: number, files: number): Promise<void> {
+  await storageTotalsRef(userId).set(storageDelta(bytes, files), { merge: true });
+}
+
+function statusFrom(tier: UsageTier, totals: Record<string, any> | undefined, reservations: any[]): StorageStatus {
+  const usedBytes = Math.max(0, num(totals?.bytes));
+  const reservedBytes = reservations.reduce((sum: number, doc: any) => sum + num(doc.data().bytes), 0);
+  const limitBytes = getStorageQuota(tier);
+  return {
+    tier,
+    usedBytes,
+    reservedBytes,
+    limitBytes,
+    remainingBytes: Math.max(0, limitBytes - usedBytes - reservedBytes),
+    files: Math.max(0, num(totals?.files)),
+  };
+}
+
+const liveReservations = (userId: string, now: number) => reservationsRef(userId).where('expiresAt', '>', now);
+
+/** How much the user has stored and reserved against their tier's limit */
+export async function getStorageStatus(userId: string, tier: UsageTier, now: number = Date.now()): Promise<StorageStatus> {
+  const [totals, reservations] = await Promise.all([
+    storageTotalsRef(userId).get(),
+    liveReservations(userId, now).get(),
+  ]);
+  return statusFrom(tier, totals.data(), reservations.docs);
+}
+
+/**
+ * Hold `bytes` of the user's remaining storage under `id` until `expiresAt`
+ * or releaseStorage. `alsoWrite` adds writes (e.g. the upload token) to the
+ * same transaction. Throws StorageLimitError when the bytes do not fit.
+ */
+export async function reserveStorage(
+  userId: string,
+  tier: UsageTier,
+  { id, bytes, expiresAt }: { id: string; bytes: number; expiresAt: number },
+  alsoWrite?: (tx: any) => void,
+  now: number = Date.now(),
+): Promise<void> {
+  const refused = await adminDb.runTransaction(async (tx: any) => {
+    const [totals, reservations] = await Promise.all([
+      tx.get(storageTotalsRef(userId)),
+      tx.get(liveReservations(userId, now)),
+    ]);
+    const status = statusFrom(tier, totals.data(), reservations.docs);
+    if (status.remainingBytes === 0 || bytes > status.remainingBytes) return status;
+
+    tx.set(reservationsRef(userId).doc(id), { bytes, expiresAt, createdAt: now });
+    // Writing the totals doc makes concurrent reservations conflict and retry
+    tx.set(storageTotalsRef(userId), { reservedAt: now }, { merge: true });
+    alsoWrite?.(tx);
+    return null;
+  });
+  if (refused) throw new StorageLimitError(refused);
+}
+
+/** Give back a reservation once its upload has registered (or failed) */
+export async function releaseStorage(userId: string, id: string): Promise<void> {
+  await reservationsRef(userId).doc(id).delete();
+}
+
+/**
+ * Delete reservations that lapsed without their upload registering.
+ * Returns how many were removed.
+ */
+export async function purgeExpiredReservations(now: number = Date.now()): Promise<number> {
+  const expired = await adminDb.collectionGroup('reservations').where('expiresAt', '<=', now).limit(500).get();
+  if (expired.empty) return 0;
+  const batch = adminDb.batch();
+  expired.docs.forEach((doc: any) => batch.delete(doc.ref));
+  await batch.commit();
+  return expired.size;
+}
+
+/** Message shown when an upload would go over the storage limit */
+export function storageExceededMessage(status: StorageStatus): string {
+  const toMb = (bytes: number) => (bytes / MB).toFixed(1);
+  return `Storage limit reached: ${toMb(status.usedBytes)}MB of ${toMb(status.limitBytes)}MB used on the ${status.tier} plan. Delete files in Storage to upload more.`;
+}
+
+// "users/uid/1712-abc-report-Xy12.pdf" -> "report.pdf" for client uploads
+const displayName = (pathname: string, prefix: string) =>
+  pathname
+    .slice(prefix.length)
+    .replace(/^\d+-[a-z0-9]+-/, '')
+    .replace(/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-/, '')
+    .replace(/-[A-Za-z0-9]{30}(\.[^.]+)?$/, '$1');
+
+/**
+ * Recount the user's totals from the registry. The totals doc is read first,
+ * so registrations and deletes (which write it) wait for the recount.
+ */
+async function recountStorage(userId: string): Promise<void> {
+  await adminDb.runTransaction(async (tx: any) => {
+    await tx.get(storageTotalsRef(userId));
+    const owned = await tx.get(blobsRef().where('userId', '==', userId));
+    tx.set(storageTotalsRef(userId), {
+      bytes: owned.docs.reduce((sum: number, doc: any) => sum + num(doc.data().size), 0),
+      files: owned.size,
+      updatedAt: new Date().toISOString(),
+    }, { merge: true });
+  });
+}
+
+/**
+ * Every blob under the user's prefix, newest first, with what the registry
+ * knows about it. Registers blobs the registry is missing and recounts the
+ * stored totals.
+ */
+export async function listStoredBlobs(userId: string): Promise<StoredBlob[]> {
+  const prefix = userBlobPrefix(userId);
+  const listed: Awaited<ReturnType<typeof list>>['blobs'] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await list({ prefix, cursor, limit: 1000 });
+    listed.push(...page.blobs);
+    cursor = page.hasMore ? page.cursor : undefined;
+  } while (cursor);
+
+  const records = await getBlobRecords(listed.map(blob => blob.url));
+  for (const blob of listed.filter(blob => !records.get(blob.url)?.userId)) {
+    await registerBlob(userId, { url: blob.url, pathname: blob.pathname, size: blob.size });
+  }
+  await recountStorage(userId);
+
+  const blobs: StoredBlob[] = listed.map(blob => {
+    const record = records.get(blob.url);
+    return {
+      url: blob.url,
+      pathname: blob.pathname,
+      name: displayName(blob.pathname, prefix) || blob.pathname,
+      size: blob.size,
+      uploadedAt: new Date(blob.uploadedAt).toISOString(),
+      ...(record?.contentType && { contentType: record.contentType }),
+      source: record?.source === 'attachment' || record?.source === 'context' ? record.source : 'unknown',
+      ...(record?.chatId && { chatId: record.chatId }),
+    };
+  });
+
+  return blobs.sort((a, b) => b.uploadedAt.localeCompare(a.uploadedAt));
+}
+
@@ -0,0 +1,108 @@
+// src/lib/blobs/uploadTokens.ts - One-time upload tokens kept in Firestore (firebase-admin)
+//
+// The token request and the upload itself are separate requests that can
+// land on different server instances, so tokens live in uploadTokens/{token}
+// rather than in memory. Each token allows one upload, under its owner's
+// path prefix, within a few minutes of being issued, of at most the size it
+// reserved from the owner's storage (see storage.ts).
+
+import { randomBytes } from 'crypto';
+import { adminDb } from '../firebase-admin';
+import type { UsageTier } from '../usage';
+import { releaseStorage, reserveStorage, STORAGE_RESERVATION_TTL_MS } from './storage';
+
+const UPLOAD_TOKEN_TTL_MS = 5 * 60 * 1000;
+
+const tokensRef = () => adminDb.collection('uploadTokens');
+
+export interface IssuedUploadToken {
+  uploadToken: string;
+  /** Blob pathname the upload must start with */
+  pathPrefix: string;
+  expiresAt: number;
+}
+
+export interface UploadTokenOwner {
+  userId: string;
+  /** Tier at issue time, which sets the storage limit the upload is checked against */
+  tier: UsageTier;
+}
+
+export interface ConsumedUploadToken extends UploadTokenOwner {
+  /** Storage held for the upload, under the token as its id; the upload's size cap */
+  reservedBytes: number;
+  /** When the reservation lapses; the upload must finish before then */
+  reservedUntil: number;
+}
+
+/** Blob path prefix every upload by this user goes under */
+export const userBlobPrefix = (userId: string) => `users/${userId}/`;
+
+/**
+ * Issue a one-time token for one upload of up to `bytes` by this user,
+ * reserving that much of their storage. Throws StorageLimitError when it
+ * does not fit.
+ */
+export async function issueUploadToken(
+  { userId, tier }: UploadTokenOwner,
+  bytes: number,
+  now: number = Date.now(),
+): Promise<IssuedUploadToken> {
+  const uploadToken = randomBytes(24).toString('base64url');
+  const expiresAt = now + UPLOAD_TOKEN_TTL_MS;
+  const reservedUntil = now + STORAGE_RESERVATION_TTL_MS;
+  await reserveStorage(userId, tier, { id: uploadToken, bytes, expiresAt: reservedUntil }, tx => {
+    tx.set(tokensRef().doc(uploadToken), { userId, tier, expiresAt, reservedBytes: bytes, reservedUntil, createdAt: now });
+  }, now);
+  return { uploadToken, pathPrefix: userBlobPrefix(userId), expiresAt };
+}
+
+/**
+ * Use up a token and return who it was issued to and what it reserved.
+ * Throws when the token is unknown, already used or expired.
+ */
+export async function consumeUploadToken(uploadToken: string, now: number = Date.now()): Promise<ConsumedUploadToken> {
+  // Base64url only; anything else cannot be a token and may not be a valid doc id
+  if (!/^[\w-]{16,64}$/.test(uploadToken)) {
+    throw new Error('Invalid or expired upload token');
+  }
+
+  const ref = tokensRef().doc(uploadToken);
+  // Expired tokens are deleted too, so only throw once the transaction commits
+  const token = await adminDb.runTransaction(async (tx: any) => {
+    const snap = await tx.get(ref);
+    const data = snap.data();
+    if (!snap.exists || !data || typeof data.userId !== 'string') return null;
+    tx.delete(ref);
+    const owner: ConsumedUploadToken = {
+      userId: data.userId,
+      tier: data.tier ?? 'free',
+      reservedBytes: typeof data.reservedBytes === 'number' ? data.reservedBytes : 0,
+      reservedUntil: typeof data.reservedUntil === 'number' ? data.reservedUntil : now,
+    };
+    return { owner, expired: typeof data.expiresAt !== 'number' || data.expiresAt < now };
+  });
+
+  if (!token) throw new Error('Invalid or expired upload token');
+  if (token.expired) {
+    await releaseStorage(token.owner.userId, uploadToken);
+    throw new Error('Upload token expired');
+  }
+  return token.owner;
+}
+
+/**
+ * Delete tokens that expired without being used, and give back what they
+ * reserved. Returns how many were removed.
+ */
+export async function purgeExpiredUploadTokens(now: number = Date.now()): Promise<number> {
+  const expired = await tokensRef().where('expiresAt', '<', now).limit(500).get();
+  if (expired.empty) return 0;
+  const batch = adminDb.batch();
+  expired.docs.forEach((doc: any) => batch.delete(doc.ref));
+  await batch.commit();
+  await Promise.all(expired.docs
+    .filter((doc: any) => typeof doc.data().userId === 'string')
+    .map((doc: any) => releaseStorage(doc.data().userId, doc.id)));
+  return expired.size;
+}
@@ -0,0 +1,126 @@
+// src/lib/chatStream/client.ts - Read /api/chat streams into messages
+//
+// Used by GeminiLayout and useStreamingChat. Also understands the older
+// OpenAI-style frames (`choices[0].delta.content` ... `[DONE]`) still sent
+// by endpoints that predate the typed protocol.
+
+import { Message } from '../types';
+import { ChatStreamEvent, isChatStreamEventType } from './protocol';
+import { SSEFrame, SSEParser } from './parser';
+
+export interface ChatStreamItem {
+  event: ChatStreamEvent;
+  /** Resume cursor of persisted replies */
+  id: string | null;
+}
+
+function legacyEvents(data: any): ChatStreamEvent[] {
+  const events: ChatStreamEvent[] = [];
+  const choice = data.choices?.[0];
+  if (choice?.delta?.content) events.push({ type: 'delta', text: choice.delta.content });
+  if (data.usage) {
+    events.push({
+      type: 'usage',
+      usage: {
+        inputTokens: data.usage.prompt_tokens,
+        outputTokens: data.usage.completion_tokens,
+        totalTokens: data.usage.total_tokens,
+      },
+      ...(typeof data.latency_ms === 'number' && { latencyMs: data.latency_ms }),
+    });
+  }
+  if (data.error) {
+    events.push({ type: 'error', message: data.error.message || String(data.error) });
+  }
+  if (choice?.finish_reason) events.push({ type: 'done', finishReason: choice.finish_reason });
+  return events;
+}
+
+function frameEvents(frame: SSEFrame): ChatStreamEvent[] {
+  if (frame.data.trim() === '[DONE]') return [{ type: 'done', finishReason: 'stop' }];
+
+  let data;
+  try {
+    data = JSON.parse(frame.data);
+  } catch {
+    return []; // Ignore malformed frames
+  }
+
+  if (isChatStreamEventType(frame.event)) {
+    return [{ ...data, type: frame.event } as ChatStreamEvent];
+  }
+  return legacyEvents(data);
+}
+
+/**
+ * Parse a response body into chat events, ending at the first `done`.
+ * Throws if the connection drops (so persisted replies can resume).
+ */
+export async function* readChatStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ChatStreamItem> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      const frames = done ? parser.flush() : parser.push(decoder.decode(value, { stream: true }));
+
+      for (const frame of frames) {
+        for (const event of frameEvents(frame)) {
+          yield { event, id: frame.id };
+          if (event.type === 'done') return;
+        }
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
+
+const upsertById = <T extends { id: string }>(items: T[] | undefined, item: T): T[] => {
+  const list = items || [];
+  const index = list.findIndex(existing => existing.id === item.id);
+  return index === -1 ? [...list, item] : list.map((existing, i) => (i === index ? item : existing));
+};
+
+/** Fold one event into the reply being built */
+export function applyChatEvent(message: Message, event: ChatStreamEvent): Message {
+  switch (event.type) {
+    case 'meta':
+      return {
+        ...message,
+        model: event.model,
+        provider: event.provider,
+        ...(event.lane && { lane: event.lane }),
+        ...(event.routing && { routing: event.routing }),
+      };
+    case 'delta':
+      return { ...message, text: message.text + event.text };
+    case 'reasoning':
+      return { ...message, reasoning: (message.reasoning || '') + event.text };
+    case 'tool_call':
+      return { ...message, toolCalls: upsertById(message.toolCalls, event.toolCall) };
+    case 'citation':
+      return { ...message, citations: upsertById(message.citations, event.citation) };
+    case 'usage':
+      return {
+        ...message,
+        usage: event.usage,
+        ...(typeof event.latencyMs === 'number' && { latencyMs: event.latencyMs }),
+      };
+    case 'error':
+      return {
+        ...message,
+        text: message.text || `Error: ${event.message}`,
+        finishReason: 'error',
+      };
+    case 'done':
+      return {
+        ...message,
+        finishReason: message.finishReason === 'error' ? 'error' : event.finishReason,
+        ...(event.status && { status: event.status }),
+      };
+  }
+}
@@ -0,0 +1,8 @@
+// src/lib/chatStream/index.ts - Typed /api/chat stream protocol
+
+export { encodeChatEvent, formatStreamCursor, parseStreamCursor, isChatStreamEventType } from './protocol';
+export type { ChatStreamEvent, ChatStreamEventType, StreamCursor } from './protocol';
+export { SSEParser } from './parser';
+export type { SSEFrame } from './parser';
+export { readChatStream, applyChatEvent } from './client';
+export type { ChatStreamItem } from './client';
@@ -0,0 +1,71 @@
+// src/lib/chatStream/parser.ts - Incremental SSE frame parser
+//
+// Network chunks end anywhere: mid-line, mid-frame, even mid-character (the
+// caller decodes with { stream: true }). Lines are buffered until complete
+// and frames until their terminating blank line.
+
+export interface SSEFrame {
+  /** Event type; "message" when the frame has no `event:` line */
+  event: string;
+  data: string;
+  id: string | null;
+}
+
+export class SSEParser {
+  private buffer = '';
+  private event = '';
+  private data: string[] = [];
+  private id: string | null = null;
+
+  /** Feed decoded text; returns the frames it completed */
+  push(chunk: string): SSEFrame[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() ?? '';
+
+    const frames: SSEFrame[] = [];
+    for (const rawLine of lines) {
+      const frame = this.processLine(rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine);
+      if (frame) frames.push(frame);
+    }
+    return frames;
+  }
+
+  /** End of stream: a final frame without its blank line still counts */
+  flush(): SSEFrame[] {
+    const frames: SSEFrame[] = [];
+    if (this.buffer) {
+      const frame = this.processLine(this.buffer);
+      this.buffer = '';
+      if (frame) frames.push(frame);
+    }
+    const last = this.dispatch();
+    if (last) frames.push(last);
+    return frames;
+  }
+
+  private processLine(line: string): SSEFrame | null {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return null; // comment / keep-alive
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    if (field === 'event') this.event = value;
+    else if (field === 'data') this.data.push(value);
+    else if (field === 'id') this.id = value;
+    return null;
+  }
+
+  private dispatch(): SSEFrame | null {
+    const frame = this.data.length > 0
+      ? { event: this.event || 'message', data: this.data.join('\n'), id: this.id }
+      : null;
+    this.event = '';
+    this.data = [];
+    this.id = null;
+    return frame;
+  }
+}
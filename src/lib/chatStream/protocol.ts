@@ -0,0 +1,51 @@
+// src/lib/chatStream/protocol.ts - Typed SSE events spoken by /api/chat
+//
+// Each frame is `event: <type>` plus one JSON `data:` line. Frames of
+// persisted replies also carry `id: <cursor>`, which a client sends back to
+// resume a dropped stream. Shared by the server encoder and client parser.
+
+import { Citation, MessageStatus, RoutingInfo, TokenUsage, ToolCall } from '../types';
+
+export type ChatStreamEvent =
+  | { type: 'meta'; model: string; provider: string; lane?: string; routing?: RoutingInfo; messageId?: string }
+  | { type: 'delta'; text: string }
+  | { type: 'reasoning'; text: string }
+  | { type: 'tool_call'; toolCall: ToolCall }
+  | { type: 'citation'; citation: Citation }
+  | { type: 'usage'; usage: TokenUsage; latencyMs?: number }
+  | { type: 'error'; message: string; retryable?: boolean }
+  | { type: 'done'; finishReason: string; status?: MessageStatus };
+
+export type ChatStreamEventType = ChatStreamEvent['type'];
+
+const EVENT_TYPES = new Set<ChatStreamEventType>([
+  'meta', 'delta', 'reasoning', 'tool_call', 'citation', 'usage', 'error', 'done',
+]);
+
+export const isChatStreamEventType = (type: string): type is ChatStreamEventType =>
+  EVENT_TYPES.has(type as ChatStreamEventType);
+
+/** Encode one event as an SSE frame */
+export function encodeChatEvent(event: ChatStreamEvent, id?: string): string {
+  const { type, ...data } = event;
+  return `event: ${type}\n${id !== undefined ? `id: ${id}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Position in a persisted reply: characters of answer text and of reasoning
+ * already delivered. Tool calls and citations are re-sent whole on resume.
+ */
+export interface StreamCursor {
+  text: number;
+  reasoning: number;
+}
+
+export const formatStreamCursor = (cursor: StreamCursor): string => `${cursor.text}:${cursor.reasoning}`;
+
+export function parseStreamCursor(value: string | null | undefined): StreamCursor {
+  const [text, reasoning] = (value || '').split(':').map(part => Math.floor(Number(part)));
+  return {
+    text: Number.isFinite(text) && text > 0 ? text : 0,
+    reasoning: Number.isFinite(reasoning) && reasoning > 0 ? reasoning : 0,
+  };
+}
@@ -0,0 +1,27 @@
+// src/lib/conversation/budget.ts - Per-model history budgets
+
+/**
+ * History budgets per model, in tokens. Smaller than the context windows on
+ * purpose: free tiers meter tokens per minute, and long prompts slow replies.
+ */
+const MODEL_HISTORY_BUDGETS: Record<string, number> = {
+  'llama-3.1-8b-instant': 4000,
+  'meta-llama/llama-3.1-8b-instruct': 4000,
+  'llama-3.3-70b-versatile': 8000,
+  'meta-llama/llama-3.3-70b-instruct': 8000,
+  'gemini-2.5-flash': 32000,
+  'google/gemini-2.5-flash': 32000,
+};
+
+const DEFAULT_HISTORY_BUDGET = 6000;
+
+/**
+ * Tokens available for conversation history on a model: its configured
+ * budget (AI_HISTORY_BUDGET_TOKENS overrides all models), never more than
+ * what is left of the context window after the rest of the prompt.
+ */
+export function historyTokenBudget(model: string, contextWindow: number, reservedTokens: number): number {
+  const override = Number(process.env.AI_HISTORY_BUDGET_TOKENS);
+  const budget = override > 0 ? override : MODEL_HISTORY_BUDGETS[model] ?? DEFAULT_HISTORY_BUDGET;
+  return Math.max(0, Math.min(budget, contextWindow - reservedTokens));
+}
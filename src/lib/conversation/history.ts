@@ -0,0 +1,160 @@
+// src/lib/conversation/history.ts - Load a chat's active path and fit it to a token budget
+
+import { adminDb } from '../firebase-admin';
+import { Message } from '../types';
+import { messageFromFirestore } from '../messageSchema';
+import { buildMessageTree, getActivePath } from '../messageTree';
+import { ChatTurn } from '../providers';
+import { estimateTokens } from '../tokens/estimate';
+import { TURN_OVERHEAD_TOKENS } from '../tokens/budget';
+import { formatCodeRuns } from '../sandbox/format';
+import { ConversationSummary, loadSummary, saveSummary, summarizeTurns } from './summary';
+
+/**
+ * When the summary has to be refreshed, fold in enough old turns that only
+ * this share of the budget stays verbatim. The slack means the next several
+ * turns fit without another summarizer call.
+ */
+const SUMMARY_KEEP_RATIO = 0.5;
+
+export interface AssembledHistory {
+  turns: ChatTurn[];
+  /** Summary of everything before `turns`, if anything was left out */
+  summary: string | null;
+  tokens: number;
+  /** Messages on the path that were replaced by the summary */
+  summarizedCount: number;
+}
+
+// Output of the reply's code blocks, run by the user, follows the reply itself
+const toTurn = (message: Message): ChatTurn => ({
+  role: message.sender === 'user' ? 'user' : 'assistant',
+  content: message.codeRuns && message.codeRuns.length > 0
+    ? `${message.text}\n\n${formatCodeRuns(message.codeRuns)}`
+    : message.text,
+});
+
+/** Counts tokens in the serving model's tokenizer */
+type CountTokens = (text: string) => number;
+
+/**
+ * Messages before messageId on the chat's tree, oldest first. messageId (the
+ * prompt being answered) is not included.
+ */
+export async function loadHistoryPath(userId: string, chatId: string, messageId: string): Promise<Message[]> {
+  const snapshot = await adminDb
+    .collection('users').doc(userId)
+    .collection('chats').doc(chatId)
+    .collection('messages')
+    .orderBy('timestamp', 'asc')
+    .get();
+
+  const messages = snapshot.docs.map((doc: any) => messageFromFirestore(doc.id, doc.data()));
+  const tree = buildMessageTree(messages);
+  if (!tree.byId.has(messageId)) return [];
+
+  return getActivePath(tree, messageId)
+    .slice(0, -1)
+    // Failed and still-generating replies carry no conversation
+    .filter(m => m.text.trim() && m.finishReason !== 'error' && m.status !== 'streaming');
+}
+
+/** Index of the first message in the longest suffix that fits the budget */
+function fittingStart(path: Message[], budget: number, turnTokens: (m: Message) => number, from: number = 0): number {
+  let tokens = 0;
+  for (let i = path.length - 1; i >= from; i--) {
+    tokens += turnTokens(path[i]);
+    if (tokens > budget) return i + 1;
+  }
+  return from;
+}
+
+/** Just the recent turns that fit, no summary */
+function recentWindow(path: Message[], budget: number, turnTokens: (m: Message) => number): AssembledHistory {
+  const turns = path.slice(fittingStart(path, budget, turnTokens));
+  return {
+    turns: turns.map(toTurn),
+    summary: null,
+    tokens: turns.reduce((sum, m) => sum + turnTokens(m), 0),
+    summarizedCount: 0,
+  };
+}
+
+/**
+ * History for the prompt: as many recent turns as fit `budget`, plus the
+ * rolling summary covering everything older. The summary is refreshed (and
+ * stored on the chat) when turns would otherwise drop out unsummarized.
+ * Without a chatId there is nowhere to keep a summary, so the path is only
+ * trimmed.
+ */
+export async function assembleHistory(
+  userId: string,
+  chatId: string | null,
+  path: Message[],
+  budget: number,
+  countTokens: CountTokens = estimateTokens
+): Promise<AssembledHistory> {
+  const turnTokens = (message: Message) => countTokens(toTurn(message).content) + TURN_OVERHEAD_TOKENS;
+  const total = path.reduce((sum, m) => sum + turnTokens(m), 0);
+  if (total <= budget || !chatId) {
+    return recentWindow(path, budget, turnTokens);
+  }
+
+  // Reuse the stored summary if it belongs to this branch and what follows it fits
+  const stored = await loadSummary(userId, chatId);
+  const coveredUntil = stored ? path.findIndex(m => m.id === stored.throughMessageId) + 1 : 0;
+
+  if (stored && coveredUntil > 0) {
+    const remainingBudget = budget - countTokens(stored.text);
+    if (fittingStart(path, remainingBudget, turnTokens, coveredUntil) === coveredUntil) {
+      const turns = path.slice(coveredUntil);
+      return {
+        turns: turns.map(toTurn),
+        summary: stored.text,
+        tokens: countTokens(stored.text) + turns.reduce((sum, m) => sum + turnTokens(m), 0),
+        summarizedCount: coveredUntil,
+      };
+    }
+  }
+
+  // Fold older turns into the summary, keeping the most recent ones verbatim
+  const keepFrom = Math.min(
+    path.length - 1,
+    Math.max(coveredUntil, fittingStart(path, Math.floor(budget * SUMMARY_KEEP_RATIO), turnTokens))
+  );
+  const toSummarize = path.slice(coveredUntil, keepFrom);
+
+  let summaryText = coveredUntil > 0 ? stored!.text : null;
+  if (toSummarize.length > 0) {
+    try {
+      const result = await summarizeTurns(summaryText, toSummarize.map(toTurn));
+      if (result.text) {
+        summaryText = result.text;
+        const summary: ConversationSummary = {
+          text: result.text,
+          throughMessageId: path[keepFrom - 1].id,
+          model: result.model,
+          updatedAt: Date.now(),
+        };
+        await saveSummary(userId, chatId, summary);
+        console.log(`📝 Summarized ${toSummarize.length} turns of chat ${chatId} with ${result.model}`);
+      }
+    } catch (error) {
+      // Without a fresh summary, fall back to the plain recent window
+      console.error('⚠️ Conversation summary failed:', (error as Error).message);
+      return recentWindow(path, budget, turnTokens);
+    }
+  }
+
+  // Recent turns still have to fit next to the summary
+  const summaryTokens = summaryText ? countTokens(summaryText) : 0;
+  const start = Math.max(keepFrom, fittingStart(path, budget - summaryTokens, turnTokens, keepFrom));
+  const turns = path.slice(start);
+
+  return {
+    turns: turns.map(toTurn),
+    summary: summaryText,
+    tokens: summaryTokens + turns.reduce((sum, m) => sum + turnTokens(m), 0),
+    summarizedCount: start,
+  };
+}
@@ -0,0 +1,9 @@
+// src/lib/conversation/index.ts - Conversation history assembly for /api/chat
+
+export { historyTokenBudget } from './budget';
+export { loadHistoryPath, assembleHistory } from './history';
+export type { AssembledHistory } from './history';
+export { summarizeTurns } from './summary';
+export type { ConversationSummary } from './summary';
+export { loadPersona, formatCustomInstructions } from './persona';
+export { loadChatProject, formatProjectInstructions } from './project';
@@ -0,0 +1,33 @@
+// src/lib/conversation/persona.ts - Apply a chat's persona to the prompt
+
+import { adminDb } from '../firebase-admin';
+import { Persona } from '../types';
+import { personaFromFirestore } from '../personaSchema';
+
+/**
+ * One of the user's personas, or null if it doesn't exist (e.g. deleted
+ * while a chat still pointed at it)
+ */
+export async function loadPersona(userId: string, personaId: string): Promise<Persona | null> {
+  try {
+    const snapshot = await adminDb.collection('users').doc(userId).collection('personas').doc(personaId).get();
+    return snapshot.exists ? personaFromFirestore(snapshot.id, snapshot.data()) : null;
+  } catch (error) {
+    console.error(`⚠️ Failed to load persona ${personaId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * System prompt section holding the user's own instructions: the persona's,
+ * plus any free-form context sent with the request. Empty when there are none.
+ */
+export function formatCustomInstructions(persona: Persona | null, context: string = ''): string {
+  const parts = [persona?.instructions.trim(), context.trim()].filter(Boolean);
+  if (parts.length === 0) return '';
+
+  const heading = persona
+    ? `**Custom instructions from the user** (persona "${persona.name}"). Follow them unless they conflict with the rules above:`
+    : '**Custom instructions from the user**. Follow them unless they conflict with the rules above:';
+  return `${heading}\n${parts.join('\n\n')}`;
+}
@@ -0,0 +1,33 @@
+// src/lib/conversation/project.ts - Apply a chat's project to the prompt
+
+import { adminDb } from '../firebase-admin';
+import { Project } from '../types';
+import { projectFromFirestore } from '../projectSchema';
+
+/**
+ * The project a chat belongs to, or null if it has none (or it was deleted)
+ */
+export async function loadChatProject(userId: string, chatId: string): Promise<Project | null> {
+  try {
+    const userRef = adminDb.collection('users').doc(userId);
+    const chat = await userRef.collection('chats').doc(chatId).get();
+    const projectId = chat.data()?.projectId;
+    if (typeof projectId !== 'string' || !projectId) return null;
+
+    const snapshot = await userRef.collection('projects').doc(projectId).get();
+    return snapshot.exists ? projectFromFirestore(snapshot.id, snapshot.data()) : null;
+  } catch (error) {
+    console.error(`⚠️ Failed to load the project of chat ${chatId}:`, error);
+    return null;
+  }
+}
+
+/**
+ * System prompt section with the project's standing instructions. Empty
+ * when the project has none.
+ */
+export function formatProjectInstructions(project: Project | null): string {
+  const instructions = project?.instructions.trim();
+  if (!project || !instructions) return '';
+  return `**Project instructions** (project "${project.name}"). They apply to every chat in the project:\n${instructions}`;
+}
@@ -0,0 +1,130 @@
+// src/lib/conversation/summary.ts - Rolling conversation summary, written by a cheap model
+//
+// The summary lives on the chat document and covers the active path up to
+// and including throughMessageId. It is extended incrementally: the previous
+// summary plus the turns that have since fallen out of the history window.
+
+import { adminDb } from '../firebase-admin';
+import { ChatTurn, getLaneChain, parseChain, streamWithFailover } from '../providers';
+import { estimateTokens } from '../tokens/estimate';
+
+export interface ConversationSummary {
+  text: string;
+  /** Last message (on the active path) folded into the summary */
+  throughMessageId: string;
+  model: string;
+  updatedAt: number;
+}
+
+/** Largest slice of transcript sent to the summarizer in one call */
+const SUMMARY_INPUT_TOKENS = 6000;
+const SUMMARY_MAX_OUTPUT_TOKENS = 600;
+
+const SUMMARY_SYSTEM_PROMPT = `You maintain a running summary of a conversation between a user and an AI assistant.
+
+Rewrite the summary so it also covers the new turns. Keep:
+- decisions made and conclusions reached
+- facts, names, numbers, requirements and constraints the user gave
+- open questions and what the assistant promised to do next
+- file names and code identifiers that were discussed
+
+Drop greetings and small talk. Write terse bullet points, at most 300 words. Output only the summary.`;
+
+/** Cheap model chain: AI_SUMMARY_CHAIN ("provider:model,...") or the daily lane */
+function summaryChain() {
+  const spec = process.env.AI_SUMMARY_CHAIN;
+  if (spec) {
+    try {
+      return parseChain(spec);
+    } catch (error) {
+      console.error('⚠️ Ignoring AI_SUMMARY_CHAIN:', (error as Error).message);
+    }
+  }
+  return getLaneChain('daily');
+}
+
+function formatTranscript(turns: ChatTurn[]): string {
+  return turns
+    .map(turn => `${turn.role === 'user' ? 'User' : 'Assistant'}: ${turn.content}`)
+    .join('\n\n');
+}
+
+/** Split turns into slices that each fit the summarizer's input budget */
+function sliceTurns(turns: ChatTurn[]): ChatTurn[][] {
+  const slices: ChatTurn[][] = [];
+  let current: ChatTurn[] = [];
+  let tokens = 0;
+
+  for (const turn of turns) {
+    // Very long single turns (pasted documents) are truncated rather than skipped
+    const content = estimateTokens(turn.content) > SUMMARY_INPUT_TOKENS
+      ? turn.content.slice(0, SUMMARY_INPUT_TOKENS * 4) + '\n[truncated]'
+      : turn.content;
+    const turnTokens = estimateTokens(content);
+
+    if (current.length > 0 && tokens + turnTokens > SUMMARY_INPUT_TOKENS) {
+      slices.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push({ role: turn.role, content });
+    tokens += turnTokens;
+  }
+
+  if (current.length > 0) slices.push(current);
+  return slices;
+}
+
+/**
+ * Fold turns into an existing summary (or start one). Long stretches are
+ * summarized slice by slice.
+ */
+export async function summarizeTurns(
+  previousSummary: string | null,
+  turns: ChatTurn[]
+): Promise<{ text: string; model: string }> {
+  let summary = previousSummary;
+  let model = '';
+
+  for (const slice of sliceTurns(turns)) {
+    const input = [
+      summary ? `Current summary:\n${summary}` : 'There is no summary yet.',
+      `New turns:\n${formatTranscript(slice)}`,
+    ].join('\n\n');
+
+    const { hop, events } = await streamWithFailover('daily', summaryChain(), {
+      system: SUMMARY_SYSTEM_PROMPT,
+      history: [],
+      input,
+      imageUrls: [],
+      temperature: 0.2,
+      maxTokens: SUMMARY_MAX_OUTPUT_TOKENS,
+      signal: AbortSignal.timeout(30000),
+    }, { inputTokens: estimateTokens(input) + estimateTokens(SUMMARY_SYSTEM_PROMPT) });
+
+    let text = '';
+    for await (const event of events) {
+      if (event.type === 'delta') text += event.content;
+    }
+
+    if (text.trim()) {
+      summary = text.trim();
+      model = hop.label;
+    }
+  }
+
+  return { text: summary || '', model };
+}
+
+const chatRef = (userId: string, chatId: string) =>
+  adminDb.collection('users').doc(userId).collection('chats').doc(chatId);
+
+export async function loadSummary(userId: string, chatId: string): Promise<ConversationSummary | null> {
+  const chatDoc = await chatRef(userId, chatId).get();
+  const summary = chatDoc.data()?.summary;
+  return summary?.text && summary?.throughMessageId ? summary as ConversationSummary : null;
+}
+
+export async function saveSummary(userId: string, chatId: string, summary: ConversationSummary): Promise<void> {
+  await chatRef(userId, chatId).set({ summary }, { merge: true });
+}
@@ -0,0 +1,311 @@
+// src/lib/documents/cache.ts - Extraction cache so documents are parsed once
+//
+// Entries live in extractionCache/{key} with one sections/{i} doc per page,
+// slide or sheet, plus a small in-process LRU in front of Firestore.
+//
+// Entries are shared by everyone, so only Vercel Blob URLs (whose content
+// never changes) are keyed by URL. Other URLs are refused; uploaded bytes
+// are keyed by their hash. Entries record when they were last used; the
+// blob garbage collector expires those unused for EXTRACTION_TTL_MS, and
+// deleting a stored file drops the entries extracted from it. Either way
+// the entry's refs on its page images are released.
+
+import { createHash } from 'crypto';
+import { admin, adminDb } from '@/lib/firebase-admin';
+// Not the blobs index, which loads the garbage collector that imports this file
+import { blobPathname } from '@/lib/blobs/ownership';
+import { addBlobRefs, extractionBlobRef, releaseBlobRefs } from '@/lib/blobs/refs';
+import { DocumentSection, ExtractedDocument, ExtractOptions, extractDocument } from './extract';
+
+export interface CachedExtraction extends ExtractedDocument {
+  key: string;
+  contentType: string;
+}
+
+interface CacheSource {
+  /** Vercel Blob URL of the document; the cache key when present */
+  url?: string;
+  /** Document bytes; hashed for the key when there is no URL */
+  buffer?: ArrayBuffer;
+  contentType?: string | null;
+}
+
+// Firestore documents are capped at 1 MiB
+const MAX_SECTION_CHARS = 900_000;
+/** Largest document fetched for extraction */
+export const MAX_FETCH_BYTES = Number(process.env.MAX_EXTRACTION_BYTES ?? 50 * 1024 * 1024);
+const MEMORY_CACHE_SIZE = 50;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Entries unused for this long are expired by the blob garbage collector */
+export const EXTRACTION_TTL_MS = Number(process.env.EXTRACTION_CACHE_TTL_DAYS ?? 30) * DAY_MS;
+/** lastUsedAt is written at most this often per entry */
+const TOUCH_INTERVAL_MS = DAY_MS;
+
+const memoryCache = new Map<string, CachedExtraction>();
+/** When each cached entry's lastUsedAt was last known to be written */
+const touchedAt = new Map<string, number>();
+
+const cacheRef = () => adminDb.collection('extractionCache');
+
+function sha256(data: string | Uint8Array): string {
+  return createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Cache key for a source. Options that change the output (e.g. row caps)
+ * are part of the key.
+ */
+export function extractionCacheKey(source: CacheSource, options: ExtractOptions = {}): string {
+  const { imagePathPrefix: _prefix, ...outputOptions } = options;
+  const identity = source.url && blobPathname(source.url) !== null
+    ? `url:${source.url}`
+    : `sha256:${sha256(new Uint8Array(source.buffer ?? new ArrayBuffer(0)))}`;
+  return sha256(`${identity}|${JSON.stringify(outputOptions)}`).substring(0, 40);
+}
+
+function remember(entry: CachedExtraction) {
+  memoryCache.delete(entry.key);
+  memoryCache.set(entry.key, entry);
+  if (memoryCache.size > MEMORY_CACHE_SIZE) {
+    const oldest = memoryCache.keys().next().value;
+    if (oldest) {
+      memoryCache.delete(oldest);
+      touchedAt.delete(oldest);
+    }
+  }
+}
+
+/** Keep a used entry from expiring */
+function touch(key: string) {
+  const now = Date.now();
+  if (now - (touchedAt.get(key) ?? 0) < TOUCH_INTERVAL_MS) return;
+  touchedAt.set(key, now);
+  cacheRef().doc(key).update({ lastUsedAt: new Date(now).toISOString() }).catch((e: unknown) => {
+    console.error('Extraction cache touch failed:', e);
+  });
+}
+
+async function readEntry(key: string): Promise<CachedExtraction | null> {
+  const cached = memoryCache.get(key);
+  if (cached) {
+    remember(cached);
+    touch(key);
+    return cached;
+  }
+
+  const doc = await cacheRef().doc(key).get();
+  if (!doc.exists) return null;
+
+  const data = doc.data();
+  touchedAt.set(key, Date.parse(data.lastUsedAt ?? data.createdAt) || 0);
+  touch(key);
+  const sectionsSnapshot = await doc.ref.collection('sections').orderBy('index').get();
+  const sections: DocumentSection[] = sectionsSnapshot.docs.map((s: any) => {
+    const { label, text } = s.data();
+    return label ? { label, text } : { text };
+  });
+
+  const entry: CachedExtraction = {
+    key,
+    contentType: data.contentType,
+    imageUrls: data.imageUrls || [],
+    sections,
+    text: sections.map(s => s.text).filter(Boolean).join('\n\n'),
+  };
+  remember(entry);
+  return entry;
+}
+
+async function writeEntry(entry: CachedExtraction, sourceUrl?: string): Promise<void> {
+  const ref = cacheRef().doc(entry.key);
+
+  // Firestore batches are limited to 500 writes
+  for (let i = 0; i < entry.sections.length; i += 400) {
+    const batch = adminDb.batch();
+    entry.sections.slice(i, i + 400).forEach((section, offset) => {
+      const index = i + offset;
+      batch.set(ref.collection('sections').doc(String(index)), {
+        index,
+        text: section.text.substring(0, MAX_SECTION_CHARS),
+        ...(section.label && { label: section.label }),
+      });
+    });
+    await batch.commit();
+  }
+
+  // Embedded images stay as long as the entry that lists them
+  await addBlobRefs(entry.imageUrls, extractionBlobRef(entry.key));
+
+  // Written last so a partially written entry is never read as a hit
+  const now = new Date().toISOString();
+  await ref.set({
+    contentType: entry.contentType,
+    imageUrls: entry.imageUrls,
+    sectionCount: entry.sections.length,
+    textLength: entry.text.length,
+    createdAt: now,
+    lastUsedAt: now,
+    ...(sourceUrl && { sourceUrl }),
+  });
+  touchedAt.set(entry.key, Date.now());
+}
+
+/**
+ * Delete an entry with its sections, and release its page images for the
+ * garbage collector
+ */
+async function deleteEntry(doc: any): Promise<void> {
+  // The entry doc goes first, so a reader never gets a hit with missing
+  // sections or released images
+  await doc.ref.delete();
+  memoryCache.delete(doc.id);
+  touchedAt.delete(doc.id);
+
+  const sections = await doc.ref.collection('sections').get();
+  for (let i = 0; i < sections.docs.length; i += 400) {
+    const batch = adminDb.batch();
+    sections.docs.slice(i, i + 400).forEach((section: any) => batch.delete(section.ref));
+    await batch.commit();
+  }
+  const imageUrls = doc.data()?.imageUrls;
+  if (Array.isArray(imageUrls)) await releaseBlobRefs(imageUrls, extractionBlobRef(doc.id));
+}
+
+/**
+ * Drop the entries extracted from these blobs, e.g. once they are deleted.
+ * Returns how many entries were removed.
+ */
+export async function forgetExtractions(sourceUrls: string[]): Promise<number> {
+  let removed = 0;
+  // Firestore caps `in` queries at 30 values
+  for (let i = 0; i < sourceUrls.length; i += 30) {
+    const snapshot = await cacheRef().where('sourceUrl', 'in', sourceUrls.slice(i, i + 30)).get();
+    for (const doc of snapshot.docs) {
+      await deleteEntry(doc);
+      removed++;
+    }
+  }
+  return removed;
+}
+
+/**
+ * One page (in key order) of expiring entries last used before `cutoff`.
+ * Returns the cursor for the next page, or null when done, and how many
+ * entries expired (or would, in a dry run).
+ */
+export async function expireExtractionPage(
+  cursor: string | null,
+  { pageSize, cutoff, dryRun }: { pageSize: number; cutoff: number; dryRun: boolean },
+): Promise<{ next: string | null; expired: number }> {
+  let query = cacheRef().orderBy(admin.firestore.FieldPath.documentId()).limit(pageSize);
+  if (cursor) query = query.startAfter(cursor);
+  const page = await query.get();
+
+  let expired = 0;
+  for (const doc of page.docs) {
+    const data = doc.data();
+    const lastUsed = Date.parse(data.lastUsedAt ?? data.createdAt);
+    // Entries without a readable date are left alone
+    if (!(lastUsed < cutoff)) continue;
+    if (!dryRun) await deleteEntry(doc);
+    expired++;
+  }
+
+  return { next: page.size < pageSize ? null : page.docs[page.docs.length - 1].id, expired };
+}
+
+/**
+ * Download a blob, giving up once it is larger than MAX_FETCH_BYTES
+ */
+export async function fetchDocument(url: string, signal?: AbortSignal): Promise<{ buffer: ArrayBuffer; contentType: string | null }> {
+  const tooLarge = () => new Error(`Document is larger than ${Math.round(MAX_FETCH_BYTES / 1024 / 1024)}MB`);
+  const response = await fetch(url, { signal });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch document: ${response.status}`);
+  }
+  if (Number(response.headers.get('content-length')) > MAX_FETCH_BYTES) {
+    await response.body?.cancel();
+    throw tooLarge();
+  }
+
+  // The header may be missing, so count as the body arrives
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body!.getReader();
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_FETCH_BYTES) {
+      await reader.cancel();
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  chunks.forEach(chunk => {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  });
+  return { buffer: bytes.buffer, contentType: response.headers.get('content-type') };
+}
+
+/**
+ * Extract a document, reusing a previous extraction of the same blob or
+ * content. Only fetches the blob on a cache miss.
+ */
+export async function extractWithCache(
+  source: CacheSource,
+  options: ExtractOptions = {}
+): Promise<CachedExtraction> {
+  if (!source.url && !source.buffer) {
+    throw new Error('extractWithCache needs a url or a buffer');
+  }
+  if (source.url && !source.buffer && blobPathname(source.url) === null) {
+    throw new Error('Only Vercel Blob URLs can be extracted');
+  }
+
+  const key = extractionCacheKey(source, options);
+
+  try {
+    const cached = await readEntry(key);
+    if (cached) {
+      console.log(`♻️ Extraction cache hit (${key.substring(0, 8)})`);
+      return cached;
+    }
+  } catch (e) {
+    console.error('Extraction cache read failed:', e);
+  }
+
+  let buffer = source.buffer;
+  let contentType = source.contentType ?? null;
+
+  if (!buffer) {
+    const fetched = await fetchDocument(source.url!);
+    buffer = fetched.buffer;
+    contentType = contentType || fetched.contentType;
+  }
+
+  const extracted = await extractDocument(buffer, contentType, source.url, {
+    ...options,
+    imagePathPrefix: options.imagePathPrefix ?? `extracted/${key}`,
+  });
+
+  const entry: CachedExtraction = {
+    ...extracted,
+    key,
+    contentType: contentType || 'application/octet-stream',
+  };
+  remember(entry);
+
+  try {
+    await writeEntry(entry, source.url);
+  } catch (e) {
+    console.error('Extraction cache write failed:', e);
+  }
+
+  return entry;
+}
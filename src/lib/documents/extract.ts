@@ -0,0 +1,178 @@
+// src/lib/documents/extract.ts - Text and image extraction for uploaded documents
+
+import { put } from '@vercel/blob';
+import { randomUUID } from 'crypto';
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+import * as XLSX from 'xlsx';
+import AdmZip from 'adm-zip';
+
+/**
+ * A located piece of a document: a PDF page, a PPTX slide, an XLSX sheet.
+ * Documents without natural pages (DOCX, plain text) have a single section
+ * without a label.
+ */
+export interface DocumentSection {
+  label?: string;
+  text: string;
+}
+
+export interface ExtractedDocument {
+  text: string;
+  sections: DocumentSection[];
+  imageUrls: string[];
+}
+
+export interface ExtractOptions {
+  /** Cap rows per sheet for spreadsheets */
+  maxRowsPerSheet?: number;
+  /**
+   * Upload embedded images under this blob path with stable names, so
+   * re-extracting the same document overwrites instead of piling up copies
+   */
+  imagePathPrefix?: string;
+}
+
+const joinSections = (sections: DocumentSection[]) =>
+  sections.map(s => s.text).filter(Boolean).join('\n\n');
+
+async function uploadEmbeddedImage(entry: AdmZip.IZipEntry, imagePathPrefix?: string): Promise<string> {
+  const imageBuffer = entry.getData();
+  const extension = entry.entryName.split('.').pop()?.toLowerCase() || 'png';
+  const mimeType = extension === 'jpg' || extension === 'jpeg' ? 'image/jpeg' : `image/${extension}`;
+
+  if (imagePathPrefix) {
+    const stableName = `${imagePathPrefix}/${entry.entryName.replace(/[^\w.-]+/g, '_')}`;
+    const imageFile = new File([new Uint8Array(imageBuffer)], stableName, { type: mimeType });
+    const blob = await put(stableName, imageFile, { access: 'public', addRandomSuffix: false, allowOverwrite: true });
+    return blob.url;
+  }
+
+  const uniqueFilename = `${randomUUID()}.${extension}`;
+  const imageFile = new File([new Uint8Array(imageBuffer)], uniqueFilename, { type: mimeType });
+  const blob = await put(uniqueFilename, imageFile, { access: 'public', addRandomSuffix: true });
+  return blob.url;
+}
+
+export async function extractPPTXContent(buffer: Buffer, options: ExtractOptions = {}): Promise<ExtractedDocument> {
+  const imageUrls: string[] = [];
+  const sections: DocumentSection[] = [];
+  try {
+    const zip = new AdmZip(buffer);
+    const zipEntries = zip.getEntries();
+    const slideNumber = (name: string) => Number(name.match(/slide(\d+)\.xml$/i)?.[1] || 0);
+
+    const slides = zipEntries
+      .filter(entry => /ppt\/slides\/slide\d+\.xml$/i.test(entry.entryName))
+      .sort((a, b) => slideNumber(a.entryName) - slideNumber(b.entryName));
+
+    for (const entry of slides) {
+      try {
+        const slideContent = entry.getData().toString('utf8');
+        const textMatches = slideContent.match(/<a:t>([^<]+)<\/a:t>/g);
+        if (textMatches) {
+          const text = textMatches.map(match => match.replace(/<\/?a:t>/g, '')).join(' ').trim();
+          sections.push({ label: `slide ${slideNumber(entry.entryName)}`, text });
+        }
+      } catch (e) { console.error('Error extracting text from slide:', e); }
+    }
+
+    for (const entry of zipEntries) {
+      if (entry.entryName.match(/ppt\/media\/.+\.(jpg|jpeg|png|gif|bmp|svg|webp)/i)) {
+        try {
+          imageUrls.push(await uploadEmbeddedImage(entry, options.imagePathPrefix));
+        } catch (e) { console.error('Error processing PPTX image:', e); }
+      }
+    }
+  } catch (e) { console.error('Failed to extract PPTX content:', e); }
+  return { text: joinSections(sections), sections, imageUrls };
+}
+
+export async function extractDOCXContent(buffer: Buffer, options: ExtractOptions = {}): Promise<ExtractedDocument> {
+  const imageUrls: string[] = [];
+  let text = '';
+  try {
+    const result = await mammoth.extractRawText({ buffer });
+    text = result.value;
+    const zip = new AdmZip(buffer);
+    for (const entry of zip.getEntries()) {
+      if (entry.entryName.match(/word\/media\/.+\.(jpg|jpeg|png|gif|bmp|svg)/i)) {
+        imageUrls.push(await uploadEmbeddedImage(entry, options.imagePathPrefix));
+      }
+    }
+  } catch (e) { console.error('Failed to extract DOCX images:', e); }
+  return { text, sections: text ? [{ text }] : [], imageUrls };
+}
+
+export async function extractPDFContent(buffer: Uint8Array): Promise<ExtractedDocument> {
+  const sections: DocumentSection[] = [];
+  try {
+    console.log(`📄 Extracting PDF content - Buffer size: ${buffer.byteLength} bytes`);
+
+    const pdf = await getDocumentProxy(buffer);
+    console.log(`✅ PDF proxy created successfully - Pages: ${pdf.numPages}`);
+
+    // Keep pages separate so retrieved chunks can cite their page
+    const { text: pages, totalPages } = await extractText(pdf, { mergePages: false });
+    pages.forEach((pageText, i) => {
+      if (pageText.trim()) sections.push({ label: `page ${i + 1}`, text: pageText });
+    });
+
+    console.log(`✅ PDF text extracted - Total pages: ${totalPages}, Sections: ${sections.length}`);
+  } catch (e) {
+    console.error('❌ Failed to extract PDF content:', e);
+    console.error('Error details:', {
+      message: (e as Error).message,
+      stack: (e as Error).stack
+    });
+  }
+  return { text: joinSections(sections), sections, imageUrls: [] };
+}
+
+export function extractXLSXContent(buffer: ArrayBuffer | Buffer, options: ExtractOptions = {}): ExtractedDocument {
+  const workbook = XLSX.read(buffer, { type: 'buffer' });
+  const sections: DocumentSection[] = workbook.SheetNames.map(sheetName => {
+    const worksheet = workbook.Sheets[sheetName];
+    let csv: string;
+    if (options.maxRowsPerSheet) {
+      const rows = XLSX.utils.sheet_to_json(worksheet, { header: 1 }) as any[][];
+      csv = rows.length > options.maxRowsPerSheet
+        ? XLSX.utils.sheet_to_csv(XLSX.utils.aoa_to_sheet(rows.slice(0, options.maxRowsPerSheet))) + '\n[Truncated]'
+        : XLSX.utils.sheet_to_csv(worksheet);
+    } else {
+      csv = XLSX.utils.sheet_to_csv(worksheet);
+    }
+    return { label: `sheet ${sheetName}`, text: `Sheet: ${sheetName}\n${csv}` };
+  });
+  return { text: joinSections(sections), sections, imageUrls: [] };
+}
+
+/**
+ * Extract text (and embedded images) from a document by content type.
+ * Images are returned as-is in `imageUrls` when `sourceUrl` is given.
+ */
+export async function extractDocument(
+  buffer: ArrayBuffer,
+  contentType: string | null,
+  sourceUrl?: string,
+  options: ExtractOptions = {}
+): Promise<ExtractedDocument> {
+  if (contentType?.startsWith('image/')) {
+    return { text: '', sections: [], imageUrls: sourceUrl ? [sourceUrl] : [] };
+  }
+  if (contentType === 'application/pdf') {
+    return extractPDFContent(new Uint8Array(buffer));
+  }
+  if (contentType?.includes('wordprocessingml')) {
+    return extractDOCXContent(Buffer.from(buffer), options);
+  }
+  if (contentType?.includes('presentationml')) {
+    return extractPPTXContent(Buffer.from(buffer), options);
+  }
+  if (contentType?.includes('spreadsheetml')) {
+    return extractXLSXContent(buffer, options);
+  }
+
+  const text = new TextDecoder('utf-8').decode(buffer);
+  return { text, sections: text ? [{ text }] : [], imageUrls: [] };
+}
@@ -0,0 +1,125 @@
+// src/lib/export/html.tsx - Self-contained HTML transcript
+//
+// Rendered with the same react-markdown + Prism/oneDark stack as ChatBubble.
+// The highlighter emits inline styles, so the file needs no external assets.
+
+import type { ReactNode } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
+import { oneDark } from '@/styles/oneDark';
+import { Message } from '../types';
+import { ExportedChat } from './types';
+import { Transcript, chatTranscript, formatExportDate, speakerLabel } from './markdown';
+
+const PAGE_CSS = `
+  body { margin: 0; background: #131314; color: #d1d5db; font: 15px/1.6 -apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif; }
+  main { max-width: 860px; margin: 0 auto; padding: 32px 16px; }
+  h1 { color: #60a5fa; margin-bottom: 4px; }
+  a { color: #60a5fa; }
+  nav { margin-bottom: 32px; }
+  nav li { margin: 4px 0; }
+  .meta { color: #6b7280; font-size: 13px; }
+  .chat { margin-bottom: 64px; }
+  .message { margin: 20px 0; padding: 12px 16px; border-radius: 16px; }
+  .message.user { background: #1d4ed8; color: #fff; margin-left: 15%; border-bottom-right-radius: 4px; }
+  .message.ai { background: #1e1f20; border-bottom-left-radius: 4px; }
+  .speaker { font-weight: 600; font-size: 13px; margin-bottom: 6px; }
+  .message.user .meta { color: #bfdbfe; }
+  .code { margin: 12px 0; border-radius: 8px; overflow: hidden; }
+  .code-lang { background: #111827; color: #9ca3af; font: 12px monospace; text-transform: uppercase; padding: 6px 16px; }
+  .code > div { margin: 0 !important; padding: 16px !important; overflow-x: auto; font-size: 13px; }
+  :not(pre) > code { background: rgba(30, 58, 138, 0.3); color: #93c5fd; padding: 1px 5px; border-radius: 4px; }
+  table { border-collapse: collapse; margin: 12px 0; }
+  th, td { border: 1px solid #374151; padding: 6px 10px; }
+  blockquote { border-left: 4px solid #3b82f6; margin: 12px 0; padding: 4px 12px; color: #9ca3af; }
+  ul.attachments { margin: 8px 0 0; padding-left: 20px; font-size: 13px; }
+`;
+
+const markdownComponents = {
+  code({ className, children }: { className?: string; children?: ReactNode }) {
+    const match = /language-(\w+)/.exec(className || '');
+    const code = String(children).replace(/\n$/, '');
+
+    if (!match && !code.includes('\n')) {
+      return <code>{children}</code>;
+    }
+
+    const language = match ? match[1] : 'text';
+    return (
+      <div className="code">
+        <div className="code-lang">{language}</div>
+        <SyntaxHighlighter style={oneDark} language={language} PreTag="div">
+          {code}
+        </SyntaxHighlighter>
+      </div>
+    );
+  },
+};
+
+const MessageBlock = ({ message }: { message: Message }) => (
+  <div className={`message ${message.sender}`}>
+    <div className="speaker">
+      {speakerLabel(message)} <span className="meta">{formatExportDate(message.timestamp)}</span>
+    </div>
+    {/* No rehype-raw: raw HTML in messages stays escaped in shared files */}
+    <ReactMarkdown remarkPlugins={[remarkGfm]} components={markdownComponents}>
+      {message.text}
+    </ReactMarkdown>
+    {message.attachments && message.attachments.length > 0 && (
+      <ul className="attachments">
+        {message.attachments.map((a, i) => (
+          <li key={i}>{a.url ? <a href={a.url}>{a.name}</a> : a.name}</li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+const ChatSection = ({ transcript, anchor }: { transcript: Transcript; anchor: string }) => (
+  <section className="chat" id={anchor}>
+    <h1>{transcript.title}</h1>
+    <div className="meta">Started {formatExportDate(transcript.timestamp)}</div>
+    {transcript.messages.map(message => (
+      <MessageBlock key={message.id} message={message} />
+    ))}
+  </section>
+);
+
+export async function chatsToHtml(chats: ExportedChat[]): Promise<string> {
+  // Loaded lazily: react-dom/server is only needed for this export path
+  const { renderToStaticMarkup } = await import('react-dom/server');
+  const transcripts = chats.map(chatTranscript);
+  const title = transcripts.length === 1 ? transcripts[0].title : 'AuraIQ chats';
+
+  const markup = renderToStaticMarkup(
+    <html lang="en">
+      <head>
+        <meta charSet="utf-8" />
+        <meta name="viewport" content="width=device-width, initial-scale=1" />
+        <title>{title}</title>
+        <style dangerouslySetInnerHTML={{ __html: PAGE_CSS }} />
+      </head>
+      <body>
+        <main>
+          {transcripts.length > 1 && (
+            <nav>
+              <h1>AuraIQ chats</h1>
+              <ol>
+                {transcripts.map((t, i) => (
+                  <li key={i}><a href={`#chat-${i + 1}`}>{t.title}</a></li>
+                ))}
+              </ol>
+            </nav>
+          )}
+          {transcripts.map((t, i) => (
+            <ChatSection key={i} transcript={t} anchor={`chat-${i + 1}`} />
+          ))}
+          <p className="meta">Exported from AuraIQ on {formatExportDate(Date.now())}</p>
+        </main>
+      </body>
+    </html>
+  );
+
+  return `<!DOCTYPE html>${markup}`;
+}
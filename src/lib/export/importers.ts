@@ -0,0 +1,235 @@
+// src/lib/export/importers.ts - Parse AuraIQ, ChatGPT and Claude exports into ExportedChat
+//
+// Third-party exports are converted to our message shape. AuraIQ archives
+// are user-supplied too, so their messages are re-read through the message
+// schema and only known chat fields are kept. Chat ids here are only
+// placeholders - importChats assigns fresh ones.
+
+import { Attachment, Message } from '../types';
+import { messageFromFirestore, messageToFirestore } from '../messageSchema';
+import { CHAT_EXPORT_FORMAT, ExportedChat } from './types';
+
+export type ImportSource = 'auraiq' | 'chatgpt' | 'claude';
+
+export class ImportFormatError extends Error {}
+
+// Message ids become Firestore document ids
+const SAFE_ID = /^[\w-]{1,128}$/;
+
+const safeId = (id: string): string => id.replace(/[^\w-]/g, '_').slice(0, 128) || '_';
+
+const toMillis = (value: unknown): number | undefined => {
+  if (typeof value === 'number') return value < 1e12 ? Math.round(value * 1000) : value;
+  if (typeof value === 'string') {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? undefined : time;
+  }
+  return undefined;
+};
+
+function buildChat(
+  id: string,
+  title: string,
+  timestamp: number,
+  messages: Message[],
+  activeLeafId: string | null
+): ExportedChat {
+  return {
+    id,
+    data: {
+      title: title || 'Imported chat',
+      timestamp,
+      lastMessageAt: messages[messages.length - 1]?.timestamp || timestamp,
+      messageCount: messages.length,
+      ...(activeLeafId && { activeLeafId }),
+    },
+    messages: messages.map(m => ({ id: m.id, data: messageToFirestore(m) })),
+  };
+}
+
+// --- ChatGPT: conversations.json ---
+// [{ title, create_time, current_node, mapping: { id: { message, parent, children } } }]
+
+interface ChatGPTNode {
+  id: string;
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[] };
+    create_time?: number | null;
+    metadata?: { model_slug?: string; attachments?: { name?: string; size?: number; mime_type?: string }[] };
+  } | null;
+}
+
+function chatGPTText(node: ChatGPTNode): string {
+  const parts = node.message?.content?.parts || [];
+  return parts.filter((p): p is string => typeof p === 'string').join('\n').trim();
+}
+
+function parseChatGPTConversation(conversation: any, index: number): ExportedChat {
+  const mapping: Record<string, ChatGPTNode> = conversation.mapping || {};
+  const isKept = (node?: ChatGPTNode) => {
+    const role = node?.message?.author?.role;
+    return (role === 'user' || role === 'assistant') && chatGPTText(node!).length > 0;
+  };
+
+  // System/tool nodes are dropped, so re-parent onto the nearest kept ancestor
+  const keptAncestor = (id: string | null | undefined): string | null => {
+    const seen = new Set<string>();
+    while (id && mapping[id] && !seen.has(id)) {
+      seen.add(id);
+      if (isKept(mapping[id])) return safeId(id);
+      id = mapping[id].parent;
+    }
+    return null;
+  };
+
+  const baseTime = toMillis(conversation.create_time) || Date.now();
+  const messages: Message[] = Object.entries(mapping)
+    .filter(([, node]) => isKept(node))
+    .map(([id, node], i) => {
+      const meta = node.message?.metadata;
+      const attachments: Attachment[] = (meta?.attachments || []).map(a => ({
+        name: a.name || 'attachment',
+        url: '',
+        mimeType: a.mime_type || 'application/octet-stream',
+        size: a.size || 0,
+      }));
+
+      return {
+        id: safeId(id),
+        text: chatGPTText(node),
+        sender: node.message?.author?.role === 'user' ? 'user' as const : 'ai' as const,
+        parentId: keptAncestor(node.parent),
+        timestamp: toMillis(node.message?.create_time) || baseTime + i,
+        ...(meta?.model_slug && { model: meta.model_slug, provider: 'chatgpt-import' }),
+        ...(attachments.length > 0 && { attachments }),
+      };
+    })
+    .sort((a, b) => a.timestamp! - b.timestamp!);
+
+  return buildChat(
+    `chatgpt-${index}`,
+    conversation.title,
+    baseTime,
+    messages,
+    keptAncestor(conversation.current_node)
+  );
+}
+
+// --- Claude: conversations.json ---
+// [{ uuid, name, created_at, chat_messages: [{ uuid, sender, text, content, created_at, parent_message_uuid? }] }]
+
+function claudeText(message: any): string {
+  if (typeof message.text === 'string' && message.text.trim()) return message.text.trim();
+  return (message.content || [])
+    .filter((c: any) => c?.type === 'text' && typeof c.text === 'string')
+    .map((c: any) => c.text)
+    .join('\n')
+    .trim();
+}
+
+function parseClaudeConversation(conversation: any, index: number): ExportedChat {
+  const raw: any[] = (conversation.chat_messages || []).filter((m: any) => claudeText(m) || m.attachments?.length);
+  const ids = new Set(raw.map(m => safeId(String(m.uuid))));
+  const baseTime = toMillis(conversation.created_at) || Date.now();
+  let previousId: string | null = null;
+
+  const messages: Message[] = raw.map((m, i) => {
+    const id = safeId(String(m.uuid));
+    const declaredParent = m.parent_message_uuid ? safeId(String(m.parent_message_uuid)) : undefined;
+    const files: any[] = [...(m.attachments || []), ...(m.files || [])];
+    const attachments: Attachment[] = files.map(f => ({
+      name: f.file_name || 'attachment',
+      url: '',
+      mimeType: f.file_type || 'application/octet-stream',
+      size: f.file_size || 0,
+    }));
+
+    const message: Message = {
+      id,
+      text: claudeText(m),
+      sender: m.sender === 'human' ? 'user' : 'ai',
+      // Older exports are linear; newer ones carry the tree
+      parentId: declaredParent && ids.has(declaredParent) ? declaredParent : previousId,
+      timestamp: toMillis(m.created_at) || baseTime + i,
+      ...(attachments.length > 0 && { attachments }),
+    };
+    previousId = id;
+    return message;
+  });
+
+  return buildChat(
+    `claude-${index}`,
+    conversation.name,
+    baseTime,
+    messages,
+    messages[messages.length - 1]?.id || null
+  );
+}
+
+// --- AuraIQ: our own JSON export ---
+
+/**
+ * Rebuild an archived chat from the fields we write, so a crafted file can't
+ * set server-managed ones (a streaming status, a project, a summary) or
+ * write outside the chat with a bad id.
+ */
+function parseAuraIQChat(chat: any, index: number): ExportedChat {
+  if (!chat || typeof chat !== 'object' || !Array.isArray(chat.messages)) {
+    throw new ImportFormatError(`Chat ${index + 1} in the AuraIQ export has no messages.`);
+  }
+
+  const messages: Message[] = chat.messages.map((raw: any) => {
+    if (typeof raw?.id !== 'string' || !SAFE_ID.test(raw.id)) {
+      throw new ImportFormatError(`Chat ${index + 1} in the AuraIQ export has an invalid message id.`);
+    }
+    const data = raw.data && typeof raw.data === 'object' ? raw.data : {};
+    const message = messageFromFirestore(raw.id, {
+      ...data,
+      text: typeof data.text === 'string' ? data.text : '',
+      sender: data.sender === 'user' ? 'user' : 'ai',
+      parentId: typeof data.parentId === 'string' && SAFE_ID.test(data.parentId) ? data.parentId : null,
+    });
+    // Nothing is generating an imported reply
+    delete message.status;
+    return message;
+  });
+
+  const data = chat.data && typeof chat.data === 'object' ? chat.data : {};
+  const leafId = typeof data.activeLeafId === 'string' && messages.some(m => m.id === data.activeLeafId)
+    ? data.activeLeafId
+    : null;
+
+  return buildChat(
+    `auraiq-${index}`,
+    typeof data.title === 'string' ? data.title : '',
+    typeof data.timestamp === 'number' ? data.timestamp : Date.now(),
+    messages,
+    leafId
+  );
+}
+
+/**
+ * Detect the export type and convert it. Accepts an AuraIQ archive, or a
+ * ChatGPT / Claude conversations.json (array or single conversation).
+ */
+export function parseImportFile(json: unknown): { source: ImportSource; chats: ExportedChat[] } {
+  if (json && typeof json === 'object' && (json as any).format === CHAT_EXPORT_FORMAT) {
+    const chats = (json as any).chats;
+    if (!Array.isArray(chats)) throw new ImportFormatError('AuraIQ export has no chats.');
+    return { source: 'auraiq', chats: chats.map(parseAuraIQChat) };
+  }
+
+  const conversations: any[] = Array.isArray(json) ? json : [json];
+  const sample = conversations.find(c => c && typeof c === 'object');
+
+  if (sample?.mapping) {
+    return { source: 'chatgpt', chats: conversations.map(parseChatGPTConversation) };
+  }
+  if (sample?.chat_messages) {
+    return { source: 'claude', chats: conversations.map(parseClaudeConversation) };
+  }
+
+  throw new ImportFormatError('Unrecognized export file. Use an AuraIQ JSON export or a ChatGPT/Claude conversations.json.');
+}
@@ -0,0 +1,58 @@
+// src/lib/export/index.ts - Chat export (Markdown, HTML, JSON) and import
+
+import { ExportFormat, ExportedChat, CHAT_EXPORT_FORMAT, CHAT_EXPORT_VERSION, ChatExportFile } from './types';
+import { chatsToMarkdown } from './markdown';
+import { chatsToHtml } from './html';
+
+export * from './types';
+export { chatsToMarkdown, chatTranscript } from './markdown';
+export { chatsToHtml } from './html';
+export { parseImportFile, ImportFormatError } from './importers';
+export type { ImportSource } from './importers';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  markdown: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  json: 'json',
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === 'string' && value in CONTENT_TYPES;
+}
+
+/** Render chats in the requested format, with a suggested file name */
+export async function renderExport(
+  chats: ExportedChat[],
+  format: ExportFormat
+): Promise<{ body: string; contentType: string; fileName: string }> {
+  let body: string;
+  if (format === 'json') {
+    const file: ChatExportFile = {
+      format: CHAT_EXPORT_FORMAT,
+      version: CHAT_EXPORT_VERSION,
+      exportedAt: Date.now(),
+      chats,
+    };
+    body = JSON.stringify(file, null, 2);
+  } else if (format === 'html') {
+    body = await chatsToHtml(chats);
+  } else {
+    body = chatsToMarkdown(chats);
+  }
+
+  const baseName = chats.length === 1
+    ? String(chats[0].data.title || 'chat').replace(/[^\w\- ]+/g, '').trim().replace(/\s+/g, '-').slice(0, 60) || 'chat'
+    : `auraiq-chats-${new Date().toISOString().slice(0, 10)}`;
+
+  return {
+    body,
+    contentType: CONTENT_TYPES[format],
+    fileName: `${baseName}.${EXTENSIONS[format]}`,
+  };
+}
@@ -0,0 +1,63 @@
+// src/lib/export/markdown.ts - Markdown transcript of a chat's active branch
+
+import { Message } from '../types';
+import { messageFromFirestore } from '../messageSchema';
+import { buildMessageTree, getActivePath } from '../messageTree';
+import { ExportedChat } from './types';
+
+export interface Transcript {
+  title: string;
+  timestamp: number;
+  messages: Message[];
+}
+
+/** The branch the user was looking at, in order */
+export function chatTranscript(chat: ExportedChat): Transcript {
+  const messages = chat.messages
+    .map(m => messageFromFirestore(m.id, m.data))
+    .sort((a, b) => (a.timestamp || 0) - (b.timestamp || 0));
+  const tree = buildMessageTree(messages);
+
+  return {
+    title: (chat.data.title as string) || 'Untitled chat',
+    timestamp: (chat.data.timestamp as number) || messages[0]?.timestamp || Date.now(),
+    messages: getActivePath(tree, chat.data.activeLeafId as string | undefined),
+  };
+}
+
+export const formatExportDate = (timestamp?: number): string =>
+  timestamp ? new Date(timestamp).toISOString().replace('T', ' ').slice(0, 16) + ' UTC' : '';
+
+export const speakerLabel = (message: Message): string =>
+  message.sender === 'user' ? 'You' : `AuraIQ${message.model ? ` (${message.model})` : ''}`;
+
+function transcriptToMarkdown(transcript: Transcript): string {
+  const lines = [
+    `# ${transcript.title}`,
+    '',
+    `_Started ${formatExportDate(transcript.timestamp)}_`,
+    '',
+  ];
+
+  for (const message of transcript.messages) {
+    lines.push(`### ${speakerLabel(message)}`);
+    if (message.timestamp) lines.push(`_${formatExportDate(message.timestamp)}_`);
+    lines.push('', message.text, '');
+
+    if (message.attachments?.length) {
+      lines.push('**Attachments:**');
+      message.attachments.forEach(a => {
+        lines.push(a.url ? `- [${a.name}](${a.url})` : `- ${a.name}`);
+      });
+      lines.push('');
+    }
+  }
+
+  return lines.join('\n');
+}
+
+export function chatsToMarkdown(chats: ExportedChat[]): string {
+  return chats
+    .map(chat => transcriptToMarkdown(chatTranscript(chat)))
+    .join('\n\n---\n\n');
+}
@@ -0,0 +1,93 @@
+// src/lib/export/store.ts - Read chats for export and write imported chats (firebase-admin)
+
+import { adminDb } from '../firebase-admin';
+import { getMessageBlobUrls, messageFromFirestore } from '../messageSchema';
+import { addOwnedBlobRefs, chatBlobRef } from '../blobs';
+import { buildSearchEntry, searchEntryId } from '../search';
+import { ExportedChat } from './types';
+
+const BATCH_SIZE = 400;
+
+const chatsRef = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('chats');
+
+/** One chat, or every chat when chatId is omitted (newest first) */
+export async function loadChatsForExport(userId: string, chatId?: string): Promise<ExportedChat[]> {
+  const chatDocs = chatId
+    ? [await chatsRef(userId).doc(chatId).get()].filter((d: any) => d.exists)
+    : (await chatsRef(userId).orderBy('timestamp', 'desc').get()).docs;
+
+  return Promise.all(chatDocs.map(async (chatDoc: any) => {
+    const messagesSnapshot = await chatDoc.ref.collection('messages').orderBy('timestamp', 'asc').get();
+    return {
+      id: chatDoc.id,
+      data: chatDoc.data(),
+      messages: messagesSnapshot.docs.map((msgDoc: any) => ({ id: msgDoc.id, data: msgDoc.data() })),
+    };
+  }));
+}
+
+/**
+ * Recreate chats under users/{uid}/chats with fresh chat ids. Message ids are
+ * kept so parentId/activeLeafId links survive, messages are added to the
+ * search index, and the new chats take refs on the blobs they attach.
+ * `chats` must come from parseImportFile, which rebuilds them from known
+ * fields and checks the ids.
+ */
+export async function importChats(userId: string, chats: ExportedChat[]): Promise<string[]> {
+  const createdIds: string[] = [];
+  const blobUrls = new Map<string, Set<string>>();
+  let batch = adminDb.batch();
+  let pending = 0;
+
+  const queue = async (write: (b: any) => void) => {
+    write(batch);
+    pending++;
+    if (pending >= BATCH_SIZE) {
+      await batch.commit();
+      batch = adminDb.batch();
+      pending = 0;
+    }
+  };
+
+  for (const chat of chats) {
+    if (!chat?.messages?.length) continue;
+
+    const chatRef = chatsRef(userId).doc();
+    createdIds.push(chatRef.id);
+    const urls = new Set<string>();
+    blobUrls.set(chatRef.id, urls);
+
+    for (const message of chat.messages) {
+      const messageRef = chatRef.collection('messages').doc(message.id);
+      await queue(b => b.set(messageRef, message.data));
+      getMessageBlobUrls(message.data).forEach(url => urls.add(url));
+
+      const parsed = messageFromFirestore(message.id, message.data);
+      if (parsed.text.trim()) {
+        const indexRef = adminDb.collection('users').doc(userId)
+          .collection('searchIndex').doc(searchEntryId(chatRef.id, message.id));
+        await queue(b => b.set(indexRef, buildSearchEntry(chatRef.id, parsed)));
+      }
+    }
+
+    // Chat doc last, so a half-written import never shows up as a chat
+    await queue(b => b.set(chatRef, {
+      ...chat.data,
+      title: (chat.data.title as string) || 'Imported chat',
+      timestamp: (chat.data.timestamp as number) || Date.now(),
+      messageCount: chat.messages.length,
+    }));
+  }
+
+  if (pending > 0) {
+    await batch.commit();
+  }
+
+  for (const [chatId, urls] of blobUrls) {
+    // Imported files can name any URL; only the importer's own blobs get refs
+    if (urls.size > 0) await addOwnedBlobRefs(userId, [...urls], chatBlobRef(userId, chatId));
+  }
+
+  return createdIds;
+}
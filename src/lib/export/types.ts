@@ -0,0 +1,27 @@
+// src/lib/export/types.ts - Lossless chat archive format
+//
+// Chats and messages are kept as their raw Firestore fields, so an export
+// re-imports with branches, metadata and usage intact.
+
+export const CHAT_EXPORT_FORMAT = 'auraiq-chats';
+export const CHAT_EXPORT_VERSION = 1;
+
+export type ExportFormat = 'markdown' | 'html' | 'json';
+
+export interface ExportedMessage {
+  id: string;
+  data: Record<string, unknown>;
+}
+
+export interface ExportedChat {
+  id: string;
+  data: Record<string, unknown>;
+  messages: ExportedMessage[];
+}
+
+export interface ChatExportFile {
+  format: typeof CHAT_EXPORT_FORMAT;
+  version: number;
+  exportedAt: number;
+  chats: ExportedChat[];
+}
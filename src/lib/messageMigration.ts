@@ -0,0 +1,120 @@
+// src/lib/messageMigration.ts - Resumable upgrade of legacy message documents (firebase-admin)
+//
+// Pages through every chat (a collection group query in path order) and
+// migrates its messages with migrateMessageData. A chat is the unit of work,
+// since legacy chats are linked into a chain in timestamp order. Progress is
+// kept in migrations/messages under a lease, like the blob garbage
+// collector's, so each call carries on where the last stopped.
+
+import { randomUUID } from 'crypto';
+import { admin, adminDb } from './firebase-admin';
+import { migrateMessageData } from './messageSchema';
+import { acquireLease, saveUnderLease } from './blobs/lease';
+
+export interface MessageMigrationResult {
+  /** Full path of the last chat migrated */
+  cursor: string | null;
+  chats: number;
+  scannedMessages: number;
+  migratedMessages: number;
+  completedAt: string | null;
+}
+
+export interface MessageMigrationOptions {
+  /** Chats per page */
+  pageSize?: number;
+  /** Stop starting new pages after this long */
+  budgetMs?: number;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const DEFAULT_BUDGET_MS = 45_000;
+const BATCH_SIZE = 400;
+
+const stateRef = () => adminDb.collection('migrations').doc('messages');
+
+async function migrateChat(chatRef: any, state: MessageMigrationResult): Promise<void> {
+  // Legacy chats are linear, so each message's parent is the one before it
+  const messagesSnapshot = await chatRef.collection('messages').orderBy('timestamp', 'asc').get();
+
+  let batch = adminDb.batch();
+  let pending = 0;
+  let previousId: string | null = null;
+
+  for (const msgDoc of messagesSnapshot.docs) {
+    state.scannedMessages++;
+    const update = migrateMessageData(msgDoc.data(), previousId);
+    previousId = msgDoc.id;
+    if (!update) continue;
+
+    batch.update(msgDoc.ref, update);
+    pending++;
+    state.migratedMessages++;
+
+    if (pending >= BATCH_SIZE) {
+      await batch.commit();
+      batch = adminDb.batch();
+      pending = 0;
+    }
+  }
+
+  if (pending > 0) {
+    await batch.commit();
+  }
+}
+
+/**
+ * Migrate one page of chats. Returns the cursor for the next page, or null
+ * when every chat is done.
+ */
+async function migratePage(state: MessageMigrationResult, pageSize: number): Promise<string | null> {
+  let query = adminDb.collectionGroup('chats')
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(pageSize);
+  if (state.cursor) query = query.startAfter(state.cursor);
+  const page = await query.get();
+
+  for (const chatDoc of page.docs) {
+    // users/{uid}/chats/{chatId}; other collections named chats are skipped
+    if (chatDoc.ref.parent.parent?.parent.id !== 'users') continue;
+    state.chats++;
+    await migrateChat(chatDoc.ref, state);
+  }
+
+  return page.size < pageSize ? null : page.docs[page.docs.length - 1].ref.path;
+}
+
+/**
+ * Carry the migration on from its saved cursor and return its progress.
+ * Throws LeaseHeldError while another call is running.
+ */
+export async function migrateMessages(options: MessageMigrationOptions = {}): Promise<MessageMigrationResult> {
+  const pageSize = options.pageSize ?? DEFAULT_PAGE_SIZE;
+  const budgetMs = options.budgetMs ?? DEFAULT_BUDGET_MS;
+  const holder = randomUUID();
+  const ref = stateRef();
+
+  let state = await acquireLease<MessageMigrationResult>(ref, holder, stored => stored ?? {
+    cursor: null,
+    chats: 0,
+    scannedMessages: 0,
+    migratedMessages: 0,
+    completedAt: null,
+  });
+
+  const startedAt = Date.now();
+  while (!state.completedAt && Date.now() - startedAt < budgetMs) {
+    const next = await migratePage(state, pageSize);
+    state = next
+      ? { ...state, cursor: next }
+      : { ...state, cursor: null, completedAt: new Date().toISOString() };
+
+    if (!(await saveUnderLease(ref, holder, state))) {
+      console.warn('[Message Migration] Lost the lease; stopping');
+      return state;
+    }
+  }
+
+  await saveUnderLease(ref, holder, state, { release: true });
+  return state;
+}
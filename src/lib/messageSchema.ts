@@ -0,0 +1,131 @@
+// src/lib/messageSchema.ts - Firestore <-> Message conversion and legacy migration
+//
+// Shared by the client (firebase) and server (firebase-admin), so it only
+// deals in plain objects.
+
+import { Attachment, Message } from './types';
+
+/** Bumped when the stored message shape changes */
+export const MESSAGE_SCHEMA_VERSION = 2;
+
+const LEGACY_ATTACHMENT_REGEX = /\n?\[ATTACHMENTS:(.*?)\]/;
+const BLOB_URL_REGEX = /https:\/\/[\w.-]+\.public\.blob\.vercel-storage\.com\/[^\s\])]+/g;
+
+/**
+ * Split the legacy "[ATTACHMENTS:a|||b]" suffix out of a message's text.
+ * Legacy attachments only recorded file names.
+ */
+export function parseLegacyAttachments(text: string): { text: string; attachments: Attachment[] } {
+  const match = text.match(LEGACY_ATTACHMENT_REGEX);
+  if (!match || !match[1]) {
+    return { text, attachments: [] };
+  }
+  return {
+    text: text.replace(LEGACY_ATTACHMENT_REGEX, '').trim(),
+    attachments: match[1].split('|||').map(name => ({
+      name,
+      url: '',
+      mimeType: 'application/octet-stream',
+      size: 0,
+    })),
+  };
+}
+
+/**
+ * Build a Message from a Firestore document, upgrading legacy documents on
+ * the fly.
+ */
+export function messageFromFirestore(id: string, data: Record<string, any>): Message {
+  let text: string = data.text || '';
+  let attachments: Attachment[] | undefined = data.attachments;
+
+  if (!data.schemaVersion || data.schemaVersion < MESSAGE_SCHEMA_VERSION) {
+    const legacy = parseLegacyAttachments(text);
+    text = legacy.text;
+    if (!attachments && legacy.attachments.length > 0) {
+      attachments = legacy.attachments;
+    }
+  }
+
+  const message: Message = {
+    id,
+    text,
+    sender: data.sender || 'ai',
+  };
+
+  if (attachments && attachments.length > 0) message.attachments = attachments;
+  if (data.model) message.model = data.model;
+  if (data.provider) message.provider = data.provider;
+  if (data.lane) message.lane = data.lane;
+  if (data.routing) message.routing = data.routing;
+  if (data.usage) message.usage = data.usage;
+  if (typeof data.latencyMs === 'number') message.latencyMs = data.latencyMs;
+  if (data.finishReason) message.finishReason = data.finishReason;
+  if (data.status) message.status = data.status;
+  if (data.reasoning) message.reasoning = data.reasoning;
+  if (Array.isArray(data.citations) && data.citations.length > 0) message.citations = data.citations;
+  if (Array.isArray(data.toolCalls) && data.toolCalls.length > 0) message.toolCalls = data.toolCalls;
+  if (Array.isArray(data.codeRuns) && data.codeRuns.length > 0) message.codeRuns = data.codeRuns;
+  if (data.parentId !== undefined) message.parentId = data.parentId;
+  if (typeof data.timestamp === 'number') message.timestamp = data.timestamp;
+
+  return message;
+}
+
+function stripUndefined(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(stripUndefined);
+  if (value && typeof value === 'object') {
+    const result: Record<string, unknown> = {};
+    Object.entries(value).forEach(([key, field]) => {
+      if (field !== undefined) result[key] = stripUndefined(field);
+    });
+    return result;
+  }
+  return value;
+}
+
+/**
+ * Firestore payload for a message. Drops undefined fields (at any depth),
+ * which Firestore rejects.
+ */
+export function messageToFirestore(message: Message): Record<string, unknown> {
+  const { id: _id, ...fields } = message;
+  return {
+    ...(stripUndefined(fields) as Record<string, unknown>),
+    schemaVersion: MESSAGE_SCHEMA_VERSION,
+  };
+}
+
+/**
+ * Blob URLs a stored message references: typed attachments, plus any URL in
+ * the text for messages written before attachments were structured.
+ */
+export function getMessageBlobUrls(data: Record<string, any>): string[] {
+  const urls = new Set<string>();
+  (data.attachments as Attachment[] | undefined)?.forEach(a => {
+    if (a.url) urls.add(a.url);
+  });
+  (data.text as string | undefined)?.match(BLOB_URL_REGEX)?.forEach(url => urls.add(url));
+  return Array.from(urls);
+}
+
+/**
+ * Fields to write when migrating a legacy message document, or null if it is
+ * already current. `previousId` links legacy linear chats into a chain.
+ */
+export function migrateMessageData(
+  data: Record<string, any>,
+  previousId: string | null
+): Record<string, unknown> | null {
+  if (data.schemaVersion >= MESSAGE_SCHEMA_VERSION) return null;
+
+  const { text, attachments } = parseLegacyAttachments(data.text || '');
+  const update: Record<string, unknown> = {
+    text,
+    schemaVersion: MESSAGE_SCHEMA_VERSION,
+  };
+  if (!data.attachments && attachments.length > 0) update.attachments = attachments;
+  if (data.parentId === undefined) update.parentId = previousId;
+
+  return update;
+}
@@ -4,7 +4,7 @@ import {
   Firestore, 
   collection, 
   doc, 
-  addDoc, 
+  setDoc, 
   query, 
   orderBy, 
   limit,
@@ -14,13 +14,18 @@ import {
   onSnapshot,
   Unsubscribe,
   startAfter,
+  where,
   DocumentSnapshot
 } from 'firebase/firestore';
-import { Message } from './types';
+import { CodeRun, Message } from './types';
+import { messageFromFirestore, messageToFirestore } from './messageSchema';
+import { buildSearchEntry, searchEntryId } from './search';
 
 /**
  * Add a message to a chat using subcollections
- * This allows unlimited messages without hitting Firestore document size limits
+ * This allows unlimited messages without hitting Firestore document size limits.
+ * The message id is used as the document id so parentId links resolve, and
+ * the new message becomes the chat's active branch leaf.
  */
 export async function addMessage(
   db: Firestore,
@@ -29,19 +34,52 @@ export async function addMessage(
   message: Message
 ): Promise<void> {
   const messagesRef = collection(db, 'users', userId, 'chats', chatId, 'messages');
-  await addDoc(messagesRef, {
-    ...message,
-    timestamp: Date.now(),
-  });
+  const stored: Message = { ...message, timestamp: Date.now() };
+  await setDoc(doc(messagesRef, message.id), messageToFirestore(stored));
+
+  // Keep the search index in step with the messages
+  if (stored.text.trim()) {
+    await setDoc(
+      doc(db, 'users', userId, 'searchIndex', searchEntryId(chatId, message.id)),
+      buildSearchEntry(chatId, stored)
+    );
+  }
 
   // Update chat metadata
   const chatRef = doc(db, 'users', userId, 'chats', chatId);
   await updateDoc(chatRef, {
     lastMessageAt: Date.now(),
     messageCount: (await getDocs(query(messagesRef))).size,
+    activeLeafId: message.id,
   });
 }
 
+/**
+ * Switch the branch a chat displays
+ */
+export async function setActiveLeaf(
+  db: Firestore,
+  userId: string,
+  chatId: string,
+  leafId: string
+): Promise<void> {
+  await updateDoc(doc(db, 'users', userId, 'chats', chatId), { activeLeafId: leafId });
+}
+
+/**
+ * Store the sandbox runs of a reply's code blocks, so the model sees their
+ * output with the reply on the next turn
+ */
+export async function saveCodeRuns(
+  db: Firestore,
+  userId: string,
+  chatId: string,
+  messageId: string,
+  codeRuns: CodeRun[]
+): Promise<void> {
+  await updateDoc(doc(db, 'users', userId, 'chats', chatId, 'messages', messageId), { codeRuns });
+}
+
 /**
  * Subscribe to messages in real-time with pagination support
  */
@@ -56,11 +94,7 @@ export function subscribeToMessages(
   const q = query(messagesRef, orderBy('timestamp', 'asc'), limit(messageLimit));
 
   return onSnapshot(q, (snapshot) => {
-    const messages: Message[] = snapshot.docs.map(doc => ({
-      id: doc.id,
-      text: doc.data().text,
-      sender: doc.data().sender,
-    }));
+    const messages: Message[] = snapshot.docs.map(doc => messageFromFirestore(doc.id, doc.data()));
     onMessagesUpdate(messages);
   });
 }
@@ -84,11 +118,9 @@ export async function loadOlderMessages(
   );
 
   const snapshot = await getDocs(q);
-  return snapshot.docs.map(doc => ({
-    id: doc.id,
-    text: doc.data().text,
-    sender: doc.data().sender,
-  })).reverse(); // Reverse to maintain chronological order
+  return snapshot.docs
+    .map(doc => messageFromFirestore(doc.id, doc.data()))
+    .reverse(); // Reverse to maintain chronological order
 }
 
 /**
@@ -104,6 +136,11 @@ export async function deleteAllMessages(
   
   const deletePromises = snapshot.docs.map(doc => deleteDoc(doc.ref));
   await Promise.all(deletePromises);
+
+  const indexSnapshot = await getDocs(
+    query(collection(db, 'users', userId, 'searchIndex'), where('chatId', '==', chatId))
+  );
+  await Promise.all(indexSnapshot.docs.map(doc => deleteDoc(doc.ref)));
 }
 
 /**
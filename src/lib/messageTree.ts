@@ -0,0 +1,91 @@
+// src/lib/messageTree.ts - Conversation tree helpers for branching chats
+//
+// Messages form a tree through parentId: editing a prompt or regenerating a
+// reply adds a sibling instead of overwriting. The chat shows one root-to-leaf
+// path at a time, picked by the chat's activeLeafId.
+
+import { Message } from './types';
+
+export interface MessageTree {
+  byId: Map<string, Message>;
+  /** Children per parent id (null = roots), oldest first */
+  children: Map<string | null, Message[]>;
+  /** Most recently added message */
+  latest: Message | null;
+}
+
+export interface BranchInfo {
+  /** 0-based position among siblings */
+  index: number;
+  count: number;
+  siblingIds: string[];
+}
+
+/**
+ * Build the tree from messages in timestamp order. Messages written before
+ * branching existed have no parentId and are chained to the message before
+ * them, matching the linear chat they came from.
+ */
+export function buildMessageTree(messages: Message[]): MessageTree {
+  const byId = new Map<string, Message>();
+  const children = new Map<string | null, Message[]>();
+  let previousId: string | null = null;
+
+  for (const message of messages) {
+    const parentId: string | null = message.parentId !== undefined ? message.parentId : previousId;
+    const node: Message = { ...message, parentId };
+
+    byId.set(node.id, node);
+    const siblings = children.get(parentId) || [];
+    siblings.push(node);
+    children.set(parentId, siblings);
+    previousId = node.id;
+  }
+
+  return {
+    byId,
+    children,
+    latest: messages.length > 0 ? byId.get(messages[messages.length - 1].id)! : null,
+  };
+}
+
+/** Follow the newest child at every level down to a leaf */
+export function getLatestLeafId(tree: MessageTree, messageId: string): string {
+  let currentId = messageId;
+  let kids = tree.children.get(currentId);
+  while (kids && kids.length > 0) {
+    currentId = kids[kids.length - 1].id;
+    kids = tree.children.get(currentId);
+  }
+  return currentId;
+}
+
+/**
+ * Root-to-leaf path ending at leafId. Falls back to the newest message when
+ * the leaf is unknown (e.g. legacy chats with no activeLeafId).
+ */
+export function getActivePath(tree: MessageTree, leafId: string | null | undefined): Message[] {
+  let current = (leafId && tree.byId.get(leafId)) || tree.latest;
+  const path: Message[] = [];
+  const seen = new Set<string>();
+
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    path.push(current);
+    current = current.parentId ? tree.byId.get(current.parentId) || null : null;
+  }
+
+  return path.reverse();
+}
+
+export function getBranchInfo(tree: MessageTree, messageId: string): BranchInfo {
+  const message = tree.byId.get(messageId);
+  const siblings = message ? tree.children.get(message.parentId ?? null) || [message] : [];
+  const siblingIds = siblings.map(m => m.id);
+
+  return {
+    index: Math.max(0, siblingIds.indexOf(messageId)),
+    count: siblingIds.length,
+    siblingIds,
+  };
+}
@@ -0,0 +1,170 @@
+// src/lib/models/catalog.ts - Selectable models, from the config/models document
+//
+// The document holds `{ models: ModelCatalogEntry[] }` and can be edited in
+// the Firebase console; the defaults below are used until it exists. Each
+// entry is resolved against the provider registry, so what the selector
+// shows is what the lane's chain will actually call, and entries whose lane
+// has no configured provider are left out.
+
+import { adminDb } from '../firebase-admin';
+import { getLaneChain, usableHops, Lane, LANES } from '../providers';
+import { modelTokenSpec } from '../tokens';
+import { AvailableModel, ModelCatalogEntry } from './types';
+
+/** How long a loaded catalog is reused before the document is read again */
+const CATALOG_TTL_MS = 60_000;
+
+export const DEFAULT_MODEL_CATALOG: ModelCatalogEntry[] = [
+  {
+    id: 'auto',
+    name: 'Auto Select',
+    description: 'Picks a lane for each message from its content and attachments',
+    speed: 'fast',
+    cost: 'free',
+    tags: ['Smart routing', 'Vision when needed'],
+    icon: 'sparkles',
+    color: 'bg-gradient-to-r from-purple-500 to-pink-500',
+  },
+  {
+    id: 'gemini-flash',
+    name: 'Daily Model',
+    description: 'Quick answers for everyday questions',
+    lane: 'daily',
+    speed: 'fast',
+    cost: 'free',
+    tags: ['Instant responses', 'General knowledge'],
+    icon: 'zap',
+    color: 'bg-gradient-to-r from-yellow-500 to-orange-500',
+  },
+  {
+    id: 'gemini-pro',
+    name: 'Pro Coder',
+    description: 'Coding, debugging and step-by-step reasoning',
+    lane: 'coding',
+    speed: 'medium',
+    cost: 'free',
+    tags: ['Best for coding', 'Runnable code', 'Tools'],
+    icon: 'settings',
+    color: 'bg-gradient-to-r from-green-500 to-emerald-500',
+  },
+  {
+    id: 'analysis',
+    name: 'Analyst',
+    description: 'Images, screenshots and long documents',
+    lane: 'analysis',
+    speed: 'medium',
+    cost: 'low',
+    tags: ['Vision', 'Long context'],
+    icon: 'eye',
+    color: 'bg-gradient-to-r from-sky-500 to-indigo-500',
+  },
+  {
+    id: 'iq1-base',
+    name: 'IQ1',
+    description: 'Your custom model',
+    lane: 'iq1',
+    speed: 'medium',
+    cost: 'low',
+    tags: ['Custom fine-tune'],
+    icon: 'brain',
+    color: 'bg-gradient-to-r from-blue-500 to-cyan-500',
+  },
+];
+
+/** What serves a lane: its primary configured hop */
+type LaneServing = Pick<AvailableModel, 'provider' | 'providerLabel' | 'model' | 'contextWindow' | 'vision'>;
+
+let cached: { entries: ModelCatalogEntry[]; loadedAt: number } | null = null;
+
+/** Drop entries missing the fields the selector needs */
+function isValidEntry(entry: any): entry is ModelCatalogEntry {
+  return !!entry && typeof entry.id === 'string' && !!entry.id && typeof entry.name === 'string';
+}
+
+async function loadCatalogEntries(): Promise<ModelCatalogEntry[]> {
+  if (cached && Date.now() - cached.loadedAt < CATALOG_TTL_MS) return cached.entries;
+
+  let entries = DEFAULT_MODEL_CATALOG;
+  try {
+    const snapshot = await adminDb.collection('config').doc('models').get();
+    const models = snapshot.exists ? snapshot.data()?.models : undefined;
+    if (Array.isArray(models)) {
+      entries = models.filter(isValidEntry).map((entry: ModelCatalogEntry) => ({
+        ...entry,
+        description: entry.description || '',
+        speed: entry.speed || 'medium',
+        cost: entry.cost || 'free',
+        tags: entry.tags || [],
+        icon: entry.icon || 'sparkles',
+        color: entry.color || 'bg-gray-600',
+      }));
+    }
+  } catch (error) {
+    // Serve the defaults rather than an empty selector
+    console.error('⚠️ Failed to load the model catalog, using defaults:', error);
+  }
+
+  cached = { entries, loadedAt: Date.now() };
+  return entries;
+}
+
+/**
+ * What serves an entry right now, or null when nothing configured can.
+ * Automatic routing is available whenever any lane is.
+ */
+function resolveEntry(entry: ModelCatalogEntry, lanes: Map<Lane, LaneServing | null>): AvailableModel | null {
+  const { enabled, ...shown } = entry;
+  if (enabled === false) return null;
+
+  if (!entry.lane) {
+    const served = [...lanes.values()].filter((lane): lane is LaneServing => !!lane);
+    if (served.length === 0) return null;
+    return {
+      ...shown,
+      provider: 'auto',
+      providerLabel: 'Routed per message',
+      model: '',
+      contextWindow: Math.max(...served.map(lane => lane.contextWindow)),
+      vision: served.some(lane => lane.vision),
+    };
+  }
+
+  const lane = lanes.get(entry.lane);
+  return lane ? { ...shown, ...lane } : null;
+}
+
+/** The primary configured hop of a lane; vision counts any hop that has it */
+function resolveLane(lane: Lane): LaneServing | null {
+  const chain = getLaneChain(lane);
+  const primary = usableHops(chain, { vision: false, inputTokens: 0 })[0];
+  if (!primary) return null;
+
+  return {
+    provider: primary.provider.id,
+    providerLabel: primary.provider.label,
+    model: primary.hop.model,
+    contextWindow: modelTokenSpec(primary.hop.model, primary.provider).contextWindow,
+    vision: usableHops(chain, { vision: true, inputTokens: 0 }).length > 0,
+  };
+}
+
+/**
+ * Catalog entries that can be selected, in document order
+ */
+export async function getAvailableModels(): Promise<AvailableModel[]> {
+  const entries = await loadCatalogEntries();
+  const lanes = new Map(LANES.map(lane => [lane, resolveLane(lane)]));
+
+  return entries
+    .map(entry => resolveEntry(entry, lanes))
+    .filter((model): model is AvailableModel => !!model);
+}
+
+/**
+ * A selectable model by id; null for unknown, disabled or unavailable ids
+ */
+export async function findAvailableModel(id: string | null | undefined): Promise<AvailableModel | null> {
+  if (!id) return null;
+  const models = await getAvailableModels();
+  return models.find(model => model.id === id) ?? null;
+}
@@ -0,0 +1,4 @@
+// src/lib/models/index.ts - Admin-configurable model catalog
+
+export { getAvailableModels, findAvailableModel, DEFAULT_MODEL_CATALOG } from './catalog';
+export type { AvailableModel, ModelCatalogEntry, ModelCost, ModelIcon, ModelSpeed } from './types';
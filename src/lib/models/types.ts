@@ -0,0 +1,43 @@
+// src/lib/models/types.ts - Model catalog shared by the server and the model selector
+
+import type { Lane } from '../providers/lanes';
+
+export type ModelSpeed = 'fast' | 'medium' | 'slow';
+export type ModelCost = 'free' | 'low' | 'medium' | 'high';
+/** Icon names the selector knows how to draw */
+export type ModelIcon = 'sparkles' | 'brain' | 'zap' | 'settings' | 'eye';
+
+/**
+ * A selectable model as configured in the catalog document (config/models)
+ */
+export interface ModelCatalogEntry {
+  /** Sent to /api/chat as `model` */
+  id: string;
+  name: string;
+  description: string;
+  /** Lane whose fallback chain serves it; omitted for per-message routing */
+  lane?: Lane;
+  speed: ModelSpeed;
+  cost: ModelCost;
+  /** Short feature tags shown under the description */
+  tags: string[];
+  icon: ModelIcon;
+  /** Tailwind background classes for the icon badge */
+  color: string;
+  /** Set to false to hide the entry without deleting it */
+  enabled?: boolean;
+}
+
+/**
+ * A catalog entry as served by /api/models, with what actually serves it
+ */
+export interface AvailableModel extends Omit<ModelCatalogEntry, 'enabled'> {
+  /** Provider id of the first configured hop, or "auto" */
+  provider: string;
+  providerLabel: string;
+  /** Upstream model id; empty for automatic routing */
+  model: string;
+  contextWindow: number;
+  /** Whether images can be sent */
+  vision: boolean;
+}
@@ -0,0 +1,50 @@
+// src/lib/personaSchema.ts - Firestore <-> Persona conversion
+//
+// Shared by the client (which edits personas) and the server (which applies
+// them to the prompt), so it only deals in plain objects.
+
+import { Persona } from './types';
+
+export const MAX_PERSONA_NAME_CHARS = 60;
+export const MAX_PERSONA_INSTRUCTIONS_CHARS = 8000;
+export const MIN_PERSONA_TEMPERATURE = 0;
+export const MAX_PERSONA_TEMPERATURE = 2;
+
+const clampTemperature = (value: number) =>
+  Math.min(MAX_PERSONA_TEMPERATURE, Math.max(MIN_PERSONA_TEMPERATURE, value));
+
+/**
+ * Build a Persona from a Firestore document, dropping malformed fields
+ */
+export function personaFromFirestore(id: string, data: Record<string, any>): Persona {
+  const persona: Persona = {
+    id,
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.slice(0, MAX_PERSONA_NAME_CHARS) : 'Untitled persona',
+    instructions: typeof data.instructions === 'string' ? data.instructions.slice(0, MAX_PERSONA_INSTRUCTIONS_CHARS) : '',
+    contextFileIds: Array.isArray(data.contextFileIds) ? data.contextFileIds.filter((id: unknown) => typeof id === 'string') : [],
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : 0,
+    updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : 0,
+  };
+
+  if (typeof data.model === 'string' && data.model) persona.model = data.model;
+  if (typeof data.temperature === 'number' && Number.isFinite(data.temperature)) {
+    persona.temperature = clampTemperature(data.temperature);
+  }
+
+  return persona;
+}
+
+/**
+ * Fields to store for a persona; optional settings left unset are removed
+ */
+export function personaToFirestore(persona: Omit<Persona, 'id'>): Record<string, unknown> {
+  return {
+    name: persona.name.trim().slice(0, MAX_PERSONA_NAME_CHARS) || 'Untitled persona',
+    instructions: persona.instructions.slice(0, MAX_PERSONA_INSTRUCTIONS_CHARS),
+    model: persona.model || null,
+    temperature: typeof persona.temperature === 'number' ? clampTemperature(persona.temperature) : null,
+    contextFileIds: persona.contextFileIds,
+    createdAt: persona.createdAt,
+    updatedAt: persona.updatedAt,
+  };
+}
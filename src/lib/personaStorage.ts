@@ -0,0 +1,63 @@
+// src/lib/personaStorage.ts - Persona profiles in users/{uid}/personas
+
+import {
+  Firestore,
+  collection,
+  doc,
+  setDoc,
+  updateDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { Persona } from './types';
+import { personaToFirestore } from './personaSchema';
+
+export type PersonaDraft = Omit<Persona, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Create a persona, or overwrite `existing`. Returns its id.
+ */
+export async function savePersona(
+  db: Firestore,
+  userId: string,
+  draft: PersonaDraft,
+  existing?: Pick<Persona, 'id' | 'createdAt'>
+): Promise<string> {
+  const personasRef = collection(db, 'users', userId, 'personas');
+  const ref = existing ? doc(personasRef, existing.id) : doc(personasRef);
+  const now = Date.now();
+
+  await setDoc(ref, personaToFirestore({
+    ...draft,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  }));
+  return ref.id;
+}
+
+/**
+ * Delete a persona; chats that used it go back to no persona
+ */
+export async function deletePersona(db: Firestore, userId: string, personaId: string): Promise<void> {
+  const chatsRef = collection(db, 'users', userId, 'chats');
+  const usingChats = await getDocs(query(chatsRef, where('personaId', '==', personaId)));
+
+  const batch = writeBatch(db);
+  usingChats.docs.forEach(chatDoc => batch.update(chatDoc.ref, { personaId: null }));
+  batch.delete(doc(db, 'users', userId, 'personas', personaId));
+  await batch.commit();
+}
+
+/**
+ * Remember which persona a chat uses (null for none)
+ */
+export async function setChatPersona(
+  db: Firestore,
+  userId: string,
+  chatId: string,
+  personaId: string | null
+): Promise<void> {
+  await updateDoc(doc(db, 'users', userId, 'chats', chatId), { personaId });
+}
@@ -0,0 +1,34 @@
+// src/lib/projectSchema.ts - Firestore <-> Project conversion
+//
+// Shared by the client (which edits projects) and the server (which adds a
+// project's instructions to the prompt).
+
+import { Project } from './types';
+
+export const MAX_PROJECT_NAME_CHARS = 60;
+export const MAX_PROJECT_INSTRUCTIONS_CHARS = 8000;
+
+/**
+ * Build a Project from a Firestore document, dropping malformed fields
+ */
+export function projectFromFirestore(id: string, data: Record<string, any>): Project {
+  return {
+    id,
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.slice(0, MAX_PROJECT_NAME_CHARS) : 'Untitled project',
+    instructions: typeof data.instructions === 'string' ? data.instructions.slice(0, MAX_PROJECT_INSTRUCTIONS_CHARS) : '',
+    createdAt: typeof data.createdAt === 'number' ? data.createdAt : 0,
+    updatedAt: typeof data.updatedAt === 'number' ? data.updatedAt : 0,
+  };
+}
+
+/**
+ * Fields to store for a project
+ */
+export function projectToFirestore(project: Omit<Project, 'id'>): Record<string, unknown> {
+  return {
+    name: project.name.trim().slice(0, MAX_PROJECT_NAME_CHARS) || 'Untitled project',
+    instructions: project.instructions.slice(0, MAX_PROJECT_INSTRUCTIONS_CHARS),
+    createdAt: project.createdAt,
+    updatedAt: project.updatedAt,
+  };
+}
@@ -0,0 +1,68 @@
+// src/lib/projectStorage.ts - Projects in users/{uid}/projects
+//
+// Chats and context files belong to a project through their `projectId`
+// field; documents without one sit outside any project.
+
+import {
+  Firestore,
+  collection,
+  doc,
+  setDoc,
+  updateDoc,
+  getDocs,
+  query,
+  where,
+  writeBatch,
+} from 'firebase/firestore';
+import { Project } from './types';
+import { projectToFirestore } from './projectSchema';
+
+export type ProjectDraft = Pick<Project, 'name' | 'instructions'>;
+
+/**
+ * Create a project, or overwrite `existing`. Returns its id.
+ */
+export async function saveProject(
+  db: Firestore,
+  userId: string,
+  draft: ProjectDraft,
+  existing?: Pick<Project, 'id' | 'createdAt'>
+): Promise<string> {
+  const projectsRef = collection(db, 'users', userId, 'projects');
+  const ref = existing ? doc(projectsRef, existing.id) : doc(projectsRef);
+  const now = Date.now();
+
+  await setDoc(ref, projectToFirestore({
+    ...draft,
+    createdAt: existing?.createdAt || now,
+    updatedAt: now,
+  }));
+  return ref.id;
+}
+
+/**
+ * Delete a project; its chats and context files move out of it rather than
+ * being deleted with it
+ */
+export async function deleteProject(db: Firestore, userId: string, projectId: string): Promise<void> {
+  const inProject = (name: string) =>
+    getDocs(query(collection(db, 'users', userId, name), where('projectId', '==', projectId)));
+  const [chats, contextFiles] = await Promise.all([inProject('chats'), inProject('contextFiles')]);
+
+  const batch = writeBatch(db);
+  [...chats.docs, ...contextFiles.docs].forEach(docSnap => batch.update(docSnap.ref, { projectId: null }));
+  batch.delete(doc(db, 'users', userId, 'projects', projectId));
+  await batch.commit();
+}
+
+/**
+ * Move a chat into a project (null to take it out of any project)
+ */
+export async function moveChatToProject(
+  db: Firestore,
+  userId: string,
+  chatId: string,
+  projectId: string | null
+): Promise<void> {
+  await updateDoc(doc(db, 'users', userId, 'chats', chatId), { projectId });
+}
@@ -0,0 +1,149 @@
+// src/lib/providers/chatTemplates.ts - Prompt formats for endpoints that take raw text
+//
+// Hugging Face TGI and most Replicate models generate from a single prompt
+// string, so the conversation has to be rendered in the format the model
+// was trained on, with its stop sequences.
+
+import { ChatTurn } from './types';
+
+export type ChatTemplateId = 'llama3' | 'chatml' | 'mistral' | 'gemma';
+
+export interface RenderedPrompt {
+  prompt: string;
+  /** Generation must stop at these; they are not part of the reply */
+  stop: string[];
+}
+
+// First match wins; model ids are matched case-insensitively
+const MODEL_TEMPLATES: { match: RegExp; template: ChatTemplateId }[] = [
+  { match: /llama-?3/i, template: 'llama3' },
+  { match: /mistral|mixtral|codestral/i, template: 'mistral' },
+  { match: /gemma/i, template: 'gemma' },
+  { match: /qwen|yi-|hermes|openchat|phi-?4|chatml/i, template: 'chatml' },
+];
+
+const TEMPLATE_IDS: ChatTemplateId[] = ['llama3', 'chatml', 'mistral', 'gemma'];
+
+/**
+ * Template for a model: an explicit choice (e.g. IQ1_CHAT_TEMPLATE for a
+ * fine-tune whose name doesn't reveal its base), else by model name, else
+ * ChatML.
+ */
+export function chatTemplateFor(model: string, override?: string): ChatTemplateId {
+  if (override) {
+    if (TEMPLATE_IDS.includes(override as ChatTemplateId)) return override as ChatTemplateId;
+    console.warn(`⚠️ Unknown chat template "${override}", detecting from the model name`);
+  }
+  return MODEL_TEMPLATES.find(entry => entry.match.test(model))?.template ?? 'chatml';
+}
+
+function renderLlama3(system: string, turns: ChatTurn[]): RenderedPrompt {
+  const block = (role: string, content: string) =>
+    `<|start_header_id|>${role}<|end_header_id|>\n\n${content.trim()}<|eot_id|>`;
+  const prompt = '<|begin_of_text|>'
+    + (system ? block('system', system) : '')
+    + turns.map(turn => block(turn.role, turn.content)).join('')
+    + '<|start_header_id|>assistant<|end_header_id|>\n\n';
+  return { prompt, stop: ['<|eot_id|>', '<|end_of_text|>'] };
+}
+
+function renderChatML(system: string, turns: ChatTurn[]): RenderedPrompt {
+  const block = (role: string, content: string) => `<|im_start|>${role}\n${content.trim()}<|im_end|>\n`;
+  const prompt = (system ? block('system', system) : '')
+    + turns.map(turn => block(turn.role, turn.content)).join('')
+    + '<|im_start|>assistant\n';
+  return { prompt, stop: ['<|im_end|>', '<|endoftext|>'] };
+}
+
+/** No system role: the system prompt leads the first user message */
+function withSystemInFirstUserTurn(system: string, turns: ChatTurn[]): ChatTurn[] {
+  if (!system) return turns;
+  const first = turns.findIndex(turn => turn.role === 'user');
+  if (first === -1) return [{ role: 'user', content: system }, ...turns];
+  return turns.map((turn, i) => i === first ? { ...turn, content: `${system}\n\n${turn.content}` } : turn);
+}
+
+function renderMistral(system: string, turns: ChatTurn[]): RenderedPrompt {
+  const prompt = '<s>' + withSystemInFirstUserTurn(system, turns)
+    .map(turn => turn.role === 'user' ? `[INST] ${turn.content.trim()} [/INST]` : ` ${turn.content.trim()}</s>`)
+    .join('');
+  return { prompt, stop: ['</s>', '[INST]'] };
+}
+
+function renderGemma(system: string, turns: ChatTurn[]): RenderedPrompt {
+  const prompt = '<bos>' + withSystemInFirstUserTurn(system, turns)
+    .map(turn => `<start_of_turn>${turn.role === 'user' ? 'user' : 'model'}\n${turn.content.trim()}<end_of_turn>\n`)
+    .join('')
+    + '<start_of_turn>model\n';
+  return { prompt, stop: ['<end_of_turn>', '<eos>'] };
+}
+
+/**
+ * Render the system prompt and turns (ending with the user's message) as a
+ * prompt that asks the model for the next assistant turn
+ */
+export function renderChatPrompt(template: ChatTemplateId, system: string, turns: ChatTurn[]): RenderedPrompt {
+  switch (template) {
+    case 'llama3': return renderLlama3(system, turns);
+    case 'mistral': return renderMistral(system, turns);
+    case 'gemma': return renderGemma(system, turns);
+    case 'chatml': return renderChatML(system, turns);
+  }
+}
+
+/**
+ * Hold back streamed text that may be the start of a stop sequence, and cut
+ * the stream at the first complete one. Endpoints that stop on a sequence
+ * still send it.
+ */
+export function createStopFilter(stop: string[]) {
+  let pending = '';
+  let stopped = false;
+
+  return {
+    get stopped() {
+      return stopped;
+    },
+
+    /** Text that is safe to emit now */
+    push(text: string): string {
+      if (stopped) return '';
+      pending += text;
+
+      const hits = stop.map(sequence => pending.indexOf(sequence)).filter(index => index !== -1);
+      if (hits.length > 0) {
+        stopped = true;
+        const safe = pending.slice(0, Math.min(...hits));
+        pending = '';
+        return safe;
+      }
+
+      // Longest suffix of pending that begins some stop sequence
+      let hold = 0;
+      stop.forEach(sequence => {
+        for (let length = Math.min(sequence.length - 1, pending.length); length > hold; length--) {
+          if (pending.endsWith(sequence.slice(0, length))) {
+            hold = length;
+            break;
+          }
+        }
+      });
+
+      const safe = pending.slice(0, pending.length - hold);
+      pending = pending.slice(pending.length - hold);
+      return safe;
+    },
+
+    /** End of stream: whatever was held back was not a stop sequence */
+    flush(): string {
+      const rest = stopped ? '' : pending;
+      pending = '';
+      return rest;
+    },
+  };
+}
+
+/** History plus the new message, as the turns to render */
+export function requestTurns(history: ChatTurn[], input: string): ChatTurn[] {
+  return [...history, { role: 'user', content: input }];
+}
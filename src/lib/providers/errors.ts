@@ -0,0 +1,40 @@
+// src/lib/providers/errors.ts - Provider error classification for failover
+
+/**
+ * Error raised when an upstream provider rejects a request. Carries the HTTP
+ * status so the failover chain can decide whether to retry.
+ */
+export class ProviderError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ProviderError';
+    this.status = status;
+  }
+}
+
+/**
+ * Extract an HTTP status from provider errors (ours or the AI SDK's)
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  const err = error as { status?: number; statusCode?: number } | null;
+  return err?.status ?? err?.statusCode;
+}
+
+/**
+ * 5xx, 429, 408 and timeouts are worth retrying; other 4xx are not
+ */
+export function isRetryableError(error: unknown): boolean {
+  const err = error as { name?: string; message?: string; isRetryable?: boolean } | null;
+  if (err?.name === 'TimeoutError' || err?.name === 'AbortError') return true;
+  if (err?.isRetryable) return true;
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 429 || status >= 500;
+  }
+
+  const message = err?.message || '';
+  return /quota|RESOURCE_EXHAUSTED|timeout|ECONNRESET|fetch failed/i.test(message);
+}
@@ -0,0 +1,195 @@
+// src/lib/providers/failover.ts - Cross-provider failover with retry and backoff
+
+import { getProvider } from './registry';
+import { ChatProvider, ProviderChatRequest, ProviderEvent } from './types';
+import { Lane, ProviderHop } from './lanes';
+import { ProviderError, isRetryableError } from './errors';
+
+export interface FailoverOptions {
+  /** Extra attempts on the same hop for retryable errors */
+  retriesPerHop?: number;
+  /** Base delay for exponential backoff between attempts */
+  backoffMs?: number;
+  /** How long a hop may take to produce its first output */
+  firstEventTimeoutMs?: number;
+  /** Estimated prompt size, used to skip providers with smaller windows */
+  inputTokens?: number;
+}
+
+export interface RequestRequirements {
+  vision: boolean;
+  /** Estimated prompt size, compared against each provider's context window */
+  inputTokens: number;
+}
+
+export interface ServedHop extends ProviderHop {
+  lane: Lane;
+  /** Position of the hop in the chain (0 = primary) */
+  index: number;
+  /** e.g. "llama-3.3-70b-versatile (Groq)" */
+  label: string;
+}
+
+export interface FailoverResult {
+  hop: ServedHop;
+  events: AsyncIterable<ProviderEvent>;
+  /** Errors from hops tried before the one that served the reply */
+  failures: { hop: ProviderHop; error: string }[];
+}
+
+/** A non-negative number from the environment, or the fallback when unset or malformed */
+function envNumber(name: string, fallback: number): number {
+  const raw = process.env[name];
+  const value = raw === undefined || raw.trim() === '' ? NaN : Number(raw);
+  if (Number.isFinite(value) && value >= 0) return value;
+  if (raw !== undefined) console.warn(`⚠️ Ignoring ${name}="${raw}"; using ${fallback}`);
+  return fallback;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<FailoverOptions, 'inputTokens'>> = {
+  retriesPerHop: Math.floor(envNumber('AI_FAILOVER_RETRIES', 1)),
+  backoffMs: envNumber('AI_FAILOVER_BACKOFF_MS', 500),
+  firstEventTimeoutMs: envNumber('AI_FAILOVER_TIMEOUT_MS', 20000),
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Providers in the chain that are registered, configured and able to handle
+ * the request
+ */
+export function usableHops(
+  chain: ProviderHop[],
+  requirements: RequestRequirements
+): { hop: ProviderHop; provider: ChatProvider; index: number }[] {
+  const usable: { hop: ProviderHop; provider: ChatProvider; index: number }[] = [];
+
+  chain.forEach((hop, index) => {
+    const provider = getProvider(hop.provider);
+    if (!provider) {
+      console.warn(`⚠️ Skipping unknown provider "${hop.provider}" in fallback chain`);
+      return;
+    }
+    if (!provider.isConfigured()) return;
+    if (requirements.vision && !provider.capabilities.vision) return;
+    if (requirements.inputTokens > provider.capabilities.contextWindow) return;
+    usable.push({ hop, provider, index });
+  });
+
+  return usable;
+}
+
+/**
+ * Whether the provider can offer tools to this model
+ */
+export function supportsTools(provider: ChatProvider, model: string): boolean {
+  return !!provider.capabilities.toolModels?.test(model);
+}
+
+/**
+ * Start a provider stream and wait for its first event, so failures and
+ * stalls are detected before the reply is committed to the client.
+ */
+async function startHop(
+  provider: ChatProvider,
+  request: ProviderChatRequest,
+  timeoutMs: number
+): Promise<AsyncIterable<ProviderEvent>> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(request.signal.reason);
+  request.signal.addEventListener('abort', forwardAbort, { once: true });
+
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+
+  try {
+    const events = await provider.streamChat({ ...request, signal: controller.signal });
+    const iterator = events[Symbol.asyncIterator]();
+    const first = await iterator.next();
+    clearTimeout(timer);
+
+    return (async function* () {
+      try {
+        if (first.done) return;
+        yield first.value;
+        while (true) {
+          const next = await iterator.next();
+          if (next.done) return;
+          yield next.value;
+        }
+      } finally {
+        request.signal.removeEventListener('abort', forwardAbort);
+      }
+    })();
+  } catch (error) {
+    clearTimeout(timer);
+    request.signal.removeEventListener('abort', forwardAbort);
+    if (timedOut) {
+      throw new ProviderError(`${provider.label} timed out after ${timeoutMs}ms`, 504);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Try each usable hop in order, retrying retryable errors with exponential
+ * backoff, until one starts streaming.
+ */
+export async function streamWithFailover(
+  lane: Lane,
+  chain: ProviderHop[],
+  request: Omit<ProviderChatRequest, 'model'>,
+  options: FailoverOptions = {}
+): Promise<FailoverResult> {
+  const { retriesPerHop, backoffMs, firstEventTimeoutMs } = { ...DEFAULT_OPTIONS, ...options };
+  const requirements: RequestRequirements = {
+    vision: request.imageUrls.length > 0,
+    inputTokens: options.inputTokens ?? 0,
+  };
+  const hops = usableHops(chain, requirements);
+  const failures: FailoverResult['failures'] = [];
+
+  if (hops.length === 0) {
+    throw new Error(`No configured AI provider can handle this request in the ${lane} lane.`);
+  }
+
+  for (const { hop, provider, index } of hops) {
+    for (let attempt = 0; attempt <= retriesPerHop; attempt++) {
+      if (request.signal.aborted) throw request.signal.reason;
+
+      try {
+        // Hops whose model can't call functions get the same request without tools
+        const hopRequest: ProviderChatRequest = supportsTools(provider, hop.model)
+          ? { ...request, model: hop.model }
+          : { ...request, model: hop.model, tools: undefined, toolChoice: undefined, toolTurns: undefined };
+        const events = await startHop(provider, hopRequest, firstEventTimeoutMs);
+        if (failures.length > 0) {
+          console.log(`🔁 ${lane} lane served by fallback hop ${index}: ${provider.label} ${hop.model}`);
+        }
+        return {
+          hop: { ...hop, lane, index, label: `${hop.model} (${provider.label})` },
+          events,
+          failures,
+        };
+      } catch (error) {
+        if (request.signal.aborted) throw error;
+
+        const message = error instanceof Error ? error.message : String(error);
+        const retryable = isRetryableError(error);
+        console.warn(`⚠️ ${provider.label} ${hop.model} failed (attempt ${attempt + 1}): ${message}`);
+
+        if (!retryable || attempt === retriesPerHop) {
+          failures.push({ hop, error: message });
+          break;
+        }
+        await sleep(backoffMs * 2 ** attempt);
+      }
+    }
+  }
+
+  const summary = failures.map(f => `${f.hop.provider}: ${f.error}`).join('; ');
+  throw new Error(`All AI providers failed for the ${lane} lane. ${summary}`);
+}
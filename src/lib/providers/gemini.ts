@@ -0,0 +1,180 @@
+// src/lib/providers/gemini.ts - Google Gemini provider (vision capable) via the AI SDK
+
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { jsonSchema, streamText, ModelMessage, ToolSet } from 'ai';
+import { ChatProvider, ProviderChatRequest, ProviderEvent, ToolRequest } from './types';
+
+/** Declared without `execute`: the tool loop runs them and replays the results */
+function buildTools(request: ProviderChatRequest): ToolSet | undefined {
+  if (!request.tools || request.tools.length === 0) return undefined;
+  return Object.fromEntries(request.tools.map(tool => [tool.name, {
+    description: tool.description,
+    inputSchema: jsonSchema(tool.parameters as any),
+  }]));
+}
+
+function toolTurnMessages(request: ProviderChatRequest): ModelMessage[] {
+  return (request.toolTurns || []).flatMap((turn): ModelMessage[] => [
+    {
+      role: 'assistant',
+      content: [
+        ...(turn.text ? [{ type: 'text' as const, text: turn.text }] : []),
+        ...turn.calls.map(call => ({
+          type: 'tool-call' as const,
+          toolCallId: call.id,
+          toolName: call.name,
+          input: call.arguments,
+        })),
+      ],
+    },
+    {
+      role: 'tool',
+      content: turn.calls.map(call => ({
+        type: 'tool-result' as const,
+        toolCallId: call.id,
+        toolName: call.name,
+        output: { type: 'text' as const, value: turn.results[call.id] ?? '' },
+      })),
+    },
+  ]);
+}
+
+function toolRequest(part: { toolCallId: string; toolName: string; input: unknown }): ProviderEvent {
+  const request: ToolRequest = {
+    id: part.toolCallId,
+    name: part.toolName,
+    arguments: part.input && typeof part.input === 'object' ? part.input as Record<string, unknown> : {},
+  };
+  return { type: 'tool_request', request };
+}
+
+async function startStream(apiKey: string, request: ProviderChatRequest): Promise<AsyncIterable<ProviderEvent>> {
+  const googleAI = createGoogleGenerativeAI({ apiKey });
+
+  const userContent: any[] = [{ type: 'text', text: request.input }];
+  request.imageUrls.forEach(url => {
+    userContent.push({ type: 'image', image: url });
+  });
+
+  const result = streamText({
+    model: googleAI(request.model),
+    system: request.system,
+    messages: [
+      ...request.history,
+      { role: 'user', content: userContent },
+      ...toolTurnMessages(request),
+    ],
+    tools: buildTools(request),
+    ...(request.tools && request.tools.length > 0 && { toolChoice: request.toolChoice ?? 'auto' }),
+    temperature: request.temperature ?? 0.7,
+    maxOutputTokens: request.maxTokens,
+    abortSignal: request.signal,
+    providerOptions: {
+      // Stream thought summaries on models that think (2.5 series)
+      google: { thinkingConfig: { includeThoughts: true } },
+    },
+  });
+
+  // The AI SDK reports failures inside the stream, so read up to the first
+  // piece of output to surface errors before the caller commits to a reply.
+  const iterator = result.fullStream[Symbol.asyncIterator]();
+  const buffered: ProviderEvent[] = [];
+  let finished = false;
+
+  while (true) {
+    const { done, value } = await iterator.next();
+    if (done) {
+      finished = true;
+      break;
+    }
+    if (value.type === 'error') throw value.error;
+    if (value.type === 'text-delta') {
+      buffered.push({ type: 'delta', content: value.text });
+      break;
+    }
+    if (value.type === 'tool-call') {
+      buffered.push(toolRequest(value));
+      break;
+    }
+    // Thinking models reason before answering; keep it, but it isn't output yet
+    if (value.type === 'reasoning-delta' && value.text) {
+      buffered.push({ type: 'reasoning', content: value.text });
+    }
+  }
+
+  return (async function* () {
+    yield* buffered;
+    if (finished) return;
+
+    while (true) {
+      const { done, value } = await iterator.next();
+      if (done) return;
+      if (value.type === 'error') throw value.error;
+      if (value.type === 'text-delta') {
+        yield { type: 'delta', content: value.text };
+      }
+      if (value.type === 'reasoning-delta' && value.text) {
+        yield { type: 'reasoning', content: value.text };
+      }
+      if (value.type === 'tool-call') {
+        yield toolRequest(value);
+      }
+      // Search grounding sources
+      if (value.type === 'source' && value.sourceType === 'url') {
+        yield {
+          type: 'citation',
+          citation: { id: value.id, title: value.title || value.url, url: value.url },
+        };
+      }
+      if (value.type === 'finish') {
+        yield {
+          type: 'finish',
+          finishReason: value.finishReason,
+          usage: {
+            inputTokens: value.totalUsage.inputTokens,
+            outputTokens: value.totalUsage.outputTokens,
+            totalTokens: value.totalUsage.totalTokens,
+          },
+        };
+      }
+    }
+  })();
+}
+
+interface GeminiProviderOptions {
+  id: string;
+  label: string;
+  /** Environment variable holding the API key */
+  apiKeyEnv: string;
+}
+
+/**
+ * Create a Gemini provider bound to one API key. The daily and complex keys
+ * are registered as separate providers so the failover chain can move from
+ * one to the other when a quota is exhausted.
+ */
+export function createGeminiProvider(options: GeminiProviderOptions): ChatProvider {
+  return {
+    id: options.id,
+    label: options.label,
+    capabilities: {
+      vision: true,
+      streaming: true,
+      contextWindow: 1_048_576,
+      maxOutputTokens: 8192,
+      toolModels: /^gemini-/,
+    },
+
+    isConfigured() {
+      return !!process.env[options.apiKeyEnv];
+    },
+
+    async streamChat(request) {
+      const apiKey = process.env[options.apiKeyEnv];
+      if (!apiKey) {
+        throw new Error(`${options.apiKeyEnv} is not configured on the server.`);
+      }
+      return startStream(apiKey, request);
+    },
+  };
+}
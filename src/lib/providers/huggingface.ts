@@ -0,0 +1,171 @@
+// src/lib/providers/huggingface.ts - Hugging Face text-generation-inference (TGI) provider
+//
+// Works with the serverless Inference API and dedicated Inference Endpoints,
+// both of which speak TGI: the prompt is rendered with the model's chat
+// template and tokens stream back as SSE `token` events.
+
+import { SSEParser } from '../chatStream/parser';
+import { ChatTemplateId, chatTemplateFor, createStopFilter, renderChatPrompt, requestTurns } from './chatTemplates';
+import { ProviderError } from './errors';
+import { ChatProvider, ProviderCapabilities, ProviderEvent, TokenUsage } from './types';
+
+interface HuggingFaceOptions {
+  id: string;
+  label: string;
+  /**
+   * Base URL the model id is appended to, e.g. the Inference API's
+   * ".../models/", or a dedicated endpoint's URL used as-is
+   */
+  endpoint: string | (() => string);
+  /** Environment variable holding the API token */
+  apiKeyEnv: string;
+  capabilities: ProviderCapabilities;
+  /** Prompt format; detected from the model name when omitted */
+  template?: ChatTemplateId | (() => string | undefined);
+}
+
+interface TGIStreamEvent {
+  token?: { id: number; text: string; special: boolean };
+  generated_text?: string | null;
+  details?: { finish_reason?: string; generated_tokens?: number } | null;
+  error?: string;
+  error_type?: string;
+}
+
+/** TGI finish reasons in the names the rest of the app uses */
+const FINISH_REASONS: Record<string, string> = {
+  eos_token: 'stop',
+  stop_sequence: 'stop',
+  length: 'length',
+};
+
+/** TGI reports errors in-band; overloaded and loading models are worth retrying */
+function streamError(event: TGIStreamEvent, label: string): ProviderError {
+  const retryable = /overloaded|loading|unavailable/i.test(`${event.error_type} ${event.error}`);
+  return new ProviderError(`${label} error: ${event.error}`, retryable ? 503 : 400);
+}
+
+async function* parseTGIStream(
+  body: ReadableStream<Uint8Array>,
+  stop: string[],
+  label: string
+): AsyncGenerator<ProviderEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+  const filter = createStopFilter(stop);
+  let finishReason: string | undefined;
+  let usage: TokenUsage | undefined;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      const frames = done ? parser.flush() : parser.push(decoder.decode(value, { stream: true }));
+
+      for (const frame of frames) {
+        let event: TGIStreamEvent;
+        try {
+          event = JSON.parse(frame.data);
+        } catch {
+          continue;
+        }
+
+        if (event.error) throw streamError(event, label);
+
+        if (event.token && !event.token.special && !filter.stopped) {
+          const text = filter.push(event.token.text);
+          if (text) yield { type: 'delta', content: text };
+        }
+        if (event.details) {
+          finishReason = FINISH_REASONS[event.details.finish_reason || ''] || event.details.finish_reason;
+          if (event.details.generated_tokens) usage = { outputTokens: event.details.generated_tokens };
+        }
+      }
+      if (done) break;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  const rest = filter.flush();
+  if (rest) yield { type: 'delta', content: rest };
+  yield { type: 'finish', finishReason: filter.stopped ? 'stop' : finishReason, usage };
+}
+
+/** Endpoints without streaming answer with [{ generated_text }] */
+async function* parseTGIResponse(json: unknown, stop: string[]): AsyncGenerator<ProviderEvent> {
+  const result = Array.isArray(json) ? json[0] : json;
+  const filter = createStopFilter(stop);
+  const text = filter.push((result as { generated_text?: string })?.generated_text || '') + filter.flush();
+  if (text) yield { type: 'delta', content: text };
+  yield { type: 'finish', finishReason: 'stop' };
+}
+
+/**
+ * Create a provider for a model served by Hugging Face TGI
+ */
+export function createHuggingFaceProvider(options: HuggingFaceOptions): ChatProvider {
+  const resolve = <T>(value: T | (() => T)) => (typeof value === 'function' ? (value as () => T)() : value);
+
+  return {
+    id: options.id,
+    label: options.label,
+    capabilities: options.capabilities,
+
+    isConfigured() {
+      return !!resolve(options.endpoint) && !!process.env[options.apiKeyEnv];
+    },
+
+    async streamChat(request) {
+      const apiKey = process.env[options.apiKeyEnv];
+      if (!apiKey) {
+        throw new Error(`${options.apiKeyEnv} is not configured on the server.`);
+      }
+
+      const template = chatTemplateFor(request.model, resolve(options.template));
+      const { prompt, stop } = renderChatPrompt(template, request.system, requestTurns(request.history, request.input));
+
+      // A base ending in "/" takes the model id (Inference API); anything else is a dedicated endpoint
+      const base = resolve(options.endpoint);
+      const url = base.endsWith('/') ? `${base}${request.model}` : base;
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+        },
+        body: JSON.stringify({
+          inputs: prompt,
+          parameters: {
+            max_new_tokens: request.maxTokens ?? options.capabilities.maxOutputTokens,
+            // TGI rejects a temperature of exactly 0
+            temperature: Math.max(request.temperature ?? 0.7, 0.01),
+            stop,
+            return_full_text: false,
+            details: true,
+          },
+          stream: true,
+          options: { wait_for_model: true },
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new ProviderError(`${options.label} API Error: ${response.status} - ${errorText}`, response.status);
+      }
+
+      if (!response.body) {
+        throw new ProviderError(`${options.label} API Error: empty response body`, 502);
+      }
+
+      if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+        return parseTGIResponse(await response.json(), stop);
+      }
+
+      return parseTGIStream(response.body, stop, options.label);
+    },
+  };
+}
@@ -0,0 +1,87 @@
+// src/lib/providers/index.ts - Built-in providers and registry entry point
+//
+// To add a provider, implement ChatProvider (or use
+// createOpenAICompatibleProvider) and register it below.
+
+import { registerProvider } from './registry';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createGeminiProvider } from './gemini';
+import { createIQ1Provider } from './iq1';
+
+// --- GROQ (Daily & Coding lanes) ---
+registerProvider(createOpenAICompatibleProvider({
+  id: 'groq',
+  label: 'Groq',
+  endpoint: 'https://api.groq.com/openai/v1/chat/completions',
+  apiKeyEnv: 'GROQ_API_KEY',
+  capabilities: {
+    vision: false,
+    streaming: true,
+    contextWindow: 131_072,
+    maxOutputTokens: 4096,
+    toolModels: /llama-3\.3-70b/,
+  },
+}));
+
+// --- OPENROUTER (Analysis lane with vision) ---
+registerProvider(createOpenAICompatibleProvider({
+  id: 'openrouter',
+  label: 'OpenRouter',
+  endpoint: 'https://openrouter.ai/api/v1/chat/completions',
+  apiKeyEnv: 'OPENROUTER_API_KEY',
+  capabilities: {
+    vision: true,
+    streaming: true,
+    contextWindow: 131_072,
+    maxOutputTokens: 4096,
+  },
+  extraHeaders: () => ({
+    'HTTP-Referer': process.env.NEXT_PUBLIC_SITE_URL || 'http://localhost:3000',
+    'X-Title': 'AuraIQ',
+  }),
+}));
+
+// --- GEMINI DIRECT (Media analysis) ---
+registerProvider(createGeminiProvider({
+  id: 'gemini',
+  label: 'Gemini',
+  apiKeyEnv: 'GEMINI_API_KEY_DAILY',
+}));
+
+// Second Gemini key, used as a failover hop when the daily quota runs out
+registerProvider(createGeminiProvider({
+  id: 'gemini-complex',
+  label: 'Gemini (complex key)',
+  apiKeyEnv: 'GEMINI_API_KEY_COMPLEX',
+}));
+
+// --- IQ1 (custom model; backend chosen with IQ1_PROVIDER / IQ1_CONFIGS) ---
+registerProvider(createIQ1Provider());
+
+export { registerProvider, getProvider, requireProvider, listProviders } from './registry';
+export { createOpenAICompatibleProvider } from './openaiCompatible';
+export { createHuggingFaceProvider } from './huggingface';
+export { createReplicateProvider } from './replicate';
+export { chatTemplateFor, renderChatPrompt } from './chatTemplates';
+export { createIQ1Provider, getIQ1Backend, getIQ1Config, getIQ1Configs } from './iq1';
+export { toClientSSEStream } from './sse';
+export { getLaneChain, parseChain, LANES } from './lanes';
+export { streamWithFailover, supportsTools, usableHops } from './failover';
+export { ProviderError, isRetryableError } from './errors';
+export type { Lane, ProviderHop } from './lanes';
+export type { FailoverResult, ServedHop } from './failover';
+export type { StreamMeta } from './sse';
+export type { ChatTemplateId } from './chatTemplates';
+export type { IQ1Backend, IQ1Config } from './iq1';
+export type {
+  ChatProvider,
+  ChatTurn,
+  JSONSchema,
+  ProviderCapabilities,
+  ProviderChatRequest,
+  ProviderEvent,
+  TokenUsage,
+  ToolRequest,
+  ToolSpec,
+  ToolTurn,
+} from './types';
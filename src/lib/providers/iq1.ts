@@ -0,0 +1,166 @@
+// src/lib/providers/iq1.ts - The custom IQ1 model as a provider
+//
+// IQ1 can be served by an OpenAI-compatible API, Hugging Face TGI, a
+// self-hosted endpoint or Replicate. IQ1_PROVIDER picks the backend and
+// IQ1_CONFIGS (JSON) overrides any backend's settings, so a deployment can
+// point IQ1 somewhere else without a code change, e.g.
+//
+//   IQ1_PROVIDER=huggingface
+//   IQ1_CONFIGS={"huggingface":{"endpoint":"https://xyz.endpoints.huggingface.cloud","model":"org/iq1-8b","template":"llama3"}}
+
+import { ChatTemplateId } from './chatTemplates';
+import { createHuggingFaceProvider } from './huggingface';
+import { createOpenAICompatibleProvider } from './openaiCompatible';
+import { createReplicateProvider } from './replicate';
+import { ChatProvider, ProviderCapabilities } from './types';
+
+export type IQ1Backend = 'openai' | 'huggingface' | 'custom' | 'replicate';
+
+export interface IQ1Config {
+  /** Chat completions URL, TGI URL (or base ending in "/"), or unused for Replicate */
+  endpoint: string;
+  /** Environment variable holding the API key */
+  apiKeyEnv: string;
+  model: string;
+  maxTokens: number;
+  temperature: number;
+  contextWindow: number;
+  /** Prompt format for backends that take raw text; detected from the model name when unset */
+  template?: ChatTemplateId;
+}
+
+const IQ1_BACKENDS: IQ1Backend[] = ['openai', 'huggingface', 'custom', 'replicate'];
+
+function defaultConfigs(): Record<IQ1Backend, IQ1Config> {
+  const shared = {
+    maxTokens: Number(process.env.IQ1_MAX_OUTPUT_TOKENS ?? 4096),
+    temperature: 0.7,
+    contextWindow: Number(process.env.IQ1_CONTEXT_WINDOW ?? 8192),
+    template: process.env.IQ1_CHAT_TEMPLATE as ChatTemplateId | undefined,
+  };
+
+  return {
+    // OpenAI-compatible endpoint (for fine-tuned models)
+    openai: {
+      endpoint: 'https://api.openai.com/v1/chat/completions',
+      apiKeyEnv: 'IQ1_OPENAI_API_KEY',
+      model: process.env.IQ1_MODEL_NAME || 'gpt-4o',
+      ...shared,
+    },
+    // Hugging Face Inference API or a dedicated Inference Endpoint
+    huggingface: {
+      endpoint: process.env.IQ1_HF_ENDPOINT || 'https://api-inference.huggingface.co/models/',
+      apiKeyEnv: 'IQ1_HF_API_KEY',
+      model: process.env.IQ1_HF_MODEL || 'meta-llama/Llama-3.1-8B-Instruct',
+      ...shared,
+    },
+    // Custom OpenAI-compatible endpoint (for self-hosted models)
+    custom: {
+      endpoint: process.env.IQ1_CUSTOM_ENDPOINT || '',
+      apiKeyEnv: 'IQ1_CUSTOM_API_KEY',
+      model: process.env.IQ1_CUSTOM_MODEL || 'iq1-base',
+      ...shared,
+    },
+    // Replicate: "owner/name", "owner/name:version" or a version id
+    replicate: {
+      endpoint: 'https://api.replicate.com/v1',
+      apiKeyEnv: 'IQ1_REPLICATE_API_KEY',
+      model: process.env.IQ1_REPLICATE_MODEL || '',
+      ...shared,
+    },
+  };
+}
+
+/**
+ * Settings of every backend: the defaults above with IQ1_CONFIGS applied
+ */
+export function getIQ1Configs(): Record<IQ1Backend, IQ1Config> {
+  const configs = defaultConfigs();
+  const spec = process.env.IQ1_CONFIGS;
+  if (!spec) return configs;
+
+  try {
+    const overrides = JSON.parse(spec) as Partial<Record<IQ1Backend, Partial<IQ1Config>>>;
+    for (const backend of IQ1_BACKENDS) {
+      if (overrides[backend]) configs[backend] = { ...configs[backend], ...overrides[backend] };
+    }
+  } catch (error) {
+    console.error('⚠️ Ignoring IQ1_CONFIGS:', (error as Error).message);
+  }
+  return configs;
+}
+
+/** The backend selected with IQ1_PROVIDER (default "openai") */
+export function getIQ1Backend(): IQ1Backend {
+  const backend = process.env.IQ1_PROVIDER || 'openai';
+  if (!IQ1_BACKENDS.includes(backend as IQ1Backend)) {
+    throw new Error(`Unknown IQ1 provider: ${backend}`);
+  }
+  return backend as IQ1Backend;
+}
+
+/** Settings of the selected backend */
+export function getIQ1Config(): IQ1Config {
+  return getIQ1Configs()[getIQ1Backend()];
+}
+
+function backendProvider(id: string, backend: IQ1Backend, config: IQ1Config): ChatProvider {
+  const capabilities: ProviderCapabilities = {
+    vision: false,
+    streaming: true,
+    contextWindow: config.contextWindow,
+    maxOutputTokens: config.maxTokens,
+  };
+  const common = { id, label: 'IQ1', apiKeyEnv: config.apiKeyEnv, capabilities };
+
+  switch (backend) {
+    case 'openai':
+    case 'custom':
+      return createOpenAICompatibleProvider({ ...common, endpoint: config.endpoint });
+    case 'huggingface':
+      return createHuggingFaceProvider({ ...common, endpoint: config.endpoint, template: config.template });
+    case 'replicate':
+      return createReplicateProvider({ ...common, template: config.template });
+  }
+}
+
+/**
+ * IQ1 as a single provider. The backend and its settings are read on every
+ * call, so configuration changes apply without a restart of the registry.
+ */
+export function createIQ1Provider(id: string = 'iq1'): ChatProvider {
+  const current = () => {
+    try {
+      const backend = getIQ1Backend();
+      const config = getIQ1Configs()[backend];
+      return { config, provider: backendProvider(id, backend, config) };
+    } catch (error) {
+      console.error('⚠️ IQ1 is misconfigured:', (error as Error).message);
+      return null;
+    }
+  };
+
+  return {
+    id,
+    label: 'IQ1',
+
+    get capabilities() {
+      return current()?.provider.capabilities ?? { vision: false, streaming: true, contextWindow: 0, maxOutputTokens: 0 };
+    },
+
+    isConfigured() {
+      const active = current();
+      return !!active && !!active.config.model && active.provider.isConfigured();
+    },
+
+    async streamChat(request) {
+      const backend = getIQ1Backend();
+      const config = getIQ1Configs()[backend];
+      return backendProvider(id, backend, config).streamChat({
+        ...request,
+        temperature: request.temperature ?? config.temperature,
+        maxTokens: Math.min(request.maxTokens ?? config.maxTokens, config.maxTokens),
+      });
+    },
+  };
+}
@@ -0,0 +1,82 @@
+// src/lib/providers/lanes.ts - Ordered fallback chains for each model lane
+
+import { getIQ1Config } from './iq1';
+
+export type Lane = 'daily' | 'coding' | 'analysis' | 'iq1';
+
+export const LANES: Lane[] = ['daily', 'coding', 'analysis', 'iq1'];
+
+export interface ProviderHop {
+  provider: string;
+  model: string;
+}
+
+// Defaults used when AI_FALLBACK_<LANE> is not set. The first hop still honours
+// the legacy AI_PROVIDER_<LANE> / AI_MODEL_<LANE> variables.
+const DEFAULT_CHAINS: Record<Lane, () => ProviderHop[]> = {
+  daily: () => [
+    { provider: process.env.AI_PROVIDER_DAILY || 'groq', model: process.env.AI_MODEL_DAILY || 'llama-3.1-8b-instant' },
+    { provider: 'openrouter', model: 'meta-llama/llama-3.1-8b-instruct' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+    { provider: 'gemini-complex', model: 'gemini-2.5-flash' },
+  ],
+  coding: () => [
+    { provider: process.env.AI_PROVIDER_CODING || 'groq', model: process.env.AI_MODEL_CODING || 'llama-3.3-70b-versatile' },
+    { provider: 'openrouter', model: 'meta-llama/llama-3.3-70b-instruct' },
+    { provider: 'gemini', model: 'gemini-2.5-flash' },
+    { provider: 'gemini-complex', model: 'gemini-2.5-flash' },
+  ],
+  analysis: () => [
+    { provider: process.env.AI_PROVIDER_ANALYSIS || 'gemini', model: process.env.AI_MODEL_ANALYSIS || 'gemini-2.5-flash' },
+    { provider: 'gemini-complex', model: process.env.AI_MODEL_ANALYSIS || 'gemini-2.5-flash' },
+    { provider: 'openrouter', model: 'google/gemini-2.5-flash' },
+    { provider: 'groq', model: 'llama-3.3-70b-versatile' },
+  ],
+  // The custom model only; add fallbacks with AI_FALLBACK_IQ1 if replies should never fail
+  iq1: () => {
+    try {
+      return [{ provider: 'iq1', model: getIQ1Config().model }];
+    } catch (error) {
+      console.error('⚠️ IQ1 lane unavailable:', (error as Error).message);
+      return [];
+    }
+  },
+};
+
+/**
+ * Parse a chain spec such as
+ * "groq:llama-3.3-70b-versatile,openrouter:meta-llama/llama-3.3-70b-instruct:free".
+ * Only the first colon separates provider from model.
+ */
+export function parseChain(spec: string): ProviderHop[] {
+  return spec
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      if (separator <= 0 || separator === entry.length - 1) {
+        throw new Error(`Invalid fallback hop "${entry}" (expected provider:model)`);
+      }
+      return {
+        provider: entry.substring(0, separator),
+        model: entry.substring(separator + 1),
+      };
+    });
+}
+
+/**
+ * Ordered fallback chain for a lane. Configure with AI_FALLBACK_DAILY,
+ * AI_FALLBACK_CODING, AI_FALLBACK_ANALYSIS and AI_FALLBACK_IQ1.
+ */
+export function getLaneChain(lane: Lane): ProviderHop[] {
+  const spec = process.env[`AI_FALLBACK_${lane.toUpperCase()}`];
+  if (spec) {
+    try {
+      return parseChain(spec);
+    } catch (error) {
+      console.error(`⚠️ Ignoring AI_FALLBACK_${lane.toUpperCase()}:`, (error as Error).message);
+    }
+  }
+  return DEFAULT_CHAINS[lane]();
+}
@@ -0,0 +1,183 @@
+// src/lib/providers/openaiCompatible.ts - Factory for OpenAI-compatible chat endpoints
+
+import { ChatProvider, ProviderCapabilities, ProviderChatRequest, ProviderEvent, TokenUsage, ToolRequest } from './types';
+import { readSSEData } from './sse';
+import { ProviderError } from './errors';
+
+interface OpenAICompatibleOptions {
+  id: string;
+  label: string;
+  /** Full URL of the chat completions endpoint */
+  endpoint: string | (() => string);
+  /** Environment variable holding the API key */
+  apiKeyEnv: string;
+  /** Set to false for endpoints that don't need a key (e.g. local Ollama) */
+  requiresApiKey?: boolean;
+  capabilities: ProviderCapabilities;
+  extraHeaders?: () => Record<string, string>;
+}
+
+function buildMessages(request: ProviderChatRequest, vision: boolean) {
+  const messages: any[] = [
+    { role: 'system', content: request.system },
+    ...request.history,
+  ];
+
+  if (vision && request.imageUrls.length > 0) {
+    const userContent: any[] = [{ type: 'text', text: request.input }];
+    request.imageUrls.forEach(url => {
+      userContent.push({ type: 'image_url', image_url: { url } });
+    });
+    messages.push({ role: 'user', content: userContent });
+  } else {
+    messages.push({ role: 'user', content: request.input });
+  }
+
+  request.toolTurns?.forEach(turn => {
+    messages.push({
+      role: 'assistant',
+      content: turn.text || null,
+      tool_calls: turn.calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+      })),
+    });
+    turn.calls.forEach(call => {
+      messages.push({ role: 'tool', tool_call_id: call.id, content: turn.results[call.id] ?? '' });
+    });
+  });
+
+  return messages;
+}
+
+/** Tool call fragments are streamed by index: id and name first, arguments in pieces */
+interface PartialToolCall {
+  id?: string;
+  name: string;
+  arguments: string;
+}
+
+function parseToolArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}');
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+async function* parseCompletionStream(body: ReadableStream<Uint8Array>): AsyncGenerator<ProviderEvent> {
+  let finishReason: string | undefined;
+  let usage: TokenUsage | undefined;
+  const toolCalls: PartialToolCall[] = [];
+
+  for await (const data of readSSEData(body)) {
+    if (data === '[DONE]') break;
+
+    try {
+      const json = JSON.parse(data);
+      const delta = json.choices?.[0]?.delta;
+      // Reasoning models: `reasoning` (Groq, OpenRouter) or `reasoning_content` (DeepSeek, vLLM)
+      const reasoning = delta?.reasoning || delta?.reasoning_content || '';
+      if (reasoning) {
+        yield { type: 'reasoning', content: reasoning };
+      }
+      const content = delta?.content || '';
+      if (content) {
+        yield { type: 'delta', content };
+      }
+      (delta?.tool_calls as any[] | undefined)?.forEach(fragment => {
+        const call = toolCalls[fragment.index ?? 0] ??= { name: '', arguments: '' };
+        if (fragment.id) call.id = fragment.id;
+        if (fragment.function?.name) call.name += fragment.function.name;
+        if (fragment.function?.arguments) call.arguments += fragment.function.arguments;
+      });
+      finishReason = json.choices?.[0]?.finish_reason || finishReason;
+      // Usage arrives on the last chunk (Groq also nests it under x_groq)
+      const rawUsage = json.usage || json.x_groq?.usage;
+      if (rawUsage) {
+        usage = {
+          inputTokens: rawUsage.prompt_tokens,
+          outputTokens: rawUsage.completion_tokens,
+          totalTokens: rawUsage.total_tokens,
+        };
+      }
+    } catch (e) { /* ignore malformed frames */ }
+  }
+
+  for (const [index, call] of toolCalls.entries()) {
+    if (!call?.name) continue;
+    const request: ToolRequest = {
+      id: call.id || `call_${index}`,
+      name: call.name,
+      arguments: parseToolArguments(call.arguments),
+    };
+    yield { type: 'tool_request', request };
+  }
+
+  yield { type: 'finish', finishReason, usage };
+}
+
+/**
+ * Create a provider for any endpoint that speaks the OpenAI chat completions
+ * streaming protocol (Groq, OpenRouter, Mistral, Ollama, vLLM, ...).
+ */
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): ChatProvider {
+  const requiresApiKey = options.requiresApiKey ?? true;
+
+  return {
+    id: options.id,
+    label: options.label,
+    capabilities: options.capabilities,
+
+    isConfigured() {
+      const endpoint = typeof options.endpoint === 'function' ? options.endpoint() : options.endpoint;
+      return !!endpoint && (!requiresApiKey || !!process.env[options.apiKeyEnv]);
+    },
+
+    async streamChat(request) {
+      const apiKey = process.env[options.apiKeyEnv];
+      if (requiresApiKey && !apiKey) {
+        throw new Error(`${options.apiKeyEnv} is not configured on the server.`);
+      }
+
+      const endpoint = typeof options.endpoint === 'function' ? options.endpoint() : options.endpoint;
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {}),
+          'Content-Type': 'application/json',
+          ...options.extraHeaders?.(),
+        },
+        body: JSON.stringify({
+          model: request.model,
+          messages: buildMessages(request, options.capabilities.vision),
+          temperature: request.temperature ?? 0.7,
+          max_tokens: request.maxTokens ?? options.capabilities.maxOutputTokens,
+          stream: true,
+          stream_options: { include_usage: true },
+          ...(request.tools && request.tools.length > 0 && {
+            tools: request.tools.map(tool => ({
+              type: 'function',
+              function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+            })),
+            tool_choice: request.toolChoice ?? 'auto',
+          }),
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new ProviderError(`${options.label} API Error: ${response.status} - ${errorText}`, response.status);
+      }
+
+      if (!response.body) {
+        throw new ProviderError(`${options.label} API Error: empty response body`, 502);
+      }
+
+      return parseCompletionStream(response.body);
+    },
+  };
+}
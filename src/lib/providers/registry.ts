@@ -0,0 +1,40 @@
+// src/lib/providers/registry.ts - Provider registry keyed by provider id
+
+import { ChatProvider } from './types';
+
+const providers = new Map<string, ChatProvider>();
+
+/**
+ * Register a provider. Registering an existing id replaces it.
+ */
+export function registerProvider(provider: ChatProvider): void {
+  providers.set(provider.id, provider);
+}
+
+/**
+ * Look up a provider by id
+ */
+export function getProvider(id: string): ChatProvider | undefined {
+  return providers.get(id);
+}
+
+/**
+ * Look up a provider by id, throwing if it is unknown or not configured
+ */
+export function requireProvider(id: string): ChatProvider {
+  const provider = providers.get(id);
+  if (!provider) {
+    throw new Error(`Unknown AI provider: ${id}`);
+  }
+  if (!provider.isConfigured()) {
+    throw new Error(`AI provider "${provider.label}" is not configured on the server.`);
+  }
+  return provider;
+}
+
+/**
+ * All registered providers, in registration order
+ */
+export function listProviders(): ChatProvider[] {
+  return Array.from(providers.values());
+}
@@ -0,0 +1,258 @@
+// src/lib/providers/replicate.ts - Replicate predictions as a streaming provider
+//
+// A prediction is created with `stream: true` and its output read from the
+// SSE stream URL Replicate returns. Models without streaming support are
+// polled instead, emitting only the output added since the last poll.
+
+import { SSEParser } from '../chatStream/parser';
+import { ChatTemplateId, chatTemplateFor, createStopFilter, renderChatPrompt, requestTurns } from './chatTemplates';
+import { ProviderError } from './errors';
+import { ChatProvider, ProviderCapabilities, ProviderChatRequest, ProviderEvent, TokenUsage } from './types';
+
+const REPLICATE_API = 'https://api.replicate.com/v1';
+const POLL_INTERVAL_MS = 1000;
+
+interface ReplicateOptions {
+  id: string;
+  label: string;
+  /** Environment variable holding the API token */
+  apiKeyEnv: string;
+  capabilities: ProviderCapabilities;
+  /** Prompt format; detected from the model name when omitted */
+  template?: ChatTemplateId | (() => string | undefined);
+}
+
+interface Prediction {
+  id: string;
+  status: 'starting' | 'processing' | 'succeeded' | 'failed' | 'canceled';
+  output?: string[] | string | null;
+  error?: string | null;
+  urls: { get: string; cancel: string; stream?: string };
+  metrics?: { input_token_count?: number; output_token_count?: number };
+}
+
+/**
+ * Where to create a prediction for a model given as "owner/name" (official
+ * models, latest version), "owner/name:version" or a bare version id
+ */
+function predictionTarget(model: string): { url: string; version?: string } {
+  const [name, version] = model.split(':');
+  if (version) return { url: `${REPLICATE_API}/predictions`, version };
+  if (name.includes('/')) return { url: `${REPLICATE_API}/models/${name}/predictions` };
+  return { url: `${REPLICATE_API}/predictions`, version: name };
+}
+
+function predictionUsage(prediction: Prediction): TokenUsage | undefined {
+  const { input_token_count: inputTokens, output_token_count: outputTokens } = prediction.metrics || {};
+  if (inputTokens === undefined && outputTokens === undefined) return undefined;
+  return {
+    inputTokens,
+    outputTokens,
+    ...(inputTokens !== undefined && outputTokens !== undefined && { totalTokens: inputTokens + outputTokens }),
+  };
+}
+
+function outputText(output: Prediction['output']): string {
+  if (Array.isArray(output)) return output.join('');
+  return output || '';
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Create a provider for language models hosted on Replicate
+ */
+export function createReplicateProvider(options: ReplicateOptions): ChatProvider {
+  const resolveTemplate = () =>
+    typeof options.template === 'function' ? options.template() : options.template;
+
+  async function getPrediction(url: string, apiKey: string, signal: AbortSignal): Promise<Prediction> {
+    const response = await fetch(url, { headers: { 'Authorization': `Bearer ${apiKey}` }, signal });
+    if (!response.ok) {
+      throw new ProviderError(`${options.label} API Error: ${response.status} - ${await response.text()}`, response.status);
+    }
+    return response.json();
+  }
+
+  async function* streamPrediction(
+    prediction: Prediction,
+    apiKey: string,
+    stop: string[],
+    signal: AbortSignal
+  ): AsyncGenerator<ProviderEvent> {
+    const response = await fetch(prediction.urls.stream!, {
+      headers: { 'Accept': 'text/event-stream', 'Cache-Control': 'no-store', 'Authorization': `Bearer ${apiKey}` },
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new ProviderError(`${options.label} stream error: ${response.status}`, response.status || 502);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    const parser = new SSEParser();
+    const filter = createStopFilter(stop);
+    let finishReason = 'stop';
+
+    try {
+      streaming: while (true) {
+        const { value, done } = await reader.read();
+        const frames = done ? parser.flush() : parser.push(decoder.decode(value, { stream: true }));
+
+        for (const frame of frames) {
+          if (frame.event === 'output') {
+            const text = filter.push(frame.data);
+            if (text) yield { type: 'delta', content: text };
+          } else if (frame.event === 'error') {
+            let detail = frame.data;
+            try { detail = JSON.parse(frame.data).detail || detail; } catch { /* plain text */ }
+            throw new ProviderError(`${options.label} prediction failed: ${detail}`, 500);
+          } else if (frame.event === 'done') {
+            try {
+              if (JSON.parse(frame.data).reason === 'canceled') finishReason = 'abort';
+            } catch { /* "{}" or empty */ }
+            break streaming;
+          }
+        }
+        if (done) break;
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+
+    const rest = filter.flush();
+    if (rest) yield { type: 'delta', content: rest };
+
+    // Token counts are only on the finished prediction
+    const usage = await getPrediction(prediction.urls.get, apiKey, signal)
+      .then(predictionUsage)
+      .catch(() => undefined);
+    yield { type: 'finish', finishReason, usage };
+  }
+
+  async function* pollPrediction(
+    prediction: Prediction,
+    apiKey: string,
+    stop: string[],
+    signal: AbortSignal
+  ): AsyncGenerator<ProviderEvent> {
+    const filter = createStopFilter(stop);
+    let emitted = 0;
+    let current = prediction;
+
+    while (true) {
+      const text = outputText(current.output);
+      if (text.length > emitted) {
+        const delta = filter.push(text.slice(emitted));
+        emitted = text.length;
+        if (delta) yield { type: 'delta', content: delta };
+      }
+
+      if (current.status === 'failed') {
+        throw new ProviderError(`${options.label} prediction failed: ${current.error || 'unknown error'}`, 500);
+      }
+      if (current.status === 'succeeded' || current.status === 'canceled') {
+        const rest = filter.flush();
+        if (rest) yield { type: 'delta', content: rest };
+        yield {
+          type: 'finish',
+          finishReason: current.status === 'canceled' ? 'abort' : 'stop',
+          usage: predictionUsage(current),
+        };
+        return;
+      }
+
+      await sleep(POLL_INTERVAL_MS, signal);
+      current = await getPrediction(current.urls.get, apiKey, signal);
+    }
+  }
+
+  async function* withCancel(
+    events: AsyncGenerator<ProviderEvent>,
+    prediction: Prediction,
+    apiKey: string,
+    signal: AbortSignal
+  ): AsyncGenerator<ProviderEvent> {
+    // Stopping the reply stops the (billed) prediction too
+    const cancel = () => {
+      fetch(prediction.urls.cancel, { method: 'POST', headers: { 'Authorization': `Bearer ${apiKey}` } })
+        .catch(error => console.warn(`⚠️ Failed to cancel Replicate prediction ${prediction.id}:`, (error as Error).message));
+    };
+    signal.addEventListener('abort', cancel, { once: true });
+    try {
+      yield* events;
+    } finally {
+      signal.removeEventListener('abort', cancel);
+    }
+  }
+
+  return {
+    id: options.id,
+    label: options.label,
+    capabilities: options.capabilities,
+
+    isConfigured() {
+      return !!process.env[options.apiKeyEnv];
+    },
+
+    async streamChat(request: ProviderChatRequest) {
+      const apiKey = process.env[options.apiKeyEnv];
+      if (!apiKey) {
+        throw new Error(`${options.apiKeyEnv} is not configured on the server.`);
+      }
+
+      const template = chatTemplateFor(request.model, resolveTemplate());
+      const { prompt, stop } = renderChatPrompt(template, request.system, requestTurns(request.history, request.input));
+      const maxTokens = request.maxTokens ?? options.capabilities.maxOutputTokens;
+      const { url, version } = predictionTarget(request.model);
+
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ...(version && { version }),
+          // Input names differ between model families; models ignore the ones they don't define
+          input: {
+            prompt,
+            // The prompt is already templated; don't let the model wrap it again
+            prompt_template: '{prompt}',
+            max_tokens: maxTokens,
+            max_new_tokens: maxTokens,
+            temperature: request.temperature ?? 0.7,
+            stop_sequences: stop.join(','),
+          },
+          stream: true,
+        }),
+        signal: request.signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new ProviderError(`${options.label} API Error: ${response.status} - ${errorText}`, response.status);
+      }
+
+      const prediction: Prediction = await response.json();
+      const events = prediction.urls.stream
+        ? streamPrediction(prediction, apiKey, stop, request.signal)
+        : pollPrediction(prediction, apiKey, stop, request.signal);
+
+      return withCancel(events, prediction, apiKey, request.signal);
+    },
+  };
+}
@@ -0,0 +1,108 @@
+// src/lib/providers/sse.ts - SSE helpers shared by all providers
+
+import type { Citation, RoutingInfo } from '../types';
+import { ChatStreamEvent, encodeChatEvent } from '../chatStream/protocol';
+import { ProviderEvent } from './types';
+
+/**
+ * Split an upstream SSE body into `data:` payloads. Buffers across network
+ * chunks so frames split mid-line are reassembled.
+ */
+export async function* readSSEData(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (line.startsWith('data:')) {
+          const data = line.substring(5).trim();
+          if (data) yield data;
+        }
+      }
+    }
+
+    const rest = buffer.trim();
+    if (rest.startsWith('data:') && rest.length > 5) {
+      yield rest.substring(5).trim();
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+export interface StreamMeta {
+  model: string;
+  provider: string;
+  lane?: string;
+  routing?: RoutingInfo;
+}
+
+/**
+ * Encode normalized provider events as typed chat stream events: meta
+ * first, then citations known up front, deltas/reasoning as they arrive,
+ * usage and done. A failure mid-stream becomes an `error` event instead of
+ * a dropped connection. If the client goes away, `abortController` is
+ * aborted to stop the upstream request and iteration ends.
+ */
+export function toClientSSEStream(
+  events: AsyncIterable<ProviderEvent>,
+  meta: StreamMeta,
+  startedAt: number = Date.now(),
+  citations: Citation[] = [],
+  abortController?: AbortController
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let cancelled = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeChatEvent(event)));
+      };
+
+      send({ type: 'meta', ...meta });
+      citations.forEach(citation => send({ type: 'citation', citation }));
+
+      try {
+        let finishReason = 'stop';
+        for await (const event of events) {
+          if (cancelled) break;
+          if (event.type === 'delta' && event.content) {
+            send({ type: 'delta', text: event.content });
+          } else if (event.type === 'reasoning' && event.content) {
+            send({ type: 'reasoning', text: event.content });
+          } else if (event.type === 'citation') {
+            send({ type: 'citation', citation: event.citation });
+          } else if (event.type === 'tool_call') {
+            send({ type: 'tool_call', toolCall: event.toolCall });
+          } else if (event.type === 'finish') {
+            finishReason = event.finishReason || 'stop';
+            send({ type: 'usage', usage: event.usage || {}, latencyMs: Date.now() - startedAt });
+          }
+        }
+        send({ type: 'done', finishReason });
+      } catch (error) {
+        // Aborting on cancel makes the upstream read fail; nobody is listening
+        if (cancelled) return;
+        console.error(`${meta.provider.toUpperCase()} Stream Error:`, error);
+        send({ type: 'error', message: (error as Error).message || 'The reply stream failed' });
+        send({ type: 'done', finishReason: 'error' });
+      }
+      if (!cancelled) controller.close();
+    },
+
+    cancel() {
+      cancelled = true;
+      abortController?.abort();
+    },
+  });
+}
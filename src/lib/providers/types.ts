@@ -0,0 +1,118 @@
+// src/lib/providers/types.ts - Shared types for pluggable LLM providers
+
+import type { Citation, ToolCall } from '../types';
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatTurn {
+  role: ChatRole;
+  content: string;
+}
+
+/**
+ * What a provider can do. The chat route uses this to decide whether a
+ * request can be served (e.g. images need `vision`).
+ */
+export interface ProviderCapabilities {
+  vision: boolean;
+  streaming: boolean;
+  /** Context window in tokens */
+  contextWindow: number;
+  /** Maximum output tokens we ask for */
+  maxOutputTokens: number;
+  /** Models served by this provider that support function calling */
+  toolModels?: RegExp;
+}
+
+/** JSON Schema subset used to describe tool parameters */
+export interface JSONSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: (string | number)[];
+  additionalProperties?: boolean;
+}
+
+/** A function the model may call, as sent to the provider */
+export interface ToolSpec {
+  name: string;
+  description: string;
+  parameters: JSONSchema;
+}
+
+/** A function call requested by the model */
+export interface ToolRequest {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * One round of function calling, replayed to the model on the next call:
+ * what it said and asked for, then what the tools returned.
+ */
+export interface ToolTurn {
+  text: string;
+  calls: ToolRequest[];
+  /** Serialized tool output, keyed by call id */
+  results: Record<string, string>;
+}
+
+/**
+ * Provider-neutral chat request. Each provider converts this into its own
+ * wire format.
+ */
+export interface ProviderChatRequest {
+  model: string;
+  system: string;
+  history: ChatTurn[];
+  input: string;
+  imageUrls: string[];
+  temperature?: number;
+  maxTokens?: number;
+  /** Functions the model may call; only sent to models listed in `toolModels` */
+  tools?: ToolSpec[];
+  /** "none" asks for an answer without further calls */
+  toolChoice?: 'auto' | 'none';
+  /** Earlier function calling rounds of this reply, after `input` */
+  toolTurns?: ToolTurn[];
+  signal: AbortSignal;
+}
+
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+}
+
+/**
+ * Normalized stream events emitted by every provider
+ */
+export type ProviderEvent =
+  | { type: 'delta'; content: string }
+  /** Reasoning / thinking text, from models that expose it */
+  | { type: 'reasoning'; content: string }
+  /** A source the model cited (e.g. search grounding) */
+  | { type: 'citation'; citation: Citation }
+  /** The model wants a tool run; consumed by the tool loop */
+  | { type: 'tool_request'; request: ToolRequest }
+  /** Progress of a tool invocation, forwarded to the client */
+  | { type: 'tool_call'; toolCall: ToolCall }
+  | { type: 'finish'; finishReason?: string; usage?: TokenUsage };
+
+export interface ChatProvider {
+  /** Registry key, also sent to the client in the X-Provider header */
+  id: string;
+  /** Human readable name for logs and UI */
+  label: string;
+  capabilities: ProviderCapabilities;
+  /** Whether the provider has the credentials it needs */
+  isConfigured(): boolean;
+  /**
+   * Start a streaming completion. Must reject if the upstream request fails
+   * before any output was produced.
+   */
+  streamChat(request: ProviderChatRequest): Promise<AsyncIterable<ProviderEvent>>;
+}
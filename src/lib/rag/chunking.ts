@@ -0,0 +1,75 @@
+// src/lib/rag/chunking.ts - Split extracted documents into retrievable chunks
+
+import { DocumentSection } from '@/lib/documents/extract';
+
+export interface DocumentChunk {
+  index: number;
+  /** Where the chunk came from, e.g. "page 4" or "slide 2" */
+  location: string;
+  text: string;
+}
+
+interface ChunkOptions {
+  /** Target chunk size in characters */
+  maxChars?: number;
+  /** Characters repeated between consecutive chunks of a section */
+  overlap?: number;
+}
+
+/**
+ * Break a section into chunks on paragraph, then sentence, then word
+ * boundaries so chunks stay readable.
+ */
+function splitText(text: string, maxChars: number, overlap: number): string[] {
+  const normalized = text.replace(/\r\n/g, '\n').replace(/[ \t]+/g, ' ').trim();
+  if (normalized.length <= maxChars) return normalized ? [normalized] : [];
+
+  const chunks: string[] = [];
+  let start = 0;
+
+  while (start < normalized.length) {
+    let end = Math.min(start + maxChars, normalized.length);
+
+    if (end < normalized.length) {
+      const window = normalized.substring(start, end);
+      const breakAt = Math.max(
+        window.lastIndexOf('\n\n'),
+        window.lastIndexOf('. '),
+        window.lastIndexOf('\n'),
+      );
+      if (breakAt > maxChars * 0.5) {
+        end = start + breakAt + 1;
+      } else {
+        const space = window.lastIndexOf(' ');
+        if (space > maxChars * 0.5) end = start + space;
+      }
+    }
+
+    const chunk = normalized.substring(start, end).trim();
+    if (chunk) chunks.push(chunk);
+    if (end >= normalized.length) break;
+    start = Math.max(end - overlap, start + 1);
+  }
+
+  return chunks;
+}
+
+/**
+ * Chunk every section of a document, keeping each chunk's location
+ */
+export function chunkSections(sections: DocumentSection[], options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChars = options.maxChars ?? 1500;
+  const overlap = options.overlap ?? 200;
+  const chunks: DocumentChunk[] = [];
+
+  sections.forEach((section, sectionIndex) => {
+    const parts = splitText(section.text, maxChars, overlap);
+    parts.forEach((text, partIndex) => {
+      const location = section.label
+        ?? (sections.length > 1 ? `section ${sectionIndex + 1}` : `part ${partIndex + 1}`);
+      chunks.push({ index: chunks.length, location, text });
+    });
+  });
+
+  return chunks;
+}
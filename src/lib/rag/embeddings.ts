@@ -0,0 +1,86 @@
+// src/lib/rag/embeddings.ts - Text embeddings (Gemini, with a local fallback)
+
+import { createGoogleGenerativeAI } from '@ai-sdk/google';
+import { embedMany } from 'ai';
+
+export const GEMINI_EMBEDDING_MODEL = 'text-embedding-004';
+export const LOCAL_EMBEDDING_MODEL = 'local-hash-512';
+
+const LOCAL_DIMENSIONS = 512;
+
+export interface EmbeddingResult {
+  /** Identifies the vector space; query and chunks must use the same one */
+  model: string;
+  vectors: number[][];
+}
+
+function hashToken(token: string): number {
+  // FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < token.length; i++) {
+    hash ^= token.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Hashed bag-of-words embedding. Works offline and without an API key; much
+ * weaker than a learned model but good enough for keyword-style retrieval.
+ */
+export function localEmbedding(text: string): number[] {
+  const vector = new Array(LOCAL_DIMENSIONS).fill(0);
+  const tokens = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+  const add = (feature: string, weight: number) => {
+    const hash = hashToken(feature);
+    const sign = hash & 1 ? 1 : -1;
+    vector[hash % LOCAL_DIMENSIONS] += sign * weight;
+  };
+
+  tokens.forEach((token, i) => {
+    add(token, 1);
+    if (i > 0) add(`${tokens[i - 1]} ${token}`, 0.5);
+  });
+
+  const norm = Math.sqrt(vector.reduce((sum, v) => sum + v * v, 0)) || 1;
+  return vector.map(v => v / norm);
+}
+
+function geminiApiKey(): string | undefined {
+  return process.env.GEMINI_API_KEY_DAILY || process.env.GEMINI_API_KEY_COMPLEX;
+}
+
+/**
+ * Embed texts with the given model, or the best available one if omitted
+ */
+export async function embedTexts(texts: string[], model?: string): Promise<EmbeddingResult> {
+  const apiKey = geminiApiKey();
+  const useGemini = model ? model === GEMINI_EMBEDDING_MODEL : !!apiKey;
+
+  if (useGemini) {
+    if (!apiKey) {
+      throw new Error('Gemini embeddings requested but no GEMINI_API_KEY is configured.');
+    }
+    const googleAI = createGoogleGenerativeAI({ apiKey });
+    const { embeddings } = await embedMany({
+      model: googleAI.textEmbeddingModel(GEMINI_EMBEDDING_MODEL),
+      values: texts,
+    });
+    return { model: GEMINI_EMBEDDING_MODEL, vectors: embeddings };
+  }
+
+  return { model: LOCAL_EMBEDDING_MODEL, vectors: texts.map(localEmbedding) };
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length && i < b.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
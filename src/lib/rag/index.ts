@@ -0,0 +1,170 @@
+// src/lib/rag/index.ts - Index context files at upload time, retrieve top-k chunks per message
+
+import { admin, adminDb } from '@/lib/firebase-admin';
+import { extractWithCache } from '@/lib/documents/cache';
+import { chunkSections } from './chunking';
+import { embedTexts } from './embeddings';
+import { getVectorStore, IndexedFile, ScoredChunk } from './vectorStore';
+
+export interface ContextFileRecord {
+  id: string;
+  name: string;
+  url: string;
+  contentType?: string;
+  /** Images to send alongside text (image files, or images embedded in documents) */
+  imageUrls?: string[];
+  embeddingModel?: string;
+  chunkCount?: number;
+  indexStatus?: 'ready' | 'failed';
+  /** When the file was last indexed; the version of its chunks */
+  indexedAt?: string;
+  /** Failed indexing attempts in a row */
+  indexFailures?: number;
+  /** Earliest time (ms) a failed file is indexed again */
+  indexRetryAt?: number;
+  /** Project the file belongs to; missing on files uploaded before projects */
+  projectId?: string | null;
+}
+
+export const RAG_TOP_K = Number(process.env.RAG_TOP_K ?? 8);
+
+// A failed file is retried after 1 minute, then 2, 4... up to a day
+const RETRY_BASE_MS = 60 * 1000;
+const RETRY_MAX_MS = 24 * 60 * 60 * 1000;
+
+const contextFilesRef = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('contextFiles');
+
+/**
+ * Extract, chunk and embed a context file, then record the result on its
+ * Firestore document. Safe to call again to re-index.
+ */
+export async function indexContextFile(
+  userId: string,
+  file: Pick<ContextFileRecord, 'id' | 'name' | 'url' | 'indexFailures'>
+): Promise<ContextFileRecord> {
+  const fileRef = contextFilesRef(userId).doc(file.id);
+
+  try {
+    const document = await extractWithCache({ url: file.url }, { maxRowsPerSheet: 1000 });
+    const { contentType } = document;
+    const chunks = chunkSections(document.sections);
+    const indexedAt = new Date().toISOString();
+
+    let embeddingModel: string | undefined;
+    if (chunks.length > 0) {
+      const { model, vectors } = await embedTexts(chunks.map(c => c.text));
+      embeddingModel = model;
+      await getVectorStore().upsertChunks(userId, file.id, chunks.map((chunk, i) => ({
+        ...chunk,
+        fileId: file.id,
+        fileName: file.name,
+        embedding: vectors[i],
+      })), indexedAt);
+    }
+
+    const record: ContextFileRecord = {
+      ...file,
+      contentType,
+      imageUrls: document.imageUrls,
+      chunkCount: chunks.length,
+      indexStatus: 'ready',
+      indexedAt,
+      ...(embeddingModel && { embeddingModel }),
+    };
+
+    const { FieldValue } = admin.firestore;
+    await fileRef.set({
+      contentType,
+      imageUrls: document.imageUrls,
+      chunkCount: chunks.length,
+      indexStatus: 'ready',
+      indexedAt,
+      indexFailures: FieldValue.delete(),
+      indexRetryAt: FieldValue.delete(),
+      ...(embeddingModel && { embeddingModel }),
+    }, { merge: true });
+
+    console.log(`📚 Indexed ${file.name}: ${chunks.length} chunks (${embeddingModel || 'no text'})`);
+    return record;
+  } catch (error) {
+    const indexFailures = (file.indexFailures ?? 0) + 1;
+    const indexRetryAt = Date.now() + Math.min(RETRY_BASE_MS * 2 ** (indexFailures - 1), RETRY_MAX_MS);
+    console.error(`❌ Failed to index context file ${file.name} (attempt ${indexFailures}):`, error);
+    await fileRef.set({ indexStatus: 'failed', indexFailures, indexRetryAt }, { merge: true }).catch(() => {});
+    return { ...file, indexStatus: 'failed', indexFailures, indexRetryAt };
+  }
+}
+
+/**
+ * All of the user's context file records, as stored
+ */
+export async function listContextFiles(userId: string): Promise<ContextFileRecord[]> {
+  const snapshot = await contextFilesRef(userId).get();
+  return snapshot.docs.map((doc: any) => ({ id: doc.id, ...doc.data() }) as ContextFileRecord);
+}
+
+/**
+ * Load the user's context file records for the given URLs or ids, indexing
+ * any that were uploaded before indexing existed. Files that failed are
+ * retried once their backoff has passed, not on every message.
+ */
+export async function loadContextFiles(
+  userId: string,
+  urls: string[],
+  ids: string[] = []
+): Promise<ContextFileRecord[]> {
+  const wantedUrls = new Set(urls);
+  const wantedIds = new Set(ids);
+  const files = (await listContextFiles(userId)).filter(file => wantedUrls.has(file.url) || wantedIds.has(file.id));
+
+  const now = Date.now();
+  return Promise.all(files.map(file =>
+    file.indexStatus === 'ready' || (file.indexRetryAt ?? 0) > now ? file : indexContextFile(userId, file)
+  ));
+}
+
+/**
+ * Top-k chunks across the given files most relevant to the query
+ */
+export async function retrieveContext(
+  userId: string,
+  files: ContextFileRecord[],
+  query: string,
+  topK: number = RAG_TOP_K
+): Promise<ScoredChunk[]> {
+  // Chunks can only be compared with a query embedded in the same space
+  const byModel = new Map<string, IndexedFile[]>();
+  files.forEach(file => {
+    if (!file.embeddingModel || !file.chunkCount) return;
+    const indexed: IndexedFile = { fileId: file.id, version: file.indexedAt };
+    byModel.set(file.embeddingModel, [...(byModel.get(file.embeddingModel) || []), indexed]);
+  });
+
+  const results = await Promise.all(Array.from(byModel.entries()).map(async ([model, indexedFiles]) => {
+    const { vectors } = await embedTexts([query], model);
+    return getVectorStore().query(userId, indexedFiles, vectors[0], topK);
+  }));
+
+  return results.flat().sort((a, b) => b.score - a.score).slice(0, topK);
+}
+
+/**
+ * Render retrieved chunks for the prompt, grouped by file in reading order
+ */
+export function formatContextChunks(chunks: ScoredChunk[]): string {
+  const ordered = [...chunks].sort((a, b) =>
+    a.fileName === b.fileName ? a.index - b.index : a.fileName.localeCompare(b.fileName)
+  );
+
+  return ordered
+    .map(chunk => `--- Context: ${chunk.fileName} (${chunk.location}) ---\n${chunk.text}\n--- End ${chunk.fileName} ---`)
+    .join('\n\n');
+}
+
+/**
+ * Drop a file's chunks from the vector store
+ */
+export async function deleteContextFileIndex(userId: string, fileId: string): Promise<void> {
+  await getVectorStore().deleteFile(userId, fileId);
+}
@@ -0,0 +1,126 @@
+// src/lib/rag/vectorStore.ts - Chunk vector storage (Firestore or in-memory)
+
+import { adminDb } from '@/lib/firebase-admin';
+import { DocumentChunk } from './chunking';
+import { cosineSimilarity } from './embeddings';
+
+export interface StoredChunk extends DocumentChunk {
+  fileId: string;
+  fileName: string;
+  embedding: number[];
+}
+
+export interface ScoredChunk extends Omit<StoredChunk, 'embedding'> {
+  score: number;
+}
+
+/** A file to search, with the version of its index (its indexedAt) */
+export interface IndexedFile {
+  fileId: string;
+  version?: string;
+}
+
+export interface VectorStore {
+  upsertChunks(userId: string, fileId: string, chunks: StoredChunk[], version?: string): Promise<void>;
+  deleteFile(userId: string, fileId: string): Promise<void>;
+  query(userId: string, files: IndexedFile[], vector: number[], topK: number): Promise<ScoredChunk[]>;
+}
+
+function rank(chunks: StoredChunk[], vector: number[], topK: number): ScoredChunk[] {
+  return chunks
+    .map(({ embedding, ...chunk }) => ({ ...chunk, score: cosineSimilarity(vector, embedding) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, topK);
+}
+
+/**
+ * Process-local store for development and tests. Lost on restart.
+ */
+export class MemoryVectorStore implements VectorStore {
+  private files = new Map<string, StoredChunk[]>();
+
+  async upsertChunks(userId: string, fileId: string, chunks: StoredChunk[]) {
+    this.files.set(`${userId}/${fileId}`, chunks);
+  }
+
+  async deleteFile(userId: string, fileId: string) {
+    this.files.delete(`${userId}/${fileId}`);
+  }
+
+  async query(userId: string, files: IndexedFile[], vector: number[], topK: number) {
+    const chunks = files.flatMap(({ fileId }) => this.files.get(`${userId}/${fileId}`) || []);
+    return rank(chunks, vector, topK);
+  }
+}
+
+/**
+ * Stores chunks in users/{uid}/contextFiles/{fileId}/chunks and scores them
+ * in-process. Loaded chunks are cached per instance with the index version
+ * they were loaded for, so a file re-indexed elsewhere is read again.
+ */
+export class FirestoreVectorStore implements VectorStore {
+  private cache = new Map<string, { version?: string; chunks: StoredChunk[] }>();
+  private static readonly MAX_CACHED_FILES = 100;
+
+  private chunksRef(userId: string, fileId: string) {
+    return adminDb.collection('users').doc(userId).collection('contextFiles').doc(fileId).collection('chunks');
+  }
+
+  async upsertChunks(userId: string, fileId: string, chunks: StoredChunk[], version?: string) {
+    await this.deleteFile(userId, fileId);
+
+    // Firestore batches are limited to 500 writes
+    for (let i = 0; i < chunks.length; i += 400) {
+      const batch = adminDb.batch();
+      chunks.slice(i, i + 400).forEach(chunk => {
+        batch.set(this.chunksRef(userId, fileId).doc(String(chunk.index)), chunk);
+      });
+      await batch.commit();
+    }
+    this.cache.set(`${userId}/${fileId}`, { version, chunks });
+  }
+
+  async deleteFile(userId: string, fileId: string) {
+    this.cache.delete(`${userId}/${fileId}`);
+    const snapshot = await this.chunksRef(userId, fileId).get();
+    for (let i = 0; i < snapshot.docs.length; i += 400) {
+      const batch = adminDb.batch();
+      snapshot.docs.slice(i, i + 400).forEach((doc: any) => batch.delete(doc.ref));
+      await batch.commit();
+    }
+  }
+
+  private async loadChunks(userId: string, { fileId, version }: IndexedFile): Promise<StoredChunk[]> {
+    const key = `${userId}/${fileId}`;
+    const cached = this.cache.get(key);
+    if (cached && cached.version === version) return cached.chunks;
+
+    const snapshot = await this.chunksRef(userId, fileId).get();
+    const chunks = snapshot.docs.map((doc: any) => doc.data() as StoredChunk);
+
+    this.cache.delete(key);
+    if (this.cache.size >= FirestoreVectorStore.MAX_CACHED_FILES) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest) this.cache.delete(oldest);
+    }
+    this.cache.set(key, { version, chunks });
+    return chunks;
+  }
+
+  async query(userId: string, files: IndexedFile[], vector: number[], topK: number) {
+    const perFile = await Promise.all(files.map(file => this.loadChunks(userId, file)));
+    return rank(perFile.flat(), vector, topK);
+  }
+}
+
+let store: VectorStore | null = null;
+
+/**
+ * Active vector store. Set VECTOR_STORE=memory to keep chunks in process.
+ */
+export function getVectorStore(): VectorStore {
+  if (!store) {
+    store = process.env.VECTOR_STORE === 'memory' ? new MemoryVectorStore() : new FirestoreVectorStore();
+  }
+  return store;
+}
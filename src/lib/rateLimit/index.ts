@@ -0,0 +1,14 @@
+// src/lib/rateLimit/index.ts - One rate limiter for every API route
+//
+// A route authenticates, then counts the request under its policy:
+//
+//   const rate = await rateLimit('search', { userId, tier });
+//   if (!rate.allowed) return rateLimitedResponse(rate);
+//   return withRateLimitHeaders(NextResponse.json(result), rate);
+
+export { rateLimit, rateLimitHeaders, rateLimitedResponse, withRateLimitHeaders, clientIp } from './limiter';
+export type { RateLimitDecision, RateLimitSubject } from './limiter';
+export { getRateLimitPolicy, policyLimit, getRateLimitForTier, RATE_LIMIT_TIERS } from './policies';
+export type { RateLimitPolicy, RateLimitPolicyId, RateLimitFailMode } from './policies';
+export { createRateLimitStore, getRateLimitStore, setRateLimitStore, MemoryRateLimitStore, RedisRateLimitStore } from './stores';
+export type { RateLimitStore, RateLimitStoreKind } from './stores';
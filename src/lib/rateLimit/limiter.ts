@@ -0,0 +1,101 @@
+// src/lib/rateLimit/limiter.ts - Count a request against a policy and describe the outcome
+//
+// Fixed windows: each window of a policy is its own counter key, so every
+// store only needs an atomic increment with expiry.
+
+import type { UsageTier } from '../usage/types';
+import { getRateLimitPolicy, policyLimit, RateLimitPolicy, RateLimitPolicyId } from './policies';
+import { getRateLimitStore, RateLimitStore } from './stores';
+
+const KEY_PREFIX = 'auraiq:ratelimit';
+
+/** Who a request is counted for: a signed-in user, or else a client IP */
+export interface RateLimitSubject {
+  userId?: string;
+  tier?: UsageTier;
+  ip?: string;
+}
+
+export interface RateLimitDecision {
+  allowed: boolean;
+  policy: RateLimitPolicy;
+  limit: number;
+  remaining: number;
+  /** When the current window ends (ms since epoch) */
+  resetAt: number;
+  /** The store failed; `allowed` follows the policy's fail mode */
+  storeError?: boolean;
+}
+
+/**
+ * Client address from proxy headers. Only meaningful behind a proxy that
+ * sets them (as Vercel does).
+ */
+export function clientIp(request: Request): string {
+  const forwarded = request.headers.get('x-forwarded-for')?.split(',')[0]?.trim();
+  return forwarded || request.headers.get('x-real-ip') || 'unknown';
+}
+
+/**
+ * Count one request for `subject` under a policy
+ */
+export async function rateLimit(
+  policyId: RateLimitPolicyId,
+  subject: RateLimitSubject,
+  store: RateLimitStore = getRateLimitStore()
+): Promise<RateLimitDecision> {
+  const policy = getRateLimitPolicy(policyId);
+  const limit = policyLimit(policy, subject.tier);
+  const now = Date.now();
+  const windowIndex = Math.floor(now / policy.windowMs);
+  const resetAt = (windowIndex + 1) * policy.windowMs;
+  const who = subject.userId ? `user:${subject.userId}` : `ip:${subject.ip || 'unknown'}`;
+
+  try {
+    const count = await store.increment(`${KEY_PREFIX}:${policy.id}:${who}:${windowIndex}`, resetAt - now + 1000);
+    return { allowed: count <= limit, policy, limit, remaining: Math.max(0, limit - count), resetAt };
+  } catch (error) {
+    const allowed = policy.failMode === 'open';
+    console.error(`⚠️ Rate limit store (${store.name}) failed for ${policy.id}; failing ${policy.failMode}:`, error);
+    return { allowed, policy, limit, remaining: allowed ? limit : 0, resetAt, storeError: true };
+  }
+}
+
+/**
+ * Standard RateLimit-* headers (IETF draft), plus Retry-After when refused
+ */
+export function rateLimitHeaders(decision: RateLimitDecision): Record<string, string> {
+  const resetSeconds = Math.max(0, Math.ceil((decision.resetAt - Date.now()) / 1000));
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': decision.limit.toString(),
+    'RateLimit-Remaining': decision.remaining.toString(),
+    'RateLimit-Reset': resetSeconds.toString(),
+    'RateLimit-Policy': `${decision.limit};w=${Math.round(decision.policy.windowMs / 1000)}`,
+  };
+  if (!decision.allowed) {
+    headers['Retry-After'] = Math.max(1, resetSeconds).toString();
+  }
+  return headers;
+}
+
+/**
+ * Response for a refused request: 429 when over the limit, 503 when the
+ * store is down and the policy fails closed
+ */
+export function rateLimitedResponse(decision: RateLimitDecision): Response {
+  const body = decision.storeError
+    ? { error: 'Rate limiting is temporarily unavailable. Please try again shortly.' }
+    : { error: 'Rate limit exceeded. Please try again later.' };
+  return Response.json(body, {
+    status: decision.storeError ? 503 : 429,
+    headers: rateLimitHeaders(decision),
+  });
+}
+
+/** Add the rate limit headers to a response about to be returned */
+export function withRateLimitHeaders<T extends Response>(response: T, decision: RateLimitDecision): T {
+  for (const [name, value] of Object.entries(rateLimitHeaders(decision))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
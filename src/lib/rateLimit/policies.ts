@@ -0,0 +1,96 @@
+// src/lib/rateLimit/policies.ts - How many requests each route allows
+//
+// Policies can be tuned without a deploy through RATE_LIMIT_POLICIES, a JSON
+// object of partial policies keyed by id, e.g.
+// {"chat": {"tierLimits": {"free": 10}}, "upload": {"failMode": "open"}}.
+
+import type { UsageTier } from '../usage/types';
+
+/**
+ * What happens when the store can't be reached: "open" lets the request
+ * through, "closed" refuses it with a 503
+ */
+export type RateLimitFailMode = 'open' | 'closed';
+
+export interface RateLimitPolicy {
+  /** Key prefix; requests under different policies are counted separately */
+  id: string;
+  /** Requests allowed per window when the tier has no limit of its own */
+  limit: number;
+  tierLimits?: Partial<Record<UsageTier, number>>;
+  windowMs: number;
+  failMode: RateLimitFailMode;
+}
+
+/**
+ * Chat requests per minute by plan
+ */
+export const RATE_LIMIT_TIERS: Record<UsageTier, { requests: number; windowMs: number }> = {
+  free: { requests: 20, windowMs: 60 * 1000 },
+  basic: { requests: 50, windowMs: 60 * 1000 },
+  pro: { requests: 100, windowMs: 60 * 1000 },
+  enterprise: { requests: 500, windowMs: 60 * 1000 },
+};
+
+/**
+ * Get rate limit for a user based on their tier
+ */
+export function getRateLimitForTier(tier: UsageTier = 'free') {
+  return RATE_LIMIT_TIERS[tier];
+}
+
+const MINUTE = 60 * 1000;
+
+const chatTierLimits = Object.fromEntries(
+  Object.entries(RATE_LIMIT_TIERS).map(([tier, { requests }]) => [tier, requests])
+) as Record<UsageTier, number>;
+
+const DEFAULT_POLICIES = {
+  // Model calls. Open: a store outage shouldn't take chat down.
+  chat: { id: 'chat', limit: RATE_LIMIT_TIERS.free.requests, tierLimits: chatTierLimits, windowMs: MINUTE, failMode: 'open' },
+  'chat-iq1': { id: 'chat-iq1', limit: 30, windowMs: MINUTE, failMode: 'open' },
+  // Reattaching to and stopping streams, which clients retry on reconnect
+  'chat-stream': { id: 'chat-stream', limit: 120, windowMs: MINUTE, failMode: 'open' },
+  // Uploads cost storage and indexing. Closed: they can wait for the store.
+  upload: { id: 'upload', limit: 30, windowMs: MINUTE, failMode: 'closed' },
+  'file-delete': { id: 'file-delete', limit: 60, windowMs: MINUTE, failMode: 'open' },
+  'chat-transfer': { id: 'chat-transfer', limit: 10, windowMs: MINUTE, failMode: 'closed' },
+  search: { id: 'search', limit: 60, windowMs: MINUTE, failMode: 'open' },
+  // Small reads: models, usage
+  read: { id: 'read', limit: 120, windowMs: MINUTE, failMode: 'open' },
+  // Client error reports, often anonymous and keyed by IP
+  'log-error': { id: 'log-error', limit: 10, windowMs: MINUTE, failMode: 'open' },
+  // Cron jobs and admin tools behind CRON_SECRET
+  admin: { id: 'admin', limit: 30, windowMs: MINUTE, failMode: 'open' },
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyId = keyof typeof DEFAULT_POLICIES;
+
+function configuredOverrides(): Partial<Record<RateLimitPolicyId, Partial<RateLimitPolicy>>> {
+  const json = process.env.RATE_LIMIT_POLICIES;
+  if (!json) return {};
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    console.error('⚠️ Ignoring RATE_LIMIT_POLICIES:', (error as Error).message);
+    return {};
+  }
+}
+
+export function getRateLimitPolicy(id: RateLimitPolicyId): RateLimitPolicy {
+  const base: RateLimitPolicy = DEFAULT_POLICIES[id];
+  const override = configuredOverrides()[id];
+  if (!override) return base;
+  return {
+    ...base,
+    ...override,
+    id: base.id,
+    tierLimits: { ...base.tierLimits, ...override.tierLimits },
+    failMode: override.failMode === 'closed' || override.failMode === 'open' ? override.failMode : base.failMode,
+  };
+}
+
+/** Requests per window for a tier under a policy */
+export function policyLimit(policy: RateLimitPolicy, tier: UsageTier = 'free'): number {
+  return policy.tierLimits?.[tier] ?? policy.limit;
+}
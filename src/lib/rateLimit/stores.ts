@@ -0,0 +1,105 @@
+// src/lib/rateLimit/stores.ts - Counter stores for the rate limiter
+//
+// RATE_LIMIT_STORE picks one:
+// - "upstash": Upstash Redis over REST (UPSTASH_REDIS_REST_URL/TOKEN)
+// - "redis-local": a local Redis behind an Upstash-compatible REST proxy such
+//   as serverless-redis-http (RATE_LIMIT_REDIS_URL, default
+//   http://localhost:8079, and RATE_LIMIT_REDIS_TOKEN)
+// - "memory": per-instance counters, for development and tests
+// Unset, Upstash is used when configured and memory otherwise.
+
+import { Redis } from '@upstash/redis';
+
+export interface RateLimitStore {
+  /** Name for logs, e.g. "upstash" */
+  readonly name: string;
+  /**
+   * Add one hit to `key` and return the new count. The key expires after
+   * `ttlMs`; each window uses its own key.
+   */
+  increment(key: string, ttlMs: number): Promise<number>;
+}
+
+export type RateLimitStoreKind = 'upstash' | 'redis-local' | 'memory';
+
+/** Sweep expired memory counters at most this often */
+const MEMORY_SWEEP_MS = 60_000;
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  readonly name = 'memory';
+  private counters = new Map<string, { count: number; expiresAt: number }>();
+  private lastSweep = Date.now();
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    const now = Date.now();
+    this.sweep(now);
+
+    const counter = this.counters.get(key);
+    if (!counter || counter.expiresAt <= now) {
+      this.counters.set(key, { count: 1, expiresAt: now + ttlMs });
+      return 1;
+    }
+    return ++counter.count;
+  }
+
+  // Lazily, so nothing keeps a timer running in serverless instances
+  private sweep(now: number) {
+    if (now - this.lastSweep < MEMORY_SWEEP_MS) return;
+    this.lastSweep = now;
+    for (const [key, counter] of this.counters) {
+      if (counter.expiresAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+export class RedisRateLimitStore implements RateLimitStore {
+  constructor(readonly name: string, private redis: Redis) {}
+
+  async increment(key: string, ttlMs: number): Promise<number> {
+    // One round trip; the expiry is set on every hit, which is harmless for per-window keys
+    const [count] = await this.redis.multi().incr(key).pexpire(key, ttlMs).exec<[number, number]>();
+    return count;
+  }
+}
+
+function configuredKind(): RateLimitStoreKind {
+  const kind = process.env.RATE_LIMIT_STORE;
+  if (kind === 'upstash' || kind === 'redis-local' || kind === 'memory') return kind;
+  if (kind) console.error(`⚠️ Unknown RATE_LIMIT_STORE "${kind}", using the default`);
+  return process.env.UPSTASH_REDIS_REST_URL && process.env.UPSTASH_REDIS_REST_TOKEN ? 'upstash' : 'memory';
+}
+
+/**
+ * Build a store. Redis stores fall back to memory when their URL is missing,
+ * rather than constructing a client that fails on every request.
+ */
+export function createRateLimitStore(kind: RateLimitStoreKind = configuredKind()): RateLimitStore {
+  if (kind === 'upstash') {
+    const url = process.env.UPSTASH_REDIS_REST_URL;
+    const token = process.env.UPSTASH_REDIS_REST_TOKEN;
+    if (url && token) return new RedisRateLimitStore('upstash', new Redis({ url, token }));
+    console.warn('⚠️ RATE_LIMIT_STORE=upstash but UPSTASH_REDIS_REST_URL/TOKEN are not set; using memory');
+  }
+
+  if (kind === 'redis-local') {
+    const url = process.env.RATE_LIMIT_REDIS_URL || 'http://localhost:8079';
+    return new RedisRateLimitStore('redis-local', new Redis({ url, token: process.env.RATE_LIMIT_REDIS_TOKEN || 'local' }));
+  }
+
+  return new MemoryRateLimitStore();
+}
+
+let defaultStore: RateLimitStore | null = null;
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!defaultStore) {
+    defaultStore = createRateLimitStore();
+    console.log(`✅ Rate limiting with the ${defaultStore.name} store`);
+  }
+  return defaultStore;
+}
+
+/** Replace the shared store, e.g. with a memory store in scripts */
+export function setRateLimitStore(store: RateLimitStore): void {
+  defaultStore = store;
+}
@@ -0,0 +1,147 @@
+// src/lib/routing/classifier.ts - Local, rule-based scoring of a message
+//
+// Words like "error", "class" or "function" are common outside programming,
+// so they only count a little; code-shaped text (fences, stack traces,
+// syntax, file names) counts a lot, and signs of prose writing count against.
+
+export type TaskType = 'general' | 'coding';
+export type Complexity = 'low' | 'medium' | 'high';
+
+export interface TextClassification {
+  task: TaskType;
+  complexity: Complexity;
+  /** 0.5 (a coin flip) to 0.95 */
+  confidence: number;
+  /** Summed coding evidence; coding at CODING_THRESHOLD or more */
+  codingScore: number;
+  reasons: string[];
+}
+
+/** Coding evidence needed before a message counts as coding */
+export const CODING_THRESHOLD = 2;
+
+const CODE_FENCE = /```/;
+const STACK_TRACE = /Traceback \(most recent call last\)|^\s+at [\w.$<>]+ \(.*:\d+:\d+\)|Exception in thread|\b[A-Z]\w*(Error|Exception): /m;
+const CODE_SYNTAX = /\bdef \w+\(|\bfunction\s*\w*\s*\(|=>|\b(const|let|var) \w+ =|#include <|\bimport [\w{}*, ]+ from |\bfrom [\w.]+ import |\bpublic static void|\bSELECT .+ FROM\b|console\.log\(|\bprint\(|\w+\.\w+\(.*\);\s*$/im;
+const SOURCE_FILE = /\b[\w-]+\.(py|js|jsx|ts|tsx|java|cpp|cc|cs|go|rs|rb|php|sql|sh|kt|swift|ipynb)\b/i;
+
+/** Terms that mean programming wherever they appear */
+const TECH_TERMS = /\b(python|javascript|typescript|react|node\.?js|java|golang|sql|regex|api|npm|pip|git|github|docker|kubernetes|compiler|compile|runtime|segfault|null pointer|stack trace|algorithm|recursion|quicksort|time complexity|big o|linked list|hash ?map|refactor|unit tests?|pandas|numpy|dataframe|html|css|json|endpoint|database|frontend|backend)\b/gi;
+
+/** C++ and C# end in symbols, which \b can't bound */
+const SYMBOL_LANGUAGES = /(^|[\s(])(c\+\+|c#)(?=$|[\s.,;:!?)])/gim;
+
+/** Terms that are programming words only some of the time */
+const AMBIGUOUS_TERMS = /\b(code|coding|debug|bug|function|class|error|variable|loop|syntax|script|program|programming|implement)\b/gi;
+
+/** Signs the user wants help with writing, not software */
+const PROSE_TERMS = /\b(essay|paragraph|grammar|poem|story|letter|email|resume|cv|spelling|sentence|article|thesis|novel|chapter|lyrics|speech|caption)\b/gi;
+
+const REASONING_CUES = /\b(step[- ]by[- ]step|prove|derive|trade-?offs?|architecture|design an?|compare|analy[sz]e|optimi[sz]e|in depth|detailed|why does|explain (how|why)|pros and cons)\b/gi;
+
+const uniqueMatches = (text: string, pattern: RegExp) =>
+  [...new Set((text.match(pattern) || []).map(match => match.toLowerCase()))];
+
+const quote = (terms: string[]) => terms.slice(0, 3).map(term => `"${term}"`).join(', ');
+
+/**
+ * Coding evidence in a message. Attached content only counts when it is
+ * code-shaped: documents about software would otherwise pull every
+ * question about them into the coding lane.
+ */
+function scoreCoding(text: string, contextText: string, reasons: string[]): number {
+  let score = 0;
+
+  if (CODE_FENCE.test(text)) {
+    score += 3;
+    reasons.push('contains a code block');
+  }
+  if (STACK_TRACE.test(text)) {
+    score += 3;
+    reasons.push('contains a stack trace or exception');
+  }
+  if (CODE_SYNTAX.test(text)) {
+    score += 2;
+    reasons.push('contains code syntax');
+  }
+  const file = text.match(SOURCE_FILE);
+  if (file) {
+    score += 1.5;
+    reasons.push(`mentions a source file (${file[0]})`);
+  }
+
+  const tech = [
+    ...uniqueMatches(text, TECH_TERMS),
+    ...uniqueMatches(text, SYMBOL_LANGUAGES).map(match => match.trim().replace(/^\(/, '')),
+  ];
+  if (tech.length > 0) {
+    // One unambiguous term is enough on its own
+    score += Math.min(tech.length + 1, 3);
+    reasons.push(`mentions programming terms (${quote(tech)})`);
+  }
+
+  const ambiguous = uniqueMatches(text, AMBIGUOUS_TERMS);
+  if (ambiguous.length > 0) {
+    score += Math.min(ambiguous.length * 0.5, 1.5);
+    reasons.push(`uses words like ${quote(ambiguous)}`);
+  }
+
+  const prose = uniqueMatches(text, PROSE_TERMS);
+  if (prose.length > 0) {
+    score -= Math.min(prose.length * 1.5, 3);
+    reasons.push(`reads as writing help (${quote(prose)})`);
+  }
+
+  if (contextText && (CODE_FENCE.test(contextText) || STACK_TRACE.test(contextText) || CODE_SYNTAX.test(contextText))) {
+    score += 1.5;
+    reasons.push('attached content contains code');
+  }
+
+  return score;
+}
+
+function scoreComplexity(text: string, reasons: string[]): Complexity {
+  let score = 0;
+
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (words > 300) {
+    score += 2;
+    reasons.push(`long request (${words} words)`);
+  } else if (words > 120) {
+    score += 1;
+    reasons.push(`detailed request (${words} words)`);
+  }
+
+  const cues = uniqueMatches(text, REASONING_CUES);
+  if (cues.length > 0) {
+    score += Math.min(cues.length, 3);
+    reasons.push(`asks for reasoning (${quote(cues)})`);
+  }
+
+  const questions = (text.match(/\?/g) || []).length;
+  const listItems = (text.match(/^\s*(\d+[.)]|[-*•])\s+/gm) || []).length;
+  if (questions >= 3 || listItems >= 3) {
+    score += 1;
+    reasons.push('several questions or requirements');
+  }
+
+  return score >= 3 ? 'high' : score >= 1 ? 'medium' : 'low';
+}
+
+/**
+ * Classify a message by task and complexity from its wording alone
+ */
+export function classifyText(text: string, contextText: string = ''): TextClassification {
+  const reasons: string[] = [];
+  const codingScore = scoreCoding(text, contextText, reasons);
+  const complexity = scoreComplexity(text, reasons);
+  const confidence = Math.min(0.95, 0.5 + Math.abs(codingScore - CODING_THRESHOLD) / 4);
+
+  return {
+    task: codingScore >= CODING_THRESHOLD ? 'coding' : 'general',
+    complexity,
+    confidence: Math.round(confidence * 100) / 100,
+    codingScore,
+    reasons,
+  };
+}
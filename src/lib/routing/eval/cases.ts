@@ -0,0 +1,79 @@
+// src/lib/routing/eval/cases.ts - Labelled prompts for measuring auto-routing
+//
+// Add a case whenever a message is routed badly in practice. Labels are the
+// lane a careful human would pick in auto mode.
+
+import type { Lane } from '../../providers';
+import type { RoutingRequest } from '../router';
+
+export interface RoutingCase {
+  prompt: string;
+  expected: Lane;
+  /** Anything besides the message, e.g. attachments */
+  request?: Partial<Omit<RoutingRequest, 'input'>>;
+  /** Why the label is what it is, for cases that look surprising */
+  note?: string;
+}
+
+export const ROUTING_CASES: RoutingCase[] = [
+  // Everyday questions
+  { prompt: 'What is the capital of Australia?', expected: 'daily' },
+  { prompt: 'Give me a quick recipe for banana bread', expected: 'daily' },
+  { prompt: 'How many cups are in a litre?', expected: 'daily' },
+  { prompt: 'Suggest a name for my golden retriever puppy', expected: 'daily' },
+  { prompt: 'What time zone is Tokyo in?', expected: 'daily' },
+  { prompt: 'Translate "good morning" into Spanish', expected: 'daily' },
+
+  // Ambiguous words outside programming
+  { prompt: 'Can you find the error in my essay about climate change?', expected: 'daily', note: '"error" in writing' },
+  { prompt: 'Fix the grammar in this paragraph: their going to the store tomorow', expected: 'daily' },
+  { prompt: 'What is the function of the liver?', expected: 'daily', note: '"function" in biology' },
+  { prompt: 'I missed my yoga class, what stretches can I do at home?', expected: 'daily', note: '"class" as a lesson' },
+  { prompt: 'Write a short poem about a bug crawling on a leaf', expected: 'daily', note: '"bug" as an insect' },
+  { prompt: 'What is the dress code for a job interview at a bank?', expected: 'daily', note: '"code" as a rule' },
+  { prompt: 'My car shows an error light on the dashboard, what does it mean?', expected: 'daily' },
+  { prompt: 'Help me write a cover letter email for a marketing role', expected: 'daily' },
+
+  // Programming
+  { prompt: 'Write a Python function that reverses a linked list', expected: 'coding' },
+  { prompt: 'Why does my React component re-render on every keystroke?', expected: 'coding' },
+  { prompt: 'TypeError: Cannot read properties of undefined (reading \'map\')', expected: 'coding' },
+  { prompt: 'How do I undo the last commit in git without losing my changes?', expected: 'coding' },
+  { prompt: 'Explain the difference between let and const in JavaScript', expected: 'coding' },
+  { prompt: 'Write a SQL query that returns the top 5 customers by revenue', expected: 'coding' },
+  { prompt: '```\ndef add(a, b)\n    return a + b\n```\nwhy is this a syntax error?', expected: 'coding' },
+  { prompt: 'Traceback (most recent call last):\n  File "app.py", line 3, in <module>\nKeyError: \'id\'', expected: 'coding' },
+  { prompt: 'What is the time complexity of quicksort and why?', expected: 'coding', note: 'algorithm question' },
+  { prompt: 'Refactor this so it uses async/await: fetch(url).then(r => r.json()).then(console.log);', expected: 'coding' },
+  { prompt: 'How do I center a div with CSS?', expected: 'coding' },
+  { prompt: 'My Docker container exits immediately after starting, how do I debug it?', expected: 'coding' },
+  { prompt: 'Write a regex that matches UK postcodes', expected: 'coding' },
+  { prompt: 'What does segfault mean in C++?', expected: 'coding' },
+
+  // Complex, non-programming reasoning
+  {
+    prompt: 'Compare the trade-offs of renting versus buying a home over 10 years, step by step, including inflation, opportunity cost and maintenance.',
+    expected: 'coding',
+    note: 'complex requests go to the larger model',
+  },
+  {
+    prompt: 'Design a detailed 12-week marathon training plan and explain why each phase matters.',
+    expected: 'coding',
+    note: 'complex requests go to the larger model',
+  },
+
+  // Explicit task mode
+  { prompt: 'Tell me a joke', expected: 'coding', request: { taskType: 'coding' }, note: 'Coding mode chosen in the input' },
+  { prompt: 'Write a Python script to rename files', expected: 'daily', request: { taskType: 'daily' }, note: 'Daily mode chosen in the input' },
+
+  // Attachments
+  { prompt: 'What is in this picture?', expected: 'analysis', request: { imageCount: 1 } },
+  { prompt: 'Is there a bug in the code in this screenshot?', expected: 'analysis', request: { imageCount: 1 } },
+  { prompt: 'Summarize the key points of this report', expected: 'coding', request: { documents: ['report.pdf'] } },
+  {
+    prompt: 'What does this say about our refund policy?',
+    expected: 'daily',
+    request: { contextText: 'Refunds are issued within 14 days of purchase. Errors in billing are corrected on request.' },
+    note: 'context text mentions "errors" but is prose',
+  },
+];
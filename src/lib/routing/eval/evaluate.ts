@@ -0,0 +1,76 @@
+// src/lib/routing/eval/evaluate.ts - Routing accuracy over labelled prompts
+
+import type { Lane } from '../../providers';
+import { decideLane, DecideOptions, RoutingRequest } from '../router';
+import { RoutingCase } from './cases';
+
+export interface RoutingEvalFailure {
+  prompt: string;
+  expected: Lane;
+  actual: Lane;
+  reasons: string[];
+  note?: string;
+}
+
+export interface RoutingEvalReport {
+  total: number;
+  correct: number;
+  accuracy: number;
+  /** confusion[expected][actual] = count */
+  confusion: Partial<Record<Lane, Partial<Record<Lane, number>>>>;
+  /** Share of each lane's cases routed to it */
+  recall: Partial<Record<Lane, number>>;
+  failures: RoutingEvalFailure[];
+  /** How many decisions came from the rules and from the model */
+  sources: Record<string, number>;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+function caseRequest(routingCase: RoutingCase): RoutingRequest {
+  return {
+    input: routingCase.prompt,
+    imageCount: 0,
+    documents: [],
+    requiredTokens: 0,
+    ...routingCase.request,
+  };
+}
+
+/**
+ * Route every case with `decideLane` (no provider configuration involved)
+ * and compare with the labels
+ */
+export async function evaluateRouting(cases: RoutingCase[], options: DecideOptions = {}): Promise<RoutingEvalReport> {
+  const report: RoutingEvalReport = { total: cases.length, correct: 0, accuracy: 0, confusion: {}, recall: {}, failures: [], sources: {} };
+  const expectedCounts: Partial<Record<Lane, number>> = {};
+
+  // One at a time: with the model enabled this stays within provider rate limits
+  for (const routingCase of cases) {
+    const decision = await decideLane(caseRequest(routingCase), options);
+    const { expected } = routingCase;
+
+    const row = report.confusion[expected] ?? (report.confusion[expected] = {});
+    row[decision.lane] = (row[decision.lane] ?? 0) + 1;
+    expectedCounts[expected] = (expectedCounts[expected] ?? 0) + 1;
+    report.sources[decision.source] = (report.sources[decision.source] ?? 0) + 1;
+
+    if (decision.lane === expected) {
+      report.correct++;
+    } else {
+      report.failures.push({
+        prompt: routingCase.prompt,
+        expected,
+        actual: decision.lane,
+        reasons: decision.reasons,
+        ...(routingCase.note && { note: routingCase.note }),
+      });
+    }
+  }
+
+  report.accuracy = cases.length > 0 ? round(report.correct / cases.length) : 0;
+  for (const [lane, count] of Object.entries(expectedCounts) as [Lane, number][]) {
+    report.recall[lane] = round((report.confusion[lane]?.[lane] ?? 0) / count);
+  }
+  return report;
+}
@@ -0,0 +1,11 @@
+// src/lib/routing/index.ts - Auto-routing of chat messages to model lanes
+
+export { routeRequest, decideLane, fitLane, routingInfo } from './router';
+export type { RoutingRequest, RoutingDecision, DecideOptions } from './router';
+export { classifyText, CODING_THRESHOLD } from './classifier';
+export type { TextClassification, TaskType, Complexity } from './classifier';
+export { classifyWithModel, isLLMRoutingEnabled } from './llm';
+export { evaluateRouting } from './eval/evaluate';
+export type { RoutingEvalReport, RoutingEvalFailure } from './eval/evaluate';
+export { ROUTING_CASES } from './eval/cases';
+export type { RoutingCase } from './eval/cases';
@@ -0,0 +1,116 @@
+// src/lib/routing/llm.ts - Ask a cheap model to classify messages the rules are unsure about
+//
+// Off unless AI_ROUTER_LLM=true. Answers are cached by message text, so a
+// regenerated or repeated prompt doesn't pay for a second call.
+
+import { createHash } from 'crypto';
+import { getLaneChain, parseChain, streamWithFailover } from '../providers';
+import { estimateTokens } from '../tokens/estimate';
+import { Complexity, TaskType } from './classifier';
+
+export interface ModelClassification {
+  task: TaskType;
+  complexity: Complexity;
+  reason: string;
+}
+
+/** Rules confidence below which the model is asked */
+export const LLM_CONFIDENCE_THRESHOLD = Number(process.env.AI_ROUTER_LLM_THRESHOLD ?? 0.7);
+
+/** Routing must not hold up the reply for long */
+const ROUTER_TIMEOUT_MS = 3000;
+const ROUTER_INPUT_CHARS = 4000;
+
+const CACHE_SIZE = 500;
+const CACHE_TTL_MS = 60 * 60 * 1000;
+
+const ROUTER_SYSTEM_PROMPT = `You classify chat messages so they can be sent to the right model.
+
+Reply with JSON only, no prose:
+{"task": "coding" | "general", "complexity": "low" | "medium" | "high", "reason": "<at most 12 words>"}
+
+"coding" means writing, reading, debugging or explaining source code, shell commands, queries, configuration or other programming work. Errors in essays, documents, maths or everyday life are "general".
+"high" complexity means multi-step reasoning, design work or long detailed requirements.`;
+
+// Insertion-ordered, so the first key is the least recently used
+const cache = new Map<string, { value: ModelClassification; expiresAt: number }>();
+
+export function isLLMRoutingEnabled(): boolean {
+  return process.env.AI_ROUTER_LLM === 'true';
+}
+
+/** Cheap model chain: AI_ROUTER_CHAIN ("provider:model,...") or the daily lane */
+function routerChain() {
+  const spec = process.env.AI_ROUTER_CHAIN;
+  if (spec) {
+    try {
+      return parseChain(spec);
+    } catch (error) {
+      console.error('⚠️ Ignoring AI_ROUTER_CHAIN:', (error as Error).message);
+    }
+  }
+  return getLaneChain('daily');
+}
+
+function parseClassification(text: string): ModelClassification | null {
+  const json = text.match(/\{[\s\S]*\}/)?.[0];
+  if (!json) return null;
+
+  try {
+    const parsed = JSON.parse(json);
+    if (parsed.task !== 'coding' && parsed.task !== 'general') return null;
+    return {
+      task: parsed.task,
+      complexity: ['low', 'medium', 'high'].includes(parsed.complexity) ? parsed.complexity : 'medium',
+      reason: typeof parsed.reason === 'string' ? parsed.reason.slice(0, 120) : '',
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Classify a message with a model. Null when the call fails, times out or
+ * the answer isn't usable; callers keep the rules' decision then.
+ */
+export async function classifyWithModel(text: string): Promise<ModelClassification | null> {
+  const input = text.slice(0, ROUTER_INPUT_CHARS);
+  const key = createHash('sha256').update(input).digest('hex');
+
+  const hit = cache.get(key);
+  if (hit && hit.expiresAt > Date.now()) {
+    cache.delete(key);
+    cache.set(key, hit);
+    return hit.value;
+  }
+
+  try {
+    const { events } = await streamWithFailover('daily', routerChain(), {
+      system: ROUTER_SYSTEM_PROMPT,
+      history: [],
+      input,
+      imageUrls: [],
+      temperature: 0,
+      maxTokens: 60,
+      signal: AbortSignal.timeout(ROUTER_TIMEOUT_MS),
+    }, { inputTokens: estimateTokens(input) + estimateTokens(ROUTER_SYSTEM_PROMPT), retriesPerHop: 0 });
+
+    let answer = '';
+    for await (const event of events) {
+      if (event.type === 'delta') answer += event.content;
+    }
+
+    const value = parseClassification(answer);
+    if (!value) {
+      console.warn(`⚠️ Unusable routing answer: ${answer.slice(0, 200)}`);
+      return null;
+    }
+
+    cache.set(key, { value, expiresAt: Date.now() + CACHE_TTL_MS });
+    if (cache.size > CACHE_SIZE) cache.delete(cache.keys().next().value!);
+    return value;
+  } catch (error) {
+    console.warn('⚠️ Routing model failed, keeping the rules decision:', (error as Error).message);
+    return null;
+  }
+}
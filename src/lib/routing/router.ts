@@ -0,0 +1,195 @@
+// src/lib/routing/router.ts - Pick the lane that serves a message, and say why
+//
+// One place for every routing decision: an explicitly selected model,
+// attachments, the input's task mode, the message's task and complexity,
+// and finally whether the lane can take images and the context length.
+
+import { getLaneChain, usableHops, Lane } from '../providers';
+import type { RoutingInfo } from '../types';
+import { classifyText, Complexity, TaskType } from './classifier';
+import { classifyWithModel, isLLMRoutingEnabled, LLM_CONFIDENCE_THRESHOLD } from './llm';
+
+export interface RoutingRequest {
+  /** The user's message */
+  input: string;
+  /** Text of attached files and retrieved context */
+  contextText?: string;
+  /** Mode chosen in the chat input: "auto", "daily" or "coding" */
+  taskType?: string;
+  imageCount: number;
+  hasVideo?: boolean;
+  /** Names of attached documents (PDFs, Office files, text) */
+  documents: string[];
+  /** Estimated tokens the prompt needs, context included */
+  requiredTokens: number;
+  /** Model picked in the selector; omitted or null in auto mode */
+  selected?: { name: string; lane?: Lane } | null;
+}
+
+export interface RoutingDecision extends RoutingInfo {
+  lane: Lane;
+  /** Short label for logs and the reply's model name, e.g. "Coding" */
+  purpose: string;
+  task: TaskType | 'media' | 'documents';
+  complexity: Complexity;
+}
+
+export interface DecideOptions {
+  /** Ask a model when the rules are unsure */
+  llm?: boolean;
+}
+
+/** Lanes tried, in order, when the chosen one can't fit the context */
+const LARGER_LANES: Lane[] = ['coding', 'analysis'];
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Choose a lane from the request alone, without checking which providers
+ * are configured. This is what the routing eval measures.
+ */
+export async function decideLane(request: RoutingRequest, options: DecideOptions = {}): Promise<RoutingDecision> {
+  const classification = classifyText(request.input, request.contextText);
+  const { complexity } = classification;
+
+  if (request.selected?.lane) {
+    return {
+      lane: request.selected.lane,
+      purpose: request.selected.name,
+      task: classification.task,
+      complexity,
+      source: 'selected',
+      confidence: 1,
+      reasons: [`"${request.selected.name}" was selected`],
+    };
+  }
+
+  if (request.imageCount > 0 || request.hasVideo) {
+    const media = request.hasVideo ? 'a video' : plural(request.imageCount, 'image');
+    return {
+      lane: 'analysis',
+      purpose: 'Media Analysis',
+      task: 'media',
+      complexity,
+      source: 'rules',
+      confidence: 1,
+      reasons: [`${media} attached, which needs a vision model`],
+    };
+  }
+
+  if (request.documents.length > 0) {
+    const names = request.documents.slice(0, 3).join(', ');
+    return {
+      lane: 'coding',
+      purpose: 'Document Analysis',
+      task: 'documents',
+      complexity,
+      source: 'rules',
+      confidence: 0.9,
+      reasons: [`${plural(request.documents.length, 'document')} attached (${names}), read by the larger model`],
+    };
+  }
+
+  if (request.taskType === 'coding' || request.taskType === 'daily') {
+    const coding = request.taskType === 'coding';
+    return {
+      lane: coding ? 'coding' : 'daily',
+      purpose: coding ? 'Coding' : 'Daily',
+      task: coding ? 'coding' : 'general',
+      complexity,
+      source: 'rules',
+      confidence: 1,
+      reasons: [`${coding ? 'Coding' : 'Daily'} mode was chosen`],
+    };
+  }
+
+  let { task, confidence, reasons } = classification;
+  let finalComplexity = complexity;
+  let source: RoutingDecision['source'] = 'rules';
+
+  if (options.llm && confidence < LLM_CONFIDENCE_THRESHOLD) {
+    const answer = await classifyWithModel(request.input);
+    if (answer) {
+      source = 'llm';
+      task = answer.task;
+      finalComplexity = answer.complexity;
+      confidence = 0.8;
+      reasons = [
+        `rules were unsure (${classification.confidence})`,
+        ...(answer.reason ? [`classifier model: ${answer.reason}`] : []),
+      ];
+    }
+  }
+
+  if (task === 'coding') {
+    return { lane: 'coding', purpose: 'Coding', task, complexity: finalComplexity, source, confidence, reasons };
+  }
+  if (finalComplexity === 'high') {
+    return {
+      lane: 'coding',
+      purpose: 'Complex Reasoning',
+      task,
+      complexity: finalComplexity,
+      source,
+      confidence,
+      reasons: [...reasons, 'complex requests go to the larger model'],
+    };
+  }
+  return {
+    lane: 'daily',
+    purpose: 'Daily',
+    task,
+    complexity: finalComplexity,
+    source,
+    confidence,
+    reasons: reasons.length > 0 ? reasons : ['no coding or complexity signals'],
+  };
+}
+
+/**
+ * Move a decision to another lane when no configured provider in its lane
+ * can take the request's images or context length
+ */
+export function fitLane(decision: RoutingDecision, request: RoutingRequest): RoutingDecision {
+  const vision = request.imageCount > 0;
+
+  // Images need a vision-capable hop; borrow the analysis chain if this lane has none
+  if (vision && decision.lane !== 'analysis'
+    && usableHops(getLaneChain(decision.lane), { vision: true, inputTokens: 0 }).length === 0) {
+    return {
+      ...decision,
+      lane: 'analysis',
+      reasons: [...decision.reasons, `the ${decision.lane} lane has no vision-capable provider`],
+    };
+  }
+
+  const fits = (lane: Lane) =>
+    usableHops(getLaneChain(lane), { vision, inputTokens: request.requiredTokens }).length > 0;
+  if (fits(decision.lane)) return decision;
+
+  const larger = LARGER_LANES.find(lane => lane !== decision.lane && fits(lane));
+  if (!larger) return decision;
+
+  return {
+    ...decision,
+    lane: larger,
+    reasons: [
+      ...decision.reasons,
+      `needs about ${request.requiredTokens} tokens, more than the ${decision.lane} lane fits`,
+    ],
+  };
+}
+
+/**
+ * Route a chat request: decide, then fit the decision to what is configured
+ */
+export async function routeRequest(request: RoutingRequest): Promise<RoutingDecision> {
+  const decision = await decideLane(request, { llm: isLLMRoutingEnabled() });
+  return fitLane(decision, request);
+}
+
+/** The part of a decision sent to the client and stored on the reply */
+export function routingInfo(decision: RoutingDecision): RoutingInfo {
+  const { lane, source, confidence, reasons } = decision;
+  return { lane, source, confidence, reasons };
+}
@@ -0,0 +1,54 @@
+// src/lib/sandbox/format.ts - Store code runs compactly and describe them to the model
+//
+// Shared by the client (which stores runs on the reply) and the server
+// (which folds them into that reply's history turn).
+
+import { CodeRun } from '../types';
+
+/** Runs kept per reply, newest last */
+export const MAX_STORED_RUNS = 5;
+
+/** Output kept per stream when a run is stored */
+const MAX_STORED_OUTPUT_CHARS = 8_000;
+
+/** Output shown to the model per stream */
+const MAX_PROMPT_OUTPUT_CHARS = 4_000;
+
+/** Keep the end of long output: errors and final results print last */
+function keepTail(text: string, max: number): string {
+  if (text.length <= max) return text;
+  return `[…${text.length - max} characters cut]\n${text.slice(-max)}`;
+}
+
+/** A run as stored on the message, with long output cut */
+export function compactCodeRun(run: CodeRun): CodeRun {
+  return {
+    ...run,
+    stdout: keepTail(run.stdout, MAX_STORED_OUTPUT_CHARS),
+    stderr: keepTail(run.stderr, MAX_STORED_OUTPUT_CHARS),
+  };
+}
+
+/** Add a run to a reply's runs, dropping the oldest beyond the limit */
+export function appendCodeRun(runs: CodeRun[] | undefined, run: CodeRun): CodeRun[] {
+  return [...(runs || []), compactCodeRun(run)].slice(-MAX_STORED_RUNS);
+}
+
+function describeRun(run: CodeRun): string {
+  const firstLine = run.code.split('\n').find(line => line.trim())?.trim() || '';
+  const status = run.timedOut
+    ? 'timed out'
+    : `exit code ${run.exitCode}`;
+  const sections = [
+    `[The user ran the ${run.language} code block starting \`${firstLine.slice(0, 80)}\` in a sandbox: ${status}, ${run.durationMs} ms]`,
+  ];
+  if (run.stdout.trim()) sections.push(`stdout:\n\`\`\`\n${keepTail(run.stdout, MAX_PROMPT_OUTPUT_CHARS).trimEnd()}\n\`\`\``);
+  if (run.stderr.trim()) sections.push(`stderr:\n\`\`\`\n${keepTail(run.stderr, MAX_PROMPT_OUTPUT_CHARS).trimEnd()}\n\`\`\``);
+  if (!run.stdout.trim() && !run.stderr.trim()) sections.push('(no output)');
+  return sections.join('\n');
+}
+
+/** Text appended to a reply's history turn so the model sees what its code did */
+export function formatCodeRuns(runs: CodeRun[]): string {
+  return runs.map(describeRun).join('\n\n');
+}
@@ -0,0 +1,5 @@
+// src/lib/sandbox/index.ts - Run reply code blocks in the browser and report the output
+
+export { runCode, sandboxLanguage, EXIT_STOPPED, EXIT_TIMEOUT } from './runner';
+export type { RunOptions } from './runner';
+export { appendCodeRun, compactCodeRun, formatCodeRuns, MAX_STORED_RUNS } from './format';
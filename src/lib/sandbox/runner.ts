@@ -0,0 +1,137 @@
+// src/lib/sandbox/runner.ts - Run a code block in a throwaway Web Worker (browser only)
+//
+// Each run gets a fresh worker (public/sandbox-worker.js) that is terminated
+// when the run ends, so the time limit is enforced by killing it and no state
+// leaks between runs. The worker has no DOM, its CSP (set in middleware.ts)
+// allows no requests beyond the runtime CDN, and it drops storage access
+// before user code starts. Browsers offer no per-worker memory cap; a
+// run that exhausts memory crashes its own worker, not the page.
+
+import { CodeRun, SandboxLanguage } from '../types';
+
+const WORKER_URL = '/sandbox-worker.js';
+
+/** Time allowed for the code itself, once the runtime has loaded */
+const RUN_TIMEOUT_MS = 15_000;
+
+/** Pyodide is a large first download; loading has its own, longer limit */
+const LOAD_TIMEOUT_MS = 60_000;
+
+/** A run that prints more than this is stopped */
+const MAX_OUTPUT_CHARS = 200_000;
+
+export const EXIT_TIMEOUT = 124;
+export const EXIT_STOPPED = 130;
+
+export interface RunOptions {
+  /** Called with each chunk of output as it is printed */
+  onOutput?: (stream: 'stdout' | 'stderr', text: string) => void;
+  signal?: AbortSignal;
+  timeoutMs?: number;
+}
+
+/** Sandbox language for a Markdown code fence tag, or null if it can't run */
+export function sandboxLanguage(tag: string): SandboxLanguage | null {
+  switch (tag.toLowerCase()) {
+    case 'js':
+    case 'javascript':
+    case 'mjs':
+      return 'javascript';
+    case 'ts':
+    case 'typescript':
+      return 'typescript';
+    case 'py':
+    case 'python':
+    case 'python3':
+      return 'python';
+    default:
+      return null;
+  }
+}
+
+/**
+ * Run code and resolve with its output and exit code. Never rejects: load
+ * failures, timeouts and stops are reported through stderr and the exit code.
+ */
+export function runCode(language: SandboxLanguage, code: string, options: RunOptions = {}): Promise<CodeRun> {
+  const startedAt = Date.now();
+  let runStartedAt = startedAt;
+  let stdout = '';
+  let stderr = '';
+
+  return new Promise(resolve => {
+    const worker = new Worker(WORKER_URL);
+    let timer: ReturnType<typeof setTimeout>;
+    let settled = false;
+
+    const output = (stream: 'stdout' | 'stderr', text: string) => {
+      if (stream === 'stdout') stdout += text;
+      else stderr += text;
+      options.onOutput?.(stream, text);
+    };
+
+    const finish = (exitCode: number, timedOut = false) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      worker.terminate();
+      options.signal?.removeEventListener('abort', onAbort);
+      resolve({
+        id: crypto.randomUUID(),
+        language,
+        code,
+        stdout,
+        stderr,
+        exitCode,
+        ...(timedOut && { timedOut }),
+        durationMs: Date.now() - runStartedAt,
+        ranAt: startedAt,
+      });
+    };
+
+    const onAbort = () => {
+      output('stderr', '\n[Stopped]\n');
+      finish(EXIT_STOPPED);
+    };
+
+    const limit = (ms: number, message: string) => {
+      clearTimeout(timer);
+      timer = setTimeout(() => {
+        output('stderr', `\n[${message}]\n`);
+        finish(EXIT_TIMEOUT, true);
+      }, ms);
+    };
+
+    worker.onmessage = (event: MessageEvent) => {
+      const message = event.data;
+      if (message.type === 'ready') {
+        runStartedAt = Date.now();
+        const timeoutMs = options.timeoutMs ?? RUN_TIMEOUT_MS;
+        limit(timeoutMs, `Timed out after ${timeoutMs / 1000}s`);
+      } else if (message.type === 'stdout' || message.type === 'stderr') {
+        output(message.type, message.text);
+        if (stdout.length + stderr.length > MAX_OUTPUT_CHARS) {
+          output('stderr', '\n[Output limit reached, run stopped]\n');
+          finish(1);
+        }
+      } else if (message.type === 'exit') {
+        finish(message.code);
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      output('stderr', `Sandbox error: ${event.message || 'the worker crashed'}\n`);
+      finish(1);
+    };
+
+    if (options.signal?.aborted) {
+      onAbort();
+      return;
+    }
+    options.signal?.addEventListener('abort', onAbort, { once: true });
+
+    limit(LOAD_TIMEOUT_MS, `The ${language} runtime did not load within ${LOAD_TIMEOUT_MS / 1000}s`);
+    worker.postMessage({ language, code });
+  });
+}
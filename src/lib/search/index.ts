@@ -0,0 +1,206 @@
+// src/lib/search/index.ts - Message search index entries, ranking and snippets
+//
+// Each message gets one users/{uid}/searchIndex/{chatId}_{messageId} doc with
+// its stemmed terms. Queries fetch candidates with array-contains-any on
+// `terms`, then rank them here with BM25. Plain objects only, so both the
+// client (writing entries) and the server (querying) can use it.
+
+import { Message } from '../types';
+import { findWords, tokenize } from './tokenize';
+
+/** Longest message text kept for snippets */
+const SEARCH_TEXT_LIMIT = 20000;
+/** Firestore caps array-contains-any at 30 values */
+export const MAX_QUERY_TERMS = 10;
+const MAX_TERMS_PER_ENTRY = 500;
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+export interface SearchEntry {
+  chatId: string;
+  messageId: string;
+  sender: 'user' | 'ai';
+  text: string;
+  terms: string[];
+  termFreq: Record<string, number>;
+  length: number;
+  timestamp: number;
+  model: string | null;
+  hasAttachments: boolean;
+}
+
+export interface SearchFilters {
+  from?: number;
+  to?: number;
+  model?: string;
+  hasAttachments?: boolean;
+}
+
+export interface SearchHit {
+  chatId: string;
+  chatTitle?: string;
+  messageId: string;
+  sender: 'user' | 'ai';
+  snippet: string;
+  /** [start, end) offsets into snippet to highlight */
+  highlights: [number, number][];
+  score: number;
+  timestamp: number;
+  model: string | null;
+}
+
+export function searchEntryId(chatId: string, messageId: string): string {
+  return `${chatId}_${messageId}`;
+}
+
+export function buildSearchEntry(chatId: string, message: Message): SearchEntry {
+  const text = message.text.slice(0, SEARCH_TEXT_LIMIT);
+  const attachmentNames = (message.attachments || []).map(a => a.name).join(' ');
+  const termFreq: Record<string, number> = {};
+
+  tokenize(`${text} ${attachmentNames}`).forEach(term => {
+    termFreq[term] = (termFreq[term] || 0) + 1;
+  });
+
+  const terms = Object.keys(termFreq)
+    .sort((a, b) => termFreq[b] - termFreq[a])
+    .slice(0, MAX_TERMS_PER_ENTRY);
+
+  return {
+    chatId,
+    messageId: message.id,
+    sender: message.sender,
+    text,
+    terms,
+    termFreq: Object.fromEntries(terms.map(t => [t, termFreq[t]])),
+    length: Object.values(termFreq).reduce((sum, n) => sum + n, 0),
+    timestamp: message.timestamp || Date.now(),
+    model: message.model || null,
+    hasAttachments: (message.attachments?.length || 0) > 0,
+  };
+}
+
+export function queryTerms(query: string): string[] {
+  return Array.from(new Set(tokenize(query))).slice(0, MAX_QUERY_TERMS);
+}
+
+export function matchesFilters(entry: SearchEntry, filters: SearchFilters): boolean {
+  if (filters.from !== undefined && entry.timestamp < filters.from) return false;
+  if (filters.to !== undefined && entry.timestamp > filters.to) return false;
+  if (filters.model && entry.model !== filters.model) return false;
+  if (filters.hasAttachments !== undefined && entry.hasAttachments !== filters.hasAttachments) return false;
+  return true;
+}
+
+/**
+ * Snippet around the densest cluster of matching words, with highlight
+ * ranges relative to the returned string.
+ */
+export function buildSnippet(
+  text: string,
+  terms: string[],
+  radius: number = 90
+): { snippet: string; highlights: [number, number][] } {
+  const wanted = new Set(terms);
+  const matches = findWords(text).filter(w => wanted.has(w.term));
+
+  if (matches.length === 0) {
+    const snippet = text.slice(0, radius * 2);
+    return { snippet: snippet + (text.length > snippet.length ? '…' : ''), highlights: [] };
+  }
+
+  // Centre on the match with the most other matches nearby
+  let center = matches[0];
+  let bestDensity = 0;
+  for (const match of matches) {
+    const density = matches.filter(m => Math.abs(m.start - match.start) <= radius).length;
+    if (density > bestDensity) {
+      bestDensity = density;
+      center = match;
+    }
+  }
+
+  let start = Math.max(0, center.start - radius);
+  let end = Math.min(text.length, center.end + radius);
+  // Don't cut words in half
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < center.start) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > center.end) end = space;
+  }
+
+  const prefix = start > 0 ? '…' : '';
+  const suffix = end < text.length ? '…' : '';
+  const snippet = prefix + text.slice(start, end).replace(/\s+/g, ' ') + suffix;
+
+  // Recompute offsets on the whitespace-collapsed snippet
+  const highlights: [number, number][] = findWords(snippet)
+    .filter(w => wanted.has(w.term))
+    .map(w => [w.start, w.end]);
+
+  return { snippet, highlights };
+}
+
+/**
+ * Rank candidate entries for a query with BM25, boosting entries that match
+ * every term or contain the query as a phrase.
+ */
+export function rankEntries(
+  entries: SearchEntry[],
+  query: string,
+  filters: SearchFilters = {},
+  limit: number = 20
+): SearchHit[] {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return [];
+
+  const candidates = entries.filter(e => matchesFilters(e, filters));
+  if (candidates.length === 0) return [];
+
+  const avgLength = candidates.reduce((sum, e) => sum + e.length, 0) / candidates.length || 1;
+  const docFreq = new Map<string, number>();
+  terms.forEach(term => {
+    docFreq.set(term, candidates.filter(e => e.termFreq[term]).length);
+  });
+
+  const phrase = query.trim().toLowerCase();
+
+  return candidates
+    .map(entry => {
+      let score = 0;
+      let matched = 0;
+
+      for (const term of terms) {
+        const tf = entry.termFreq[term] || 0;
+        if (!tf) continue;
+        matched++;
+        const df = docFreq.get(term) || 0;
+        const idf = Math.log(1 + (candidates.length - df + 0.5) / (df + 0.5));
+        score += idf * (tf * (BM25_K1 + 1)) /
+          (tf + BM25_K1 * (1 - BM25_B + BM25_B * entry.length / avgLength));
+      }
+
+      score *= matched / terms.length;
+      if (terms.length > 1 && entry.text.toLowerCase().includes(phrase)) {
+        score *= 1.5;
+      }
+
+      return { entry, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score || b.entry.timestamp - a.entry.timestamp)
+    .slice(0, limit)
+    .map(({ entry, score }) => ({
+      chatId: entry.chatId,
+      messageId: entry.messageId,
+      sender: entry.sender,
+      ...buildSnippet(entry.text, terms),
+      score,
+      timestamp: entry.timestamp,
+      model: entry.model,
+    }));
+}
@@ -0,0 +1,147 @@
+// src/lib/search/store.ts - Server-side search over users/{uid}/searchIndex
+//
+// Filters are part of the Firestore query and candidates come newest first,
+// which needs composite indexes on terms (array-contains) + timestamp desc,
+// with model and hasAttachments equalities in front where they are used.
+// Firestore's error for a missing index links to creating it.
+
+import { admin, adminDb } from '../firebase-admin';
+import { messageFromFirestore } from '../messageSchema';
+import {
+  SearchEntry,
+  SearchFilters,
+  SearchHit,
+  buildSearchEntry,
+  queryTerms,
+  rankEntries,
+  searchEntryId,
+} from './index';
+
+/** Bump to rebuild every user's index on their next search */
+const SEARCH_INDEX_VERSION = 1;
+const MAX_CANDIDATES = 500;
+const BATCH_SIZE = 400;
+/** Chats indexed per ensureSearchIndex call */
+const CHATS_PER_PAGE = 50;
+
+const indexRef = (userId: string) =>
+  adminDb.collection('users').doc(userId).collection('searchIndex');
+
+/**
+ * Index messages written before search existed (or before the current index
+ * version), one page of chats per call in chat id order. The last chat done
+ * is kept in searchIndexCursor on the user doc, so each call carries on from
+ * there; searchIndexVersion is set after the last page. New messages are
+ * indexed by the client as they are saved. Returns true once complete.
+ */
+export async function ensureSearchIndex(userId: string): Promise<boolean> {
+  const userRef = adminDb.collection('users').doc(userId);
+  const userData = (await userRef.get()).data();
+  if ((userData?.searchIndexVersion || 0) >= SEARCH_INDEX_VERSION) return true;
+
+  const cursor = userData?.searchIndexCursor?.version === SEARCH_INDEX_VERSION
+    ? userData.searchIndexCursor.chatId as string
+    : null;
+  let query = userRef.collection('chats')
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(CHATS_PER_PAGE);
+  if (cursor) query = query.startAfter(cursor);
+  const chatsSnapshot = await query.get();
+
+  let batch = adminDb.batch();
+  let pending = 0;
+
+  for (const chatDoc of chatsSnapshot.docs) {
+    const messagesSnapshot = await chatDoc.ref.collection('messages').get();
+
+    for (const msgDoc of messagesSnapshot.docs) {
+      const message = messageFromFirestore(msgDoc.id, msgDoc.data());
+      if (!message.text.trim()) continue;
+
+      batch.set(
+        indexRef(userId).doc(searchEntryId(chatDoc.id, message.id)),
+        buildSearchEntry(chatDoc.id, message)
+      );
+      pending++;
+
+      if (pending >= BATCH_SIZE) {
+        await batch.commit();
+        batch = adminDb.batch();
+        pending = 0;
+      }
+    }
+  }
+
+  if (pending > 0) {
+    await batch.commit();
+  }
+
+  const complete = chatsSnapshot.size < CHATS_PER_PAGE;
+  await userRef.set(complete
+    ? { searchIndexVersion: SEARCH_INDEX_VERSION, searchIndexCursor: admin.firestore.FieldValue.delete() }
+    : { searchIndexCursor: { version: SEARCH_INDEX_VERSION, chatId: chatsSnapshot.docs[chatsSnapshot.size - 1].id } },
+  { merge: true });
+  return complete;
+}
+
+/** Whether ensureSearchIndex has finished for the current index version */
+export async function isSearchIndexComplete(userId: string): Promise<boolean> {
+  const userDoc = await adminDb.collection('users').doc(userId).get();
+  return (userDoc.data()?.searchIndexVersion || 0) >= SEARCH_INDEX_VERSION;
+}
+
+export interface SearchResult {
+  hits: SearchHit[];
+  /** Models seen among matching messages, for the model filter */
+  models: string[];
+  /** Older messages are still being indexed, so some may be missing */
+  indexing: boolean;
+}
+
+export async function searchMessages(
+  userId: string,
+  query: string,
+  filters: SearchFilters = {},
+  limit: number = 20
+): Promise<SearchResult> {
+  const terms = queryTerms(query);
+  const indexed = await isSearchIndexComplete(userId);
+  if (terms.length === 0) {
+    return { hits: [], models: [], indexing: !indexed };
+  }
+
+  let candidates = indexRef(userId).where('terms', 'array-contains-any', terms);
+  if (filters.model) candidates = candidates.where('model', '==', filters.model);
+  if (filters.hasAttachments !== undefined) candidates = candidates.where('hasAttachments', '==', filters.hasAttachments);
+  if (filters.from !== undefined) candidates = candidates.where('timestamp', '>=', filters.from);
+  if (filters.to !== undefined) candidates = candidates.where('timestamp', '<=', filters.to);
+  const snapshot = await candidates.orderBy('timestamp', 'desc').limit(MAX_CANDIDATES).get();
+
+  const entries: SearchEntry[] = snapshot.docs.map((doc: any) => doc.data() as SearchEntry);
+  const models = Array.from(
+    new Set(entries.map(e => e.model).filter((m): m is string => !!m))
+  ).sort();
+
+  const hits = rankEntries(entries, query, filters, limit);
+
+  // Attach chat titles; chats deleted since indexing drop out
+  const chatIds = Array.from(new Set(hits.map(h => h.chatId)));
+  const chatDocs = chatIds.length > 0
+    ? await adminDb.getAll(
+        ...chatIds.map(id => adminDb.collection('users').doc(userId).collection('chats').doc(id))
+      )
+    : [];
+  const titles = new Map<string, string>(
+    chatDocs
+      .filter((d: any) => d.exists)
+      .map((d: any) => [d.id, (d.data()?.title as string) || 'Untitled chat'])
+  );
+
+  return {
+    hits: hits
+      .filter(hit => titles.has(hit.chatId))
+      .map(hit => ({ ...hit, chatTitle: titles.get(hit.chatId) })),
+    models,
+    indexing: !indexed,
+  };
+}
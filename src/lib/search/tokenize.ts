@@ -0,0 +1,54 @@
+// src/lib/search/tokenize.ts - Word tokenizer shared by indexing and querying
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has',
+  'have', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'me', 'my', 'of', 'on',
+  'or', 'our', 'so', 'that', 'the', 'their', 'then', 'there', 'these', 'this',
+  'to', 'was', 'we', 'were', 'what', 'when', 'which', 'will', 'with', 'you', 'your',
+]);
+
+const WORD_REGEX = /[\p{L}\p{N}]+/gu;
+
+export interface WordMatch {
+  term: string;
+  start: number;
+  end: number;
+}
+
+/**
+ * Light suffix stripping so "running", "runs" and "run" share a term. Kept
+ * deliberately conservative: a missed merge costs recall, a wrong merge
+ * costs precision everywhere.
+ */
+export function stem(word: string): string {
+  if (word.length <= 4) return word;
+  let base = word;
+  for (const suffix of ['ingly', 'edly', 'ing', 'ies', 'ied', 'ed', 's']) {
+    if (suffix === 's' && word.endsWith('ss')) break;
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      base = word.slice(0, -suffix.length) + (suffix === 'ies' || suffix === 'ied' ? 'y' : '');
+      break;
+    }
+  }
+  // "create", "created" and "creating" all end up as "creat"
+  return base.length > 4 && base.endsWith('e') ? base.slice(0, -1) : base;
+}
+
+function normalize(word: string): string {
+  return word.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/** Every indexable word in text with its term and character offsets */
+export function findWords(text: string): WordMatch[] {
+  const words: WordMatch[] = [];
+  for (const match of text.matchAll(WORD_REGEX)) {
+    const word = normalize(match[0]);
+    if (word.length < 2 || STOP_WORDS.has(word)) continue;
+    words.push({ term: stem(word), start: match.index!, end: match.index! + match[0].length });
+  }
+  return words;
+}
+
+export function tokenize(text: string): string[] {
+  return findWords(text).map(w => w.term);
+}
@@ -0,0 +1,6 @@
+// src/lib/streaming/index.ts - Persisted, resumable reply streams
+
+export { createStreamingReply, requestStreamAbort } from './store';
+export { startStreamJob, abortLocalJob, localJobSource } from './jobs';
+export { storedReplySource, toResumableSSEStream, requestStreamCursor } from './sse';
+export type { StreamSource, StreamState } from './types';
@@ -0,0 +1,174 @@
+// src/lib/streaming/jobs.ts - Run a reply stream independently of the client connection
+//
+// The job consumes provider events, keeps the latest state in memory for
+// clients on this instance and flushes it to Firestore for everyone else.
+// Disconnecting a client never stops it; an abort request does.
+
+import { ProviderEvent } from '../providers';
+import { Citation } from '../types';
+import { replyRef, finishStreamingReply, saveStreamingState } from './store';
+import { StreamSource, StreamState } from './types';
+
+/** How often partial text is written to the reply document */
+const FLUSH_INTERVAL_MS = 500;
+
+/** Finished jobs stay readable briefly, for clients reattaching right away */
+const FINISHED_JOB_TTL_MS = 30_000;
+
+interface StreamJob {
+  userId: string;
+  chatId: string;
+  messageId: string;
+  state: StreamState;
+  listeners: Set<(state: StreamState) => void>;
+  abortController: AbortController;
+  /** Resolves once the final state is stored */
+  done: Promise<void>;
+}
+
+const jobs = new Map<string, StreamJob>();
+
+const jobKey = (userId: string, chatId: string, messageId: string) => `${userId}/${chatId}/${messageId}`;
+
+function publish(job: StreamJob): void {
+  const snapshot = { ...job.state };
+  job.listeners.forEach(listener => listener(snapshot));
+}
+
+async function runJob(job: StreamJob, events: AsyncIterable<ProviderEvent>, startedAt: number): Promise<void> {
+  const { userId, chatId, messageId, abortController } = job;
+  let lastFlushAt = Date.now();
+  let flushing: Promise<void> | null = null;
+
+  // Abort requests from other instances arrive through the document
+  const unsubscribe = replyRef(userId, chatId, messageId).onSnapshot(
+    (snapshot: any) => {
+      if (snapshot.data()?.abortRequested) abortController.abort();
+    },
+    (error: Error) => console.error('⚠️ Stream abort listener failed:', error.message)
+  );
+
+  const flush = () => {
+    if (flushing) return;
+    lastFlushAt = Date.now();
+    flushing = saveStreamingState(userId, chatId, messageId, job.state)
+      .catch(error => console.error('⚠️ Failed to persist stream chunk:', (error as Error).message))
+      .finally(() => { flushing = null; });
+  };
+
+  let finalState: StreamState;
+  try {
+    for await (const event of events) {
+      if (abortController.signal.aborted) break;
+
+      if (event.type === 'delta' && event.content) {
+        job.state = { ...job.state, text: job.state.text + event.content };
+      } else if (event.type === 'reasoning' && event.content) {
+        job.state = { ...job.state, reasoning: (job.state.reasoning || '') + event.content };
+      } else if (event.type === 'citation') {
+        job.state = { ...job.state, citations: [...(job.state.citations || []), event.citation] };
+      } else if (event.type === 'tool_call') {
+        const calls = job.state.toolCalls || [];
+        const toolCalls = calls.some(call => call.id === event.toolCall.id)
+          ? calls.map(call => call.id === event.toolCall.id ? event.toolCall : call)
+          : [...calls, event.toolCall];
+        job.state = { ...job.state, toolCalls };
+      } else if (event.type === 'finish') {
+        job.state = {
+          ...job.state,
+          finishReason: event.finishReason || 'stop',
+          usage: event.usage,
+          latencyMs: Date.now() - startedAt,
+        };
+      }
+
+      publish(job);
+      if (Date.now() - lastFlushAt >= FLUSH_INTERVAL_MS) flush();
+    }
+
+    finalState = abortController.signal.aborted
+      ? { ...job.state, status: 'aborted', finishReason: 'abort' }
+      : { ...job.state, status: 'complete' };
+  } catch (error) {
+    if (abortController.signal.aborted) {
+      finalState = { ...job.state, status: 'aborted', finishReason: 'abort' };
+    } else {
+      console.error(`Stream ${messageId} failed:`, error);
+      const message = (error as Error).message || 'The reply stream failed';
+      finalState = {
+        ...job.state,
+        text: job.state.text || `Error: ${message}`,
+        status: 'aborted',
+        finishReason: 'error',
+        error: message,
+      };
+    }
+  } finally {
+    unsubscribe();
+  }
+
+  if (flushing) await flushing;
+  try {
+    await finishStreamingReply(userId, chatId, messageId, finalState);
+  } catch (error) {
+    console.error(`⚠️ Failed to store final state of stream ${messageId}:`, error);
+  }
+
+  // Clients learn the stream settled only once it is stored
+  job.state = finalState;
+  publish(job);
+  job.listeners.clear();
+
+  setTimeout(() => jobs.delete(jobKey(userId, chatId, messageId)), FINISHED_JOB_TTL_MS);
+}
+
+/**
+ * Start consuming `events` into the reply document. Returns the promise to
+ * hand to `after()` so the instance stays alive until the reply is stored.
+ */
+export function startStreamJob(options: {
+  userId: string;
+  chatId: string;
+  messageId: string;
+  events: AsyncIterable<ProviderEvent>;
+  abortController: AbortController;
+  startedAt: number;
+  /** Known before generation starts (retrieved context) */
+  citations?: Citation[];
+}): Promise<void> {
+  const { userId, chatId, messageId, events, abortController, startedAt, citations } = options;
+  const job: StreamJob = {
+    userId,
+    chatId,
+    messageId,
+    state: { text: '', status: 'streaming', ...(citations && citations.length > 0 && { citations }) },
+    listeners: new Set(),
+    abortController,
+    done: Promise.resolve(),
+  };
+
+  jobs.set(jobKey(userId, chatId, messageId), job);
+  job.done = runJob(job, events, startedAt);
+  return job.done;
+}
+
+/** Stop a job running on this instance; false if it isn't here */
+export function abortLocalJob(userId: string, chatId: string, messageId: string): boolean {
+  const job = jobs.get(jobKey(userId, chatId, messageId));
+  if (!job || job.state.status !== 'streaming') return false;
+  job.abortController.abort();
+  return true;
+}
+
+/** Follow a job on this instance, or null if it runs elsewhere */
+export function localJobSource(userId: string, chatId: string, messageId: string): StreamSource | null {
+  const job = jobs.get(jobKey(userId, chatId, messageId));
+  if (!job) return null;
+
+  return onUpdate => {
+    onUpdate({ ...job.state });
+    if (job.state.status !== 'streaming') return () => {};
+    job.listeners.add(onUpdate);
+    return () => { job.listeners.delete(onUpdate); };
+  };
+}
@@ -0,0 +1,158 @@
+// src/lib/streaming/sse.ts - Resumable SSE for persisted replies
+//
+// Every frame carries `id: <cursor>`, the answer and reasoning text sent so
+// far (see StreamCursor). A client that drops reconnects with that cursor
+// (as ?cursor= or the Last-Event-ID header) and receives only the text it
+// is missing; tool calls and citations are re-sent whole.
+
+import { StreamMeta } from '../providers';
+import { ChatStreamEvent, StreamCursor, encodeChatEvent, formatStreamCursor, parseStreamCursor } from '../chatStream/protocol';
+import { markStreamAborted, replyRef } from './store';
+import { StreamSource, StreamState } from './types';
+
+/**
+ * A streaming reply whose document hasn't changed for this long belongs to
+ * an instance that died; it is closed out as aborted.
+ */
+const STALE_STREAM_MS = 120_000;
+const STALE_CHECK_INTERVAL_MS = 15_000;
+
+/** Follow a reply through its Firestore document (any instance) */
+export function storedReplySource(userId: string, chatId: string, messageId: string): StreamSource {
+  return onUpdate => {
+    let lastUpdatedAt = Date.now();
+    let settled = false;
+
+    const unsubscribe = replyRef(userId, chatId, messageId).onSnapshot(
+      (snapshot: any) => {
+        const data = snapshot.data();
+        if (!data) {
+          settled = true;
+          onUpdate({ text: '', status: 'aborted', finishReason: 'error' });
+          return;
+        }
+        lastUpdatedAt = data.streamUpdatedAt || lastUpdatedAt;
+        settled = data.status !== 'streaming';
+        onUpdate({
+          text: data.text || '',
+          status: data.status || 'complete',
+          reasoning: data.reasoning,
+          citations: data.citations,
+          toolCalls: data.toolCalls,
+          usage: data.usage,
+          latencyMs: data.latencyMs,
+          finishReason: data.finishReason,
+          error: data.streamError,
+        });
+      },
+      (error: Error) => {
+        console.error(`⚠️ Failed to follow stream ${messageId}:`, error.message);
+        settled = true;
+        onUpdate({ text: '', status: 'aborted', finishReason: 'error' });
+      }
+    );
+
+    const staleTimer = setInterval(() => {
+      if (settled || Date.now() - lastUpdatedAt < STALE_STREAM_MS) return;
+      settled = true;
+      console.warn(`⚠️ Stream ${messageId} went stale, marking it aborted`);
+      markStreamAborted(userId, chatId, messageId)
+        .catch(error => console.error('⚠️ Failed to close stale stream:', (error as Error).message));
+    }, STALE_CHECK_INTERVAL_MS);
+
+    return () => {
+      clearInterval(staleTimer);
+      unsubscribe();
+    };
+  };
+}
+
+/**
+ * SSE body that replays a reply from `cursor` and follows it until it
+ * settles: meta, then whatever changed since the cursor, then usage/done.
+ */
+export function toResumableSSEStream(
+  source: StreamSource,
+  meta: StreamMeta & { messageId: string },
+  cursor: StreamCursor = { text: 0, reasoning: 0 }
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let stop: (() => void) | null = null;
+
+  return new ReadableStream({
+    start(controller) {
+      const sent = { ...cursor };
+      // Tool calls and citations by id, with what was last sent for each
+      const sentItems = new Map<string, string>();
+      let closed = false;
+
+      const send = (event: ChatStreamEvent) => {
+        controller.enqueue(encoder.encode(encodeChatEvent(event, formatStreamCursor(sent))));
+      };
+
+      const sendChangedItems = (state: StreamState) => {
+        state.citations?.forEach(citation => {
+          const json = JSON.stringify(citation);
+          if (sentItems.get(`citation:${citation.id}`) === json) return;
+          sentItems.set(`citation:${citation.id}`, json);
+          send({ type: 'citation', citation });
+        });
+        state.toolCalls?.forEach(toolCall => {
+          const json = JSON.stringify(toolCall);
+          if (sentItems.get(`tool:${toolCall.id}`) === json) return;
+          sentItems.set(`tool:${toolCall.id}`, json);
+          send({ type: 'tool_call', toolCall });
+        });
+      };
+
+      const onUpdate = (state: StreamState) => {
+        if (closed) return;
+
+        sendChangedItems(state);
+
+        const reasoning = state.reasoning || '';
+        if (reasoning.length > sent.reasoning) {
+          const text = reasoning.slice(sent.reasoning);
+          sent.reasoning = reasoning.length;
+          send({ type: 'reasoning', text });
+        }
+        if (state.text.length > sent.text) {
+          const text = state.text.slice(sent.text);
+          sent.text = state.text.length;
+          send({ type: 'delta', text });
+        }
+
+        if (state.status !== 'streaming') {
+          closed = true;
+          if (state.usage || typeof state.latencyMs === 'number') {
+            send({ type: 'usage', usage: state.usage || {}, latencyMs: state.latencyMs });
+          }
+          if (state.finishReason === 'error') {
+            send({ type: 'error', message: state.error || 'The reply stream failed' });
+          }
+          send({
+            type: 'done',
+            finishReason: state.finishReason || (state.status === 'aborted' ? 'abort' : 'stop'),
+            status: state.status,
+          });
+          controller.close();
+          // A source that settles synchronously is stopped right after subscribing
+          stop?.();
+        }
+      };
+
+      send({ type: 'meta', ...meta });
+      stop = source(onUpdate);
+      if (closed) stop();
+    },
+    cancel() {
+      // The client went away; the stream itself keeps running
+      stop?.();
+    },
+  });
+}
+
+/** Cursor from ?cursor= or the standard Last-Event-ID reconnect header */
+export function requestStreamCursor(cursorParam: string | null, lastEventId: string | null): StreamCursor {
+  return parseStreamCursor(cursorParam ?? lastEventId);
+}
@@ -0,0 +1,111 @@
+// src/lib/streaming/store.ts - Persist server-generated replies as they stream (firebase-admin)
+//
+// The reply document is created before the first token with status
+// "streaming" and its text is rewritten as chunks arrive, so a reloaded
+// client sees the partial answer and can reattach to the rest.
+
+import { admin, adminDb } from '../firebase-admin';
+import { Message, MessageStatus } from '../types';
+import { messageFromFirestore, messageToFirestore } from '../messageSchema';
+import { buildSearchEntry, searchEntryId } from '../search';
+import { StreamState } from './types';
+
+const chatRef = (userId: string, chatId: string) =>
+  adminDb.collection('users').doc(userId).collection('chats').doc(chatId);
+
+export const replyRef = (userId: string, chatId: string, messageId: string) =>
+  chatRef(userId, chatId).collection('messages').doc(messageId);
+
+/**
+ * Create the reply document and make it the chat's active leaf. Returns the
+ * new message id.
+ */
+export async function createStreamingReply(
+  userId: string,
+  chatId: string,
+  reply: Pick<Message, 'parentId' | 'model' | 'provider' | 'lane' | 'routing' | 'citations'>
+): Promise<string> {
+  const ref = chatRef(userId, chatId).collection('messages').doc();
+  const now = Date.now();
+
+  await ref.set({
+    ...messageToFirestore({
+      id: ref.id,
+      text: '',
+      sender: 'ai',
+      status: 'streaming',
+      timestamp: now,
+      ...reply,
+    }),
+    streamUpdatedAt: now,
+  });
+
+  await chatRef(userId, chatId).update({
+    lastMessageAt: now,
+    messageCount: admin.firestore.FieldValue.increment(1),
+    activeLeafId: ref.id,
+  });
+
+  return ref.id;
+}
+
+/** Rewrite the partial reply; also serves as the stream's heartbeat */
+export async function saveStreamingState(userId: string, chatId: string, messageId: string, state: StreamState): Promise<void> {
+  await replyRef(userId, chatId, messageId).update({
+    text: state.text,
+    streamUpdatedAt: Date.now(),
+    ...(state.reasoning && { reasoning: state.reasoning }),
+    ...(state.citations && { citations: state.citations }),
+    ...(state.toolCalls && { toolCalls: state.toolCalls }),
+  });
+}
+
+/** Final write: text, status and stream metadata, plus the search entry */
+export async function finishStreamingReply(
+  userId: string,
+  chatId: string,
+  messageId: string,
+  state: StreamState
+): Promise<void> {
+  const ref = replyRef(userId, chatId, messageId);
+  await ref.update({
+    text: state.text,
+    status: state.status,
+    streamUpdatedAt: Date.now(),
+    ...(state.reasoning && { reasoning: state.reasoning }),
+    ...(state.citations && { citations: state.citations }),
+    ...(state.toolCalls && { toolCalls: state.toolCalls }),
+    ...(state.error && { streamError: state.error }),
+    ...(state.usage && { usage: state.usage }),
+    ...(typeof state.latencyMs === 'number' && { latencyMs: state.latencyMs }),
+    ...(state.finishReason && { finishReason: state.finishReason }),
+  });
+
+  if (state.text.trim()) {
+    const stored = await ref.get();
+    const message = { ...messageFromFirestore(messageId, stored.data()), text: state.text };
+    await adminDb.collection('users').doc(userId)
+      .collection('searchIndex').doc(searchEntryId(chatId, messageId))
+      .set(buildSearchEntry(chatId, message));
+  }
+}
+
+/**
+ * Ask whichever instance runs the stream to stop. Only a reply that is
+ * still streaming is flagged; returns false otherwise.
+ */
+export async function requestStreamAbort(userId: string, chatId: string, messageId: string): Promise<boolean> {
+  const ref = replyRef(userId, chatId, messageId);
+  return adminDb.runTransaction(async (tx: any) => {
+    const snapshot = await tx.get(ref);
+    if (!snapshot.exists || snapshot.data().status !== 'streaming') return false;
+    tx.update(ref, { abortRequested: true });
+    return true;
+  });
+}
+
+/** Close out a reply whose instance died mid-stream */
+export async function markStreamAborted(userId: string, chatId: string, messageId: string): Promise<void> {
+  const status: MessageStatus = 'aborted';
+  await replyRef(userId, chatId, messageId).update({ status, streamUpdatedAt: Date.now() });
+}
@@ -0,0 +1,14 @@
+// src/lib/streaming/types.ts - Shared shapes for persisted reply streams
+
+import { Message, MessageStatus } from '../types';
+
+/** A reply as far as it has streamed */
+export interface StreamState extends Pick<Message, 'reasoning' | 'citations' | 'toolCalls' | 'usage' | 'latencyMs' | 'finishReason'> {
+  text: string;
+  status: MessageStatus;
+  /** Why the stream failed, when finishReason is "error" */
+  error?: string;
+}
+
+/** Push-based view of a reply: calls back with the latest state until it settles */
+export type StreamSource = (onUpdate: (state: StreamState) => void) => () => void;
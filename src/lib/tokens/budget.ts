@@ -0,0 +1,111 @@
+// src/lib/tokens/budget.ts - Split a model's context window across the prompt
+//
+// Output is reserved first, then the system prompt and the user's message
+// (never cut). What is left goes to context files and history: context gets
+// at least CONTEXT_SHARE of it, and whatever history doesn't need.
+
+import { historyTokenBudget } from '../conversation/budget';
+import { ModelTokenSpec } from './models';
+import { TokenCounter } from './counter';
+
+const CONTEXT_SHARE = 0.6;
+
+/** Chat template tokens per turn (role headers, separators) */
+export const TURN_OVERHEAD_TOKENS = 4;
+
+export interface PromptBudget {
+  contextWindow: number;
+  output: number;
+  system: number;
+  input: number;
+  /** Left for context files and history together */
+  available: number;
+  /** Most context files may use */
+  context: number;
+  /** Most history may use, before context takes its share */
+  history: number;
+}
+
+export function planPromptBudget(
+  model: string,
+  spec: ModelTokenSpec,
+  used: { system: number; input: number }
+): PromptBudget {
+  const output = spec.maxOutputTokens;
+  const reserved = output + used.system + used.input + TURN_OVERHEAD_TOKENS * 2;
+  const available = Math.max(0, spec.contextWindow - reserved);
+  const history = historyTokenBudget(model, spec.contextWindow, reserved);
+
+  return {
+    contextWindow: spec.contextWindow,
+    output,
+    system: used.system,
+    input: used.input,
+    available,
+    context: available - Math.min(history, Math.floor(available * (1 - CONTEXT_SHARE))),
+    history,
+  };
+}
+
+export interface ContextFile {
+  name: string;
+  text: string;
+}
+
+const fileBlock = (name: string, text: string) => `--- File: ${name} ---\n${text}\n--- End ---`;
+
+/**
+ * Fit attached files into maxTokens. Small files stay whole; the budget
+ * left over is shared evenly by the larger ones, which are truncated.
+ */
+export function fitFiles(
+  files: ContextFile[],
+  maxTokens: number,
+  counter: TokenCounter
+): { blocks: string[]; tokens: number; truncated: number } {
+  const sized = files.map(file => ({ file, tokens: counter.count(fileBlock(file.name, file.text)) }));
+  const byIndex = new Map<number, string>();
+  let remaining = Math.max(0, maxTokens);
+  let truncated = 0;
+
+  // Smallest first, so each file's fair share grows as small files finish
+  const order = sized.map((_, i) => i).sort((a, b) => sized[a].tokens - sized[b].tokens);
+  order.forEach((i, position) => {
+    const share = Math.floor(remaining / (order.length - position));
+    const { file, tokens } = sized[i];
+
+    if (tokens <= share) {
+      byIndex.set(i, fileBlock(file.name, file.text));
+      remaining -= tokens;
+      return;
+    }
+
+    const headerTokens = counter.count(fileBlock(file.name, ''));
+    const text = counter.truncate(file.text, share - headerTokens);
+    if (!text) return;
+    const block = fileBlock(file.name, text);
+    byIndex.set(i, block);
+    remaining -= counter.count(block);
+    truncated++;
+  });
+
+  const blocks = sized.map((_, i) => byIndex.get(i)).filter((b): b is string => !!b);
+  return { blocks, tokens: Math.max(0, maxTokens) - remaining, truncated };
+}
+
+/** Keep items in order while they fit; items are never cut */
+export function takeWithinBudget<T>(
+  items: T[],
+  cost: (item: T) => number,
+  maxTokens: number
+): { kept: T[]; tokens: number } {
+  const kept: T[] = [];
+  let tokens = 0;
+  for (const item of items) {
+    const itemTokens = cost(item);
+    if (tokens + itemTokens > maxTokens) continue;
+    kept.push(item);
+    tokens += itemTokens;
+  }
+  return { kept, tokens };
+}
@@ -0,0 +1,51 @@
+// src/lib/tokens/counter.ts - Count and truncate text in a model's tokens
+
+import { estimateTokens } from './estimate';
+import { TokenizerId, getTokenizer } from './tokenizers';
+
+export interface TokenCounter {
+  tokenizer: TokenizerId;
+  /** False when the tokenizer wasn't ready and counts are estimates */
+  exact: boolean;
+  count(text: string): number;
+  /** Cut text to at most maxTokens, marking the cut */
+  truncate(text: string, maxTokens: number): string;
+}
+
+const TRUNCATION_MARKER = '\n[... truncated to fit the context window ...]';
+
+export async function getTokenCounter(id: TokenizerId, waitMs?: number): Promise<TokenCounter> {
+  const tokenizer = await getTokenizer(id, waitMs);
+
+  if (tokenizer) {
+    const markerTokens = tokenizer.encode(TRUNCATION_MARKER).length;
+    return {
+      tokenizer: id,
+      exact: true,
+      count: text => (text ? tokenizer.encode(text).length : 0),
+      truncate: (text, maxTokens) => {
+        const ids = tokenizer.encode(text);
+        if (ids.length <= maxTokens) return text;
+        if (maxTokens <= markerTokens) return '';
+        return tokenizer.decode(ids.slice(0, maxTokens - markerTokens)) + TRUNCATION_MARKER;
+      },
+    };
+  }
+
+  return {
+    tokenizer: id,
+    exact: false,
+    count: estimateTokens,
+    truncate: (text, maxTokens) => {
+      const markerTokens = estimateTokens(TRUNCATION_MARKER);
+      if (estimateTokens(text) <= maxTokens) return text;
+      if (maxTokens <= markerTokens) return '';
+      // Shrink proportionally until the estimate fits
+      let cut = text.slice(0, Math.floor(text.length * (maxTokens - markerTokens) / estimateTokens(text)));
+      while (cut && estimateTokens(cut) + markerTokens > maxTokens) {
+        cut = cut.slice(0, Math.floor(cut.length * 0.95));
+      }
+      return cut + TRUNCATION_MARKER;
+    },
+  };
+}
@@ -0,0 +1,16 @@
+// src/lib/tokens/estimate.ts - Tokenizer-free token estimate
+//
+// Used before a tokenizer has loaded. Plain length/4 badly undercounts CJK
+// (about one token per character) and code (dense punctuation), so those are
+// weighted separately.
+
+const CJK_REGEX = /[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uac00-\ud7af\uf900-\ufaff]/g;
+const SYMBOL_REGEX = /[{}()[\];:=<>+\-*/\\|&!?.,'"`$#@%^~]/g;
+
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  const cjk = text.match(CJK_REGEX)?.length ?? 0;
+  const symbols = text.match(SYMBOL_REGEX)?.length ?? 0;
+  const rest = text.length - cjk - symbols;
+  return Math.ceil(cjk * 1.1 + symbols * 0.6 + rest / 4);
+}
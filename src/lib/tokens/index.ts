@@ -0,0 +1,11 @@
+// src/lib/tokens/index.ts - Token accounting: tokenizers, model windows and prompt budgets
+
+export { estimateTokens } from './estimate';
+export { getTokenizer, loadTokenizer } from './tokenizers';
+export type { Tokenizer, TokenizerId } from './tokenizers';
+export { modelTokenSpec } from './models';
+export type { ModelTokenSpec } from './models';
+export { getTokenCounter } from './counter';
+export type { TokenCounter } from './counter';
+export { planPromptBudget, fitFiles, takeWithinBudget, TURN_OVERHEAD_TOKENS } from './budget';
+export type { PromptBudget, ContextFile } from './budget';
@@ -0,0 +1,50 @@
+// src/lib/tokens/models.ts - Tokenizer and context window per model
+
+import type { ChatProvider } from '../providers';
+import { TokenizerId } from './tokenizers';
+
+export interface ModelTokenSpec {
+  tokenizer: TokenizerId;
+  contextWindow: number;
+  /** Tokens reserved for the reply */
+  maxOutputTokens: number;
+}
+
+// First match wins; model ids are matched case-insensitively
+const MODEL_SPECS: { match: RegExp; spec: ModelTokenSpec }[] = [
+  { match: /llama-?3/i, spec: { tokenizer: 'llama3', contextWindow: 131_072, maxOutputTokens: 8192 } },
+  { match: /gemini/i, spec: { tokenizer: 'gemini', contextWindow: 1_048_576, maxOutputTokens: 8192 } },
+  { match: /gpt-4o|gpt-4\.1|gpt-5|(^|\/)o\d/i, spec: { tokenizer: 'o200k', contextWindow: 128_000, maxOutputTokens: 16_384 } },
+  { match: /gpt-4|gpt-3\.5/i, spec: { tokenizer: 'cl100k', contextWindow: 8192, maxOutputTokens: 4096 } },
+];
+
+/**
+ * IQ1 deployments are fine-tunes whose name says nothing about the base
+ * model, so the tokenizer and window come from the environment.
+ */
+function iq1Spec(): ModelTokenSpec {
+  return {
+    tokenizer: (process.env.IQ1_TOKENIZER as TokenizerId) || 'llama3',
+    contextWindow: Number(process.env.IQ1_CONTEXT_WINDOW ?? 8192),
+    maxOutputTokens: Number(process.env.IQ1_MAX_OUTPUT_TOKENS ?? 2048),
+  };
+}
+
+/** Unknown models get a Llama-sized window and tokenizer */
+const FALLBACK_SPEC: ModelTokenSpec = { tokenizer: 'llama3', contextWindow: 32_768, maxOutputTokens: 4096 };
+
+/**
+ * Token spec for a model, narrowed to what the serving provider allows
+ */
+export function modelTokenSpec(model: string, provider?: ChatProvider): ModelTokenSpec {
+  const base = /(^|\/)iq1/i.test(model) || provider?.id === 'iq1'
+    ? iq1Spec()
+    : MODEL_SPECS.find(entry => entry.match.test(model))?.spec ?? FALLBACK_SPEC;
+
+  if (!provider) return base;
+  return {
+    tokenizer: base.tokenizer,
+    contextWindow: Math.min(base.contextWindow, provider.capabilities.contextWindow),
+    maxOutputTokens: Math.min(base.maxOutputTokens, provider.capabilities.maxOutputTokens),
+  };
+}
@@ -0,0 +1,87 @@
+// src/lib/tokens/tokenizers.ts - Lazily loaded tokenizers for the model families we serve
+//
+// The vocabularies are large (the Gemini one takes seconds and hundreds of MB
+// to load), so each is loaded on first use and kept for the life of the
+// instance. Callers that can't wait fall back to estimateTokens.
+
+export type TokenizerId = 'llama3' | 'gemini' | 'o200k' | 'cl100k';
+
+export interface Tokenizer {
+  id: TokenizerId;
+  encode(text: string): number[];
+  decode(ids: number[]): string;
+}
+
+const LOADERS: Record<TokenizerId, () => Promise<Tokenizer>> = {
+  llama3: async () => {
+    const { fromPreTrained } = await import('@lenml/tokenizer-llama3');
+    const tokenizer = fromPreTrained();
+    return {
+      id: 'llama3',
+      encode: text => tokenizer.encode(text, { add_special_tokens: false }),
+      decode: ids => tokenizer.decode(ids),
+    };
+  },
+  gemini: async () => {
+    const { fromPreTrained } = await import('@lenml/tokenizer-gemini');
+    const tokenizer = fromPreTrained();
+    return {
+      id: 'gemini',
+      encode: text => tokenizer.encode(text, { add_special_tokens: false }),
+      decode: ids => tokenizer.decode(ids),
+    };
+  },
+  o200k: async () => {
+    const { encode, decode } = await import('gpt-tokenizer/encoding/o200k_base');
+    return { id: 'o200k', encode: text => encode(text), decode: ids => decode(ids) };
+  },
+  cl100k: async () => {
+    const { encode, decode } = await import('gpt-tokenizer/encoding/cl100k_base');
+    return { id: 'cl100k', encode: text => encode(text), decode: ids => decode(ids) };
+  },
+};
+
+const loaded = new Map<TokenizerId, Tokenizer>();
+const loading = new Map<TokenizerId, Promise<Tokenizer>>();
+
+export function loadTokenizer(id: TokenizerId): Promise<Tokenizer> {
+  const ready = loaded.get(id);
+  if (ready) return Promise.resolve(ready);
+
+  let pending = loading.get(id);
+  if (!pending) {
+    const startedAt = Date.now();
+    pending = LOADERS[id]()
+      .then(tokenizer => {
+        loaded.set(id, tokenizer);
+        console.log(`🔤 Loaded ${id} tokenizer in ${Date.now() - startedAt}ms`);
+        return tokenizer;
+      })
+      .finally(() => loading.delete(id));
+    loading.set(id, pending);
+  }
+  return pending;
+}
+
+/**
+ * The tokenizer if it is (or becomes) ready within waitMs, else null. A
+ * load that misses the deadline keeps going for the next request.
+ */
+export async function getTokenizer(id: TokenizerId, waitMs: number = 3000): Promise<Tokenizer | null> {
+  const ready = loaded.get(id);
+  if (ready) return ready;
+
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<null>(resolve => {
+    timer = setTimeout(() => resolve(null), waitMs);
+  });
+
+  try {
+    return await Promise.race([loadTokenizer(id), timeout]);
+  } catch (error) {
+    console.error(`⚠️ Failed to load ${id} tokenizer:`, (error as Error).message);
+    return null;
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,190 @@
+// src/lib/tools/builtin/calculator.ts - Arithmetic without eval()
+
+import { ToolDefinition, ToolError } from '../types';
+
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt,
+  cbrt: Math.cbrt,
+  abs: Math.abs,
+  round: (x, digits = 0) => Math.round(x * 10 ** digits) / 10 ** digits,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  ln: Math.log,
+  log: (x, base) => base === undefined ? Math.log10(x) : Math.log(x) / Math.log(base),
+  log2: Math.log2,
+  exp: Math.exp,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  min: Math.min,
+  max: Math.max,
+  pow: Math.pow,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+  e: Math.E,
+};
+
+type Token =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'op'; value: string };
+
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  const pattern = /\s*(?:(\d+(?:\.\d*)?(?:e[+-]?\d+)?|\.\d+(?:e[+-]?\d+)?)|([a-z_][a-z0-9_]*)|(\*\*|[-+*/%^(),!]))/giy;
+  let index = 0;
+
+  while (index < expression.length) {
+    if (!expression.slice(index).trim()) break;
+    pattern.lastIndex = index;
+    const match = pattern.exec(expression);
+    if (!match) {
+      throw new ToolError(`Unexpected character "${expression.slice(index).trim()[0]}" in expression`);
+    }
+    if (match[1] !== undefined) tokens.push({ type: 'number', value: parseFloat(match[1]) });
+    else if (match[2] !== undefined) tokens.push({ type: 'name', value: match[2].toLowerCase() });
+    else tokens.push({ type: 'op', value: match[3] === '**' ? '^' : match[3] });
+    index = pattern.lastIndex;
+  }
+
+  return tokens;
+}
+
+function factorial(n: number): number {
+  if (!Number.isInteger(n) || n < 0) throw new ToolError('Factorial needs a non-negative integer');
+  if (n > 170) return Infinity;
+  let result = 1;
+  for (let i = 2; i <= n; i++) result *= i;
+  return result;
+}
+
+/**
+ * Recursive descent over: sum := product (('+'|'-') product)*,
+ * product := unary (('*'|'/'|'%') unary)*, unary := '-' unary | power,
+ * power := postfix ('^' unary)?, postfix := primary '!'*
+ */
+export function evaluateExpression(expression: string): number {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const peek = () => tokens[position];
+  const isOp = (value: string) => peek()?.type === 'op' && peek()!.value === value;
+  const expect = (value: string) => {
+    if (!isOp(value)) throw new ToolError(`Expected "${value}" in expression`);
+    position++;
+  };
+
+  const parseSum = (): number => {
+    let value = parseProduct();
+    while (isOp('+') || isOp('-')) {
+      const op = tokens[position++].value;
+      const right = parseProduct();
+      value = op === '+' ? value + right : value - right;
+    }
+    return value;
+  };
+
+  const parseProduct = (): number => {
+    let value = parseUnary();
+    while (isOp('*') || isOp('/') || isOp('%')) {
+      const op = tokens[position++].value;
+      const right = parseUnary();
+      if (op === '*') value *= right;
+      else if (op === '/') value /= right;
+      else value %= right;
+    }
+    return value;
+  };
+
+  const parseUnary = (): number => {
+    if (isOp('-')) { position++; return -parseUnary(); }
+    if (isOp('+')) { position++; return parseUnary(); }
+    return parsePower();
+  };
+
+  const parsePower = (): number => {
+    const base = parsePostfix();
+    if (isOp('^')) {
+      position++;
+      // Right associative: 2^3^2 = 2^9
+      return base ** parseUnary();
+    }
+    return base;
+  };
+
+  const parsePostfix = (): number => {
+    let value = parsePrimary();
+    while (isOp('!')) {
+      position++;
+      value = factorial(value);
+    }
+    return value;
+  };
+
+  const parsePrimary = (): number => {
+    const token = tokens[position++];
+    if (!token) throw new ToolError('Unexpected end of expression');
+
+    if (token.type === 'number') return token.value;
+
+    if (token.type === 'name') {
+      if (isOp('(')) {
+        const fn = FUNCTIONS[token.value];
+        if (!fn) throw new ToolError(`Unknown function "${token.value}"`);
+        position++;
+        const args: number[] = [];
+        if (!isOp(')')) {
+          args.push(parseSum());
+          while (isOp(',')) { position++; args.push(parseSum()); }
+        }
+        expect(')');
+        return fn(...args);
+      }
+      if (token.value in CONSTANTS) return CONSTANTS[token.value];
+      throw new ToolError(`Unknown name "${token.value}"`);
+    }
+
+    if (token.value === '(') {
+      const value = parseSum();
+      expect(')');
+      return value;
+    }
+
+    throw new ToolError(`Unexpected "${token.value}" in expression`);
+  };
+
+  if (tokens.length === 0) throw new ToolError('The expression is empty');
+  const result = parseSum();
+  if (position < tokens.length) {
+    throw new ToolError(`Unexpected "${tokens[position].value}" in expression`);
+  }
+  return result;
+}
+
+export const calculatorTool: ToolDefinition<{ expression: string }> = {
+  name: 'calculator',
+  description:
+    'Evaluate an arithmetic expression exactly instead of doing math in your head. ' +
+    'Supports + - * / % ^ ! and parentheses, the constants pi and e, and the functions ' +
+    `${Object.keys(FUNCTIONS).join(', ')} (log(x) is base 10, log(x, b) base b, round(x, digits)).`,
+  parameters: {
+    type: 'object',
+    properties: {
+      expression: { type: 'string', description: 'e.g. "(1250 * 1.08^5) / 12"' },
+    },
+    required: ['expression'],
+  },
+
+  async execute({ expression }) {
+    const result = evaluateExpression(expression);
+    if (Number.isNaN(result)) throw new ToolError('The expression is undefined (NaN)');
+    // Trim binary floating point noise such as 0.1 + 0.2 = 0.30000000000000004
+    const rounded = Number.isFinite(result) ? parseFloat(result.toPrecision(15)) : result;
+    return { expression, result: Number.isFinite(rounded) ? rounded : String(rounded) };
+  },
+};
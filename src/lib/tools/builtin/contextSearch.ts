@@ -0,0 +1,49 @@
+// src/lib/tools/builtin/contextSearch.ts - Semantic search over the context files of the chat's project
+
+import { listContextFiles, retrieveContext } from '../../rag';
+import { ToolDefinition, ToolError } from '../types';
+
+const DEFAULT_RESULTS = 5;
+const MAX_RESULTS = 10;
+
+export const contextSearchTool: ToolDefinition<{ query: string; file?: string; maxResults?: number }> = {
+  name: 'search_context_files',
+  description:
+    "Search the user's context files (their uploaded knowledge base) in this chat's project, " +
+    'not only the ones active in this chat, for passages relevant to a query. Use it when the ' +
+    "answer may be in the user's own documents.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to look for, phrased as a question or key phrase' },
+      file: { type: 'string', description: 'Only search files whose name contains this' },
+      maxResults: { type: 'integer', description: `Passages to return (default ${DEFAULT_RESULTS}, max ${MAX_RESULTS})` },
+    },
+    required: ['query'],
+  },
+
+  async execute({ query, file, maxResults }, context) {
+    // Same scoping as the context file list: the chat's project, or no project
+    const files = (await listContextFiles(context.userId))
+      .filter(record => (record.projectId ?? null) === context.projectId)
+      .filter(record => record.indexStatus === 'ready')
+      .filter(record => !file || record.name.toLowerCase().includes(file.toLowerCase()));
+
+    if (files.length === 0) {
+      throw new ToolError(file ? `No indexed context file matches "${file}"` : context.projectId ? 'This project has no indexed context files' : 'The user has no indexed context files outside projects');
+    }
+
+    const chunks = await retrieveContext(context.userId, files, query, Math.min(maxResults ?? DEFAULT_RESULTS, MAX_RESULTS));
+
+    return {
+      query,
+      searchedFiles: files.length,
+      results: chunks.map(chunk => ({
+        file: chunk.fileName,
+        location: chunk.location,
+        score: +chunk.score.toFixed(3),
+        text: chunk.text,
+      })),
+    };
+  },
+};
@@ -0,0 +1,115 @@
+// src/lib/tools/builtin/datetime.ts - Current time, time zone conversion and date arithmetic
+
+import { ToolDefinition, ToolError } from '../types';
+
+type DateTimeArgs = {
+  operation: 'now' | 'convert' | 'difference' | 'add';
+  date?: string;
+  to?: string;
+  timezone?: string;
+  amount?: number;
+  unit?: 'minutes' | 'hours' | 'days' | 'weeks' | 'months' | 'years';
+};
+
+const UNIT_MS = {
+  minutes: 60_000,
+  hours: 3_600_000,
+  days: 86_400_000,
+  weeks: 604_800_000,
+};
+
+function parseDate(value: string | undefined, name: string): Date {
+  if (!value) throw new ToolError(`${name} is required for this operation`);
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new ToolError(`${name} "${value}" is not a valid date`);
+  return date;
+}
+
+function checkTimeZone(timezone: string): string {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+    return timezone;
+  } catch {
+    throw new ToolError(`Unknown time zone "${timezone}" (use an IANA name such as "Europe/Paris")`);
+  }
+}
+
+/** Calendar months, clamped so Jan 31 + 1 month is the last day of February */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date);
+  const day = result.getUTCDate();
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() + months);
+  const lastDay = new Date(Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0)).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+/** The instant as seen in a time zone */
+function describeDate(date: Date, timezone = 'UTC') {
+  const timeZone = checkTimeZone(timezone);
+  const local = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    dateStyle: 'full',
+    timeStyle: 'long',
+  }).format(date);
+  const offset = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'longOffset' })
+    .formatToParts(date)
+    .find(part => part.type === 'timeZoneName')?.value;
+
+  return { iso: date.toISOString(), timezone: timeZone, local, utcOffset: offset };
+}
+
+export const dateTimeTool: ToolDefinition<DateTimeArgs> = {
+  name: 'date_time',
+  description:
+    'Work with dates and times. "now": the current date and time (optionally in a time zone). ' +
+    '"convert": show `date` in `timezone`. "difference": time from `date` to `to`. ' +
+    '"add": add `amount` `unit`s to `date` (negative to subtract). Dates are ISO 8601; ' +
+    'time zones are IANA names such as "America/New_York".',
+  parameters: {
+    type: 'object',
+    properties: {
+      operation: { type: 'string', enum: ['now', 'convert', 'difference', 'add'] },
+      date: { type: 'string', description: 'ISO 8601 date or date-time, e.g. "2025-03-14T09:30:00Z"' },
+      to: { type: 'string', description: 'End date for "difference"' },
+      timezone: { type: 'string', description: 'IANA time zone for the result (default UTC)' },
+      amount: { type: 'number', description: 'Amount for "add"' },
+      unit: { type: 'string', enum: ['minutes', 'hours', 'days', 'weeks', 'months', 'years'] },
+    },
+    required: ['operation'],
+  },
+
+  async execute({ operation, date, to, timezone, amount, unit }) {
+    switch (operation) {
+      case 'now':
+        return describeDate(new Date(), timezone);
+
+      case 'convert':
+        if (!timezone) throw new ToolError('timezone is required for "convert"');
+        return describeDate(parseDate(date, 'date'), timezone);
+
+      case 'difference': {
+        const from = parseDate(date, 'date');
+        const until = parseDate(to, 'to');
+        const ms = until.getTime() - from.getTime();
+        return {
+          from: from.toISOString(),
+          to: until.toISOString(),
+          days: +(ms / UNIT_MS.days).toFixed(4),
+          hours: +(ms / UNIT_MS.hours).toFixed(2),
+          minutes: Math.round(ms / UNIT_MS.minutes),
+        };
+      }
+
+      case 'add': {
+        if (amount === undefined || !unit) throw new ToolError('amount and unit are required for "add"');
+        const start = parseDate(date, 'date');
+        const result = unit === 'months' || unit === 'years'
+          ? addMonths(start, unit === 'years' ? amount * 12 : amount)
+          : new Date(start.getTime() + amount * UNIT_MS[unit]);
+        return describeDate(result, timezone);
+      }
+    }
+  },
+};
@@ -0,0 +1,261 @@
+// src/lib/tools/builtin/spreadsheet.ts - Query rows of an uploaded XLSX/CSV file
+
+import * as XLSX from 'xlsx';
+import { fetchDocument } from '../../documents/cache';
+import { ToolContext, ToolDefinition, ToolError, ToolFile } from '../types';
+
+type Operator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains';
+type Aggregate = 'count' | 'sum' | 'avg' | 'min' | 'max';
+type Row = Record<string, unknown>;
+
+type SpreadsheetArgs = {
+  file?: string;
+  sheet?: string;
+  columns?: string[];
+  filters?: { column: string; operator: Operator; value: string | number }[];
+  groupBy?: string;
+  aggregate?: Aggregate;
+  aggregateColumn?: string;
+  sortBy?: string;
+  descending?: boolean;
+  limit?: number;
+};
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+const PREVIEW_ROWS = 5;
+
+/** Parsed workbooks by URL; a conversation tends to query the same file repeatedly */
+const WORKBOOK_CACHE_SIZE = 5;
+const workbooks = new Map<string, XLSX.WorkBook>();
+
+const SPREADSHEET_EXTENSIONS = /\.(xlsx|xlsm|xls|ods|csv)$/i;
+
+function isSpreadsheet(file: ToolFile): boolean {
+  return SPREADSHEET_EXTENSIONS.test(file.name)
+    || /spreadsheet|ms-excel|text\/csv/.test(file.contentType || '');
+}
+
+function resolveFile(context: ToolContext, name?: string): ToolFile {
+  const files = context.files.filter(isSpreadsheet);
+  if (files.length === 0) throw new ToolError('No spreadsheet is attached to this conversation');
+
+  if (!name) {
+    if (files.length === 1) return files[0];
+    throw new ToolError(`Several spreadsheets are attached; pass "file" as one of: ${files.map(f => f.name).join(', ')}`);
+  }
+
+  const wanted = name.toLowerCase();
+  const file = files.find(f => f.name.toLowerCase() === wanted)
+    || files.find(f => f.name.toLowerCase().includes(wanted));
+  if (!file) {
+    throw new ToolError(`No spreadsheet named "${name}"; available: ${files.map(f => f.name).join(', ')}`);
+  }
+  return file;
+}
+
+async function loadWorkbook(url: string, signal: AbortSignal): Promise<XLSX.WorkBook> {
+  const cached = workbooks.get(url);
+  if (cached) return cached;
+
+  // Capped at MAX_FETCH_BYTES, like document extraction
+  let buffer: ArrayBuffer;
+  try {
+    ({ buffer } = await fetchDocument(url, signal));
+  } catch (error) {
+    if (signal.aborted) throw error;
+    throw new ToolError(`Could not download the spreadsheet: ${(error as Error).message}`);
+  }
+  const workbook = XLSX.read(Buffer.from(buffer), { type: 'buffer' });
+
+  workbooks.set(url, workbook);
+  if (workbooks.size > WORKBOOK_CACHE_SIZE) {
+    workbooks.delete(workbooks.keys().next().value!);
+  }
+  return workbook;
+}
+
+/** Column names are matched case-insensitively, as models rarely get case right */
+function columnResolver(columns: string[]) {
+  return (name: string): string => {
+    const column = columns.find(c => c === name) || columns.find(c => c.toLowerCase() === name.toLowerCase());
+    if (!column) throw new ToolError(`Unknown column "${name}"; columns are: ${columns.join(', ')}`);
+    return column;
+  };
+}
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'string' && value.trim() !== '') {
+    const n = Number(value.replace(/[,\s]/g, ''));
+    return isNaN(n) ? null : n;
+  }
+  return null;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const x = toNumber(a);
+  const y = toNumber(b);
+  if (x !== null && y !== null) return x - y;
+  return String(a ?? '').localeCompare(String(b ?? ''), undefined, { sensitivity: 'base' });
+}
+
+function matches(value: unknown, operator: Operator, expected: string | number): boolean {
+  if (operator === 'contains') {
+    return String(value ?? '').toLowerCase().includes(String(expected).toLowerCase());
+  }
+  const order = compare(value, expected);
+  switch (operator) {
+    case '=': return order === 0;
+    case '!=': return order !== 0;
+    case '>': return order > 0;
+    case '>=': return order >= 0;
+    case '<': return order < 0;
+    case '<=': return order <= 0;
+  }
+}
+
+function aggregateRows(rows: Row[], fn: Aggregate, column?: string): number | null {
+  if (fn === 'count') {
+    return column ? rows.filter(row => row[column] !== null && row[column] !== '').length : rows.length;
+  }
+  const values = rows.map(row => toNumber(row[column!])).filter((n): n is number => n !== null);
+  if (values.length === 0) return null;
+  switch (fn) {
+    case 'sum': return values.reduce((a, b) => a + b, 0);
+    case 'avg': return values.reduce((a, b) => a + b, 0) / values.length;
+    case 'min': return Math.min(...values);
+    case 'max': return Math.max(...values);
+  }
+}
+
+export const spreadsheetTool: ToolDefinition<SpreadsheetArgs> = {
+  name: 'query_spreadsheet',
+  description:
+    'Query an attached spreadsheet (XLSX or CSV) exactly, instead of reading numbers from the extracted text. ' +
+    'Call it with only "file" first to see the sheets, columns and a few rows. Then filter rows, select columns, ' +
+    'sort, or compute count/sum/avg/min/max, optionally grouped by a column.',
+  parameters: {
+    type: 'object',
+    properties: {
+      file: { type: 'string', description: 'File name; may be omitted when only one spreadsheet is attached' },
+      sheet: { type: 'string', description: 'Sheet name (default: the first sheet)' },
+      columns: { type: 'array', items: { type: 'string' }, description: 'Columns to return (default: all)' },
+      filters: {
+        type: 'array',
+        description: 'Rows must match every filter',
+        items: {
+          type: 'object',
+          properties: {
+            column: { type: 'string' },
+            operator: { type: 'string', enum: ['=', '!=', '>', '>=', '<', '<=', 'contains'] },
+            value: { type: 'string', description: 'Compared numerically when both sides are numbers' },
+          },
+          required: ['column', 'operator', 'value'],
+        },
+      },
+      groupBy: { type: 'string', description: 'Column to group by before aggregating' },
+      aggregate: { type: 'string', enum: ['count', 'sum', 'avg', 'min', 'max'] },
+      aggregateColumn: { type: 'string', description: 'Column to aggregate (not needed for count)' },
+      sortBy: { type: 'string', description: 'Column to sort returned rows by' },
+      descending: { type: 'boolean' },
+      limit: { type: 'integer', description: `Maximum rows or groups to return (default ${DEFAULT_LIMIT}, max ${MAX_LIMIT})` },
+    },
+  },
+
+  isAvailable(context) {
+    return context.files.some(isSpreadsheet);
+  },
+
+  async execute(args, context) {
+    const file = resolveFile(context, args.file);
+    const workbook = await loadWorkbook(file.url, context.signal);
+
+    const sheetName = args.sheet
+      ? workbook.SheetNames.find(name => name.toLowerCase() === args.sheet!.toLowerCase())
+      : workbook.SheetNames[0];
+    if (!sheetName) {
+      throw new ToolError(`No sheet named "${args.sheet}"; sheets are: ${workbook.SheetNames.join(', ')}`);
+    }
+
+    const rows = XLSX.utils.sheet_to_json<Row>(workbook.Sheets[sheetName], { defval: null });
+    const columns = rows.length > 0 ? Object.keys(rows[0]) : [];
+    const column = columnResolver(columns);
+    const limit = Math.max(1, Math.min(args.limit ?? DEFAULT_LIMIT, MAX_LIMIT));
+
+    const isQuery = args.columns || args.filters || args.groupBy || args.aggregate || args.sortBy;
+    if (!isQuery) {
+      return {
+        file: file.name,
+        sheets: workbook.SheetNames,
+        sheet: sheetName,
+        columns,
+        rowCount: rows.length,
+        preview: rows.slice(0, PREVIEW_ROWS),
+      };
+    }
+
+    const filtered = (args.filters || []).reduce((remaining, filter) => {
+      const name = column(filter.column);
+      return remaining.filter(row => matches(row[name], filter.operator, filter.value));
+    }, rows);
+
+    if (args.aggregate) {
+      const target = args.aggregateColumn ? column(args.aggregateColumn) : undefined;
+      if (args.aggregate !== 'count' && !target) {
+        throw new ToolError(`aggregateColumn is required for "${args.aggregate}"`);
+      }
+
+      if (!args.groupBy) {
+        return {
+          file: file.name,
+          sheet: sheetName,
+          matchedRows: filtered.length,
+          aggregate: args.aggregate,
+          column: target,
+          value: aggregateRows(filtered, args.aggregate, target),
+        };
+      }
+
+      const groupColumn = column(args.groupBy);
+      const groups = new Map<string, Row[]>();
+      filtered.forEach(row => {
+        const key = String(row[groupColumn] ?? '');
+        groups.set(key, [...(groups.get(key) || []), row]);
+      });
+      const results = Array.from(groups.entries())
+        .map(([group, groupRows]) => ({ group, rows: groupRows.length, value: aggregateRows(groupRows, args.aggregate!, target) }))
+        .sort((a, b) => args.descending === false ? compare(a.value, b.value) : compare(b.value, a.value));
+
+      return {
+        file: file.name,
+        sheet: sheetName,
+        matchedRows: filtered.length,
+        aggregate: args.aggregate,
+        column: target,
+        groupBy: groupColumn,
+        groupCount: results.length,
+        groups: results.slice(0, limit),
+      };
+    }
+
+    let selected = filtered;
+    if (args.sortBy) {
+      const sortColumn = column(args.sortBy);
+      selected = [...selected].sort((a, b) => compare(a[sortColumn], b[sortColumn]) * (args.descending ? -1 : 1));
+    }
+
+    const picked = args.columns?.map(column);
+    const out = selected.slice(0, limit).map(row =>
+      picked ? Object.fromEntries(picked.map(name => [name, row[name]])) : row
+    );
+
+    return {
+      file: file.name,
+      sheet: sheetName,
+      matchedRows: filtered.length,
+      returnedRows: out.length,
+      rows: out,
+    };
+  },
+};
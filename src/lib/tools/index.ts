@@ -0,0 +1,22 @@
+// src/lib/tools/index.ts - Built-in tools and registry entry point
+//
+// To add a tool, implement ToolDefinition and register it below. Tools are
+// offered to every model whose provider lists it in `toolModels`.
+
+import { registerTool } from './registry';
+import { calculatorTool } from './builtin/calculator';
+import { dateTimeTool } from './builtin/datetime';
+import { spreadsheetTool } from './builtin/spreadsheet';
+import { contextSearchTool } from './builtin/contextSearch';
+
+registerTool(calculatorTool);
+registerTool(dateTimeTool);
+registerTool(spreadsheetTool);
+registerTool(contextSearchTool);
+
+export { registerTool, getTool, listTools, toolSpecsFor } from './registry';
+export { runToolLoop } from './loop';
+export { validateArguments } from './validate';
+export { ToolError } from './types';
+export type { ToolContext, ToolDefinition, ToolFile, ToolParameters } from './types';
+export type { ToolLoopOptions } from './loop';
@@ -0,0 +1,132 @@
+// src/lib/tools/loop.ts - Run the tools a model asks for and feed the results back
+//
+// A round streams the model's output through untouched until it ends. If it
+// asked for tools, they run (reported as `tool_call` events), and the same
+// provider is called again with the calls and results appended, until the
+// model answers without calling anything. The last round is asked not to
+// call tools; calls it makes anyway are not run, and the reply finishes with
+// finishReason "tool_limit".
+
+import type { ChatProvider, ProviderChatRequest, ProviderEvent, TokenUsage, ToolRequest, ToolTurn } from '../providers';
+import type { ToolCall } from '../types';
+import { getTool } from './registry';
+import { ToolContext, ToolError } from './types';
+import { validateArguments } from './validate';
+
+/** Model calls per reply; the last one is asked to answer without tools */
+const MAX_TOOL_ROUNDS = Number(process.env.AI_MAX_TOOL_ROUNDS ?? 5);
+
+/** Tool output beyond this is cut before it reaches the prompt or the message */
+const MAX_RESULT_CHARS = 16_000;
+
+export interface ToolLoopOptions {
+  provider: ChatProvider;
+  /** The request as served by the provider, including the model and tools */
+  request: ProviderChatRequest;
+  /** The first round, already started (e.g. by streamWithFailover) */
+  events: AsyncIterable<ProviderEvent>;
+  context: ToolContext;
+  maxRounds?: number;
+}
+
+function serializeResult(result: unknown): { stored: unknown; prompt: string } {
+  const json = JSON.stringify(result ?? null);
+  if (json.length <= MAX_RESULT_CHARS) {
+    // Round-trip so only JSON data (no undefined, Dates, class instances) is stored
+    return { stored: JSON.parse(json), prompt: json };
+  }
+  const truncated = `${json.slice(0, MAX_RESULT_CHARS)}… [truncated, ${json.length} characters in total]`;
+  return { stored: truncated, prompt: truncated };
+}
+
+async function* runTool(
+  request: ToolRequest,
+  context: ToolContext,
+  results: Record<string, string>
+): AsyncGenerator<ProviderEvent> {
+  const call: ToolCall = { id: request.id, name: request.name, arguments: request.arguments, status: 'running' };
+  yield { type: 'tool_call', toolCall: call };
+
+  try {
+    const tool = getTool(request.name);
+    if (!tool) throw new ToolError(`Unknown tool "${request.name}"`);
+
+    const args = validateArguments(tool.parameters, request.arguments);
+    const { stored, prompt } = serializeResult(await tool.execute(args, context));
+    results[request.id] = prompt;
+    yield { type: 'tool_call', toolCall: { ...call, arguments: args, status: 'complete', result: stored } };
+  } catch (error) {
+    if (context.signal.aborted) throw error;
+    if (!(error instanceof ToolError)) {
+      console.error(`🛠️ Tool ${request.name} failed:`, error);
+    }
+    const message = (error as Error).message || 'The tool failed';
+    results[request.id] = JSON.stringify({ error: message });
+    yield { type: 'tool_call', toolCall: { ...call, status: 'error', error: message } };
+  }
+}
+
+function addUsage(total: TokenUsage, usage?: TokenUsage): void {
+  if (!usage) return;
+  (['inputTokens', 'outputTokens', 'totalTokens'] as const).forEach(key => {
+    if (typeof usage[key] === 'number') total[key] = (total[key] || 0) + usage[key]!;
+  });
+}
+
+/**
+ * Wrap a provider stream with the tool loop. Yields the model's output,
+ * `tool_call` progress for each invocation, and a single `finish` with the
+ * usage of every round.
+ */
+export async function* runToolLoop(options: ToolLoopOptions): AsyncGenerator<ProviderEvent> {
+  const { provider, request, context } = options;
+  const maxRounds = options.maxRounds ?? MAX_TOOL_ROUNDS;
+  const toolTurns: ToolTurn[] = [];
+  const usage: TokenUsage = {};
+  const seenIds = new Set<string>();
+  let events = options.events;
+
+  for (let round = 1; ; round++) {
+    let text = '';
+    let finishReason: string | undefined;
+    const calls: ToolRequest[] = [];
+
+    for await (const event of events) {
+      if (event.type === 'tool_request') {
+        // Some providers number calls per response; ids must be unique across the reply
+        const id = seenIds.has(event.request.id) ? `${event.request.id}_${round}` : event.request.id;
+        seenIds.add(id);
+        calls.push({ ...event.request, id });
+      } else if (event.type === 'finish') {
+        finishReason = event.finishReason;
+        addUsage(usage, event.usage);
+      } else {
+        if (event.type === 'delta') text += event.content;
+        yield event;
+      }
+    }
+
+    if (calls.length === 0 || round >= maxRounds) {
+      if (calls.length > 0) {
+        console.warn(`🛠️ Round ${round} still called ${calls.map(call => call.name).join(', ')}; stopping at the round limit`);
+        finishReason = 'tool_limit';
+      }
+      yield { type: 'finish', finishReason, usage: Object.keys(usage).length > 0 ? usage : undefined };
+      return;
+    }
+
+    console.log(`🛠️ Round ${round}: ${calls.map(call => call.name).join(', ')}`);
+
+    const results: Record<string, string> = {};
+    for (const call of calls) {
+      yield* runTool(call, context, results);
+    }
+    toolTurns.push({ text, calls, results });
+
+    events = await provider.streamChat({
+      ...request,
+      toolTurns: [...toolTurns],
+      toolChoice: round + 1 >= maxRounds ? 'none' : 'auto',
+    });
+  }
+}
@@ -0,0 +1,39 @@
+// src/lib/tools/registry.ts - Tool registry keyed by tool name
+
+import type { ToolSpec } from '../providers';
+import { ToolContext, ToolDefinition } from './types';
+
+const tools = new Map<string, ToolDefinition<any>>();
+
+/**
+ * Register a tool. Registering an existing name replaces it.
+ */
+export function registerTool<Args>(tool: ToolDefinition<Args>): void {
+  if (!/^[a-zA-Z0-9_]{1,64}$/.test(tool.name)) {
+    throw new Error(`Invalid tool name "${tool.name}" (letters, digits and underscores only)`);
+  }
+  tools.set(tool.name, tool);
+}
+
+/**
+ * Look up a tool by name
+ */
+export function getTool(name: string): ToolDefinition | undefined {
+  return tools.get(name);
+}
+
+/**
+ * All registered tools, in registration order
+ */
+export function listTools(): ToolDefinition[] {
+  return Array.from(tools.values());
+}
+
+/**
+ * Specs for the tools that make sense for this request, as sent to providers
+ */
+export function toolSpecsFor(context: ToolContext): ToolSpec[] {
+  return listTools()
+    .filter(tool => tool.isAvailable?.(context) ?? true)
+    .map(({ name, description, parameters }) => ({ name, description, parameters }));
+}
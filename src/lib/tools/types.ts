@@ -0,0 +1,51 @@
+// src/lib/tools/types.ts - Shared types for server-side tools
+
+import type { JSONSchema } from '../providers';
+
+/** A file the user made available to this message */
+export interface ToolFile {
+  name: string;
+  url: string;
+  contentType?: string;
+  /** Attached to the message, or one of the active context files */
+  source: 'upload' | 'context';
+}
+
+/** What a tool may know about the request it runs for */
+export interface ToolContext {
+  userId: string;
+  /** Project of the chat; null for chats outside any project */
+  projectId: string | null;
+  files: ToolFile[];
+  signal: AbortSignal;
+}
+
+/** JSON Schema for an object whose properties are the tool's arguments */
+export interface ToolParameters extends JSONSchema {
+  type: 'object';
+  properties: Record<string, JSONSchema>;
+}
+
+/**
+ * A function the model can call. `Args` is the shape `parameters`
+ * describes; arguments are validated against the schema before `execute`.
+ */
+export interface ToolDefinition<Args = Record<string, unknown>> {
+  /** Name the model calls the tool by: letters, digits and underscores */
+  name: string;
+  /** Tells the model when and how to use the tool */
+  description: string;
+  parameters: ToolParameters;
+  /** Whether the tool makes sense for this request (default: always) */
+  isAvailable?(context: ToolContext): boolean;
+  /** Must return JSON-serializable data */
+  execute(args: Args, context: ToolContext): Promise<unknown>;
+}
+
+/** A tool failure the model should see, e.g. a bad argument */
+export class ToolError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ToolError';
+  }
+}
@@ -0,0 +1,105 @@
+// src/lib/tools/validate.ts - Check model-supplied arguments against a tool's schema
+
+import type { JSONSchema } from '../providers';
+import { ToolError } from './types';
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  return Array.isArray(value) ? 'array' : typeof value;
+}
+
+/**
+ * Validate one value, returning it with light coercion applied: models
+ * often send numbers and booleans as strings.
+ */
+function validateValue(schema: JSONSchema, value: unknown, path: string): unknown {
+  let result = value;
+
+  switch (schema.type) {
+    case 'number':
+    case 'integer':
+      if (typeof result === 'string' && result.trim() !== '' && !isNaN(Number(result))) {
+        result = Number(result);
+      }
+      if (typeof result !== 'number' || !isFinite(result)) {
+        throw new ToolError(`${path} must be a number, got ${describe(value)}`);
+      }
+      if (schema.type === 'integer' && !Number.isInteger(result)) {
+        throw new ToolError(`${path} must be an integer`);
+      }
+      break;
+
+    case 'boolean':
+      if (result === 'true' || result === 'false') result = result === 'true';
+      if (typeof result !== 'boolean') {
+        throw new ToolError(`${path} must be a boolean, got ${describe(value)}`);
+      }
+      break;
+
+    case 'string':
+      if (typeof result === 'number' || typeof result === 'boolean') result = String(result);
+      if (typeof result !== 'string') {
+        throw new ToolError(`${path} must be a string, got ${describe(value)}`);
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(result)) {
+        throw new ToolError(`${path} must be an array, got ${describe(value)}`);
+      }
+      if (schema.items) {
+        const items = schema.items;
+        result = result.map((item, i) => validateValue(items, item, `${path}[${i}]`));
+      }
+      break;
+
+    case 'object':
+      result = validateObject(schema, result, path);
+      break;
+  }
+
+  if (schema.enum && !schema.enum.includes(result as string | number)) {
+    throw new ToolError(`${path} must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}`);
+  }
+
+  return result;
+}
+
+function validateObject(schema: JSONSchema, value: unknown, path: string): Record<string, unknown> {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    throw new ToolError(`${path} must be an object, got ${describe(value)}`);
+  }
+
+  const input = value as Record<string, unknown>;
+  const properties = schema.properties || {};
+  const result: Record<string, unknown> = {};
+
+  (schema.required || []).forEach(key => {
+    if (input[key] === undefined || input[key] === null) {
+      throw new ToolError(`${path}.${key} is required`);
+    }
+  });
+
+  Object.entries(input).forEach(([key, item]) => {
+    // Models send null for optional arguments they don't use
+    if (item === undefined || item === null) return;
+    const property = properties[key];
+    if (!property) {
+      if (schema.additionalProperties === false) {
+        throw new ToolError(`${path}.${key} is not a known argument`);
+      }
+      return;
+    }
+    result[key] = validateValue(property, item, `${path}.${key}`);
+  });
+
+  return result;
+}
+
+/**
+ * Validate tool arguments against the tool's parameter schema. Throws a
+ * ToolError naming the offending argument; unknown arguments are dropped.
+ */
+export function validateArguments(schema: JSONSchema, args: unknown): Record<string, unknown> {
+  return validateObject(schema, args ?? {}, 'arguments');
+}
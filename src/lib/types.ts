@@ -1,9 +1,96 @@
 // src/lib/types.ts
 
+export type Attachment = {
+  name: string;
+  url: string;
+  mimeType: string;
+  /** Size in bytes */
+  size: number;
+};
+
+export type TokenUsage = {
+  inputTokens?: number;
+  outputTokens?: number;
+  totalTokens?: number;
+};
+
+/** A source the reply drew on: a context file chunk or a web page */
+export type Citation = {
+  id: string;
+  title: string;
+  url?: string;
+  /** Where in the source, e.g. "page 4" */
+  location?: string;
+  snippet?: string;
+};
+
+export type ToolCallStatus = "running" | "complete" | "error";
+
+export type ToolCall = {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+  status: ToolCallStatus;
+  result?: unknown;
+  error?: string;
+};
+
+export type SandboxLanguage = "javascript" | "typescript" | "python";
+
+/** A code block from a reply, run in the browser sandbox */
+export type CodeRun = {
+  id: string;
+  language: SandboxLanguage;
+  code: string;
+  stdout: string;
+  stderr: string;
+  /** 0 on success; 124 when the time limit was hit, 130 when stopped */
+  exitCode: number;
+  timedOut?: boolean;
+  durationMs: number;
+  ranAt: number;
+};
+
+/** Why a reply was sent to its lane */
+export type RoutingInfo = {
+  lane: string;
+  /** "selected" when the user picked the model; otherwise how auto mode decided */
+  source: "selected" | "rules" | "llm";
+  /** 0 to 1 */
+  confidence: number;
+  reasons: string[];
+};
+
+/** Lifecycle of an AI reply generated (and persisted) server-side */
+export type MessageStatus = "streaming" | "complete" | "aborted";
+
 export type Message = {
   id: string;
   text: string;
   sender: "user" | "ai";
+  attachments?: Attachment[];
+  /** Model that produced an AI reply (from the X-Model-Used header) */
+  model?: string;
+  /** Provider id that served an AI reply (from the X-Provider header) */
+  provider?: string;
+  /** Model lane that served an AI reply, e.g. "coding" */
+  lane?: string;
+  routing?: RoutingInfo;
+  usage?: TokenUsage;
+  /** Time from request to last token, in milliseconds */
+  latencyMs?: number;
+  finishReason?: string;
+  /** Model's visible reasoning, streamed before or alongside the answer */
+  reasoning?: string;
+  citations?: Citation[];
+  toolCalls?: ToolCall[];
+  /** Sandbox runs of this reply's code blocks; shown to the model on the next turn */
+  codeRuns?: CodeRun[];
+  /** Set on server-persisted replies; "streaming" while text is still growing */
+  status?: MessageStatus;
+  /** Message this one replies to; null for the first message of a chat */
+  parentId?: string | null;
+  timestamp?: number;
 };
 
 export type Chat = {
@@ -11,4 +98,33 @@ export type Chat = {
   title: string;
   messages: Message[];
   timestamp: number;
-};
\ No newline at end of file
+  /** Persona whose instructions and defaults the chat uses */
+  personaId?: string | null;
+  /** Project the chat belongs to; null for chats outside any project */
+  projectId?: string | null;
+};
+
+/** A workspace owning a set of chats and context files */
+export type Project = {
+  id: string;
+  name: string;
+  /** Added to the system prompt of every reply in the project's chats */
+  instructions: string;
+  createdAt: number;
+  updatedAt: number;
+};
+
+/** Saved custom instructions and defaults, switchable per chat */
+export type Persona = {
+  id: string;
+  name: string;
+  /** Added to the system prompt of every reply in chats using the persona */
+  instructions: string;
+  /** Model catalog id selected when a chat switches to the persona */
+  model?: string;
+  temperature?: number;
+  /** Context files searched on every message, whether or not context is toggled on */
+  contextFileIds: string[];
+  createdAt: number;
+  updatedAt: number;
+};
@@ -0,0 +1,19 @@
+// src/lib/usage/index.ts - Token usage metering, cost estimates and quotas
+
+export { meterEvents, checkQuota, getUsageSummary, quotaHeaders, quotaExceededMessage } from './meter';
+export type { MeterContext } from './meter';
+export { recordUsage, loadUsagePeriods } from './store';
+export { tierFromClaims, getTokenQuota, quotaStatus, USAGE_TIERS } from './quotas';
+export { estimateCost, modelPrice } from './pricing';
+export type { ModelPrice } from './pricing';
+export type {
+  UsageTier,
+  UsageRecord,
+  UsageTotals,
+  ModelUsage,
+  UsagePeriod,
+  TokenQuota,
+  QuotaWindow,
+  QuotaStatus,
+  UsageSummary,
+} from './types';
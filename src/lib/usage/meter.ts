@@ -0,0 +1,96 @@
+// src/lib/usage/meter.ts - Meter replies as they stream and check quotas
+
+import type { ProviderEvent, TokenUsage } from '../providers';
+import { estimateTokens } from '../tokens/estimate';
+import { estimateCost } from './pricing';
+import { quotaStatus } from './quotas';
+import { emptyPeriod, loadUsagePeriods, recordUsage } from './store';
+import { dayKey, monthKey } from './periods';
+import { QuotaStatus, QuotaWindow, UsageSummary, UsageTier } from './types';
+
+export interface MeterContext {
+  userId: string;
+  route: string;
+  model: string;
+  provider: string;
+  /** Prompt size counted before sending, used when the provider reports none */
+  promptTokens: number;
+  files: number;
+}
+
+/**
+ * Pass a reply's events through unchanged and record its usage once the
+ * stream ends, whether it finished, failed or was stopped. Provider-reported
+ * token counts are used when present.
+ */
+export async function* meterEvents(events: AsyncIterable<ProviderEvent>, context: MeterContext): AsyncGenerator<ProviderEvent> {
+  let output = '';
+  let reported: TokenUsage | undefined;
+
+  try {
+    for await (const event of events) {
+      if (event.type === 'delta' || event.type === 'reasoning') output += event.content;
+      if (event.type === 'finish' && event.usage) reported = event.usage;
+      yield event;
+    }
+  } finally {
+    const inputTokens = reported?.inputTokens ?? context.promptTokens;
+    const outputTokens = reported?.outputTokens ?? estimateTokens(output);
+
+    try {
+      await recordUsage(context.userId, {
+        route: context.route,
+        model: context.model,
+        provider: context.provider,
+        inputTokens,
+        outputTokens,
+        files: context.files,
+        costUsd: estimateCost(context.model, inputTokens, outputTokens),
+        estimated: reported?.inputTokens === undefined || reported?.outputTokens === undefined,
+      });
+    } catch (error) {
+      console.error('⚠️ Failed to record usage:', error);
+    }
+  }
+}
+
+/**
+ * The user's quota status. If usage can't be read the request is allowed,
+ * like the rate limiter does when Redis is down.
+ */
+export async function checkQuota(userId: string, tier: UsageTier): Promise<QuotaStatus> {
+  try {
+    return quotaStatus(tier, await loadUsagePeriods(userId));
+  } catch (error) {
+    console.error('⚠️ Usage check failed, allowing request:', error);
+    return quotaStatus(tier, { today: emptyPeriod(dayKey()), month: emptyPeriod(monthKey()) });
+  }
+}
+
+export async function getUsageSummary(userId: string, tier: UsageTier): Promise<UsageSummary> {
+  const usage = await loadUsagePeriods(userId);
+  return { quota: quotaStatus(tier, usage), ...usage };
+}
+
+/** Headers describing the remaining quota, sent with chat responses */
+export function quotaHeaders(status: QuotaStatus): Record<string, string> {
+  // Report whichever window runs out first
+  const remaining = (window: QuotaWindow) => window.limit - window.used;
+  const window = remaining(status.monthly) < remaining(status.daily) ? status.monthly : status.daily;
+  const headers: Record<string, string> = {
+    'X-Quota-Tier': status.tier,
+    'X-Quota-Limit': window.limit.toString(),
+    'X-Quota-Remaining': Math.max(0, window.limit - window.used).toString(),
+    'X-Quota-Reset': Math.ceil(window.resetAt / 1000).toString(),
+  };
+  if (!status.allowed) {
+    headers['Retry-After'] = Math.max(1, Math.ceil((window.resetAt - Date.now()) / 1000)).toString();
+  }
+  return headers;
+}
+
+export function quotaExceededMessage(status: QuotaStatus): string {
+  const window = status.exceeded === 'monthly' ? status.monthly : status.daily;
+  const reset = new Date(window.resetAt).toISOString().replace('T', ' ').slice(0, 16);
+  return `${status.exceeded === 'monthly' ? 'Monthly' : 'Daily'} token quota reached (${window.used.toLocaleString('en-US')} of ${window.limit.toLocaleString('en-US')} on the ${status.tier} plan). It resets at ${reset} UTC.`;
+}
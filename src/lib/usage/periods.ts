@@ -0,0 +1,23 @@
+// src/lib/usage/periods.ts - UTC day and month keys for usage counters
+
+/** "2026-10-19" */
+export function dayKey(at: number = Date.now()): string {
+  return new Date(at).toISOString().slice(0, 10);
+}
+
+/** "2026-10" */
+export function monthKey(at: number = Date.now()): string {
+  return new Date(at).toISOString().slice(0, 7);
+}
+
+/** Start of the next UTC day */
+export function nextDayStart(at: number = Date.now()): number {
+  const date = new Date(at);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + 1);
+}
+
+/** Start of the next UTC month */
+export function nextMonthStart(at: number = Date.now()): number {
+  const date = new Date(at);
+  return Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+}
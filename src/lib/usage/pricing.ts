@@ -0,0 +1,55 @@
+// src/lib/usage/pricing.ts - Estimated cost of a request from its token counts
+//
+// Prices are list prices in USD per million tokens and only feed the usage
+// panel; they are not billing. Override or extend them with
+// USAGE_MODEL_PRICES, e.g. {"my-finetune": {"input": 0.2, "output": 0.6}},
+// where each key is a case-insensitive pattern matched against the model id.
+
+export interface ModelPrice {
+  /** USD per million input tokens */
+  input: number;
+  /** USD per million output tokens */
+  output: number;
+}
+
+// First match wins
+const MODEL_PRICES: { match: RegExp; price: ModelPrice }[] = [
+  // Free OpenRouter variants and self-hosted IQ1 deployments
+  { match: /:free$|(^|\/)iq1/i, price: { input: 0, output: 0 } },
+  { match: /gemini-2\.5-pro/i, price: { input: 1.25, output: 10 } },
+  { match: /gemini-2\.5-flash-lite/i, price: { input: 0.1, output: 0.4 } },
+  { match: /gemini-2\.5-flash/i, price: { input: 0.3, output: 2.5 } },
+  { match: /gemini/i, price: { input: 0.1, output: 0.4 } },
+  { match: /llama-?3\.[13]-70b|llama-3-70b/i, price: { input: 0.59, output: 0.79 } },
+  { match: /llama-?3\.1-8b|llama-3-8b/i, price: { input: 0.05, output: 0.08 } },
+  { match: /gpt-4o-mini/i, price: { input: 0.15, output: 0.6 } },
+  { match: /gpt-4o/i, price: { input: 2.5, output: 10 } },
+];
+
+/** Unknown models are priced like a mid-sized hosted model */
+const FALLBACK_PRICE: ModelPrice = { input: 0.5, output: 1.5 };
+
+function configuredPrices(): { match: RegExp; price: ModelPrice }[] {
+  const json = process.env.USAGE_MODEL_PRICES;
+  if (!json) return [];
+
+  try {
+    return Object.entries(JSON.parse(json) as Record<string, ModelPrice>)
+      .filter(([, price]) => typeof price?.input === 'number' && typeof price?.output === 'number')
+      .map(([pattern, price]) => ({ match: new RegExp(pattern, 'i'), price }));
+  } catch (error) {
+    console.error('⚠️ Ignoring USAGE_MODEL_PRICES:', (error as Error).message);
+    return [];
+  }
+}
+
+export function modelPrice(model: string): ModelPrice {
+  return [...configuredPrices(), ...MODEL_PRICES].find(entry => entry.match.test(model))?.price ?? FALLBACK_PRICE;
+}
+
+/** Cost in USD, rounded to a millionth of a dollar */
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const price = modelPrice(model);
+  const cost = (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
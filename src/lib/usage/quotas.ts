@@ -0,0 +1,56 @@
+// src/lib/usage/quotas.ts - Daily and monthly token quotas by tier
+//
+// A user's tier comes from the `tier` custom claim on their ID token (set
+// with the Admin SDK), so clients can't raise their own quota. Defaults can
+// be replaced per tier with USAGE_QUOTAS, e.g.
+// {"free": {"dailyTokens": 100000, "monthlyTokens": 2000000}}.
+
+import { QuotaStatus, TokenQuota, UsagePeriod, UsageTier } from './types';
+import { nextDayStart, nextMonthStart } from './periods';
+
+export const USAGE_TIERS: UsageTier[] = ['free', 'basic', 'pro', 'enterprise'];
+
+const DEFAULT_QUOTAS: Record<UsageTier, TokenQuota> = {
+  free: { dailyTokens: 200_000, monthlyTokens: 3_000_000 },
+  basic: { dailyTokens: 1_000_000, monthlyTokens: 20_000_000 },
+  pro: { dailyTokens: 5_000_000, monthlyTokens: 100_000_000 },
+  enterprise: { dailyTokens: 50_000_000, monthlyTokens: 1_000_000_000 },
+};
+
+/** Tier from decoded ID token claims; anything unrecognised is "free" */
+export function tierFromClaims(claims: Record<string, unknown>): UsageTier {
+  const tier = claims.tier;
+  return USAGE_TIERS.includes(tier as UsageTier) ? tier as UsageTier : 'free';
+}
+
+export function getTokenQuota(tier: UsageTier): TokenQuota {
+  const json = process.env.USAGE_QUOTAS;
+  if (json) {
+    try {
+      const override = (JSON.parse(json) as Partial<Record<UsageTier, Partial<TokenQuota>>>)[tier];
+      if (override) return { ...DEFAULT_QUOTAS[tier], ...override };
+    } catch (error) {
+      console.error('⚠️ Ignoring USAGE_QUOTAS:', (error as Error).message);
+    }
+  }
+  return DEFAULT_QUOTAS[tier];
+}
+
+const tokensIn = (period: UsagePeriod) => period.inputTokens + period.outputTokens;
+
+/**
+ * Whether a user still has quota, given today's and this month's usage.
+ * Checked before a request, so the request that crosses a limit completes.
+ */
+export function quotaStatus(
+  tier: UsageTier,
+  usage: { today: UsagePeriod; month: UsagePeriod },
+  at: number = Date.now()
+): QuotaStatus {
+  const quota = getTokenQuota(tier);
+  const daily = { used: tokensIn(usage.today), limit: quota.dailyTokens, resetAt: nextDayStart(at) };
+  const monthly = { used: tokensIn(usage.month), limit: quota.monthlyTokens, resetAt: nextMonthStart(at) };
+
+  const exceeded = monthly.used >= monthly.limit ? 'monthly' : daily.used >= daily.limit ? 'daily' : undefined;
+  return { tier, allowed: !exceeded, ...(exceeded && { exceeded }), daily, monthly };
+}
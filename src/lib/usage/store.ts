@@ -0,0 +1,83 @@
+// src/lib/usage/store.ts - Usage counters in Firestore (firebase-admin)
+//
+// Every request adds a document to usage/{uid}/events and increments two
+// counters in usage/{uid}/periods: "day-2026-10-19" and "month-2026-10".
+// Counters keep per-model totals in a `models` map so the panel can break
+// usage down without reading the events. They live outside users/{uid},
+// which the client writes directly, so only the server can change the
+// numbers quotas are checked against.
+
+import { admin, adminDb } from '../firebase-admin';
+import { ModelUsage, UsagePeriod, UsageRecord, UsageTotals } from './types';
+import { dayKey, monthKey } from './periods';
+
+const usageRef = (userId: string) => adminDb.collection('usage').doc(userId).collection('periods');
+const eventsRef = (userId: string) => adminDb.collection('usage').doc(userId).collection('events');
+
+const dayDocId = (at: number) => `day-${dayKey(at)}`;
+const monthDocId = (at: number) => `month-${monthKey(at)}`;
+
+// Map keys are field names, so keep them to characters Firestore paths accept unquoted
+const modelKey = (provider: string, model: string) => `${provider}__${model}`.replace(/[^\w-]/g, '_');
+
+const num = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : 0);
+
+function totalsFrom(data: Record<string, any> | undefined): UsageTotals {
+  return {
+    requests: num(data?.requests),
+    inputTokens: num(data?.inputTokens),
+    outputTokens: num(data?.outputTokens),
+    files: num(data?.files),
+    costUsd: Math.round(num(data?.costUsd) * 1_000_000) / 1_000_000,
+  };
+}
+
+function periodFrom(period: string, data: Record<string, any> | undefined): UsagePeriod {
+  const models = (data?.models ?? {}) as Record<string, Record<string, any>>;
+  const byModel: ModelUsage[] = Object.values(models)
+    .map(entry => ({ model: String(entry.model ?? ''), provider: String(entry.provider ?? ''), ...totalsFrom(entry) }))
+    .sort((a, b) => (b.inputTokens + b.outputTokens) - (a.inputTokens + a.outputTokens));
+  return { period, ...totalsFrom(data), byModel };
+}
+
+/** Totals for a period with no usage yet */
+export const emptyPeriod = (period: string): UsagePeriod => periodFrom(period, undefined);
+
+/**
+ * Store one request's usage and add it to the day and month counters
+ */
+export async function recordUsage(userId: string, record: UsageRecord, at: number = Date.now()): Promise<void> {
+  const { increment } = admin.firestore.FieldValue;
+  const amounts = {
+    requests: increment(1),
+    inputTokens: increment(record.inputTokens),
+    outputTokens: increment(record.outputTokens),
+    files: increment(record.files),
+    costUsd: increment(record.costUsd),
+  };
+  const counter = (period: string) => ({
+    period,
+    ...amounts,
+    models: {
+      [modelKey(record.provider, record.model)]: { model: record.model, provider: record.provider, ...amounts },
+    },
+    updatedAt: at,
+  });
+
+  const batch = adminDb.batch();
+  batch.set(eventsRef(userId).doc(), { ...record, at });
+  batch.set(usageRef(userId).doc(dayDocId(at)), counter(dayKey(at)), { merge: true });
+  batch.set(usageRef(userId).doc(monthDocId(at)), counter(monthKey(at)), { merge: true });
+  await batch.commit();
+}
+
+/**
+ * Today's and this month's totals
+ */
+export async function loadUsagePeriods(userId: string, at: number = Date.now()): Promise<{ today: UsagePeriod; month: UsagePeriod }> {
+  const [day, month] = await adminDb.getAll(usageRef(userId).doc(dayDocId(at)), usageRef(userId).doc(monthDocId(at)));
+  return {
+    today: periodFrom(dayKey(at), day.data()),
+    month: periodFrom(monthKey(at), month.data()),
+  };
+}
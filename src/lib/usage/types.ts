@@ -0,0 +1,68 @@
+// src/lib/usage/types.ts - Shared types for usage metering and quotas
+
+/** Plans, as set in the user's `tier` custom claim */
+export type UsageTier = 'free' | 'basic' | 'pro' | 'enterprise';
+
+/** What one request consumed */
+export interface UsageRecord {
+  /** API route that served the request, e.g. "/api/chat" */
+  route: string;
+  model: string;
+  provider: string;
+  inputTokens: number;
+  outputTokens: number;
+  /** Attachments extracted for the request */
+  files: number;
+  costUsd: number;
+  /** True when the provider reported no usage and tokens were counted locally */
+  estimated: boolean;
+}
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  files: number;
+  costUsd: number;
+}
+
+export interface ModelUsage extends UsageTotals {
+  model: string;
+  provider: string;
+}
+
+/** Totals for one day or month (UTC) */
+export interface UsagePeriod extends UsageTotals {
+  /** "2026-10-19" for a day, "2026-10" for a month */
+  period: string;
+  byModel: ModelUsage[];
+}
+
+export interface TokenQuota {
+  dailyTokens: number;
+  monthlyTokens: number;
+}
+
+export interface QuotaWindow {
+  /** Input plus output tokens used so far */
+  used: number;
+  limit: number;
+  /** When the window starts over (ms since epoch) */
+  resetAt: number;
+}
+
+export interface QuotaStatus {
+  tier: UsageTier;
+  allowed: boolean;
+  /** The window that ran out, when not allowed */
+  exceeded?: 'daily' | 'monthly';
+  daily: QuotaWindow;
+  monthly: QuotaWindow;
+}
+
+/** Response of GET /api/usage */
+export interface UsageSummary {
+  quota: QuotaStatus;
+  today: UsagePeriod;
+  month: UsagePeriod;
+}